@@ -0,0 +1,149 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { db, playerViewRef } from './firestore';
+import { runGameAction } from './gameActions';
+import { acceptRematch } from './roomLifecycle';
+import { appendRoomEvents } from './roomEvents';
+import { chooseBotAction } from '@/services/botPlayer';
+import { BOT_DIFFICULTIES } from '@/config/gameConfig';
+import { roomLogger } from '@/lib/utils/logger';
+import type { BotDifficulty, FirestorePlayerView, FirestoreRoom, FirestoreUser, RoomBot } from '@/types';
+
+const roomRef = (roomCode: string) => db.collection('rooms').doc(roomCode);
+const userRef = (userId: string) => db.collection('users').doc(userId);
+
+/**
+ * Gets the bot player ID of a room (one bot per room, kept by its rematches)
+ * A bot per room keeps its users document's current_room pointing at that room
+ * even when the same host plays other bot rooms
+ */
+const getBotId = (roomCode: string): string => `bot-${roomCode}`;
+
+/**
+ * Adds a bot opponent to the second seat of a waiting room (creator only)
+ * The bot is a regular player of the room backed by a users document marked is_bot,
+ * so starting, rematches and series work as with a human opponent
+ * @param userId - The ID of the room creator
+ * @param roomCode - The waiting room code
+ * @param difficulty - How the bot plays (see botPlayer)
+ * @returns Promise that resolves when the bot has joined
+ * @throws Error if the room is not waiting for a second player or the caller is not its creator
+ */
+export const addBot = async (userId: string, roomCode: string, difficulty: BotDifficulty): Promise<void> => {
+  roomLogger.info('User adding bot to room', { userId, roomCode, difficulty });
+
+  try {
+    if (!(difficulty in BOT_DIFFICULTIES)) {
+      throw new Error('Dificultad de bot inválida.');
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const roomSnap = await transaction.get(roomRef(roomCode));
+      if (!roomSnap.exists) {
+        throw new Error('La sala no existe.');
+      }
+
+      const roomData = roomSnap.data() as FirestoreRoom;
+
+      if (roomData.order_players[0] !== userId) {
+        throw new Error('Solo el creador de la sala puede añadir un bot.');
+      }
+
+      if (roomData.status !== 'waiting') {
+        throw new Error('La partida ya ha comenzado.');
+      }
+
+      if (roomData.order_players.length !== 1) {
+        throw new Error('La sala ya tiene dos jugadores.');
+      }
+
+      const bot: RoomBot = { id: getBotId(roomCode), difficulty };
+      const botUser: FirestoreUser = {
+        email: '',
+        name: `Bot (${BOT_DIFFICULTIES[difficulty].name})`,
+        current_room: roomCode,
+        is_bot: true
+      };
+
+      const now = Timestamp.now();
+      transaction.set(userRef(bot.id), botUser, { merge: true });
+      transaction.update(roomRef(roomCode), {
+        [`players.${bot.id}`]: {
+          integrity: 0,
+          items: []
+        },
+        order_players: [...roomData.order_players, bot.id],
+        bot,
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [{ type: 'PlayerJoined', userId: bot.id }], now);
+
+      roomLogger.info('Bot joined room', { roomCode, botId: bot.id, difficulty });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to add bot', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error adding bot', { userId, roomCode, error });
+    throw new Error('Error al añadir el bot.');
+  }
+};
+
+/**
+ * Plays the bot's pending move in a room, requested by its human opponent's browser
+ * - playing: chooses the action from the public room and the bot's own view, and applies it
+ *   like any other game action (the engine validates it again)
+ * - finished: accepts the human's rematch proposal
+ * Does nothing when the bot has nothing to do, so repeated requests are harmless
+ * @param userId - The ID of the human player in the room
+ * @param roomCode - The room code
+ * @returns Promise that resolves when the move is applied
+ * @throws Error if the room has no bot or the caller is not its human player
+ */
+export const playBotTurn = async (userId: string, roomCode: string): Promise<void> => {
+  try {
+    const roomSnap = await roomRef(roomCode).get();
+    if (!roomSnap.exists) {
+      throw new Error('La sala no existe.');
+    }
+
+    const roomData = roomSnap.data() as FirestoreRoom;
+
+    if (!roomData.bot) {
+      throw new Error('Esta sala no tiene un bot.');
+    }
+
+    if (userId === roomData.bot.id || !roomData.order_players.includes(userId)) {
+      throw new Error('No eres parte de esta partida.');
+    }
+
+    const botId = roomData.bot.id;
+
+    if (roomData.status === 'finished') {
+      if (roomData.rematch_requested_by === userId && !roomData.rematch_room) {
+        await acceptRematch(botId, roomCode);
+      }
+      return;
+    }
+
+    const viewSnap = await playerViewRef(roomCode, botId).get();
+    const view = viewSnap.exists ? viewSnap.data() as FirestorePlayerView : null;
+    const action = chooseBotAction(roomData, view, botId, roomData.bot.difficulty);
+
+    if (!action) {
+      return;
+    }
+
+    roomLogger.debug('Bot playing turn', { roomCode, botId, type: action.type });
+    await runGameAction(roomCode, action);
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to play bot turn', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error playing bot turn', { userId, roomCode, error });
+    throw new Error('Error al jugar el turno del bot.');
+  }
+};
@@ -0,0 +1,174 @@
+import type { Transaction } from 'firebase-admin/firestore';
+import { randomBytes } from 'node:crypto';
+import { deckRepository, secretDeckRef } from './firestore';
+import { buildGameDeck, getRoomDeckId } from '@/services/deckService';
+import { getRuleset, initializeTableCards } from '@/services/gameEngine';
+import { toPublicCard } from '@/services/hiddenDeck';
+import { getMinMemories } from '@/lib/validations/deck';
+import { roomLogger } from '@/lib/utils/logger';
+import type { FirestoreDeck, FirestoreRoom, FirestoreRoomSecret, MemoryCard, RoomDeck, Ruleset } from '@/types';
+
+// Cache of catalog deck data to avoid repeated Firestore calls, per deck (per function instance)
+// Private decks are always read fresh: their owners edit them in place
+const deckCache = new Map<string, { deck: FirestoreDeck; timestamp: number }>();
+const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+
+// Random bytes in a deal seed: as many as the seeded generator's state, so it can't be brute-forced
+const DEAL_SEED_BYTES = 16;
+
+/**
+ * Generates a seed for a new deal (128 bits from a cryptographically secure source, as hex)
+ */
+const generateDealSeed = (): string => randomBytes(DEAL_SEED_BYTES).toString('hex');
+
+/**
+ * Fetches a deck from Firestore, with caching for catalog decks
+ * @param deckId - The deck ID
+ * @param ownerId - Owner of a private deck (users/{ownerId}/decks/{deckId}); catalog deck (decks/{deckId}) when omitted
+ * @returns Promise with the deck and its memories
+ * @throws Error if deck doesn't exist or is invalid
+ */
+async function fetchDeck(deckId: string, ownerId?: string): Promise<FirestoreDeck> {
+  if (ownerId) {
+    roomLogger.info('Fetching private deck from Firestore', { deckId, ownerId });
+    return deckRepository.get(deckId, ownerId);
+  }
+
+  const now = Date.now();
+  const cached = deckCache.get(deckId);
+
+  // Return cached data if still valid
+  if (cached && (now - cached.timestamp) < CACHE_DURATION_MS) {
+    roomLogger.debug('Using cached deck', {
+      deckId,
+      cacheAge: Math.floor((now - cached.timestamp) / 1000),
+      totalMemories: cached.deck.memories.length
+    });
+    return cached.deck;
+  }
+
+  roomLogger.info('Fetching deck from Firestore', { deckId });
+
+  const deck = await deckRepository.get(deckId);
+
+  // Update cache
+  deckCache.set(deckId, { deck, timestamp: now });
+
+  roomLogger.info('Deck fetched and cached', {
+    deckId,
+    version: deck.version,
+    totalMemories: deck.memories.length,
+    cacheExpiry: CACHE_DURATION_MS / 1000 / 60
+  });
+
+  return deck;
+}
+
+/**
+ * Checks that a deck has enough memories to deal a ruleset
+ * @throws Error (in Spanish, shown to the room creator) naming the deck and the memories missing
+ */
+const assertDeckFits = (deck: FirestoreDeck, ruleset: Ruleset): void => {
+  const minMemories = getMinMemories(ruleset);
+  if (deck.size < minMemories) {
+    throw new Error(`El mazo "${deck.name}" tiene ${deck.size} recuerdos y las reglas piden ${minMemories}.`);
+  }
+};
+
+/**
+ * Checks a deck picked for a room: it must exist and have enough memories for the room's rules
+ * @param deckId - The deck ID
+ * @param ruleset - The room's ruleset
+ * @param ownerId - Owner of a private deck (only the room creator can pick their own decks)
+ * @returns Promise with the deck reference to store on the room (with its current version)
+ * @throws Error (in Spanish, shown to the room creator) if the deck can't be used
+ */
+export const pickRoomDeck = async (deckId: string, ruleset: Ruleset, ownerId?: string): Promise<RoomDeck> => {
+  if (typeof deckId !== 'string' || deckId.length === 0) {
+    throw new Error('Mazo inválido.');
+  }
+
+  let deck: FirestoreDeck;
+  try {
+    deck = await fetchDeck(deckId, ownerId);
+  } catch (error) {
+    roomLogger.warn('Picked deck is not usable', { deckId, ownerId, error });
+    throw new Error('El mazo no existe o está vacío.');
+  }
+
+  assertDeckFits(deck, ruleset);
+
+  return { id: deckId, version: deck.version, ...(ownerId && { owner_id: ownerId }) };
+};
+
+/**
+ * Generates a random deck of memory cards for a game room
+ * Fetches the memories of the deck and assigns random authenticity from a seed,
+ * so the same deck version and seed always deal the same cards
+ * @param deckId - The deck to draw from
+ * @param ruleset - Ruleset with the deck size, authenticity distribution and point values
+ * @param options - ownerId: owner of a private deck (catalog deck when omitted);
+ *   seed: seed to deal with (a new random one when omitted)
+ * @returns Promise with the ruleset.deckSize memory cards with assigned authenticity, the deck version drawn from
+ *   and the seed used
+ * @throws Error if deck doesn't exist or has insufficient cards
+ */
+export const generateGameDeck = async (
+  deckId: string,
+  ruleset: Ruleset,
+  { ownerId, seed = generateDealSeed() }: { ownerId?: string; seed?: string } = {}
+): Promise<{ memoryDeck: MemoryCard[]; deck: RoomDeck; seed: string }> => {
+  const deck = await fetchDeck(deckId, ownerId);
+  // The deck may have been edited since it was picked
+  assertDeckFits(deck, ruleset);
+
+  return {
+    memoryDeck: buildGameDeck(deck.memories, ruleset, seed),
+    deck: { id: deckId, version: deck.version, ...(ownerId && { owner_id: ownerId }) },
+    seed
+  };
+};
+
+/**
+ * Deals the hidden deck of a room when its game begins, inside the caller's transaction
+ * The full deck goes to the secret document; the room only gets the memory text of the table cards
+ * @param transaction - The running transaction (caller reads must already be done)
+ * @param roomCode - The room code
+ * @param roomData - The room data (its deck and ruleset set the memories, deck size and distribution)
+ * The seed stays in the secret document too, until the game finishes (see gameActions.ts)
+ * @returns Promise with the dealt deck, its seed and the public room fields it sets (with the deck version dealt)
+ * @throws Error if the room's deck doesn't exist or has insufficient cards
+ */
+export const dealRoomDeck = async (
+  transaction: Transaction,
+  roomCode: string,
+  roomData: FirestoreRoom
+): Promise<{ memoryDeck: MemoryCard[]; seed: string; roomFields: Pick<FirestoreRoom, 'table_cards' | 'cards_drawn' | 'deck'> }> => {
+  const ruleset = getRuleset(roomData);
+  const { memoryDeck, deck, seed } = await generateGameDeck(getRoomDeckId(roomData), ruleset, {
+    ownerId: roomData.deck?.owner_id
+  });
+  const tableCards = initializeTableCards(memoryDeck, ruleset.tableSize);
+
+  const secret: FirestoreRoomSecret = {
+    memory_deck: memoryDeck,
+    table_cards: tableCards,
+    current_card: null,
+    peeked_cards: {},
+    deck_seed: seed
+  };
+
+  transaction.set(secretDeckRef(roomCode), secret);
+
+  roomLogger.info('Room deck dealt', { roomCode, deckId: deck.id, deckVersion: deck.version, deckSize: memoryDeck.length });
+
+  return {
+    memoryDeck,
+    seed,
+    roomFields: {
+      table_cards: tableCards.map(toPublicCard),
+      cards_drawn: ruleset.tableSize, // Cards already drawn for the table
+      deck // Version actually dealt (the deck may have been updated since it was picked)
+    }
+  };
+};
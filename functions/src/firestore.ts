@@ -0,0 +1,58 @@
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { toDeck, toDeckSummary } from '@/repositories/deckDocument';
+import type { DeckRepository } from '@/types';
+
+// Initialize Firebase Admin SDK once per instance
+// The Admin SDK talks to the Firestore emulator when FIRESTORE_EMULATOR_HOST is set
+// (set automatically by the Functions emulator, and by vitest for integration tests)
+if (getApps().length === 0) {
+  initializeApp({
+    projectId: process.env.GCLOUD_PROJECT || 'backup-deathmatch',
+  });
+}
+
+export const db = getFirestore();
+
+/**
+ * Gets the reference to a room's secret document (hidden deck)
+ * @param roomCode - The room code
+ */
+export const secretDeckRef = (roomCode: string) =>
+  db.collection('rooms').doc(roomCode).collection('secret').doc('deck');
+
+/**
+ * Gets the reference to a player's view of a room (cards revealed to that player)
+ * @param roomCode - The room code
+ * @param userId - The player
+ */
+export const playerViewRef = (roomCode: string, userId: string) =>
+  db.collection('rooms').doc(roomCode).collection('views').doc(userId);
+
+/**
+ * Gets the reference to a room's append-only event log
+ * @param roomCode - The room code
+ */
+export const roomEventsRef = (roomCode: string) =>
+  db.collection('rooms').doc(roomCode).collection('events');
+
+/**
+ * Gets the reference to the collection of catalog decks, or of a user's private decks
+ * @param ownerId - Owner of the private decks (catalog decks when omitted)
+ */
+export const decksRef = (ownerId?: string) =>
+  ownerId ? db.collection('users').doc(ownerId).collection('decks') : db.collection('decks');
+
+// Decks read with the Admin SDK (same contract as the app's DeckRepository)
+// The functions only deal from decks: private decks are written by their owners in the deck editor
+export const deckRepository: Pick<DeckRepository, 'list' | 'get'> = {
+  list: async (ownerId) => {
+    const decksSnap = await decksRef(ownerId).get();
+    return decksSnap.docs.map(deckDoc => toDeckSummary(deckDoc.id, deckDoc.data()));
+  },
+
+  get: async (deckId, ownerId) => {
+    const deckSnap = await decksRef(ownerId).doc(deckId).get();
+    return toDeck(deckId, deckSnap.data());
+  }
+};
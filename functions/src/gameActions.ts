@@ -0,0 +1,210 @@
+import { Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore';
+import { db, playerViewRef, secretDeckRef } from './firestore';
+import { appendRoomEvents } from './roomEvents';
+import { readGameEvents, recordPlayerStats } from './playerStats';
+import { readPlayerRatings, recordPlayerRatings } from './playerRatings';
+import { applyAction, forfeitMatch, isGameError, toGameState } from '@/services/gameEngine';
+import { EMPTY_ROOM_SECRET, splitGameState } from '@/services/hiddenDeck';
+import { forfeitSeries, recordSeriesGame } from '@/services/seriesService';
+import { roomLogger } from '@/lib/utils/logger';
+import type {
+  ActionResult,
+  FirestoreRoom,
+  FirestoreRoomSecret,
+  FirestoreSeries,
+  GameAction,
+  GameEvent,
+  GameState
+} from '@/types';
+
+interface GameRoomSnapshot {
+  roomRef: DocumentReference;
+  room: FirestoreRoom;
+  secret: FirestoreRoomSecret;
+  seriesRef: DocumentReference | null;
+  series: FirestoreSeries | null;
+}
+
+/**
+ * Reads a room together with its hidden deck and series inside a transaction
+ * Rooms whose deck is not dealt yet get an empty secret
+ * @throws Error if the room doesn't exist
+ */
+const readGameRoom = async (transaction: Transaction, roomCode: string): Promise<GameRoomSnapshot> => {
+  const roomRef = db.collection('rooms').doc(roomCode);
+  const [roomSnap, secretSnap] = await transaction.getAll(roomRef, secretDeckRef(roomCode));
+
+  if (!roomSnap.exists) {
+    throw new Error('La sala no existe.');
+  }
+
+  const room = roomSnap.data() as FirestoreRoom;
+
+  // Read the series before any write (transactions need all reads first)
+  const seriesRef = room.series_id ? db.collection('series').doc(room.series_id) : null;
+  const seriesSnap = seriesRef ? await transaction.get(seriesRef) : null;
+
+  return {
+    roomRef,
+    room,
+    secret: secretSnap.exists ? secretSnap.data() as FirestoreRoomSecret : EMPTY_ROOM_SECRET,
+    seriesRef,
+    series: seriesSnap?.exists ? seriesSnap.data() as FirestoreSeries : null
+  };
+};
+
+/**
+ * Checks if a step finished the game (the room was not finished before it)
+ */
+const isNewlyFinished = (snapshot: GameRoomSnapshot, state: GameState): boolean =>
+  state.status === 'finished' && snapshot.room.status !== 'finished';
+
+/**
+ * Writes the state and events produced by the engine
+ * The room only gets public fields; full cards go to the secret document and each
+ * player's view. When the game finishes, its result is recorded in the series and the
+ * deck's seed is published on the room, so the dealt deck can be regenerated
+ */
+const writeGameState = (
+  transaction: Transaction,
+  roomCode: string,
+  snapshot: GameRoomSnapshot,
+  state: GameState,
+  events: GameEvent[]
+): void => {
+  const { room, secret, views } = splitGameState(state);
+  const now = Timestamp.now();
+  const hasFinished = isNewlyFinished(snapshot, state);
+  const deckSeed = state.deck_seed;
+
+  transaction.update(snapshot.roomRef, {
+    ...room,
+    ...(hasFinished && { finishedAt: now }),
+    ...(hasFinished && deckSeed && snapshot.room.deck && { deck: { ...snapshot.room.deck, seed: deckSeed } }),
+    lastUpdate: now
+  });
+  transaction.set(secretDeckRef(roomCode), secret);
+  Object.entries(views).forEach(([playerId, view]) => {
+    transaction.set(playerViewRef(roomCode, playerId), view);
+  });
+  appendRoomEvents(transaction, roomCode, snapshot.room, events, now);
+
+  if (hasFinished && snapshot.seriesRef && snapshot.series?.status === 'in_progress') {
+    // A forfeit ends the whole series: the leaver won't play the remaining games
+    const seriesUpdate = state.win_reason === 'opponent_forfeited'
+      ? forfeitSeries(snapshot.series, state.winner)
+      : recordSeriesGame(snapshot.series, state.winner);
+
+    transaction.update(snapshot.seriesRef, {
+      ...seriesUpdate,
+      ...(seriesUpdate.status === 'finished' && { finishedAt: now }),
+      lastUpdate: now
+    });
+  }
+};
+
+/**
+ * Runs an engine step on a room inside a transaction and writes the result
+ * @returns The events produced by the step
+ * @throws Error with the engine message if the step is illegal
+ */
+const runEngineStep = async (
+  roomCode: string,
+  step: (state: GameState) => ActionResult,
+  afterWrite?: (transaction: Transaction) => void
+): Promise<{ state: GameState; events: GameEvent[] }> => {
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await readGameRoom(transaction, roomCode);
+    const result = step(toGameState(snapshot.room, snapshot.secret));
+
+    if (isGameError(result)) {
+      throw new Error(result.message);
+    }
+
+    // A finished game goes into both players' stats, computed from the whole event log,
+    // and updates their ratings (both read before any write)
+    // Games against a bot are practice: they count for neither
+    const hasFinished = isNewlyFinished(snapshot, result.state);
+    const isRecorded = hasFinished && !snapshot.room.bot;
+    const loggedEvents = isRecorded ? await readGameEvents(transaction, roomCode) : [];
+    const ratings = isRecorded ? await readPlayerRatings(transaction, result.state.order_players) : {};
+
+    writeGameState(transaction, roomCode, snapshot, result.state, result.events);
+    if (isRecorded) {
+      recordPlayerStats(transaction, [...loggedEvents, ...result.events], result.state);
+      recordPlayerRatings(transaction, roomCode, ratings, result.state, Timestamp.now());
+    }
+    afterWrite?.(transaction);
+
+    return result;
+  });
+};
+
+/**
+ * Applies a game action as the trusted resolver
+ * Reads the room and its hidden deck, applies the action with the game engine and
+ * writes the resulting room, secret deck, player views and events in one transaction
+ * @param roomCode - The room code
+ * @param action - The action to apply (userId is the authenticated caller)
+ * @returns Promise with the events produced by the action
+ * @throws Error if the room doesn't exist or the engine rejects the action
+ */
+export const runGameAction = async (roomCode: string, action: GameAction): Promise<GameEvent[]> => {
+  try {
+    const result = await runEngineStep(roomCode, state => applyAction(state, action));
+
+    roomLogger.info('Game action applied', {
+      roomCode,
+      type: action.type,
+      events: result.events.map(event => event.type),
+      turn: result.state.turn,
+      turnState: result.state.turn_state,
+      status: result.state.status
+    });
+
+    return result.events;
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to apply game action', {
+        roomCode,
+        type: action.type,
+        userId: action.userId,
+        message: error.message
+      });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error applying game action', { roomCode, type: action.type, error });
+    throw new Error('Error al procesar la acción.');
+  }
+};
+
+/**
+ * Forfeits the match of a player who leaves it during intro or playing
+ * The remaining player wins (and takes the series, if any); the leaver's current_room is cleared
+ * @param roomCode - The room code
+ * @param userId - The player who leaves
+ * @returns Promise with the events produced by the forfeit
+ * @throws Error if there is no match in progress to forfeit
+ */
+export const forfeitGame = async (roomCode: string, userId: string): Promise<GameEvent[]> => {
+  try {
+    const result = await runEngineStep(
+      roomCode,
+      state => forfeitMatch(state, userId),
+      transaction => transaction.update(db.collection('users').doc(userId), { current_room: null })
+    );
+
+    roomLogger.info('Player forfeited the match by leaving', { userId, roomCode, winnerId: result.state.winner });
+
+    return result.events;
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to forfeit match', { roomCode, userId, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error forfeiting match', { roomCode, userId, error });
+    throw new Error('Error al abandonar la partida.');
+  }
+};
@@ -0,0 +1,158 @@
+/**
+ * Cloud Functions for Backup Deathmatch
+ * Trusted resolver: the only code that can read the hidden deck (rooms/{code}/secret)
+ * and write rooms (clients can only read them, see firestore.rules)
+ *
+ * Usage:
+ *   Local (emulator):  firebase emulators:start (builds functions/lib first via predeploy)
+ *   Production:        firebase deploy --only functions
+ */
+
+import { onCall, HttpsError, type CallableRequest } from 'firebase-functions/v2/https';
+import { runGameAction } from './gameActions';
+import * as rooms from './roomLifecycle';
+import * as matchmaking from './matchmaking';
+import * as bots from './botOpponent';
+import { validateGameAction } from '@/lib/validations/gameAction';
+import type {
+  AddBotRequest,
+  CreateRoomRequest,
+  GameAction,
+  GameActionRequest,
+  GameActionResponse,
+  MatchmakingResponse,
+  RoomCodeResponse,
+  RoomRequest,
+  UpdateDeckRequest,
+  UpdateRulesetRequest,
+  UpdateSeriesLengthRequest
+} from '@/types';
+
+/**
+ * Gets the authenticated caller, rejecting anonymous calls
+ */
+const requireUser = (request: CallableRequest): string => {
+  if (!request.auth) {
+    throw new HttpsError('unauthenticated', 'Debes iniciar sesión.');
+  }
+  return request.auth.uid;
+};
+
+/**
+ * Validates the room code sent by the client
+ */
+const requireRoomCode = (data: Partial<RoomRequest> | undefined): string => {
+  if (!data || typeof data.roomCode !== 'string' || data.roomCode.length === 0) {
+    throw new HttpsError('invalid-argument', 'Código de sala inválido.');
+  }
+  return data.roomCode;
+};
+
+/**
+ * Runs a service call, reporting its (Spanish) error message to the client
+ */
+const callService = async <T>(serviceCall: () => Promise<T>): Promise<T> => {
+  try {
+    return await serviceCall();
+  } catch (error: any) {
+    throw new HttpsError('failed-precondition', error instanceof Error ? error.message : 'Error inesperado.');
+  }
+};
+
+/**
+ * Defines a callable that runs a room lifecycle action as the authenticated caller
+ * @param action - The lifecycle action (see roomLifecycle.ts)
+ */
+const roomCallable = <T>(action: (userId: string, roomCode: string) => Promise<T>) =>
+  onCall<RoomRequest, Promise<T>>(async (request) => {
+    const userId = requireUser(request);
+    const roomCode = requireRoomCode(request.data);
+
+    return callService(() => action(userId, roomCode));
+  });
+
+// Applies a game action (select, claim, reject, items, timeouts) to a room
+export const gameAction = onCall<GameActionRequest, Promise<GameActionResponse>>(async (request) => {
+  const userId = requireUser(request);
+  const roomCode = requireRoomCode(request.data);
+
+  // Rejected before the transaction; players always act as themselves, whatever userId the client sent
+  let action: GameAction;
+  try {
+    action = validateGameAction(request.data.action, userId);
+  } catch (error) {
+    throw new HttpsError('invalid-argument', error instanceof Error ? error.message : 'Acción inválida.');
+  }
+
+  const events = await callService(() => runGameAction(roomCode, action));
+  return { events };
+});
+
+// Creates a waiting room with the caller as its creator (listed in the lobby browser when public)
+export const createRoom = onCall<CreateRoomRequest, Promise<RoomCodeResponse>>(async (request) => {
+  const userId = requireUser(request);
+
+  const roomCode = await callService(() => rooms.createRoom(userId, undefined, request.data?.ruleset, request.data?.isPublic === true, request.data?.deckId, request.data?.isCustomDeck === true));
+  return { roomCode };
+});
+
+// Changes the rules of a waiting room (creator only)
+export const updateRoomRuleset = onCall<UpdateRulesetRequest, Promise<void>>(async (request) => {
+  const userId = requireUser(request);
+  const roomCode = requireRoomCode(request.data);
+
+  await callService(() => rooms.updateRoomRuleset(userId, roomCode, request.data.ruleset));
+});
+
+// Changes the series length of a waiting room (creator only)
+export const updateRoomSeriesLength = onCall<UpdateSeriesLengthRequest, Promise<void>>(async (request) => {
+  const userId = requireUser(request);
+  const roomCode = requireRoomCode(request.data);
+
+  await callService(() => rooms.updateRoomSeriesLength(userId, roomCode, request.data.bestOf));
+});
+
+// Changes the deck of a waiting room (creator only, to a catalog deck or one of their private decks)
+export const updateRoomDeck = onCall<UpdateDeckRequest, Promise<void>>(async (request) => {
+  const userId = requireUser(request);
+  const roomCode = requireRoomCode(request.data);
+
+  await callService(() => rooms.updateRoomDeck(userId, roomCode, request.data.deckId, request.data.isCustomDeck === true));
+});
+
+// Room lifecycle: waiting -> intro -> playing -> finished -> rematch / next series game
+export const joinRoom = roomCallable(rooms.joinRoom);
+export const leaveRoom = roomCallable(rooms.leaveRoom);
+export const startGame = roomCallable(rooms.startGame);
+export const completeIntro = roomCallable(rooms.completeIntro);
+export const requestRematch = roomCallable(rooms.requestRematch);
+export const acceptRematch = roomCallable(async (userId, roomCode): Promise<RoomCodeResponse> => ({
+  roomCode: await rooms.acceptRematch(userId, roomCode)
+}));
+export const startNextSeriesGame = roomCallable(async (userId, roomCode): Promise<RoomCodeResponse> => ({
+  roomCode: await rooms.startNextSeriesGame(userId, roomCode)
+}));
+
+// Matchmaking queue: pairs two waiting players into a new room (closest rating first)
+export const joinMatchmaking = onCall<void, Promise<MatchmakingResponse>>(async (request) => {
+  const userId = requireUser(request);
+
+  const roomCode = await callService(() => matchmaking.joinMatchmaking(userId));
+  return { roomCode };
+});
+
+export const leaveMatchmaking = onCall<void, Promise<void>>(async (request) => {
+  const userId = requireUser(request);
+
+  await callService(() => matchmaking.leaveMatchmaking(userId));
+});
+
+// Bot opponent: the creator fills the second seat with a bot, whose moves the human's browser requests
+export const addBotToRoom = onCall<AddBotRequest, Promise<void>>(async (request) => {
+  const userId = requireUser(request);
+  const roomCode = requireRoomCode(request.data);
+
+  await callService(() => bots.addBot(userId, roomCode, request.data.difficulty));
+});
+
+export const playBotTurn = roomCallable(bots.playBotTurn);
@@ -0,0 +1,164 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { db } from './firestore';
+import { createRoom, joinRoom, leaveRoom } from './roomLifecycle';
+import { findOpponent, isQueueEntryExpired } from '@/services/matchmakingService';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { roomLogger } from '@/lib/utils/logger';
+import type { FirestoreMatchmakingEntry, FirestoreUser, MatchmakingCandidate } from '@/types';
+
+const queueRef = () => db.collection('matchmaking');
+const queueEntryRef = (userId: string) => queueRef().doc(userId);
+
+/**
+ * Checks if a queue entry was claimed by an opponent whose room is still being set up
+ * A matched entry with its room code was consumed: the player already has their room
+ */
+const isPairingInProgress = (entry: FirestoreMatchmakingEntry): boolean =>
+  entry.status === 'matched' && !entry.room_code;
+
+/**
+ * Takes the caller's place in the queue, or claims a waiting opponent for them, in one transaction
+ * Two players joining at the same time can't both claim the same opponent
+ * @returns The claimed opponent, or null if the caller was left waiting
+ */
+const claimOpponent = (userId: string): Promise<MatchmakingCandidate | null> =>
+  db.runTransaction(async (transaction) => {
+    const [userSnap, ownEntrySnap] = await transaction.getAll(db.collection('users').doc(userId), queueEntryRef(userId));
+    if (!userSnap.exists) {
+      throw new Error('Usuario no encontrado. Por favor inicia sesión nuevamente.');
+    }
+
+    // Searching again while the room of a pairing is being set up would lose that room
+    // (an entry whose room was already created is consumed and gets overwritten below)
+    if (ownEntrySnap.exists && isPairingInProgress(ownEntrySnap.data() as FirestoreMatchmakingEntry)) {
+      throw new Error('Ya se encontró un rival para ti.');
+    }
+
+    const rating = (userSnap.data() as FirestoreUser).rating ?? GAME_CONFIG.rating.initial;
+    const waitingSnap = await transaction.get(
+      queueRef()
+        .where('status', '==', 'waiting')
+        .orderBy('joinedAt')
+        .limit(GAME_CONFIG.matchmaking.maxCandidates)
+    );
+
+    const now = Timestamp.now();
+    const candidates: MatchmakingCandidate[] = [];
+    waitingSnap.docs.forEach(entryDoc => {
+      const entry = entryDoc.data() as FirestoreMatchmakingEntry;
+      const joinedAt = entry.joinedAt.toMillis();
+
+      if (entryDoc.id === userId) {
+        return;
+      }
+
+      // Players who waited past the timeout already gave up: drop them from the queue
+      if (isQueueEntryExpired(joinedAt, now.toMillis())) {
+        transaction.delete(entryDoc.ref);
+        return;
+      }
+
+      candidates.push({ userId: entryDoc.id, rating: entry.rating, joinedAt });
+    });
+
+    const opponent = findOpponent(candidates, rating);
+
+    if (!opponent) {
+      const entry: FirestoreMatchmakingEntry = { rating, status: 'waiting', room_code: null, joinedAt: now };
+      transaction.set(queueEntryRef(userId), entry);
+      return null;
+    }
+
+    transaction.update(queueEntryRef(opponent.userId), { status: 'matched' });
+    transaction.delete(queueEntryRef(userId));
+    return opponent;
+  });
+
+/**
+ * Puts the user in the matchmaking queue, pairing them with a waiting player when there is one
+ * (closest rating first). The paired room is created by the waiting player and joined by the caller
+ * with the regular room lifecycle; the waiting player learns its code from their queue entry
+ * @param userId - The ID of the user looking for a game
+ * @returns Promise with the room code when paired right away, null when left waiting
+ * @throws Error if the user doesn't exist or the room can't be set up
+ */
+export const joinMatchmaking = async (userId: string): Promise<string | null> => {
+  roomLogger.info('User joining matchmaking', { userId });
+
+  try {
+    const opponent = await claimOpponent(userId);
+
+    if (!opponent) {
+      roomLogger.info('User waiting in matchmaking queue', { userId });
+      return null;
+    }
+
+    let roomCode: string | null = null;
+    try {
+      roomCode = await createRoom(opponent.userId);
+      await joinRoom(userId, roomCode);
+    } catch (error) {
+      // Put the opponent back in the queue (and out of the half-made room) so they keep searching
+      if (roomCode) {
+        await leaveRoom(opponent.userId, roomCode);
+      }
+      await queueEntryRef(opponent.userId).update({ status: 'waiting' });
+      throw error;
+    }
+
+    await queueEntryRef(opponent.userId).update({ room_code: roomCode });
+
+    roomLogger.info('Matchmaking paired players', {
+      roomCode,
+      userId,
+      opponentId: opponent.userId,
+      opponentRating: opponent.rating
+    });
+
+    return roomCode;
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to join matchmaking', { userId, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error joining matchmaking', { userId, error });
+    throw new Error('Error al buscar partida.');
+  }
+};
+
+/**
+ * Takes the user out of the matchmaking queue (cancelled search, timeout, or a pairing the
+ * waiting player already followed into its room)
+ * Once an opponent has claimed them, the room is on its way and the search can't be cancelled
+ * until the room is created
+ * @param userId - The ID of the user leaving the queue
+ * @returns Promise that resolves when the user is out of the queue
+ * @throws Error if the user's room is still being set up
+ */
+export const leaveMatchmaking = async (userId: string): Promise<void> => {
+  roomLogger.info('User leaving matchmaking', { userId });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const entrySnap = await transaction.get(queueEntryRef(userId));
+      if (!entrySnap.exists) {
+        return;
+      }
+
+      if (isPairingInProgress(entrySnap.data() as FirestoreMatchmakingEntry)) {
+        throw new Error('Ya se encontró un rival para ti.');
+      }
+
+      transaction.delete(entrySnap.ref);
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to leave matchmaking', { userId, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error leaving matchmaking', { userId, error });
+    throw new Error('Error al cancelar la búsqueda.');
+  }
+};
@@ -0,0 +1,57 @@
+import { FieldValue, type Timestamp, type Transaction } from 'firebase-admin/firestore';
+import { db } from './firestore';
+import { getRatingChanges } from '@/services/ratingService';
+import type { FirestoreRatingChange, FirestoreUser, GameState } from '@/types';
+
+/**
+ * Gets the reference to a user's rating history
+ * @param userId - The user
+ */
+const ratingHistoryRef = (userId: string) =>
+  db.collection('users').doc(userId).collection('rating_history');
+
+/**
+ * Reads the current rating of each player, inside the caller's transaction
+ * Must run before the transaction writes anything
+ * @param transaction - The running transaction
+ * @param playerIds - The players of the game
+ * @returns Each player's rating (undefined for players who were never rated)
+ */
+export const readPlayerRatings = async (
+  transaction: Transaction,
+  playerIds: string[]
+): Promise<{ [userId: string]: number | undefined }> => {
+  const userSnaps = await transaction.getAll(...playerIds.map(playerId => db.collection('users').doc(playerId)));
+  return Object.fromEntries(userSnaps.map(userSnap => [
+    userSnap.id,
+    (userSnap.data() as FirestoreUser | undefined)?.rating
+  ]));
+};
+
+/**
+ * Updates both players' rating after a finished game and adds it to their rating history,
+ * inside the caller's transaction
+ * @param transaction - The running transaction
+ * @param roomCode - The finished room (rating history entries are keyed by room)
+ * @param ratings - Each player's rating before the game, as read by readPlayerRatings
+ * @param state - The finished game state
+ * @param now - The time of the update
+ */
+export const recordPlayerRatings = (
+  transaction: Transaction,
+  roomCode: string,
+  ratings: { [userId: string]: number | undefined },
+  state: GameState,
+  now: Timestamp
+): void => {
+  Object.entries(getRatingChanges(state, ratings)).forEach(([playerId, change]) => {
+    transaction.set(
+      db.collection('users').doc(playerId),
+      { rating: change.rating, rated_games: FieldValue.increment(1) },
+      { merge: true }
+    );
+
+    const historyEntry: FirestoreRatingChange = { ...change, roomCode, createdAt: now };
+    transaction.set(ratingHistoryRef(playerId).doc(roomCode), historyEntry);
+  });
+};
@@ -0,0 +1,41 @@
+import { FieldValue, type Transaction } from 'firebase-admin/firestore';
+import { db, roomEventsRef } from './firestore';
+import { isGameEvent } from '@/services/replayService';
+import { getMatchStats } from '@/services/statsService';
+import type { GameEvent, GameState, RoomEvent } from '@/types';
+
+/**
+ * Turns every number of a stats object into a Firestore increment (nested objects included)
+ */
+const toIncrements = (value: object): { [key: string]: unknown } =>
+  Object.fromEntries(Object.entries(value).map(([key, fieldValue]) => [
+    key,
+    typeof fieldValue === 'number' ? FieldValue.increment(fieldValue) : toIncrements(fieldValue)
+  ]));
+
+/**
+ * Reads the engine events already logged for a room, inside the caller's transaction
+ * Must run before the transaction writes anything
+ * @param transaction - The running transaction
+ * @param roomCode - The room code
+ * @returns The logged game events in sequence order
+ */
+export const readGameEvents = async (transaction: Transaction, roomCode: string): Promise<GameEvent[]> => {
+  const eventsSnap = await transaction.get(roomEventsRef(roomCode).orderBy('seq'));
+  return eventsSnap.docs
+    .map(eventDoc => eventDoc.data() as RoomEvent)
+    .filter(isGameEvent);
+};
+
+/**
+ * Adds a finished game to both players' stats (users/{uid}.stats) inside the caller's transaction
+ * Stats are incremented, so the user documents don't need to be read first
+ * @param transaction - The running transaction
+ * @param events - Every engine event of the game, including the ones of the finishing action
+ * @param state - The finished game state
+ */
+export const recordPlayerStats = (transaction: Transaction, events: GameEvent[], state: GameState): void => {
+  Object.entries(getMatchStats(events, state)).forEach(([playerId, stats]) => {
+    transaction.set(db.collection('users').doc(playerId), { stats: toIncrements(stats) }, { merge: true });
+  });
+};
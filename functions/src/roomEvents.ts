@@ -0,0 +1,39 @@
+import type { Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db, roomEventsRef } from './firestore';
+import type { FirestoreRoom, FirestoreRoomEvent, RoomEvent } from '@/types';
+
+// Event ids are the zero-padded sequence number, so ids sort in play order too
+const EVENT_ID_LENGTH = 6;
+
+/**
+ * Appends events to a room's log inside the caller's transaction
+ * Each event gets the next sequence number after the room's event_seq, which is moved forward
+ * @param transaction - The running transaction (caller reads must already be done)
+ * @param roomCode - The room code
+ * @param room - The room as read in this transaction (or just created in it)
+ * @param events - Events produced by the action, in order
+ * @param now - Timestamp of the action
+ */
+export const appendRoomEvents = (
+  transaction: Transaction,
+  roomCode: string,
+  room: Pick<FirestoreRoom, 'event_seq'>,
+  events: RoomEvent[],
+  now: Timestamp
+): void => {
+  if (events.length === 0) {
+    return;
+  }
+
+  const firstSeq = (room.event_seq ?? 0) + 1;
+
+  events.forEach((event, index) => {
+    const seq = firstSeq + index;
+    const entry: FirestoreRoomEvent = { ...event, seq, createdAt: now };
+    transaction.set(roomEventsRef(roomCode).doc(String(seq).padStart(EVENT_ID_LENGTH, '0')), entry);
+  });
+
+  transaction.update(db.collection('rooms').doc(roomCode), {
+    event_seq: firstSeq + events.length - 1
+  });
+};
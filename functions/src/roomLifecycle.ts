@@ -0,0 +1,876 @@
+import { customAlphabet } from 'nanoid';
+import { FieldValue, Timestamp, type Transaction } from 'firebase-admin/firestore';
+import { db, secretDeckRef } from './firestore';
+import { dealRoomDeck, pickRoomDeck } from './deckDealer';
+import { forfeitGame } from './gameActions';
+import { appendRoomEvents } from './roomEvents';
+import { generateItemDeck, getRoomDeckId } from '@/services/deckService';
+import { getPhaseDeadline, getRuleset } from '@/services/gameEngine';
+import { createSeriesData } from '@/services/seriesService';
+import { DEFAULT_RULESET, GAME_CONFIG } from '@/config/gameConfig';
+import { validateRuleset } from '@/lib/validations/ruleset';
+import { roomLogger } from '@/lib/utils/logger';
+import type { FirestoreRoom, FirestoreSeries, LobbyEvent, RoomDeck, RoomStatus, Ruleset } from '@/types';
+
+// Custom alphabet for room codes (no confusing characters: 0/O, 1/I)
+const ROOM_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const ROOM_CODE_LENGTH = 6;
+const MAX_GENERATION_ATTEMPTS = 3;
+
+const generateRoomCode = customAlphabet(ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH);
+
+const roomRef = (roomCode: string) => db.collection('rooms').doc(roomCode);
+const userRef = (userId: string) => db.collection('users').doc(userId);
+
+/**
+ * Generates a unique room code that doesn't already exist in Firestore
+ * @returns Promise with the unique room code
+ * @throws Error if unable to generate unique code after MAX_GENERATION_ATTEMPTS
+ */
+export const generateUniqueRoomCode = async (): Promise<string> => {
+  roomLogger.info('Generating unique room code');
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+    roomLogger.debug(`Generated room code attempt ${attempt}`, { roomCode });
+
+    // Check if room already exists
+    const roomSnap = await roomRef(roomCode).get();
+
+    if (!roomSnap.exists) {
+      roomLogger.info('Unique room code generated successfully', { roomCode, attempts: attempt });
+      return roomCode;
+    }
+
+    roomLogger.warn('Room code collision detected, retrying', { roomCode, attempt });
+  }
+
+  const error = new Error('No se pudo generar un código de sala único. Intenta nuevamente.');
+  roomLogger.error('Failed to generate unique room code after max attempts', { maxAttempts: MAX_GENERATION_ATTEMPTS });
+  throw error;
+};
+
+/**
+ * Builds the initial room document for a new game
+ * The deck is dealt by the trusted resolver when the game begins (see completeIntro)
+ * @param orderPlayers - Players in turn order (the first one starts)
+ * @param ruleset - Validated rules snapshotted onto the room
+ * @param status - Initial status ('waiting' for new rooms, 'intro' when both players are already in)
+ * @param now - Creation timestamp
+ * @param isPublic - Whether the room is listed in the lobby browser while it waits for a second player
+ * @returns The room document data
+ */
+const buildInitialRoom = (
+  orderPlayers: string[],
+  ruleset: Ruleset,
+  status: RoomStatus,
+  now: Timestamp,
+  isPublic: boolean = false
+): FirestoreRoom => ({
+  players: Object.fromEntries(orderPlayers.map(playerId => [
+    playerId,
+    {
+      integrity: 0, // Starting life points
+      items: []
+    }
+  ])),
+  status,
+  createdAt: now,
+  finishedAt: null,
+  lastUpdate: now,
+  order_players: orderPlayers,
+  turn: 0, // First player's turn
+  current_card: null,
+  table_cards: [], // Filled when the hidden deck is dealt
+  cards_drawn: 0, // Cards drawn from the hidden deck
+  turn_state: 'draw', // Initial state: waiting for card selection
+  selected_card_index: null, // No card selected yet
+  current_multiplier: 1, // Default multiplier
+  card_initiator: null, // No initiator yet
+  auto_selected: false, // No card picked by a timeout yet
+  used_cards: [], // Track all played cards
+  item_deck: generateItemDeck(), // Items earned during the game
+  revealed_real_memories: [], // Track authentic memories that have been claimed
+  ruleset, // Rules snapshot for this room
+  is_public: isPublic,
+  event_seq: 0 // No events logged yet
+});
+
+/**
+ * Deck of a follow-up room (rematch or next series game): the same deck, dealt again with a new seed
+ */
+const toFollowUpDeck = ({ seed: _seed, ...deck }: RoomDeck): RoomDeck => deck;
+
+/**
+ * Reads a room inside a transaction
+ * @throws Error if the room doesn't exist
+ */
+const readRoom = async (transaction: Transaction, roomCode: string): Promise<FirestoreRoom> => {
+  const roomSnap = await transaction.get(roomRef(roomCode));
+  if (!roomSnap.exists) {
+    throw new Error('La sala no existe.');
+  }
+  return roomSnap.data() as FirestoreRoom;
+};
+
+/**
+ * Creates a new game room in Firestore with initial state
+ * @param userId - The ID of the user creating the room
+ * @param roomCode - Optional custom room code (if not provided, generates unique one)
+ * @param ruleset - Rules for the room (classic rules by default), snapshotted onto the room
+ * @param isPublic - Whether the room is listed in the lobby browser (private rooms are joined by code)
+ * @param deckId - Deck the memories are drawn from
+ * @param isCustomDeck - deckId is one of the creator's private decks instead of a catalog deck
+ * @returns Promise with the created room code
+ * @throws Error if the ruleset or deck is invalid or room creation fails
+ */
+export const createRoom = async (
+  userId: string,
+  roomCode?: string,
+  ruleset: Ruleset = DEFAULT_RULESET,
+  isPublic: boolean = false,
+  deckId: string = GAME_CONFIG.deck.defaultId,
+  isCustomDeck: boolean = false
+): Promise<string> => {
+  roomLogger.info('Creating new room', { userId, customRoomCode: !!roomCode, isPublic, deckId, isCustomDeck });
+
+  try {
+    // Validate the ruleset and deck before generating anything
+    const validatedRuleset = validateRuleset(ruleset);
+    const deck = await pickRoomDeck(deckId, validatedRuleset, isCustomDeck ? userId : undefined);
+
+    // Generate unique room code if not provided
+    const finalRoomCode = roomCode || await generateUniqueRoomCode();
+
+    // Use transaction to ensure atomicity (room creation + user update)
+    return await db.runTransaction(async (transaction) => {
+      // Double-check room doesn't exist (in case of custom code)
+      const roomSnap = await transaction.get(roomRef(finalRoomCode));
+      if (roomSnap.exists) {
+        throw new Error('La sala ya existe. Intenta con otro código.');
+      }
+
+      // Verify user exists
+      const userSnap = await transaction.get(userRef(userId));
+      if (!userSnap.exists) {
+        throw new Error('Usuario no encontrado. Por favor inicia sesión nuevamente.');
+      }
+
+      // Prepare room data according to Firestore schema (creator is first player)
+      const now = Timestamp.now();
+      const roomData: FirestoreRoom = { ...buildInitialRoom([userId], validatedRuleset, 'waiting', now, isPublic), deck };
+
+      roomLogger.debug('Creating room document', {
+        roomCode: finalRoomCode,
+        deckSize: validatedRuleset.deckSize,
+        status: roomData.status
+      });
+
+      transaction.set(roomRef(finalRoomCode), roomData);
+      transaction.update(userRef(userId), { current_room: finalRoomCode });
+      appendRoomEvents(transaction, finalRoomCode, roomData, [
+        { type: 'RoomCreated', userId, previousRoomCode: null }
+      ], now);
+
+      roomLogger.info('Room created successfully', {
+        roomCode: finalRoomCode,
+        userId,
+        status: 'waiting'
+      });
+
+      return finalRoomCode;
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Room creation failed', { userId, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error creating room', { userId, error });
+    throw new Error('Error al crear la sala. Intenta nuevamente.');
+  }
+};
+
+/**
+ * Changes the ruleset of a room that is still waiting for players
+ * Only the room creator can change it; the deck dealt when the game begins follows it,
+ * so the room's deck must have at least the new deck size in memories
+ * @param userId - The ID of the user changing the ruleset
+ * @param roomCode - The room code
+ * @param ruleset - The new ruleset (a preset or tweaked values)
+ * @returns Promise that resolves when the ruleset is saved
+ * @throws Error if validation fails or user doesn't have permission
+ */
+export const updateRoomRuleset = async (
+  userId: string,
+  roomCode: string,
+  ruleset: Ruleset
+): Promise<void> => {
+  roomLogger.info('User updating room ruleset', { userId, roomCode });
+
+  try {
+    const validatedRuleset = validateRuleset(ruleset);
+
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      // Rules can only change before the game starts
+      if (roomData.status !== 'waiting') {
+        throw new Error('Las reglas solo se pueden cambiar antes de iniciar la partida.');
+      }
+
+      // Validate user is the creator (first in order_players)
+      if (roomData.order_players[0] !== userId) {
+        throw new Error('Solo el creador de la sala puede cambiar las reglas.');
+      }
+
+      await pickRoomDeck(getRoomDeckId(roomData), validatedRuleset, roomData.deck?.owner_id);
+
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        ruleset: validatedRuleset,
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [
+        { type: 'RulesetChanged', userId, ruleset: validatedRuleset }
+      ], now);
+
+      roomLogger.info('Room ruleset updated', {
+        roomCode,
+        userId,
+        deckSize: validatedRuleset.deckSize,
+        targetIntegrity: validatedRuleset.targetIntegrity
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to update room ruleset', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error updating room ruleset', { userId, roomCode, error });
+    throw new Error('Error al actualizar las reglas de la sala.');
+  }
+};
+
+/**
+ * Changes the series length of a room that is still waiting for players
+ * Only the room creator can change it
+ * @param userId - The ID of the user changing the series length
+ * @param roomCode - The room code
+ * @param bestOf - Series length (one of GAME_CONFIG.series.lengths, 1 = single game)
+ * @returns Promise that resolves when the series length is saved
+ * @throws Error if validation fails or user doesn't have permission
+ */
+export const updateRoomSeriesLength = async (
+  userId: string,
+  roomCode: string,
+  bestOf: number
+): Promise<void> => {
+  roomLogger.info('Updating room series length', { userId, roomCode, bestOf });
+
+  try {
+    if (!(GAME_CONFIG.series.lengths as readonly number[]).includes(bestOf)) {
+      throw new Error('Duración de serie inválida.');
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      if (roomData.status !== 'waiting') {
+        throw new Error('La serie solo se puede cambiar antes de iniciar la partida.');
+      }
+
+      if (roomData.order_players[0] !== userId) {
+        throw new Error('Solo el creador de la sala puede cambiar la serie.');
+      }
+
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        best_of: bestOf,
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [
+        { type: 'SeriesLengthChanged', userId, bestOf }
+      ], now);
+
+      roomLogger.info('Room series length updated', { roomCode, userId, bestOf });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to update room series length', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error updating room series length', { userId, roomCode, error });
+    throw new Error('Error al actualizar la serie de la sala.');
+  }
+};
+
+/**
+ * Changes the deck of a room that is still waiting for players
+ * Only the room creator can change it, to a catalog deck or one of their private decks;
+ * the deck must have enough memories for the room's rules
+ * @param userId - The ID of the user changing the deck
+ * @param roomCode - The room code
+ * @param deckId - The deck
+ * @param isCustomDeck - deckId is one of the user's private decks instead of a catalog deck
+ * @returns Promise that resolves when the deck is saved
+ * @throws Error if the deck can't be used or user doesn't have permission
+ */
+export const updateRoomDeck = async (
+  userId: string,
+  roomCode: string,
+  deckId: string,
+  isCustomDeck: boolean = false
+): Promise<void> => {
+  roomLogger.info('Updating room deck', { userId, roomCode, deckId, isCustomDeck });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      if (roomData.status !== 'waiting') {
+        throw new Error('El mazo solo se puede cambiar antes de iniciar la partida.');
+      }
+
+      if (roomData.order_players[0] !== userId) {
+        throw new Error('Solo el creador de la sala puede cambiar el mazo.');
+      }
+
+      const deck = await pickRoomDeck(deckId, getRuleset(roomData), isCustomDeck ? userId : undefined);
+
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        deck,
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [
+        { type: 'DeckChanged', userId, deck }
+      ], now);
+
+      roomLogger.info('Room deck updated', { roomCode, userId, deckId, deckVersion: deck.version });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to update room deck', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error updating room deck', { userId, roomCode, error });
+    throw new Error('Error al actualizar el mazo de la sala.');
+  }
+};
+
+/**
+ * Joins an existing room (adds player to room)
+ * @param userId - The ID of the user joining
+ * @param roomCode - The room code to join
+ * @returns Promise that resolves when join is complete
+ * @throws Error if room is full, doesn't exist, or join fails
+ */
+export const joinRoom = async (userId: string, roomCode: string): Promise<void> => {
+  roomLogger.info('User attempting to join room', { userId, roomCode });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      // Check if room is full (max 2 players)
+      const playerCount = Object.keys(roomData.players).length;
+      if (playerCount >= 2) {
+        throw new Error('La sala está llena (máximo 2 jugadores).');
+      }
+
+      // Check if user is already in the room
+      if (roomData.players[userId]) {
+        roomLogger.warn('User already in room', { userId, roomCode });
+        throw new Error('Ya estás en esta sala.');
+      }
+
+      // Check if room has already started
+      if (roomData.status !== 'waiting') {
+        throw new Error('La partida ya ha comenzado.');
+      }
+
+      // Add player to room
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        [`players.${userId}`]: {
+          integrity: 0,
+          items: []
+        },
+        order_players: [...roomData.order_players, userId],
+        lastUpdate: now
+      });
+
+      transaction.update(userRef(userId), { current_room: roomCode });
+      appendRoomEvents(transaction, roomCode, roomData, [{ type: 'PlayerJoined', userId }], now);
+
+      roomLogger.info('User joined room successfully', { userId, roomCode, playerCount: playerCount + 1 });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to join room', { userId, roomCode, message: error.message });
+      throw error;
+    }
+    roomLogger.error('Unexpected error joining room', { userId, roomCode, error });
+    throw new Error('Error al unirse a la sala.');
+  }
+};
+
+/**
+ * Leaves a room
+ * - waiting: removes the player from the room (deletes it if empty)
+ * - intro/playing: the player forfeits, the room finishes with the remaining player as winner
+ *   (and the series, if any, goes to them)
+ * - finished: the room is kept untouched as the match record
+ * @param userId - The ID of the user leaving
+ * @param roomCode - The room code to leave
+ * @returns Promise that resolves when leave is complete
+ */
+export const leaveRoom = async (userId: string, roomCode: string): Promise<void> => {
+  roomLogger.info('User leaving room', { userId, roomCode });
+
+  try {
+    // Leaving an active match counts as a loss (forfeitGame also clears current_room)
+    const roomSnap = await roomRef(roomCode).get();
+    const status = roomSnap.exists ? (roomSnap.data() as FirestoreRoom).status : null;
+    if (status === 'intro' || status === 'playing') {
+      await forfeitGame(roomCode, userId);
+      return;
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const roomSnap = await transaction.get(roomRef(roomCode));
+      if (!roomSnap.exists) {
+        roomLogger.warn('Room does not exist when leaving', { userId, roomCode });
+        // Still clear user's current_room
+        transaction.update(userRef(userId), { current_room: null });
+        return;
+      }
+
+      const roomData = roomSnap.data() as FirestoreRoom;
+
+      // The game started after the read above: leaving now must go through the forfeit
+      if (roomData.status === 'intro' || roomData.status === 'playing') {
+        throw new Error('La partida acaba de comenzar. Intenta salir nuevamente.');
+      }
+
+      // Finished rooms keep both players as the match record
+      if (roomData.status === 'finished') {
+        transaction.update(userRef(userId), { current_room: null });
+        appendRoomEvents(transaction, roomCode, roomData, [{ type: 'PlayerLeft', userId }], Timestamp.now());
+        roomLogger.info('User left finished room', { userId, roomCode });
+        return;
+      }
+
+      const updatedOrderPlayers = roomData.order_players.filter(id => id !== userId);
+      const remainingPlayersCount = updatedOrderPlayers.length;
+
+      // Only waiting rooms get here: delete the room if no players are left
+      // (a bot doesn't keep a room open on its own)
+      if (remainingPlayersCount === 0) {
+        roomLogger.info('Deleting empty waiting room', { userId, roomCode });
+        transaction.delete(roomRef(roomCode));
+      }
+      else if (roomData.bot && updatedOrderPlayers.every(id => id === roomData.bot!.id)) {
+        roomLogger.info('Deleting waiting room left to its bot', { userId, roomCode });
+        transaction.delete(roomRef(roomCode));
+        transaction.update(userRef(roomData.bot.id), { current_room: null });
+      }
+      // If players remain, just update the room
+      else {
+        const now = Timestamp.now();
+        transaction.update(roomRef(roomCode), {
+          [`players.${userId}`]: FieldValue.delete(),
+          order_players: updatedOrderPlayers,
+          lastUpdate: now
+        });
+        appendRoomEvents(transaction, roomCode, roomData, [{ type: 'PlayerLeft', userId }], now);
+        roomLogger.info('Player removed from room', { userId, roomCode, remainingPlayers: remainingPlayersCount });
+      }
+
+      transaction.update(userRef(userId), { current_room: null });
+
+      roomLogger.info('User left room successfully', { userId, roomCode });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to leave room', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error leaving room', { userId, roomCode, error });
+    throw new Error('Error al salir de la sala.');
+  }
+};
+
+/**
+ * Starts a game by changing room status from 'waiting' to 'intro'
+ * Only the room creator (first player in order_players) can start the game
+ * @param userId - The ID of the user attempting to start the game
+ * @param roomCode - The room code to start
+ * @returns Promise that resolves when game is started
+ * @throws Error if validation fails or user doesn't have permission
+ */
+export const startGame = async (userId: string, roomCode: string): Promise<void> => {
+  roomLogger.info('User attempting to start game', { userId, roomCode });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      // Validate room status is 'waiting'
+      if (roomData.status !== 'waiting') {
+        throw new Error('La partida ya ha comenzado o ha finalizado.');
+      }
+
+      // Validate exactly 2 players
+      const playerCount = Object.keys(roomData.players).length;
+      if (playerCount !== 2) {
+        throw new Error('Se necesitan exactamente 2 jugadores para iniciar la partida.');
+      }
+
+      // Validate user is the creator (first in order_players)
+      if (roomData.order_players[0] !== userId) {
+        throw new Error('Solo el creador de la sala puede iniciar la partida.');
+      }
+
+      // A best-of-N room starts its series; the series id is the first room's code
+      const now = Timestamp.now();
+      const bestOf = roomData.best_of ?? 1;
+      const startsSeries = bestOf > 1 && !roomData.series_id;
+      if (startsSeries) {
+        transaction.set(
+          db.collection('series').doc(roomCode),
+          createSeriesData(roomData.order_players, bestOf, roomCode, now)
+        );
+      }
+
+      transaction.update(roomRef(roomCode), {
+        status: 'intro' as RoomStatus,
+        ...(startsSeries && { series_id: roomCode }),
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [{ type: 'GameStarted', userId }], now);
+
+      roomLogger.info('Game started successfully', {
+        userId,
+        roomCode,
+        playerCount,
+        newStatus: 'intro'
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to start game', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error starting game', { userId, roomCode, error });
+    throw new Error('Error al iniciar la partida.');
+  }
+};
+
+/**
+ * Completes the intro phase by changing room status from 'intro' to 'playing'
+ * Any player in the room can complete the intro (both see the same intro screen);
+ * the hidden deck is dealt in the same transaction
+ * @param userId - The ID of the player completing the intro
+ * @param roomCode - The room code to transition to playing
+ * @returns Promise that resolves when intro is completed
+ * @throws Error if room doesn't exist, the user is not a player or status is not 'intro'
+ */
+export const completeIntro = async (userId: string, roomCode: string): Promise<void> => {
+  roomLogger.info('Attempting to complete intro', { userId, roomCode });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const [roomSnap, secretSnap] = await transaction.getAll(roomRef(roomCode), secretDeckRef(roomCode));
+      if (!roomSnap.exists) {
+        throw new Error('La sala no existe.');
+      }
+
+      const roomData = roomSnap.data() as FirestoreRoom;
+
+      if (!roomData.order_players.includes(userId)) {
+        throw new Error('No eres parte de esta partida.');
+      }
+
+      // Validate room status is 'intro'
+      if (roomData.status !== 'intro') {
+        throw new Error('La intro no está en progreso. Status actual: ' + roomData.status);
+      }
+
+      // Deal the hidden deck unless a previous attempt already did
+      const dealtDeck = secretSnap.exists ? null : await dealRoomDeck(transaction, roomCode, roomData);
+
+      // Update room status to 'playing' and start the first turn's deadline
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        ...dealtDeck?.roomFields,
+        status: 'playing' as RoomStatus,
+        turn_deadline: getPhaseDeadline(roomData.turn_state, now.toDate()),
+        lastUpdate: now
+      });
+
+      // The full deck is logged so a finished match can be replayed (events are hidden until then)
+      if (dealtDeck) {
+        appendRoomEvents(transaction, roomCode, roomData, [{
+          type: 'DeckDealt',
+          userId,
+          memoryDeck: dealtDeck.memoryDeck,
+          itemDeck: roomData.item_deck || [],
+          seed: dealtDeck.seed
+        }], now);
+      }
+
+      roomLogger.info('Intro completed successfully', {
+        roomCode,
+        previousStatus: 'intro',
+        newStatus: 'playing'
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to complete intro', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error completing intro', { userId, roomCode, error });
+    throw new Error('Error al completar la introducción.');
+  }
+};
+
+/**
+ * Moves both players of a finished room to a follow-up room (rematch or next series game)
+ * Runs inside the caller's transaction: reads both users, then creates the new room,
+ * links it from the finished room and moves both users' current_room
+ * @param transaction - The running transaction (caller reads must already be done)
+ * @param roomCode - The finished room code
+ * @param roomData - The finished room data
+ * @param newRoomCode - Code for the new room
+ * @param newRoom - The new room document
+ * @param event - Event logged on the finished room (who created the follow-up room)
+ * @throws Error if a player already left the finished room
+ */
+const moveToFollowUpRoom = async (
+  transaction: Transaction,
+  roomCode: string,
+  roomData: FirestoreRoom,
+  newRoomCode: string,
+  newRoom: FirestoreRoom,
+  event: LobbyEvent & { userId: string }
+): Promise<void> => {
+  // Both players must still be in the finished room
+  const userRefs = roomData.order_players.map(userRef);
+  const userSnaps = await transaction.getAll(...userRefs);
+  if (userSnaps.some(userSnap => !userSnap.exists || userSnap.data()?.current_room !== roomCode)) {
+    throw new Error('Tu oponente ya salió de la sala.');
+  }
+
+  transaction.set(roomRef(newRoomCode), newRoom);
+  transaction.update(roomRef(roomCode), {
+    rematch_room: newRoomCode,
+    lastUpdate: newRoom.createdAt
+  });
+  userRefs.forEach(ref => transaction.update(ref, { current_room: newRoomCode }));
+
+  appendRoomEvents(transaction, roomCode, roomData, [event], newRoom.createdAt);
+  appendRoomEvents(transaction, newRoomCode, newRoom, [
+    { type: 'RoomCreated', userId: event.userId, previousRoomCode: roomCode }
+  ], newRoom.createdAt);
+};
+
+/**
+ * Proposes a rematch after a finished game
+ * The opponent accepts it with acceptRematch
+ * @param userId - The ID of the user proposing the rematch
+ * @param roomCode - The finished room code
+ * @returns Promise that resolves when the proposal is saved
+ * @throws Error if the game is not finished or a rematch was already proposed
+ */
+export const requestRematch = async (userId: string, roomCode: string): Promise<void> => {
+  roomLogger.info('User requesting rematch', { userId, roomCode });
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      if (roomData.status !== 'finished') {
+        throw new Error('Solo puedes pedir revancha cuando la partida ha terminado.');
+      }
+
+      if (!roomData.order_players.includes(userId)) {
+        throw new Error('No eres parte de esta partida.');
+      }
+
+      if (roomData.rematch_requested_by) {
+        throw new Error('Ya se propuso una revancha.');
+      }
+
+      const now = Timestamp.now();
+      transaction.update(roomRef(roomCode), {
+        rematch_requested_by: userId,
+        lastUpdate: now
+      });
+      appendRoomEvents(transaction, roomCode, roomData, [{ type: 'RematchRequested', userId }], now);
+
+      roomLogger.info('Rematch requested', { userId, roomCode });
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to request rematch', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error requesting rematch', { userId, roomCode, error });
+    throw new Error('Error al pedir la revancha.');
+  }
+};
+
+/**
+ * Accepts a rematch proposed by the opponent
+ * Atomically creates a fresh room with the same players and ruleset (its deck is dealt
+ * when the intro completes), swapped order_players (the other player starts), and moves both users' current_room to it
+ * @param userId - The ID of the user accepting the rematch
+ * @param roomCode - The finished room code
+ * @returns Promise with the new room code
+ * @throws Error if there is no pending rematch or a player already left the room
+ */
+export const acceptRematch = async (userId: string, roomCode: string): Promise<string> => {
+  roomLogger.info('User accepting rematch', { userId, roomCode });
+
+  try {
+    // Generate the new room code outside the transaction (code lookups are not transactional)
+    const newRoomCode = await generateUniqueRoomCode();
+
+    return await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      if (roomData.status !== 'finished') {
+        throw new Error('La partida no ha terminado.');
+      }
+
+      if (!roomData.order_players.includes(userId)) {
+        throw new Error('No eres parte de esta partida.');
+      }
+
+      if (!roomData.rematch_requested_by || roomData.rematch_requested_by === userId) {
+        throw new Error('No hay una revancha pendiente de tu oponente.');
+      }
+
+      if (roomData.rematch_room) {
+        throw new Error('La revancha ya fue creada.');
+      }
+
+      await moveToFollowUpRoom(transaction, roomCode, roomData, newRoomCode, {
+        ...buildInitialRoom(
+          [...roomData.order_players].reverse(), // Swap the turn order so the other player starts
+          getRuleset(roomData), // Same rules as the finished game
+          'intro',
+          Timestamp.now()
+        ),
+        ...(roomData.bot && { bot: roomData.bot }), // The bot plays the rematch too
+        ...(roomData.deck && { deck: toFollowUpDeck(roomData.deck) }) // Same deck (its latest version is dealt)
+      }, { type: 'RematchAccepted', userId, roomCode: newRoomCode });
+
+      roomLogger.info('Rematch room created', { previousRoomCode: roomCode, newRoomCode });
+
+      return newRoomCode;
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to accept rematch', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error accepting rematch', { userId, roomCode, error });
+    throw new Error('Error al aceptar la revancha.');
+  }
+};
+
+/**
+ * Starts the next game of a best-of-N series after a series game finished
+ * Either player can start it; like a rematch, the other player starts the new game
+ * @param userId - The ID of the user starting the next game
+ * @param roomCode - The finished room code
+ * @returns Promise with the new room code
+ * @throws Error if the room is not part of an unfinished series or a player already left
+ */
+export const startNextSeriesGame = async (userId: string, roomCode: string): Promise<string> => {
+  roomLogger.info('User starting next series game', { userId, roomCode });
+
+  try {
+    // Generate the new room code outside the transaction (code lookups are not transactional)
+    const newRoomCode = await generateUniqueRoomCode();
+
+    return await db.runTransaction(async (transaction) => {
+      const roomData = await readRoom(transaction, roomCode);
+
+      if (roomData.status !== 'finished') {
+        throw new Error('La partida no ha terminado.');
+      }
+
+      if (!roomData.order_players.includes(userId)) {
+        throw new Error('No eres parte de esta partida.');
+      }
+
+      if (!roomData.series_id) {
+        throw new Error('Esta partida no es parte de una serie.');
+      }
+
+      if (roomData.rematch_room) {
+        throw new Error('La siguiente partida ya fue creada.');
+      }
+
+      const seriesRef = db.collection('series').doc(roomData.series_id);
+      const seriesSnap = await transaction.get(seriesRef);
+      if (!seriesSnap.exists) {
+        throw new Error('La serie no existe.');
+      }
+
+      const series = seriesSnap.data() as FirestoreSeries;
+      if (series.status !== 'in_progress') {
+        throw new Error('La serie ya terminó.');
+      }
+
+      const now = Timestamp.now();
+      await moveToFollowUpRoom(transaction, roomCode, roomData, newRoomCode, {
+        ...buildInitialRoom(
+          [...roomData.order_players].reverse(), // Players alternate who starts each game
+          getRuleset(roomData), // Same rules as the finished game
+          'intro',
+          now
+        ),
+        best_of: series.best_of,
+        series_id: roomData.series_id,
+        ...(roomData.bot && { bot: roomData.bot }),
+        ...(roomData.deck && { deck: toFollowUpDeck(roomData.deck) })
+      }, { type: 'NextSeriesGameStarted', userId, roomCode: newRoomCode });
+
+      transaction.update(seriesRef, {
+        rooms: [...series.rooms, newRoomCode],
+        lastUpdate: now
+      });
+
+      roomLogger.info('Next series game created', {
+        seriesId: roomData.series_id,
+        previousRoomCode: roomCode,
+        newRoomCode,
+        gameNumber: series.rooms.length + 1
+      });
+
+      return newRoomCode;
+    });
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error('Failed to start next series game', { userId, roomCode, message: error.message });
+      throw error;
+    }
+
+    roomLogger.error('Unexpected error starting next series game', { userId, roomCode, error });
+    throw new Error('Error al iniciar la siguiente partida.');
+  }
+};
@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import { useAuthStore } from '@/stores/authStore';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { Toaster } from '@/components/ui/sonner';
@@ -7,8 +7,17 @@ import AuthPage from '@/pages/AuthPage';
 import RegisterPage from '@/pages/RegisterPage';
 import MainMenuPage from '@/pages/MainMenuPage';
 import GamePage from '@/pages/GamePage';
+import SpectatorPage from '@/pages/SpectatorPage';
+import ReplayPage from '@/pages/ReplayPage';
+import ProfilePage from '@/pages/ProfilePage';
+import LeaderboardPage from '@/pages/LeaderboardPage';
+import HotSeatPage from '@/pages/HotSeatPage';
+import DeckEditorPage from '@/pages/DeckEditorPage';
 
-function App() {
+/**
+ * Layout of the account routes: listens to Firebase Auth while one of them is open
+ */
+function AuthLayout() {
   const { initializeAuth } = useAuthStore();
 
   useEffect(() => {
@@ -20,27 +29,75 @@ function App() {
     };
   }, [initializeAuth]);
 
+  return <Outlet />;
+}
+
+function App() {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<AuthPage />} />
-        <Route path="/register" element={<RegisterPage />} />
-        <Route
-          path="/menu"
-          element={
-            <ProtectedRoute>
-              <MainMenuPage />
-            </ProtectedRoute>
-          }
-        />
-        <Route
-          path="/game/:roomId"
-          element={
-            <ProtectedRoute>
-              <GamePage />
-            </ProtectedRoute>
-          }
-        />
+        {/* Local match on one device: no account needed, so it stays outside the auth layout */}
+        <Route path="/hotseat" element={<HotSeatPage />} />
+        <Route element={<AuthLayout />}>
+          <Route path="/" element={<AuthPage />} />
+          <Route path="/register" element={<RegisterPage />} />
+          <Route
+            path="/menu"
+            element={
+              <ProtectedRoute>
+                <MainMenuPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/game/:roomId"
+            element={
+              <ProtectedRoute>
+                <GamePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/game/:roomId/watch"
+            element={
+              <ProtectedRoute>
+                <SpectatorPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/replay/:roomId"
+            element={
+              <ProtectedRoute>
+                <ReplayPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/profile/:userId"
+            element={
+              <ProtectedRoute>
+                <ProfilePage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/leaderboard"
+            element={
+              <ProtectedRoute>
+                <LeaderboardPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/decks"
+            element={
+              <ProtectedRoute>
+                <DeckEditorPage />
+              </ProtectedRoute>
+            }
+          />
+        </Route>
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
       <Toaster position="top-center" />
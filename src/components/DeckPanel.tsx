@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/8bit/button';
+import { listDecks } from '@/services/roomService';
+import { listCustomDecks } from '@/services/customDeckService';
+import { deckRepository } from '@/repositories';
+import { logger } from '@/lib/utils/logger';
+import type { DeckSummary } from '@/types';
+
+interface DeckPanelProps {
+  deckId: string;
+  isCustomDeck: boolean; // The room's deck is one of its creator's private decks
+  minSize: number; // Memories the room's rules need (smaller decks can't be picked)
+  canEdit: boolean;
+  userId: string; // The viewer; the creator can also pick their own decks
+  onSelect: (deckId: string, isCustomDeck: boolean) => Promise<void>;
+}
+
+/**
+ * Deck catalog of a waiting room: the creator picks the deck the memories are drawn from,
+ * either from the shared catalog or from their own decks (see DeckEditorPage)
+ */
+export function DeckPanel({ deckId, isCustomDeck, minSize, canEdit, userId, onSelect }: DeckPanelProps) {
+  const [decks, setDecks] = useState<DeckSummary[] | null>(null);
+  const [customDecks, setCustomDecks] = useState<DeckSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    // Private decks are only readable by their owner, so only the creator lists them
+    Promise.all([listDecks(), canEdit ? listCustomDecks(deckRepository, userId) : Promise.resolve([])])
+      .then(([catalog, ownDecks]) => {
+        if (!isCancelled) {
+          setDecks(catalog);
+          setCustomDecks(ownDecks);
+        }
+      })
+      .catch((error: any) => {
+        logger.error('Error loading deck catalog', error);
+        if (!isCancelled) {
+          setError(error.message || 'Error al cargar los mazos');
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [canEdit, userId]);
+
+  const handleSelect = async (selectedDeckId: string, isCustom: boolean) => {
+    setError(null);
+    setIsSaving(true);
+
+    try {
+      await onSelect(selectedDeckId, isCustom);
+    } catch (error: any) {
+      logger.error('Error selecting deck', error);
+      setError(error.message || 'Error al cambiar el mazo');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const currentDeck = (isCustomDeck ? customDecks : decks)?.find(deck => deck.id === deckId);
+  const isCurrent = (deck: DeckSummary, isCustom: boolean) => deck.id === deckId && isCustom === isCustomDeck;
+
+  const renderDeckButton = (deck: DeckSummary, isCustom: boolean) => (
+    <Button
+      key={deck.id}
+      variant={isCurrent(deck, isCustom) ? 'default' : 'secondary'}
+      size="sm"
+      onClick={() => handleSelect(deck.id, isCustom)}
+      disabled={isSaving || isCurrent(deck, isCustom) || deck.size < minSize}
+      className="w-full h-auto justify-between text-left"
+    >
+      <span>
+        {deck.name}
+        {deck.theme && <span className="text-xs"> · {deck.theme}</span>}
+      </span>
+      <span className="text-xs">
+        {deck.size} recuerdos · {deck.language.toUpperCase()} · v{deck.version}
+        {deck.author && ` · ${deck.author}`}
+      </span>
+    </Button>
+  );
+
+  const allDecks = [...(decks ?? []), ...customDecks];
+
+  return (
+    <div className="border rounded-lg p-6 w-full max-w-2xl space-y-4">
+      <h2 className="text-xl font-bold">Mazo</h2>
+
+      {!decks && !error && <p className="text-sm text-muted-foreground">Cargando mazos...</p>}
+
+      {decks && !canEdit && (
+        <p className="text-sm font-bold">{currentDeck?.name ?? (isCustomDeck ? 'Mazo personalizado' : deckId)}</p>
+      )}
+
+      {decks && canEdit && (
+        <div className="space-y-2">
+          {decks.map(deck => renderDeckButton(deck, false))}
+
+          {customDecks.length > 0 && (
+            <>
+              <p className="text-xs font-bold pt-2">Tus mazos</p>
+              {customDecks.map(deck => renderDeckButton(deck, true))}
+            </>
+          )}
+        </div>
+      )}
+
+      {canEdit && allDecks.some(deck => deck.size < minSize) && (
+        <p className="text-xs text-muted-foreground">
+          Los mazos con menos de {minSize} recuerdos no alcanzan para las reglas actuales.
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
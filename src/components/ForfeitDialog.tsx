@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/8bit/dialog';
+import { Button } from '@/components/ui/8bit/button';
+
+interface ForfeitDialogProps {
+  children: React.ReactNode;
+  onConfirm: () => Promise<void>;
+  isLeaving: boolean;
+}
+
+export function ForfeitDialog({ children, onConfirm, isLeaving }: ForfeitDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Abandonar Partida</DialogTitle>
+          <DialogDescription>
+            Si abandonas ahora la partida termina y cuenta como una derrota. Tu oponente sera declarado el original.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => setOpen(false)}
+            disabled={isLeaving}
+          >
+            Seguir jugando
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={onConfirm}
+            disabled={isLeaving}
+          >
+            {isLeaving ? 'Abandonando...' : 'Abandonar y perder'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,44 @@
 import { Card } from '@/components/ui/8bit/card';
 import { Button } from '@/components/ui/8bit/button';
 import { motion } from 'framer-motion';
+import type { SeriesScore, WinReason } from '@/types';
+
+// 'sent': this player proposed a rematch, 'received': the opponent proposed one
+export type RematchStatus = 'none' | 'sent' | 'received';
 
 interface GameOverProps {
   isWinner: boolean;
+  isDraw: boolean;
+  winReason?: WinReason | null;
+  winnerName?: string; // Shared screen (hot-seat): the result is announced by name
   memoryHistory: string[];
   onBackToMenu: () => void;
+  rematchStatus: RematchStatus;
+  onRematch: () => void;
+  isRematchProcessing?: boolean;
+  seriesScore?: SeriesScore | null;
+  onNextSeriesGame?: () => void;
+  onWatchReplay?: () => void;
 }
 
-export function GameOver({ isWinner, memoryHistory, onBackToMenu }: GameOverProps) {
+export function GameOver({
+  isWinner,
+  isDraw,
+  winReason,
+  winnerName,
+  memoryHistory,
+  onBackToMenu,
+  rematchStatus,
+  onRematch,
+  isRematchProcessing = false,
+  seriesScore = null,
+  onNextSeriesGame,
+  onWatchReplay
+}: GameOverProps) {
+  // While a series is undecided the next game replaces the rematch
+  const isSeriesInProgress = seriesScore?.status === 'in_progress';
+  // A player who forfeited has already left the room, so there is no one to play again
+  const canRematch = winReason !== 'opponent_forfeited' && !isSeriesInProgress;
 
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-8">
@@ -30,7 +60,16 @@ export function GameOver({ isWinner, memoryHistory, onBackToMenu }: GameOverProp
               GAME OVER
             </h1>
 
-            {isWinner ? (
+            {isDraw ? (
+              <div className="space-y-2">
+                <h2 className="text-3xl font-bold text-yellow-500">
+                  EMPATE
+                </h2>
+                <p className="text-lg text-muted-foreground">
+                  El mazo se agoto y ambas consciencias conservan la misma integridad. Ninguna puede probar ser el original.
+                </p>
+              </div>
+            ) : isWinner ? (
               <div className="space-y-2">
                 <h2 className="text-3xl font-bold text-green-500">
                   SERAS RESTAURADO
@@ -49,6 +88,48 @@ export function GameOver({ isWinner, memoryHistory, onBackToMenu }: GameOverProp
                 </p>
               </div>
             )}
+
+            {winnerName && !isDraw && (
+              <p className="text-xl font-bold">
+                Ganador: {winnerName}
+              </p>
+            )}
+
+            {winReason === 'deck_exhausted' && (
+              <p className="text-sm text-muted-foreground">
+                El mazo se agoto. Gana la consciencia con mayor integridad.
+              </p>
+            )}
+
+            {winReason === 'opponent_forfeited' && (
+              <p className="text-sm text-muted-foreground">
+                {isWinner
+                  ? 'Tu oponente abandono la partida.'
+                  : 'Abandonaste la partida.'}
+              </p>
+            )}
+
+            {winReason === 'timeout' && (
+              <p className="text-sm text-muted-foreground">
+                Una consciencia dejo de responder demasiadas veces y fue desconectada.
+              </p>
+            )}
+
+            {seriesScore && (
+              <div className="space-y-1">
+                <p className="text-xl font-bold">
+                  Serie (mejor de {seriesScore.bestOf}):{' '}
+                  <span className="text-green-500">{seriesScore.playerWins}</span>
+                  {' - '}
+                  <span className="text-red-500">{seriesScore.opponentWins}</span>
+                </p>
+                {!isSeriesInProgress && (
+                  <p className={`text-lg font-bold ${seriesScore.isSeriesWinner ? 'text-green-500' : 'text-red-500'}`}>
+                    {seriesScore.isSeriesWinner ? 'Ganaste la serie' : 'Perdiste la serie'}
+                  </p>
+                )}
+              </div>
+            )}
           </motion.div>
 
           {/* Memories Section */}
@@ -91,16 +172,59 @@ export function GameOver({ isWinner, memoryHistory, onBackToMenu }: GameOverProp
             initial={{ y: 20, opacity: 0 }}
             animate={{ y: 0, opacity: 1 }}
             transition={{ delay: 0.6 }}
-            className="flex justify-center"
+            className="flex flex-col items-center gap-3"
           >
-            <Button
-              variant="default"
-              size="lg"
-              onClick={onBackToMenu}
-              className="px-8"
-            >
-              Volver al Menu Principal
-            </Button>
+            {rematchStatus === 'received' && (
+              <p className="text-sm text-yellow-500 font-bold">
+                Tu oponente quiere la revancha
+              </p>
+            )}
+            <div className="flex gap-4">
+              {isSeriesInProgress && onNextSeriesGame && (
+                <Button
+                  variant="secondary"
+                  size="lg"
+                  onClick={onNextSeriesGame}
+                  disabled={isRematchProcessing}
+                  className="px-8"
+                >
+                  Siguiente partida
+                </Button>
+              )}
+              {canRematch && (
+                <Button
+                  variant="secondary"
+                  size="lg"
+                  onClick={onRematch}
+                  disabled={rematchStatus === 'sent' || isRematchProcessing}
+                  className="px-8"
+                >
+                  {rematchStatus === 'sent'
+                    ? 'Esperando a tu oponente...'
+                    : rematchStatus === 'received'
+                      ? 'Aceptar Revancha'
+                      : 'Revancha'}
+                </Button>
+              )}
+              {onWatchReplay && (
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={onWatchReplay}
+                  className="px-8"
+                >
+                  Ver repetición
+                </Button>
+              )}
+              <Button
+                variant="default"
+                size="lg"
+                onClick={onBackToMenu}
+                className="px-8"
+              >
+                Volver al Menu Principal
+              </Button>
+            </div>
           </motion.div>
         </Card>
       </motion.div>
@@ -60,7 +60,7 @@ export function JoinRoomDialog({ children }: JoinRoomDialogProps) {
       logger.info('Attempting to join room', { roomId: data.roomId, userId: user.id });
 
       // Join room using service (validates room exists, not full, etc.)
-      await joinRoom(user.id, data.roomId.toUpperCase());
+      await joinRoom(data.roomId.toUpperCase());
 
       logger.info('Successfully joined room', { roomId: data.roomId });
 
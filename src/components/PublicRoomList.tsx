@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { DEFAULT_RULESET, GAME_CONFIG, RULESET_PRESETS, findRulesetPresetId } from '@/config/gameConfig';
+import { joinRoom } from '@/services/roomService';
+import { roomRepository, userRepository } from '@/repositories';
+import type { PublicRoom, Ruleset } from '@/types';
+
+interface PublicRoomListProps {
+  userId: string;
+  disabled?: boolean;
+}
+
+const STALE_MS = GAME_CONFIG.lobby.staleMinutes * 60 * 1000;
+
+/**
+ * Summarizes a ruleset in one line (preset name, win/loss limits and deck size)
+ */
+const describeRuleset = (ruleset: Ruleset): string => {
+  const presetId = findRulesetPresetId(ruleset);
+  const name = presetId ? RULESET_PRESETS[presetId].name : 'Personalizadas';
+  return `${name} · +${ruleset.targetIntegrity} / ${ruleset.lossThreshold} · ${ruleset.deckSize} cartas`;
+};
+
+/**
+ * Formats how long ago a room was created
+ */
+const formatAge = (createdAt: number, now: number): string => {
+  const minutes = Math.floor((now - createdAt) / 60000);
+  return minutes < 1 ? 'recién creada' : `hace ${minutes} min`;
+};
+
+/**
+ * Live list of public rooms waiting for a second player, with one-click join
+ */
+export function PublicRoomList({ userId, disabled = false }: PublicRoomListProps) {
+  const navigate = useNavigate();
+  const [rooms, setRooms] = useState<PublicRoom[]>([]);
+  const [hostNames, setHostNames] = useState<{ [userId: string]: string }>({});
+  const [joiningRoom, setJoiningRoom] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Real-time listener for public waiting rooms updated recently
+  // Reads more rooms than listed (full ones are dropped below) and moves the cutoff on every refresh
+  useEffect(() => {
+    const unsubscribe = roomRepository.subscribePublic(
+      new Date(now - STALE_MS),
+      GAME_CONFIG.lobby.maxFetched,
+      setRooms,
+      (error) => logger.error('Public rooms listener error', error, 'PublicRoomList')
+    );
+
+    return () => unsubscribe();
+  }, [now]);
+
+  // Refresh room ages and the listener cutoff (drops rooms that went stale while listed)
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Fetch the names of hosts not seen yet
+  useEffect(() => {
+    const missingHosts = rooms
+      .map(({ room }) => room.order_players[0])
+      .filter(hostId => hostId && !(hostId in hostNames));
+
+    if (missingHosts.length === 0) {
+      return;
+    }
+
+    Promise.all(missingHosts.map(async (hostId) => {
+      const userData = await userRepository.get(hostId);
+      return [hostId, userData?.name || 'Jugador'] as const;
+    }))
+      .then(names => setHostNames(previous => ({ ...previous, ...Object.fromEntries(names) })))
+      .catch(error => logger.error('Failed to fetch host names', error, 'PublicRoomList'));
+  }, [rooms, hostNames]);
+
+  const handleJoin = async (roomCode: string) => {
+    setJoiningRoom(roomCode);
+
+    try {
+      await joinRoom(roomCode);
+      navigate(`/game/${roomCode}`);
+    } catch (error: any) {
+      logger.error('Error joining public room', { error, roomCode }, 'PublicRoomList');
+      toast(error.message || 'Error al unirse a la sala');
+      setJoiningRoom(null);
+    }
+  };
+
+  // Only rooms with an open seat, not hosted by the user, and still fresh
+  const openRooms = rooms.filter(({ room }) =>
+    room.order_players.length < GAME_CONFIG.room.maxPlayers &&
+    !room.order_players.includes(userId) &&
+    now - room.lastUpdate.toMillis() < STALE_MS
+  ).slice(0, GAME_CONFIG.lobby.maxListed);
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-semibold text-center">Salas públicas</h2>
+
+      {openRooms.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic text-center">
+          No hay salas públicas esperando jugadores
+        </p>
+      ) : (
+        openRooms.map(({ code, room }) => (
+          <div key={code} className="border rounded p-3 flex items-center justify-between gap-3 text-sm">
+            <div className="space-y-1">
+              <p className="font-bold">{hostNames[room.order_players[0]] ?? 'Jugador'}</p>
+              <p className="text-xs text-muted-foreground">{describeRuleset(room.ruleset ?? DEFAULT_RULESET)}</p>
+              <p className="text-xs text-muted-foreground">{formatAge(room.createdAt.toMillis(), now)}</p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => handleJoin(code)}
+              disabled={disabled || joiningRoom !== null}
+            >
+              {joiningRoom === code ? 'Uniendo...' : 'Unirse'}
+            </Button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
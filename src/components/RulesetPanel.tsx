@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { get, useForm, type Path } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/8bit/button';
+import { Input } from '@/components/ui/8bit/input';
+import { Label } from '@/components/ui/8bit/label';
+import { RULESET_PRESETS, findRulesetPresetId } from '@/config/gameConfig';
+import { rulesetSchema, type RulesetFormData } from '@/lib/validations/ruleset';
+import { logger } from '@/lib/utils/logger';
+import type { Ruleset, RulesetPresetId } from '@/types';
+
+interface RulesetPanelProps {
+  ruleset: Ruleset;
+  canEdit: boolean;
+  onSave: (ruleset: Ruleset) => Promise<void>;
+}
+
+// Editable ruleset fields, in display order
+const RULESET_FIELDS: { name: Path<RulesetFormData>; label: string }[] = [
+  { name: 'targetIntegrity', label: 'Integridad objetivo' },
+  { name: 'lossThreshold', label: 'Umbral de derrota' },
+  { name: 'rejectMultiplier', label: 'Multiplicador al rechazar' },
+  { name: 'tableSize', label: 'Cartas en mesa' },
+  { name: 'deckSize', label: 'Tamaño del mazo' },
+  { name: 'distribution.authentic', label: 'Auténticas' },
+  { name: 'distribution.corrupted', label: 'Corruptas' },
+  { name: 'distribution.fatalGlitch', label: 'Fatal glitches' },
+  { name: 'pointValues.authentic', label: 'Valor auténtica' },
+  { name: 'pointValues.corrupted', label: 'Valor corrupta' },
+  { name: 'pointValues.fatalGlitch', label: 'Valor fatal glitch' },
+];
+
+export function RulesetPanel({ ruleset, canEdit, onSave }: RulesetPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors: formErrors, isSubmitting },
+    reset,
+  } = useForm<RulesetFormData>({
+    resolver: zodResolver(rulesetSchema),
+    defaultValues: ruleset,
+  });
+
+  const currentPresetId = findRulesetPresetId(ruleset);
+
+  const handleEdit = () => {
+    reset(ruleset);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handlePresetSelect = (presetId: RulesetPresetId) => {
+    reset(RULESET_PRESETS[presetId].ruleset);
+  };
+
+  const onSubmit = async (data: RulesetFormData) => {
+    setError(null);
+
+    try {
+      logger.info('Saving room ruleset', { targetIntegrity: data.targetIntegrity, deckSize: data.deckSize });
+      await onSave(data);
+      setIsEditing(false);
+    } catch (error: any) {
+      logger.error('Error saving room ruleset', error);
+      setError(error.message || 'Error al guardar las reglas');
+    }
+  };
+
+  // Show only the first form error (fields are nested and the grid has no room for messages)
+  const firstFormError: string | undefined = RULESET_FIELDS
+    .map(field => get(formErrors, field.name)?.message)
+    .find(Boolean);
+
+  return (
+    <div className="border rounded-lg p-6 w-full max-w-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold">Reglas</h2>
+        <span className="text-xs px-2 py-1 bg-primary/20 rounded">
+          {currentPresetId ? RULESET_PRESETS[currentPresetId].name : 'Personalizadas'}
+        </span>
+      </div>
+
+      {!isEditing && (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <span className="text-muted-foreground">Victoria / Derrota:</span>
+          <span className="font-bold">+{ruleset.targetIntegrity} / {ruleset.lossThreshold}</span>
+          <span className="text-muted-foreground">Multiplicador al rechazar:</span>
+          <span className="font-bold">{ruleset.rejectMultiplier}x</span>
+          <span className="text-muted-foreground">Mazo:</span>
+          <span className="font-bold">
+            {ruleset.deckSize} cartas ({ruleset.distribution.authentic} / {ruleset.distribution.corrupted} / {ruleset.distribution.fatalGlitch})
+          </span>
+          <span className="text-muted-foreground">Valores:</span>
+          <span className="font-bold">
+            +{ruleset.pointValues.authentic} / {ruleset.pointValues.corrupted} / {ruleset.pointValues.fatalGlitch}
+          </span>
+          <span className="text-muted-foreground">Cartas en mesa:</span>
+          <span className="font-bold">{ruleset.tableSize}</span>
+        </div>
+      )}
+
+      {canEdit && !isEditing && (
+        <Button variant="outline" size="sm" onClick={handleEdit} className="w-full">
+          Cambiar reglas
+        </Button>
+      )}
+
+      {canEdit && isEditing && (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="flex gap-2">
+            {(Object.keys(RULESET_PRESETS) as RulesetPresetId[]).map(presetId => (
+              <Button
+                key={presetId}
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={() => handlePresetSelect(presetId)}
+                className="flex-1"
+              >
+                {RULESET_PRESETS[presetId].name}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {RULESET_FIELDS.map(field => (
+              <div key={field.name} className="grid gap-1">
+                <Label htmlFor={field.name} className="text-xs">{field.label}</Label>
+                <Input
+                  id={field.name}
+                  type="number"
+                  {...register(field.name, { valueAsNumber: true })}
+                />
+              </div>
+            ))}
+          </div>
+
+          {(error || firstFormError) && (
+            <div className="bg-destructive/10 border border-destructive text-destructive px-4 py-3 rounded text-sm">
+              {error || firstFormError}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsEditing(false)}
+              disabled={isSubmitting}
+              className="flex-1"
+            >
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSubmitting} className="flex-1">
+              {isSubmitting ? 'Guardando...' : 'Guardar reglas'}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
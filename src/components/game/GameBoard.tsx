@@ -1,28 +1,44 @@
+import { useState } from 'react';
 import { InfoPanel } from './InfoPanel';
 import { PlayArea } from './PlayArea';
-import type { PlayerInfo, FirestoreRoom } from '@/types';
+import { getRuleset } from '@/services/gameEngine';
+import { ITEM_DEFINITIONS } from '@/config/gameConfig';
+import type { PlayerInfo, FirestorePlayerView, FirestoreRoom, ItemCard, ItemTarget, SeriesScore } from '@/types';
 
 interface GameBoardProps {
   room: FirestoreRoom;
+  playerView: FirestorePlayerView | null; // Hidden cards revealed to this player (current card, peeks)
   currentPlayer: PlayerInfo;
   opponent: PlayerInfo;
   userId: string;
   onClaim: () => void;
   onReject: () => void;
   onCardSelect: (cardIndex: number) => void;
+  onUseItem: (item: ItemCard, target?: ItemTarget) => void;
+  secondsLeft: number | null;
+  seriesScore: SeriesScore | null;
 }
 
 export function GameBoard({
   room,
+  playerView,
   currentPlayer,
   opponent,
   userId,
   onClaim,
   onReject,
-  onCardSelect
+  onCardSelect,
+  onUseItem,
+  secondsLeft,
+  seriesScore
 }: GameBoardProps) {
+  // Item waiting for the player to choose a table card (peek, swap)
+  const [pendingItem, setPendingItem] = useState<ItemCard | null>(null);
+
+  const ruleset = getRuleset(room);
+
   // Calculate game statistics
-  const totalCards = 15; // Total cards in the game
+  const totalCards = ruleset.deckSize; // Total cards in the game
 
   // Calculate revealed cards (cards already played/used)
   const usedCardsCount = room.used_cards?.length || 0;
@@ -31,10 +47,10 @@ export function GameBoard({
   // Calculate remaining cards (cards not yet played/revealed)
   const remainingCards = totalCards - usedCardsCount;
 
-  // Count authentic cards in deck (cards not yet played)
-  const authenticCount = room.memory_deck.filter(card => card.authenticity === 'authentic').length;
-  const corruptedCount = room.memory_deck.filter(card => card.authenticity === 'corrupted').length;
-  const fatalGlitchCount = room.memory_deck.filter(card => card.authenticity === 'fatalGlitch').length;
+  // Count cards of each type in the deck (the deck itself is hidden, its distribution is in the ruleset)
+  const authenticCount = ruleset.distribution.authentic;
+  const corruptedCount = ruleset.distribution.corrupted;
+  const fatalGlitchCount = ruleset.distribution.fatalGlitch;
 
   // Count revealed cards by type (from used_cards)
   const revealedAuthentic = room.used_cards?.filter(playedCard => playedCard.card.authenticity === 'authentic').length || 0;
@@ -75,7 +91,47 @@ export function GameBoard({
   const canSelectCard = isPlayerTurn && room.turn_state === 'draw';
 
   // Calculate remaining cards in deck (not yet drawn to table)
-  const remainingDeckSize = room.memory_deck.length - room.cards_drawn;
+  const remainingDeckSize = totalCards - room.cards_drawn;
+
+  // Current player's items and the table cards they revealed with peek items
+  const playerState = room.players[userId];
+  const items = playerState?.items || [];
+  const peekedCards = playerView?.peeked_cards || [];
+  const peekedAuthenticities = room.table_cards.map(
+    card => peekedCards.find(peeked => peeked.memory === card.memory)?.authenticity ?? null
+  );
+
+  // Targeted items can only be used while the player can pick a table card
+  const targetingItem = canSelectCard ? pendingItem : null;
+  if (targetingItem) {
+    currentPhase = `Elige una carta para usar ${targetingItem.name}`;
+  }
+
+  // Determine if an item can be used right now (the engine validates it again)
+  const canUseItem = (item: ItemCard): boolean => {
+    if (item.effect === 'cancel_multiplier') {
+      return room.turn_state === 'opponent_decide' && room.card_initiator !== userId && room.current_multiplier > 1;
+    }
+    return canSelectCard;
+  };
+
+  const handleItemClick = (item: ItemCard) => {
+    if (ITEM_DEFINITIONS[item.effect].requiresTarget) {
+      // Toggle targeting mode: the next table card click uses the item
+      setPendingItem(pendingItem?.id === item.id ? null : item);
+      return;
+    }
+    onUseItem(item);
+  };
+
+  const handleTableCardClick = (cardIndex: number) => {
+    if (targetingItem) {
+      setPendingItem(null);
+      onUseItem(targetingItem, { cardIndex });
+      return;
+    }
+    onCardSelect(cardIndex);
+  };
 
   return (
     <div className="h-screen w-full flex flex-col">
@@ -100,9 +156,12 @@ export function GameBoard({
           revealedCorrupted={revealedCorrupted}
           gameStatus={room.status}
           tableCards={room.table_cards}
-          onCardSelect={onCardSelect}
+          onCardSelect={handleTableCardClick}
           canSelectCard={canSelectCard}
           turnState={room.turn_state}
+          peekedAuthenticities={peekedAuthenticities}
+          targetingItem={targetingItem}
+          secondsLeft={secondsLeft}
         />
       </div>
 
@@ -114,6 +173,14 @@ export function GameBoard({
           currentPhase={currentPhase}
           memoryHistory={memoryHistory}
           isPlayerTurn={isPlayerTurn}
+          targetIntegrity={ruleset.targetIntegrity}
+          lossThreshold={ruleset.lossThreshold}
+          items={items}
+          isShielded={!!playerState?.shielded}
+          selectedItemId={targetingItem?.id ?? null}
+          canUseItem={canUseItem}
+          onItemClick={handleItemClick}
+          seriesScore={seriesScore}
         />
       </div>
     </div>
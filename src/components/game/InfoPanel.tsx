@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/8bit/card';
 import HealthBar from '@/components/ui/8bit/health-bar';
-import type { PlayerInfo } from '@/types';
+import type { ItemCard, PlayerInfo, SeriesScore } from '@/types';
 
 interface InfoPanelProps {
   currentPlayer: PlayerInfo;
@@ -9,6 +9,14 @@ interface InfoPanelProps {
   currentPhase: string;
   memoryHistory: string[];
   isPlayerTurn: boolean;
+  targetIntegrity: number;
+  lossThreshold: number;
+  items: ItemCard[];
+  isShielded: boolean;
+  selectedItemId: string | null;
+  canUseItem: (item: ItemCard) => boolean;
+  onItemClick: (item: ItemCard) => void;
+  seriesScore: SeriesScore | null;
 }
 
 export function InfoPanel({
@@ -16,7 +24,15 @@ export function InfoPanel({
   opponent,
   currentPhase,
   memoryHistory,
-  isPlayerTurn
+  isPlayerTurn,
+  targetIntegrity,
+  lossThreshold,
+  items,
+  isShielded,
+  selectedItemId,
+  canUseItem,
+  onItemClick,
+  seriesScore
 }: InfoPanelProps) {
   // Ref for auto-scrolling to latest memory
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -28,12 +44,12 @@ export function InfoPanel({
     }
   }, [memoryHistory.length]);
 
-  // Convert integrity values from range [-10, 10] to percentage [0, 100]
+  // Convert integrity values from range [lossThreshold, targetIntegrity] to percentage [0, 100]
   const normalizeIntegrity = (value: number): number => {
-    // Clamp value between -10 and 10
-    const clampedValue = Math.max(-10, Math.min(10, value));
-    // Convert to percentage: -10 = 0%, 0 = 50%, 10 = 100%
-    return ((clampedValue + 10) / 20) * 100;
+    // Clamp value between the ruleset limits
+    const clampedValue = Math.max(lossThreshold, Math.min(targetIntegrity, value));
+    // Convert to percentage: lossThreshold = 0%, targetIntegrity = 100%
+    return ((clampedValue - lossThreshold) / (targetIntegrity - lossThreshold)) * 100;
   };
 
   const currentPlayerPercentage = normalizeIntegrity(currentPlayer.integrity);
@@ -41,12 +57,20 @@ export function InfoPanel({
 
   return (
     <div className="h-full p-3 flex flex-col gap-3 overflow-hidden">
-      {/* Top row: Current phase */}
+      {/* Top row: Current phase (and series score when playing a best-of-N) */}
       <Card className="p-1.5 flex-shrink-0">
-        <div className="flex items-center justify-center">
+        <div className="flex items-center justify-center gap-4">
           <p className={`text-xs font-bold text-center ${isPlayerTurn ? 'text-green-500' : 'text-yellow-500'}`}>
             {currentPhase}
           </p>
+          {seriesScore && (
+            <p className="text-xs font-bold text-muted-foreground">
+              Partida {seriesScore.gameNumber} · Mejor de {seriesScore.bestOf} ·{' '}
+              <span className="text-green-500">{seriesScore.playerWins}</span>
+              {' - '}
+              <span className="text-red-500">{seriesScore.opponentWins}</span>
+            </p>
+          )}
         </div>
       </Card>
 
@@ -77,11 +101,41 @@ export function InfoPanel({
 
           {/* Items below */}
           <Card className="p-2 flex-1 flex flex-col overflow-hidden min-h-0">
-            <h3 className="text-sm font-bold mb-2 flex-shrink-0">Items</h3>
-            <div className="space-y-2">
-              <p className="text-xs text-muted-foreground italic text-center py-4">
-                No hay items disponibles aún
-              </p>
+            <div className="flex items-center justify-between mb-2 flex-shrink-0">
+              <h3 className="text-sm font-bold">Items</h3>
+              {isShielded && (
+                <span className="text-xs text-blue-400 font-bold">Firewall activo</span>
+              )}
+            </div>
+            <div className="space-y-2 overflow-y-auto flex-1 min-h-0">
+              {items.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic text-center py-4">
+                  No hay items disponibles aún
+                </p>
+              ) : (
+                items.map(item => {
+                  const isUsable = canUseItem(item);
+                  const isSelected = item.id === selectedItemId;
+
+                  return (
+                    <button
+                      key={item.id}
+                      type="button"
+                      disabled={!isUsable}
+                      onClick={() => onItemClick(item)}
+                      title={item.description}
+                      className={`w-full text-left text-xs p-2 rounded border ${
+                        isSelected
+                          ? 'border-yellow-500 bg-yellow-500/20'
+                          : 'border-primary/20 bg-secondary/50'
+                      } ${isUsable ? 'cursor-pointer hover:border-primary' : 'cursor-not-allowed opacity-50'}`}
+                    >
+                      <span className="font-bold">{item.name}</span>
+                      <span className="block text-muted-foreground">{item.description}</span>
+                    </button>
+                  );
+                })
+              )}
             </div>
           </Card>
         </div>
@@ -8,11 +8,12 @@ import {
 } from '@/components/ui/8bit/dialog';
 import { Button } from '@/components/ui/8bit/button';
 import { Card } from '@/components/ui/8bit/card';
-import type { MemoryCard, TurnState } from '@/types';
+import type { ItemCard, MemoryCard, PublicMemoryCard, TurnState } from '@/types';
 
 interface MemoryCardModalProps {
   isOpen: boolean;
-  card: MemoryCard | null;
+  card: PublicMemoryCard | null;
+  revealedCard?: MemoryCard | null; // Full card from the player's view (only the initiator gets it)
   turnState: TurnState;
   currentMultiplier: number;
   isPlayerTurn: boolean;
@@ -21,11 +22,17 @@ interface MemoryCardModalProps {
   onClaim: () => void;
   onReject: () => void;
   isProcessing?: boolean;
+  secondsLeft?: number | null; // Time left to decide before the card is auto-claimed
+  cancelMultiplierItem?: ItemCard | null; // Item the rejected player can use to reset the multiplier
+  onUseItem?: (item: ItemCard) => void;
+  isSpectator?: boolean; // Read-only watcher: never sees card details nor acts
+  isReplay?: boolean; // Finished match replay: the full card is shown (revealedCard), nobody acts
 }
 
 export function MemoryCardModal({
   isOpen,
   card,
+  revealedCard = null,
   turnState,
   currentMultiplier,
   isPlayerTurn: _isPlayerTurn,
@@ -33,7 +40,12 @@ export function MemoryCardModal({
   currentUserId,
   onClaim,
   onReject,
-  isProcessing = false
+  isProcessing = false,
+  secondsLeft = null,
+  cancelMultiplierItem = null,
+  onUseItem,
+  isSpectator = false,
+  isReplay = false
 }: MemoryCardModalProps) {
   // Note: _isPlayerTurn is kept for potential future use
   void _isPlayerTurn;
@@ -44,8 +56,13 @@ export function MemoryCardModal({
   // Player can see authenticity/value if:
   // 1. They are in 'decide' state AND they are the initiator (they selected the card)
   // 2. They are in 'opponent_decide' state AND they were the initiator (they see full card they rejected)
-  const canSeeCardDetails = (turnState === 'decide' && cardInitiator === currentUserId) ||
-                            (turnState === 'opponent_decide' && cardInitiator === currentUserId);
+  // 3. The trusted resolver already revealed the full card to them
+  // Spectators never see them (they don't get a player view); replays of finished matches always do
+  const isReadOnly = isSpectator || isReplay;
+  const canSeeCardDetails = (isReplay || (!isSpectator && ((turnState === 'decide' && cardInitiator === currentUserId) ||
+                            (turnState === 'opponent_decide' && cardInitiator === currentUserId)))) &&
+                            revealedCard?.memory === card.memory;
+  const cardDetails = canSeeCardDetails ? revealedCard : null;
 
   // Determine card color based on authenticity
   const getCardColor = (authenticity: string) => {
@@ -70,6 +87,9 @@ export function MemoryCardModal({
 
   // Determine modal title based on state
   const getModalTitle = () => {
+    if (isReadOnly) {
+      return turnState === 'opponent_decide' ? 'Carta rechazada' : 'Carta revelada';
+    }
     if (turnState === 'decide') {
       if (cardInitiator === currentUserId) {
         return 'Carta revelada';
@@ -87,6 +107,11 @@ export function MemoryCardModal({
 
   // Determine description based on state
   const getModalDescription = () => {
+    if (isReadOnly) {
+      return turnState === 'opponent_decide'
+        ? `El rival decide a ciegas (Multiplicador: ${currentMultiplier}x)`
+        : 'El jugador decide si reclamar esta memoria o rechazarla';
+    }
     if (turnState === 'decide') {
       if (cardInitiator === currentUserId) {
         return 'Decide si reclamar esta memoria o rechazarla';
@@ -118,14 +143,14 @@ export function MemoryCardModal({
             transition={{ duration: 0.3 }}
             className="flex justify-center"
           >
-            <Card className={`w-64 h-80 p-6 flex flex-col justify-between ${canSeeCardDetails ? getCardColor(card.authenticity) : 'border-primary bg-primary/10'} border-4`}>
+            <Card className={`w-64 h-80 p-6 flex flex-col justify-between ${cardDetails ? getCardColor(cardDetails.authenticity) : 'border-primary bg-primary/10'} border-4`}>
               {/* Card Header - Only show authenticity if player can see details */}
-              {canSeeCardDetails && (
+              {cardDetails && (
                 <div className="space-y-2">
                   <div className="text-xs font-bold text-center uppercase tracking-wider">
-                    {card.authenticity === 'authentic' && 'Auténtica'}
-                    {card.authenticity === 'corrupted' && 'Corrupta'}
-                    {card.authenticity === 'fatalGlitch' && 'Fatal Glitch'}
+                    {cardDetails.authenticity === 'authentic' && 'Auténtica'}
+                    {cardDetails.authenticity === 'corrupted' && 'Corrupta'}
+                    {cardDetails.authenticity === 'fatalGlitch' && 'Fatal Glitch'}
                   </div>
                   <div className="h-px bg-foreground/20" />
                 </div>
@@ -139,17 +164,17 @@ export function MemoryCardModal({
               </div>
 
               {/* Card Footer - Value (only if can see details) */}
-              {canSeeCardDetails && (
+              {cardDetails && (
                 <div className="space-y-2">
                   <div className="h-px bg-foreground/20" />
-                  <div className={`text-4xl font-bold text-center ${getValueColor(card.value)}`}>
-                    {card.value > 0 ? `+${card.value}` : card.value}
+                  <div className={`text-4xl font-bold text-center ${getValueColor(cardDetails.value)}`}>
+                    {cardDetails.value > 0 ? `+${cardDetails.value}` : cardDetails.value}
                   </div>
                 </div>
               )}
 
               {/* Show mystery indicator when opponent can't see details */}
-              {!canSeeCardDetails && (
+              {!cardDetails && (
                 <div className="space-y-2">
                   <div className="h-px bg-foreground/20" />
                   <div className="text-4xl font-bold text-center opacity-30">
@@ -176,8 +201,29 @@ export function MemoryCardModal({
             </motion.div>
           )}
 
+          {/* Turn countdown */}
+          {secondsLeft !== null && (
+            <p className={`text-center text-sm font-bold ${secondsLeft <= 10 ? 'text-red-500' : 'text-muted-foreground'}`}>
+              Tiempo restante: {secondsLeft}s
+            </p>
+          )}
+
+          {/* Cancel multiplier item - only for the player who received the rejected card */}
+          {!isReadOnly && turnState === 'opponent_decide' && cardInitiator !== currentUserId &&
+            currentMultiplier > 1 && cancelMultiplierItem && onUseItem && (
+            <Button
+              onClick={() => onUseItem(cancelMultiplierItem)}
+              disabled={isProcessing}
+              size="sm"
+              variant="outline"
+              className="w-full"
+            >
+              Usar {cancelMultiplierItem.name} (anular {currentMultiplier}x)
+            </Button>
+          )}
+
           {/* Action Buttons - Show based on who needs to decide */}
-          {((turnState === 'decide' && cardInitiator === currentUserId) ||
+          {!isReadOnly && ((turnState === 'decide' && cardInitiator === currentUserId) ||
             (turnState === 'opponent_decide' && cardInitiator !== currentUserId)) && (
             <motion.div
               initial={{ y: 10, opacity: 0 }}
@@ -207,12 +253,18 @@ export function MemoryCardModal({
           )}
 
           {/* Waiting message when waiting for someone else's decision */}
-          {((turnState === 'decide' && cardInitiator !== currentUserId) ||
+          {!isReadOnly && ((turnState === 'decide' && cardInitiator !== currentUserId) ||
             (turnState === 'opponent_decide' && cardInitiator === currentUserId)) && (
             <div className="text-center text-sm text-muted-foreground">
               Esperando decisión del oponente...
             </div>
           )}
+
+          {isReadOnly && (
+            <div className="text-center text-sm text-muted-foreground">
+              {isReplay ? 'Repetición' : 'Modo espectador'}
+            </div>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,11 +1,11 @@
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/8bit/button';
 import { Card } from '@/components/ui/8bit/card';
-import type { MemoryCard, RoomStatus, TurnState } from '@/types';
+import type { Authenticity, ItemCard, PublicMemoryCard, RoomStatus, TurnState } from '@/types';
 
 interface PlayAreaProps {
   deckSize: number;
-  currentCard: MemoryCard | null;
+  currentCard: PublicMemoryCard | null;
   canClaim: boolean;
   canReject: boolean;
   onClaim: () => void;
@@ -21,12 +21,22 @@ interface PlayAreaProps {
   revealedAuthentic: number;
   revealedCorrupted: number;
   gameStatus: RoomStatus;
-  tableCards: MemoryCard[];
+  tableCards: PublicMemoryCard[];
   onCardSelect: (cardIndex: number) => void;
   canSelectCard: boolean;
   turnState: TurnState;
+  peekedAuthenticities: (Authenticity | null)[]; // Authenticity revealed by peek items, aligned with tableCards
+  targetingItem: ItemCard | null; // Item waiting for a table card to be chosen
+  secondsLeft: number | null; // Time left in the current phase (null when there is no deadline)
 }
 
+// Labels and colors for table cards revealed with a peek item
+const PEEK_BADGES: Record<Authenticity, { label: string; className: string }> = {
+  authentic: { label: 'Auténtica', className: 'bg-green-500/80' },
+  corrupted: { label: 'Corrupta', className: 'bg-yellow-500/80' },
+  fatalGlitch: { label: 'Fatal Glitch', className: 'bg-red-500/80' },
+};
+
 export function PlayArea({
   deckSize,
   currentCard,
@@ -47,7 +57,10 @@ export function PlayArea({
   tableCards,
   onCardSelect,
   canSelectCard,
-  turnState
+  turnState,
+  peekedAuthenticities,
+  targetingItem,
+  secondsLeft
 }: PlayAreaProps) {
   // Animation variants for the deck container
   const deckContainerVariants = {
@@ -176,8 +189,17 @@ export function PlayArea({
           </div>
         </Card>
 
-        {/* Middle: Empty space */}
-        <div />
+        {/* Middle: Turn countdown */}
+        <div className="flex items-start justify-center">
+          {secondsLeft !== null && (
+            <Card className="p-2 min-w-24">
+              <h3 className="text-xs font-bold mb-1 text-center">Tiempo</h3>
+              <p className={`text-2xl font-bold text-center ${secondsLeft <= 10 ? 'text-red-500' : ''}`}>
+                {secondsLeft}s
+              </p>
+            </Card>
+          )}
+        </div>
 
         {/* Right: Deck composition */}
         <Card className="p-2">
@@ -212,6 +234,7 @@ export function PlayArea({
           {tableCards.map((_card, index) => {
             void _card; // Card data not needed here, only index
             const isClickable = canSelectCard && turnState === 'draw';
+            const peekedAuthenticity = peekedAuthenticities[index];
 
             return (
               <motion.div
@@ -260,11 +283,20 @@ export function PlayArea({
                   {/* Question mark - Card remains hidden until selected */}
                   <div className="text-6xl opacity-50 relative z-10">?</div>
 
+                  {/* Authenticity revealed with a peek item (only visible to this player) */}
+                  {peekedAuthenticity && (
+                    <div className="absolute top-2 left-0 right-0 text-center z-10">
+                      <span className={`text-xs px-2 py-1 rounded ${PEEK_BADGES[peekedAuthenticity].className}`}>
+                        {PEEK_BADGES[peekedAuthenticity].label}
+                      </span>
+                    </div>
+                  )}
+
                   {/* Hover hint when clickable */}
                   {isClickable && (
                     <div className="absolute bottom-2 left-0 right-0 text-center opacity-0 group-hover:opacity-100 transition-opacity">
                       <span className="text-xs bg-primary/80 px-2 py-1 rounded">
-                        SELECCIONAR
+                        {targetingItem ? `USAR ${targetingItem.name.toUpperCase()}` : 'SELECCIONAR'}
                       </span>
                     </div>
                   )}
@@ -0,0 +1,132 @@
+import { PlayArea } from './PlayArea';
+import { Card } from '@/components/ui/8bit/card';
+import HealthBar from '@/components/ui/8bit/health-bar';
+import { getRuleset } from '@/services/gameEngine';
+import type { FirestoreRoom, PlayerInfo, SeriesScore } from '@/types';
+
+interface SpectatorBoardProps {
+  room: FirestoreRoom;
+  players: PlayerInfo[]; // In turn order (order_players)
+  spectatorCount: number;
+  secondsLeft: number | null;
+  seriesScore: SeriesScore | null; // From the first player's point of view
+}
+
+// Read-only board for spectators: only the public room document is shown
+// (table memories, integrities and revealed cards), never a player's hidden cards
+export function SpectatorBoard({
+  room,
+  players,
+  spectatorCount,
+  secondsLeft,
+  seriesScore
+}: SpectatorBoardProps) {
+  const ruleset = getRuleset(room);
+  const totalCards = ruleset.deckSize;
+  const usedCardsCount = room.used_cards?.length || 0;
+
+  // Revealed cards come from used_cards (played cards are public)
+  const revealedAuthentic = room.used_cards?.filter(playedCard => playedCard.card.authenticity === 'authentic').length || 0;
+  const revealedCorrupted = room.used_cards?.filter(playedCard => playedCard.card.authenticity === 'corrupted').length || 0;
+  const memoryHistory: string[] = room.used_cards
+    ?.filter(playedCard => playedCard.card.authenticity === 'authentic')
+    .map(playedCard => playedCard.card.memory) || [];
+
+  const currentTurnPlayerId = room.order_players[room.turn % room.order_players.length];
+  const currentTurnPlayer = players.find(player => player.id === currentTurnPlayerId);
+
+  // Convert integrity values from range [lossThreshold, targetIntegrity] to percentage [0, 100]
+  const normalizeIntegrity = (value: number): number => {
+    const clampedValue = Math.max(ruleset.lossThreshold, Math.min(ruleset.targetIntegrity, value));
+    return ((clampedValue - ruleset.lossThreshold) / (ruleset.targetIntegrity - ruleset.lossThreshold)) * 100;
+  };
+
+  return (
+    <div className="h-screen w-full flex flex-col">
+      {/* Top section: Play area, without actions (2/3 height) */}
+      <div className="h-2/3 bg-background border-b-4 border-primary">
+        <PlayArea
+          deckSize={totalCards - room.cards_drawn}
+          currentCard={room.current_card}
+          canClaim={false}
+          canReject={false}
+          onClaim={() => {}}
+          onReject={() => {}}
+          isRevealing={false}
+          showActions={false}
+          totalCards={totalCards}
+          revealedCards={usedCardsCount}
+          remainingCards={totalCards - usedCardsCount}
+          authenticCount={ruleset.distribution.authentic}
+          corruptedCount={ruleset.distribution.corrupted}
+          fatalGlitchCount={ruleset.distribution.fatalGlitch}
+          revealedAuthentic={revealedAuthentic}
+          revealedCorrupted={revealedCorrupted}
+          gameStatus={room.status}
+          tableCards={room.table_cards}
+          onCardSelect={() => {}}
+          canSelectCard={false}
+          turnState={room.turn_state}
+          peekedAuthenticities={room.table_cards.map(() => null)}
+          targetingItem={null}
+          secondsLeft={secondsLeft}
+        />
+      </div>
+
+      {/* Bottom section: Players and revealed memories (1/3 height) */}
+      <div className="h-1/3 bg-secondary/20 p-3 flex flex-col gap-3 overflow-hidden">
+        <Card className="p-1.5 flex-shrink-0">
+          <div className="flex items-center justify-center gap-4">
+            <p className="text-xs font-bold text-yellow-500">
+              Turno de {currentTurnPlayer?.name ?? 'Jugador'}
+            </p>
+            {seriesScore && (
+              <p className="text-xs font-bold text-muted-foreground">
+                Partida {seriesScore.gameNumber} · Mejor de {seriesScore.bestOf} · {seriesScore.playerWins} - {seriesScore.opponentWins}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Espectadores: {spectatorCount}
+            </p>
+          </div>
+        </Card>
+
+        <div className="grid grid-cols-3 gap-3 flex-1 min-h-0">
+          {/* Left column: Both players' integrities */}
+          <Card className="p-2 flex flex-col gap-3 min-h-0">
+            {players.map(player => (
+              <div key={player.id} className="space-y-1">
+                <div className="flex items-center justify-between text-xs font-bold">
+                  <span className={player.id === currentTurnPlayerId ? 'text-yellow-500' : ''}>{player.name}</span>
+                  <span>{player.integrity}</span>
+                </div>
+                <HealthBar value={normalizeIntegrity(player.integrity)} variant="retro" />
+              </div>
+            ))}
+          </Card>
+
+          {/* Right: Memory history (spanning 2 columns) */}
+          <Card className="p-2 col-span-2 flex flex-col overflow-hidden min-h-0">
+            <h3 className="text-sm font-bold mb-2 flex-shrink-0">Memorias Reales</h3>
+            <div className="space-y-2 overflow-y-auto flex-1 min-h-0 pr-2">
+              {memoryHistory.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic text-center py-4">
+                  No hay memorias reales reveladas aún
+                </p>
+              ) : (
+                memoryHistory.map((memory, index) => (
+                  <div
+                    key={index}
+                    className="text-xs p-2 bg-secondary/50 rounded border border-primary/20"
+                  >
+                    <span className="font-bold text-green-500">{index + 1}.</span> {memory}
+                  </div>
+                ))
+              )}
+            </div>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
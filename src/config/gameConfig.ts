@@ -1,3 +1,5 @@
+import type { BotDifficulty, ItemEffect, Ruleset, RulesetPresetId } from '@/types';
+
 /**
  * Game configuration for Backup Deathmatch
  * Adjust these values to balance gameplay
@@ -6,6 +8,7 @@
 export const GAME_CONFIG = {
   // Deck configuration
   deck: {
+    defaultId: 'default', // Deck of rooms whose creator didn't pick one (decks/default)
     totalCards: 15, // Total cards drawn from deck for each game
     distribution: {
       authentic: 8, // Real memories (+1 points)
@@ -24,15 +27,177 @@ export const GAME_CONFIG = {
   // Win conditions
   winConditions: {
     maxIntegrity: 10, // First player to reach this wins
-    minIntegrity: 0, // Player at or below this loses (fragmented)
+    minIntegrity: -10, // Player at or below this loses (fragmented)
+  },
+
+  // Turn settings
+  turn: {
+    rejectMultiplier: 3, // Points multiplier when a card is passed to the opponent
+    tableSize: 3, // Cards visible on the table
+    phaseSeconds: {
+      draw: 30, // Time to pick a table card before one is auto-selected
+      decide: 30, // Time to claim or reject before the card is auto-claimed
+      opponent_decide: 30, // Time for the opponent to answer before the card is auto-claimed
+    },
+    maxTimeouts: 3, // Timeouts that make a player forfeit the game
+    timeoutGraceMs: 1500, // Wait past the deadline before resolving it (client clocks may run ahead of the server's)
+    timeoutRetryMs: {
+      initial: 1000, // First retry after the resolver says the deadline has not passed yet
+      max: 8000, // Retries back off up to this delay
+    },
+  },
+
+  // Item settings
+  items: {
+    copiesPerEffect: 2, // Copies of each item in a room's item deck
+    maxPerPlayer: 2, // Items a player can hold at once (extra items are not earned)
   },
 
   // Room settings
   room: {
     maxPlayers: 2,
   },
+
+  // Series settings
+  series: {
+    lengths: [1, 3, 5], // Best-of options the room creator can choose (1 = single game)
+  },
+
+  // Skill rating settings (Elo)
+  rating: {
+    initial: 1000, // Rating of a player before their first finished game
+    kFactor: 32, // Maximum rating change of a single game
+    leaderboardPageSize: 20, // Players per leaderboard page
+    historySize: 10, // Recent rating changes shown on the leaderboard
+  },
+
+  // Bot opponent settings
+  bot: {
+    moveDelayMs: 1200, // Pause before the bot moves, so its plays can be followed
+  },
+
+  // Private decks written in the deck editor (users/{uid}/decks, limits also checked in firestore.rules)
+  customDecks: {
+    maxMemories: 300,
+    maxMemoryLength: 160, // Characters per memory
+    maxNameLength: 40,
+    maxThemeLength: 40,
+  },
+
+  // Public lobby browser settings
+  lobby: {
+    staleMinutes: 10, // Public rooms without updates for this long are no longer listed
+    maxListed: 20, // Public rooms shown at once
+    maxFetched: 60, // Public rooms read per refresh (full rooms can't be filtered out by the query, so more than maxListed)
+  },
+
+  // Matchmaking queue settings
+  matchmaking: {
+    timeoutSeconds: 60, // Time a player waits in the queue before the search is cancelled
+    maxCandidates: 20, // Waiting players compared when looking for the closest rating
+  },
 } as const;
 
+/**
+ * Default ruleset, built from GAME_CONFIG
+ * Used for new rooms and for rooms created before rulesets existed
+ */
+export const DEFAULT_RULESET: Ruleset = {
+  targetIntegrity: GAME_CONFIG.winConditions.maxIntegrity,
+  lossThreshold: GAME_CONFIG.winConditions.minIntegrity,
+  rejectMultiplier: GAME_CONFIG.turn.rejectMultiplier,
+  deckSize: GAME_CONFIG.deck.totalCards,
+  distribution: { ...GAME_CONFIG.deck.distribution },
+  pointValues: { ...GAME_CONFIG.pointValues },
+  tableSize: GAME_CONFIG.turn.tableSize,
+};
+
+// Rulesets the room creator can pick in the lobby
+export const RULESET_PRESETS: Record<RulesetPresetId, { name: string; description: string; ruleset: Ruleset }> = {
+  classic: {
+    name: 'Clásica',
+    description: 'Las reglas originales: llega a +10 o haz caer a tu rival a -10.',
+    ruleset: DEFAULT_RULESET,
+  },
+  quick: {
+    name: 'Rápida',
+    description: 'Partidas cortas con un mazo pequeño y límites de ±5.',
+    ruleset: {
+      targetIntegrity: 5,
+      lossThreshold: -5,
+      rejectMultiplier: 3,
+      deckSize: 11,
+      distribution: { authentic: 6, corrupted: 4, fatalGlitch: 1 },
+      pointValues: { authentic: 1, corrupted: -1, fatalGlitch: -15 },
+      tableSize: 3,
+    },
+  },
+  marathon: {
+    name: 'Maratón',
+    description: 'Mazo grande, dos fatal glitches y límites de ±15.',
+    ruleset: {
+      targetIntegrity: 15,
+      lossThreshold: -15,
+      rejectMultiplier: 3,
+      deckSize: 25,
+      distribution: { authentic: 13, corrupted: 10, fatalGlitch: 2 },
+      pointValues: { authentic: 1, corrupted: -1, fatalGlitch: -30 },
+      tableSize: 4,
+    },
+  },
+};
+
+/**
+ * Finds the preset that matches a ruleset exactly (null if values were tweaked)
+ */
+export const findRulesetPresetId = (ruleset: Ruleset): RulesetPresetId | null => {
+  const entry = Object.entries(RULESET_PRESETS).find(
+    ([, preset]) => JSON.stringify(preset.ruleset) === JSON.stringify(ruleset)
+  );
+  return entry ? (entry[0] as RulesetPresetId) : null;
+};
+
+// Bot difficulties the room creator can pick in the lobby
+export const BOT_DIFFICULTIES: Record<BotDifficulty, { name: string; description: string }> = {
+  easy: {
+    name: 'Fácil',
+    description: 'Rechaza todo lo que no sea auténtico, sin pensar en el multiplicador.',
+  },
+  normal: {
+    name: 'Normal',
+    description: 'Calcula el riesgo del multiplicador y evita las jugadas que lo eliminan.',
+  },
+  hard: {
+    name: 'Difícil',
+    description: 'Lee tus rechazos, anticipa tu respuesta y sabe farolear.',
+  },
+};
+
+// Item cards available in the item deck
+// requiresTarget items are used on a table card (ItemTarget.cardIndex)
+export const ITEM_DEFINITIONS: Record<ItemEffect, { name: string; description: string; requiresTarget: boolean }> = {
+  peek: {
+    name: 'Escáner',
+    description: 'Revela la autenticidad de una carta de la mesa.',
+    requiresTarget: true,
+  },
+  shield: {
+    name: 'Firewall',
+    description: 'Bloquea los próximos puntos negativos que recibas.',
+    requiresTarget: false,
+  },
+  swap: {
+    name: 'Reemplazo',
+    description: 'Descarta una carta de la mesa y la reemplaza con la siguiente del mazo.',
+    requiresTarget: true,
+  },
+  cancel_multiplier: {
+    name: 'Desfragmentador',
+    description: 'Anula el multiplicador de una carta que te rechazaron.',
+    requiresTarget: false,
+  },
+};
+
 // Type exports for type safety
 export type Authenticity = 'authentic' | 'corrupted' | 'fatalGlitch';
 
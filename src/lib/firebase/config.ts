@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, connectAuthEmulator, setPersistence, browserLocalPersistence } from 'firebase/auth';
 import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 import { firestoreLogger } from '@/lib/utils/logger';
 
 // Firebase configuration - these keys are safe to be public
@@ -24,6 +25,9 @@ const db = getFirestore(app);
 // Initialize Auth
 const auth = getAuth(app);
 
+// Initialize Functions (trusted resolver for game actions and the hidden deck)
+const functions = getFunctions(app);
+
 // Check if we should use emulators
 // In development mode AND emulators are running (check via environment or default to true in dev)
 const useEmulators = import.meta.env.DEV && import.meta.env.VITE_USE_EMULATORS !== 'false';
@@ -42,6 +46,13 @@ if (useEmulators) {
   } catch (error) {
     firestoreLogger.error('Error connecting to Auth emulator', error);
   }
+
+  try {
+    connectFunctionsEmulator(functions, 'localhost', 5001);
+    firestoreLogger.info('Connected to Functions emulator at localhost:5001');
+  } catch (error) {
+    firestoreLogger.error('Error connecting to Functions emulator', error);
+  }
 } else {
   firestoreLogger.info('Running in production mode - connecting to Firebase');
 }
@@ -51,4 +62,4 @@ setPersistence(auth, browserLocalPersistence).catch((error) => {
   firestoreLogger.error('Error setting auth persistence', error);
 });
 
-export { app, auth, db };
+export { app, auth, db, functions };
@@ -4,6 +4,8 @@
  * Optimized for grammatical coherence - all combinations make sense
  */
 
+import type { DeckMetadata } from '@/types';
+
 // Días
 const days = ['3', '7', '12', '15', '23', '28', '31'];
 
@@ -250,6 +252,18 @@ export function generateMemoryPool(count: number = 80): string[] {
   return Array.from(memories);
 }
 
+/**
+ * Catalog information of the generated deck (decks/default)
+ * Bump the version whenever the generator changes the memories it produces
+ */
+export const GENERATED_DECK_METADATA: Omit<DeckMetadata, 'size'> = {
+  name: 'Recuerdos procedurales',
+  language: 'es',
+  theme: 'Ciencia ficción',
+  author: 'Backup Deathmatch',
+  version: 1,
+};
+
 // Helper function
 function random<T>(array: T[]): T {
   return array[Math.floor(Math.random() * array.length)];
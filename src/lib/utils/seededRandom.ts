@@ -0,0 +1,66 @@
+/**
+ * Seeded pseudo-random numbers, so a dealt deck can be reproduced from its seed
+ * The generator keeps 128 bits of state, so a random 128-bit seed can't be brute-forced from
+ * the cards dealt on the table. Not cryptographically secure: the seed itself must stay hidden
+ * while the game is played
+ */
+
+/**
+ * Hashes a seed string into four 32-bit integers (cyrb128)
+ * @param seed - Any string
+ */
+const hashSeed = (seed: string): [number, number, number, number] => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+
+  for (let i = 0; i < seed.length; i++) {
+    const code = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179);
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+/**
+ * Creates a random number generator that always yields the same sequence for the same seed (sfc32)
+ * @param seed - Any string (the dealer uses 128 random bits, see functions/src/deckDealer.ts)
+ * @returns A function returning numbers in [0, 1), like Math.random
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let [a, b, c, d] = hashSeed(seed);
+
+  const next = (): number => {
+    a |= 0;
+    b |= 0;
+    c |= 0;
+    d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+
+  // Mix the hashed state before the first number is used
+  for (let i = 0; i < 15; i++) {
+    next();
+  }
+
+  return next;
+};
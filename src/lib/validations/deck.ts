@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { Ruleset } from '@/types';
+
+const { maxMemories, maxMemoryLength, maxNameLength, maxThemeLength } = GAME_CONFIG.customDecks;
+
+// Memories that differ only in case or spacing count as duplicates
+const toMemoryKey = (memory: string): string => memory.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Memories a deck needs to be dealt with a ruleset
+ * The deal lays ruleset.tableSize cards on the table and draws the rest of the game deck after them,
+ * one memory per card, so it takes ruleset.deckSize memories in all (tableSize <= deckSize, see ruleset.ts)
+ * @param ruleset - The rules the deck is played with
+ */
+export const getMinMemories = (ruleset: Ruleset): number => ruleset.deckSize;
+
+/**
+ * Builds the schema of a private deck played with the given rules
+ * @param ruleset - The rules the deck must be able to deal (sets the minimum of memories)
+ */
+export const createCustomDeckSchema = (ruleset: Ruleset) => z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del mazo es requerido')
+    .max(maxNameLength, `El nombre del mazo no puede exceder ${maxNameLength} caracteres`),
+  theme: z
+    .string()
+    .trim()
+    .max(maxThemeLength, `El tema no puede exceder ${maxThemeLength} caracteres`),
+  memories: z.array(z.string()).superRefine((memories, ctx) => {
+    const firstLineByKey = new Map<string, number>();
+
+    memories.forEach((memory, index) => {
+      const line = index + 1;
+
+      if (memory.trim().length === 0) {
+        ctx.addIssue({ code: 'custom', message: `Línea ${line}: está vacía`, path: [index] });
+        return;
+      }
+
+      if (memory.trim().length > maxMemoryLength) {
+        ctx.addIssue({ code: 'custom', message: `Línea ${line}: supera los ${maxMemoryLength} caracteres`, path: [index] });
+      }
+
+      const firstLine = firstLineByKey.get(toMemoryKey(memory));
+      if (firstLine) {
+        ctx.addIssue({ code: 'custom', message: `Línea ${line}: repite la línea ${firstLine}`, path: [index] });
+      } else {
+        firstLineByKey.set(toMemoryKey(memory), line);
+      }
+    });
+
+    const minMemories = getMinMemories(ruleset);
+    if (memories.length < minMemories) {
+      ctx.addIssue({ code: 'custom', message: `El mazo necesita al menos ${minMemories} recuerdos para estas reglas (tiene ${memories.length})` });
+    }
+
+    if (memories.length > maxMemories) {
+      ctx.addIssue({ code: 'custom', message: `El mazo no puede tener más de ${maxMemories} recuerdos (tiene ${memories.length})` });
+    }
+  })
+});
+
+export type CustomDeckFormData = z.infer<ReturnType<typeof createCustomDeckSchema>>;
+
+/**
+ * Splits pasted text into memories, one per line
+ * Lines are trimmed and blank lines at the start or end are dropped; blank lines in between
+ * are kept so validation can point at them
+ * @param text - Text with one memory per line
+ */
+export const parseMemoryLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const first = lines.findIndex(line => line.length > 0);
+
+  if (first === -1) {
+    return [];
+  }
+
+  const last = lines.length - 1 - [...lines].reverse().findIndex(line => line.length > 0);
+  return lines.slice(first, last + 1);
+};
+
+/**
+ * Removes blank lines and duplicates (keeping the first occurrence)
+ * @param memories - Memories as parsed from the editor
+ */
+export const cleanMemoryLines = (memories: string[]): string[] => {
+  const seenKeys = new Set<string>();
+
+  return memories.filter(memory => {
+    const key = toMemoryKey(memory);
+    if (key.length === 0 || seenKeys.has(key)) {
+      return false;
+    }
+    seenKeys.add(key);
+    return true;
+  });
+};
+
+/**
+ * Lists every problem of a deck, for the editor to show them all at once
+ * @param deck - The deck as edited
+ * @param ruleset - The rules the deck is meant for
+ * @returns Validation messages, empty if the deck is valid
+ */
+export const getCustomDeckIssues = (deck: CustomDeckFormData, ruleset: Ruleset): string[] => {
+  const result = createCustomDeckSchema(ruleset).safeParse(deck);
+  return result.success ? [] : result.error.issues.map(issue => issue.message);
+};
+
+/**
+ * Validates a private deck before it is saved
+ * @param deck - The deck as edited
+ * @param ruleset - The rules the deck is meant for
+ * @returns The validated deck (name and theme trimmed)
+ * @throws Error with the first validation message if the deck is invalid
+ */
+export const validateCustomDeck = (deck: CustomDeckFormData, ruleset: Ruleset): CustomDeckFormData => {
+  const result = createCustomDeckSchema(ruleset).safeParse(deck);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || 'Mazo inválido.');
+  }
+
+  return result.data;
+};
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import type { GameAction } from '@/types';
+
+export const cardIndexSchema = z
+  .number({ message: 'El índice de carta debe ser un número' })
+  .int('El índice de carta debe ser un número entero')
+  .min(0, 'El índice de carta no puede ser negativo');
+
+export const itemIdSchema = z.string().min(1, 'El id del item es requerido');
+
+// The acting player is never part of the payload: the caller's identity comes from Firebase Auth
+export const gameActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('select_card'), cardIndex: cardIndexSchema }),
+  z.object({ type: z.literal('claim_card') }),
+  z.object({ type: z.literal('reject_card') }),
+  z.object({ type: z.literal('opponent_claim_card') }),
+  z.object({ type: z.literal('opponent_reject_back') }),
+  z.object({
+    type: z.literal('use_item'),
+    itemId: itemIdSchema,
+    target: z.object({ cardIndex: cardIndexSchema }).optional()
+  }),
+  z.object({ type: z.literal('resolve_timeout') })
+], { message: 'Acción inválida.' });
+
+/**
+ * Validates a game action sent by a client before it reaches the engine
+ * @param action - The action payload, as received
+ * @param userId - The authenticated player, who always acts as themselves
+ * @returns The action with only known fields, played by userId
+ * @throws Error with the first validation message if the action is invalid
+ */
+export const validateGameAction = (action: unknown, userId: string): GameAction => {
+  const result = gameActionSchema.safeParse(action);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || 'Acción inválida.');
+  }
+
+  return { ...result.data, userId };
+};
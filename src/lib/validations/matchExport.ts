@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { rulesetSchema } from './ruleset';
+import { cardIndexSchema, itemIdSchema } from './gameAction';
+import type { MatchExport } from '@/types';
+
+// Format version written by exportMatch; bump it when the document shape changes
+export const MATCH_EXPORT_VERSION = 1;
+
+const playerIdSchema = z.string().min(1, 'El id del jugador es requerido');
+
+const memoryCardSchema = z.object({
+  memory: z.string().min(1, 'El texto de la memoria es requerido'),
+  authenticity: z.enum(['authentic', 'corrupted', 'fatalGlitch'], { message: 'Autenticidad de carta inválida' }),
+  value: z.number({ message: 'El valor de la carta debe ser un número' }).int('El valor de la carta debe ser un número entero')
+});
+
+const itemCardSchema = z.object({
+  id: z.string().min(1, 'El id del item es requerido'),
+  name: z.string(),
+  description: z.string(),
+  effect: z.enum(['peek', 'shield', 'swap', 'cancel_multiplier'], { message: 'Efecto de item inválido' })
+});
+
+const matchActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('select_card'), userId: playerIdSchema, cardIndex: cardIndexSchema }),
+  z.object({ type: z.literal('claim_card'), userId: playerIdSchema }),
+  z.object({ type: z.literal('reject_card'), userId: playerIdSchema }),
+  z.object({ type: z.literal('opponent_claim_card'), userId: playerIdSchema }),
+  z.object({ type: z.literal('opponent_reject_back'), userId: playerIdSchema }),
+  z.object({
+    type: z.literal('use_item'),
+    userId: playerIdSchema,
+    itemId: itemIdSchema,
+    target: z.object({ cardIndex: cardIndexSchema }).optional()
+  }),
+  z.object({ type: z.literal('resolve_timeout'), userId: playerIdSchema }),
+  z.object({ type: z.literal('forfeit'), userId: playerIdSchema })
+], { message: 'Tipo de jugada desconocido' });
+
+const isoDateSchema = z.iso.datetime({ message: 'La fecha debe estar en formato ISO' });
+
+export const matchExportSchema = z.object({
+  version: z.literal(MATCH_EXPORT_VERSION, { message: `Versión de archivo no soportada (se esperaba ${MATCH_EXPORT_VERSION})` }),
+  roomCode: z.string().min(1, 'El código de sala es requerido'),
+  ruleset: rulesetSchema,
+  players: z
+    .array(z.object({ id: playerIdSchema, name: z.string() }))
+    .length(2, 'La partida debe tener exactamente 2 jugadores'),
+  memoryDeck: z.array(memoryCardSchema),
+  itemDeck: z.array(itemCardSchema),
+  seed: z.string().min(1, 'La semilla del reparto no puede estar vacía').optional(),
+  actions: z.array(z.object({ action: matchActionSchema, playedAt: isoDateSchema })),
+  startedAt: isoDateSchema,
+  finishedAt: isoDateSchema.nullable(),
+  result: z.object({
+    winner: playerIdSchema.nullable(),
+    winReason: z.enum(['reached_10_points', 'opponent_defeated', 'deck_exhausted', 'timeout', 'opponent_forfeited', 'draw'], {
+      message: 'Motivo de victoria inválido'
+    }).nullable(),
+    integrity: z.record(z.string(), z.number({ message: 'La integridad debe ser un número' }))
+  })
+}).refine(
+  (match) => match.memoryDeck.length === match.ruleset.deckSize,
+  {
+    message: 'El mazo no coincide con el tamaño de mazo de las reglas',
+    path: ['memoryDeck']
+  }
+).refine(
+  (match) => match.actions.every(({ action }) => match.players.some(player => player.id === action.userId)),
+  {
+    message: 'Todas las jugadas deben ser de jugadores de la partida',
+    path: ['actions']
+  }
+);
+
+/**
+ * Validates an imported match document
+ * @param data - Parsed JSON of the file
+ * @returns The validated match
+ * @throws Error with the first validation message if the document is invalid
+ */
+export const validateMatchExport = (data: unknown): MatchExport => {
+  const result = matchExportSchema.safeParse(data);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || 'Archivo de partida inválido.');
+  }
+
+  return result.data;
+};
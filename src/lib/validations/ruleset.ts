@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import type { Ruleset } from '@/types';
+
+const cardCount = (label: string) => z
+  .number({ message: `${label} debe ser un número` })
+  .int(`${label} debe ser un número entero`)
+  .min(0, `${label} no puede ser negativo`);
+
+export const rulesetSchema = z.object({
+  targetIntegrity: z
+    .number({ message: 'La integridad objetivo debe ser un número' })
+    .int('La integridad objetivo debe ser un número entero')
+    .min(1, 'La integridad objetivo debe ser al menos 1')
+    .max(50, 'La integridad objetivo no puede exceder 50'),
+  lossThreshold: z
+    .number({ message: 'El umbral de derrota debe ser un número' })
+    .int('El umbral de derrota debe ser un número entero')
+    .max(-1, 'El umbral de derrota debe ser negativo')
+    .min(-50, 'El umbral de derrota no puede ser menor a -50'),
+  rejectMultiplier: z
+    .number({ message: 'El multiplicador debe ser un número' })
+    .int('El multiplicador debe ser un número entero')
+    .min(1, 'El multiplicador debe ser al menos 1')
+    .max(10, 'El multiplicador no puede exceder 10'),
+  deckSize: z
+    .number({ message: 'El tamaño del mazo debe ser un número' })
+    .int('El tamaño del mazo debe ser un número entero')
+    .min(3, 'El mazo debe tener al menos 3 cartas')
+    .max(60, 'El mazo no puede tener más de 60 cartas'),
+  distribution: z.object({
+    authentic: cardCount('Las cartas auténticas'),
+    corrupted: cardCount('Las cartas corruptas'),
+    fatalGlitch: cardCount('Los fatal glitches')
+  }),
+  pointValues: z.object({
+    authentic: z
+      .number({ message: 'El valor de las auténticas debe ser un número' })
+      .int('El valor de las auténticas debe ser un número entero')
+      .min(1, 'Las cartas auténticas deben sumar puntos'),
+    corrupted: z
+      .number({ message: 'El valor de las corruptas debe ser un número' })
+      .int('El valor de las corruptas debe ser un número entero')
+      .max(-1, 'Las cartas corruptas deben restar puntos'),
+    fatalGlitch: z
+      .number({ message: 'El valor del fatal glitch debe ser un número' })
+      .int('El valor del fatal glitch debe ser un número entero')
+      .max(-1, 'El fatal glitch debe restar puntos')
+  }),
+  tableSize: z
+    .number({ message: 'Las cartas en mesa deben ser un número' })
+    .int('Las cartas en mesa deben ser un número entero')
+    .min(1, 'Debe haber al menos 1 carta en mesa')
+    .max(5, 'No puede haber más de 5 cartas en mesa')
+}).refine(
+  (ruleset) => ruleset.distribution.authentic + ruleset.distribution.corrupted + ruleset.distribution.fatalGlitch === ruleset.deckSize,
+  {
+    message: 'La distribución de cartas debe sumar el tamaño del mazo',
+    path: ['deckSize']
+  }
+).refine(
+  (ruleset) => ruleset.tableSize <= ruleset.deckSize,
+  {
+    message: 'No puede haber más cartas en mesa que en el mazo',
+    path: ['tableSize']
+  }
+);
+
+/**
+ * Validates a ruleset before it is snapshotted onto a room
+ * @param ruleset - The ruleset to validate
+ * @returns The validated ruleset
+ * @throws Error with the first validation message if the ruleset is invalid
+ */
+export const validateRuleset = (ruleset: Ruleset): Ruleset => {
+  const result = rulesetSchema.safeParse(ruleset);
+
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message || 'Reglas inválidas.');
+  }
+
+  return result.data;
+};
+
+export type RulesetFormData = z.infer<typeof rulesetSchema>;
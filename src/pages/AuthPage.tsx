@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/stores/authStore';
 import { LoginForm } from '@/components/ui/8bit/blocks/login-form';
 import { LoadingState } from '@/components/LoadingState';
@@ -37,6 +37,13 @@ export default function AuthPage() {
         </div>
 
         <LoginForm />
+
+        <p className="text-sm text-center text-muted-foreground">
+          ¿Sin cuenta?{' '}
+          <Link to="/hotseat" className="underline underline-offset-4">
+            Juega con un amigo en este dispositivo
+          </Link>
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,288 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { Input } from '@/components/ui/8bit/input';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { deckRepository } from '@/repositories';
+import { deleteCustomDeck, getCustomDeck, listCustomDecks, saveCustomDeck } from '@/services/customDeckService';
+import { cleanMemoryLines, getCustomDeckIssues, getMinMemories, parseMemoryLines } from '@/lib/validations/deck';
+import { GAME_CONFIG, RULESET_PRESETS } from '@/config/gameConfig';
+import type { DeckSummary, RulesetPresetId } from '@/types';
+import { LoadingState } from '@/components/LoadingState';
+
+// Deck being edited; the memories are edited as text, one per line
+interface DeckDraft {
+  deckId: string | null; // null for a new deck
+  name: string;
+  theme: string;
+  text: string;
+  presetId: RulesetPresetId; // Rules the deck is meant for (they set the minimum of memories)
+}
+
+// Validation messages shown at once (the rest are summarized)
+const MAX_ISSUES_SHOWN = 8;
+
+/**
+ * Picks the largest preset a deck of the given size can deal (classic rules when it fits none)
+ */
+const findLargestFittingPresetId = (size: number): RulesetPresetId =>
+  (Object.keys(RULESET_PRESETS) as RulesetPresetId[])
+    .filter(presetId => getMinMemories(RULESET_PRESETS[presetId].ruleset) <= size)
+    .sort((a, b) => getMinMemories(RULESET_PRESETS[b].ruleset) - getMinMemories(RULESET_PRESETS[a].ruleset))[0] ?? 'classic';
+
+/**
+ * Editor of the signed-in user's private decks: create, edit and delete decks of memories
+ * to pick in the lobby of their rooms. Memories are pasted in bulk, one per line
+ */
+export default function DeckEditorPage() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [decks, setDecks] = useState<DeckSummary[] | null>(null);
+  const [draft, setDraft] = useState<DeckDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const userId = user?.id ?? null;
+
+  const loadDecks = useCallback(async () => {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      setDecks(await listCustomDecks(deckRepository, userId));
+    } catch (error) {
+      logger.error('Failed to load custom decks', error, 'DeckEditorPage');
+      toast(error instanceof Error ? error.message : 'Error al cargar tus mazos');
+      setDecks([]);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadDecks();
+  }, [loadDecks]);
+
+  const handleEdit = async (deckId: string) => {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      const deck = await getCustomDeck(deckRepository, userId, deckId);
+      setDraft({
+        deckId,
+        name: deck.name,
+        theme: deck.theme,
+        text: deck.memories.join('\n'),
+        presetId: findLargestFittingPresetId(deck.memories.length)
+      });
+    } catch (error) {
+      logger.error('Failed to open custom deck', error, 'DeckEditorPage');
+      toast(error instanceof Error ? error.message : 'Error al abrir el mazo');
+    }
+  };
+
+  const handleDelete = async (deckId: string) => {
+    if (!userId) {
+      return;
+    }
+
+    try {
+      await deleteCustomDeck(deckRepository, userId, deckId);
+      toast('Mazo eliminado');
+      setConfirmingDeleteId(null);
+      await loadDecks();
+    } catch (error) {
+      logger.error('Failed to delete custom deck', error, 'DeckEditorPage');
+      toast(error instanceof Error ? error.message : 'Error al eliminar el mazo');
+    }
+  };
+
+  if (!user || !decks) {
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <LoadingState message="Cargando tus mazos..." />
+      </div>
+    );
+  }
+
+  if (draft) {
+    const memories = parseMemoryLines(draft.text);
+    const { ruleset } = RULESET_PRESETS[draft.presetId];
+    const issues = getCustomDeckIssues({ name: draft.name, theme: draft.theme, memories }, ruleset);
+    // Presets whose deck this deck can deal
+    const fittingPresets = Object.values(RULESET_PRESETS).filter(preset => getMinMemories(preset.ruleset) <= memories.length);
+
+    const handleSave = async () => {
+      setIsSaving(true);
+
+      try {
+        await saveCustomDeck(deckRepository, user, draft.deckId, { name: draft.name, theme: draft.theme, memories }, ruleset);
+        toast('Mazo guardado');
+        setDraft(null);
+        await loadDecks();
+      } catch (error) {
+        logger.error('Failed to save custom deck', error, 'DeckEditorPage');
+        toast(error instanceof Error ? error.message : 'Error al guardar el mazo');
+      } finally {
+        setIsSaving(false);
+      }
+    };
+
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <Card className="p-8 w-full max-w-3xl space-y-6">
+          <h1 className="text-2xl font-bold tracking-tight text-center">
+            {draft.deckId ? 'Editar mazo' : 'Nuevo mazo'}
+          </h1>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block space-y-1 text-sm">
+              <span className="font-bold">Nombre</span>
+              <Input
+                value={draft.name}
+                maxLength={GAME_CONFIG.customDecks.maxNameLength}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+              />
+            </label>
+            <label className="block space-y-1 text-sm">
+              <span className="font-bold">Tema (opcional)</span>
+              <Input
+                value={draft.theme}
+                maxLength={GAME_CONFIG.customDecks.maxThemeLength}
+                onChange={(event) => setDraft({ ...draft, theme: event.target.value })}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <span className="font-bold">Reglas para las que es el mazo</span>
+            <div className="flex gap-2">
+              {(Object.keys(RULESET_PRESETS) as RulesetPresetId[]).map(presetId => (
+                <Button
+                  key={presetId}
+                  type="button"
+                  variant={presetId === draft.presetId ? 'default' : 'secondary'}
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, presetId })}
+                  className="flex-1"
+                >
+                  {RULESET_PRESETS[presetId].name} ({getMinMemories(RULESET_PRESETS[presetId].ruleset)})
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-bold">Recuerdos (uno por línea, puedes pegar muchos a la vez)</span>
+            <textarea
+              value={draft.text}
+              onChange={(event) => setDraft({ ...draft, text: event.target.value })}
+              rows={14}
+              spellCheck={false}
+              className="w-full border-4 border-foreground bg-background p-3 font-mono text-sm"
+            />
+          </label>
+
+          <div className="flex items-center justify-between text-sm">
+            <p>
+              {memories.length} recuerdos
+              {' · '}
+              {fittingPresets.length > 0
+                ? `Alcanza para: ${fittingPresets.map(preset => preset.name).join(', ')}`
+                : `Necesita al menos ${getMinMemories(ruleset)} para ${RULESET_PRESETS[draft.presetId].name}`}
+            </p>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => setDraft({ ...draft, text: cleanMemoryLines(memories).join('\n') })}
+            >
+              Quitar vacías y repetidas
+            </Button>
+          </div>
+
+          {issues.length > 0 && (
+            <div className="space-y-1 text-xs text-red-500">
+              {issues.slice(0, MAX_ISSUES_SHOWN).map(issue => (
+                <p key={issue}>{issue}</p>
+              ))}
+              {issues.length > MAX_ISSUES_SHOWN && <p>Y {issues.length - MAX_ISSUES_SHOWN} problemas más</p>}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => setDraft(null)} className="flex-1" disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} className="flex-1" disabled={isSaving || issues.length > 0}>
+              {isSaving ? 'Guardando...' : 'Guardar'}
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+      <Card className="p-8 w-full max-w-2xl space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">Mis mazos</h1>
+          <p className="text-sm text-muted-foreground">
+            Mazos privados que puedes elegir en la sala de tus partidas
+          </p>
+        </div>
+
+        {decks.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic text-center">
+            Todavía no creaste ningún mazo
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {decks.map(deck => (
+              <div key={deck.id} className="border rounded-lg p-4 flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <p className="font-bold">{deck.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {deck.size} recuerdos · v{deck.version}{deck.theme && ` · ${deck.theme}`}
+                  </p>
+                </div>
+                {confirmingDeleteId === deck.id ? (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setConfirmingDeleteId(null)}>
+                      No
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleDelete(deck.id)}>
+                      Eliminar
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button variant="secondary" size="sm" onClick={() => handleEdit(deck.id)}>
+                      Editar
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setConfirmingDeleteId(deck.id)}>
+                      Eliminar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => navigate('/menu')} className="flex-1">
+            Volver
+          </Button>
+          <Button onClick={() => setDraft({ deckId: null, name: '', theme: '', text: '', presetId: 'classic' })} className="flex-1">
+            Nuevo mazo
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,34 +1,50 @@
 import { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { doc, onSnapshot, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { roomRepository, seriesRepository, userRepository } from '@/repositories';
 import { Button } from '@/components/ui/8bit/button';
 import { toast } from '@/components/ui/8bit/toast';
 import { logger } from '@/lib/utils/logger';
 import { useAuthStore } from '@/stores/authStore';
-import { leaveRoom, startGame, completeIntro } from '@/services/roomService';
-import { selectCard, claimCard, rejectCard, opponentClaimCard, opponentRejectBack } from '@/services/gameService';
-import type { FirestoreRoom, PlayerInfo } from '@/types';
+import { leaveRoom, startGame, completeIntro, updateRoomRuleset, requestRematch, acceptRematch, startNextSeriesGame, updateRoomSeriesLength, updateRoomDeck, addBotToRoom, playBotTurn } from '@/services/roomService';
+// useItem is aliased so it isn't mistaken for a React hook
+import { selectCard, claimCard, rejectCard, opponentClaimCard, opponentRejectBack, useItem as activateItem, resolveTurnTimeout } from '@/services/gameService';
+import { getRuleset } from '@/services/gameEngine';
+import { scheduleTurnTimeout } from '@/services/turnTimeoutService';
+import { getSeriesScore } from '@/services/seriesService';
+import { getRoomDeckId } from '@/services/deckService';
+import { isBotToMove } from '@/services/botPlayer';
+import { getMinMemories } from '@/lib/validations/deck';
+import { BOT_DIFFICULTIES, GAME_CONFIG } from '@/config/gameConfig';
+import type { BotDifficulty, FirestorePlayerView, FirestoreRoom, FirestoreSeries, ItemCard, ItemTarget, PlayerInfo, Ruleset } from '@/types';
 import { LoadingState } from '@/components/LoadingState';
 import HealthBar from '@/components/ui/8bit/health-bar';
 import { GameIntro } from '@/components/GameIntro';
 import { GameBoard } from '@/components/game/GameBoard';
 import { MemoryCardModal } from '@/components/game/MemoryCardModal';
-import { GameOver } from '@/components/GameOver';
+import { GameOver, type RematchStatus } from '@/components/GameOver';
+import { RulesetPanel } from '@/components/RulesetPanel';
+import { DeckPanel } from '@/components/DeckPanel';
+import { ForfeitDialog } from '@/components/ForfeitDialog';
 
 export default function GamePage() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
-  const { user, clearCurrentRoom } = useAuthStore();
+  const { user, setUser, clearCurrentRoom } = useAuthStore();
   const [isCopied, setIsCopied] = useState(false);
   const [isLeaving, setIsLeaving] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
+  const [isAddingBot, setIsAddingBot] = useState(false);
   const [room, setRoom] = useState<FirestoreRoom | null>(null);
+  const [series, setSeries] = useState<FirestoreSeries | null>(null);
+  const [playerView, setPlayerView] = useState<FirestorePlayerView | null>(null);
+  const [spectatorCount, setSpectatorCount] = useState(0);
   const [players, setPlayers] = useState<PlayerInfo[]>([]);
   const [isLoadingRoom, setIsLoadingRoom] = useState(true);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const isLeavingRef = useRef(false);
+  const botRequestedUpdateRef = useRef<number | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // Timeout to detect if room doesn't exist
@@ -60,19 +76,17 @@ export default function GamePage() {
 
     logger.info('Setting up real-time room listener', { roomId }, 'GamePage');
 
-    const roomRef = doc(db, 'rooms', roomId);
-
     // Subscribe to room changes
-    const unsubscribe = onSnapshot(
-      roomRef,
-      async (snapshot) => {
+    const unsubscribe = roomRepository.subscribe(
+      roomId,
+      async (roomData) => {
         // Don't process updates if user is leaving
         if (isLeavingRef.current) {
           logger.debug('Ignoring room update while leaving', { roomId }, 'GamePage');
           return;
         }
 
-        if (!snapshot.exists()) {
+        if (!roomData) {
           // Room was deleted
           if (hasLoadedOnce) {
             logger.warn('Room no longer exists', { roomId }, 'GamePage');
@@ -82,17 +96,15 @@ export default function GamePage() {
           return;
         }
 
-        const roomData = snapshot.data() as FirestoreRoom;
-
         // Validate that user is in the room
         if (user && !roomData.order_players.includes(user.id)) {
           logger.warn('User not in room, redirecting', { roomId, userId: user.id }, 'GamePage');
 
-          // If user has a current_room that's different, redirect there
+          // If user has a current_room that's different, redirect there; otherwise watch the match
           if (user.currentRoom && user.currentRoom !== roomId) {
             navigate(`/game/${user.currentRoom}`);
           } else {
-            navigate('/menu');
+            navigate(`/game/${roomId}/watch`);
           }
           return;
         }
@@ -109,11 +121,9 @@ export default function GamePage() {
         // Fetch player names from users collection
         try {
           const playerInfoPromises = roomData.order_players.map(async (playerId) => {
-            const userRef = doc(db, 'users', playerId);
-            const userSnap = await getDoc(userRef);
+            const userData = await userRepository.get(playerId);
 
-            if (userSnap.exists()) {
-              const userData = userSnap.data();
+            if (userData) {
               return {
                 id: playerId,
                 name: userData.name || 'Jugador',
@@ -151,6 +161,135 @@ export default function GamePage() {
     };
   }, [roomId, navigate]);
 
+  // Real-time listener for the hidden cards revealed to this player (written by the trusted resolver)
+  const userId = user?.id ?? null;
+  useEffect(() => {
+    if (!roomId || !userId) {
+      return;
+    }
+
+    const unsubscribe = roomRepository.subscribeView(
+      roomId,
+      userId,
+      (view) => {
+        setPlayerView(view);
+      },
+      (error) => {
+        logger.error('Player view listener error', error, 'GamePage');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [roomId, userId]);
+
+  // Real-time spectator count (shown in the lobby)
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    const unsubscribe = roomRepository.subscribeSpectatorCount(
+      roomId,
+      (count) => {
+        setSpectatorCount(count);
+      },
+      (error) => {
+        logger.error('Spectators listener error', error, 'GamePage');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [roomId]);
+
+  // Real-time listener for the series this room belongs to (best-of-N)
+  const seriesId = room?.series_id ?? null;
+  useEffect(() => {
+    if (!seriesId) {
+      setSeries(null);
+      return;
+    }
+
+    const unsubscribe = seriesRepository.subscribe(
+      seriesId,
+      setSeries,
+      (error) => {
+        logger.error('Series listener error', error, 'GamePage');
+      }
+    );
+
+    return () => unsubscribe();
+  }, [seriesId]);
+
+  const seriesScore = series && user ? getSeriesScore(series, user.id) : null;
+
+  // Both players follow the room to its rematch (or next series game) once it is created
+  const rematchRoom = room?.status === 'finished' ? room.rematch_room ?? null : null;
+  useEffect(() => {
+    if (!rematchRoom || !user || rematchRoom === roomId) {
+      return;
+    }
+
+    logger.info('Moving to rematch room', { roomId, rematchRoom }, 'GamePage');
+    setUser({ ...user, currentRoom: rematchRoom });
+    navigate(`/game/${rematchRoom}`);
+  }, [rematchRoom, roomId, user, setUser, navigate]);
+
+  const turnDeadline = room?.status === 'playing' ? room.turn_deadline ?? null : null;
+
+  // Tick once per second while a turn deadline is running (drives the countdown)
+  useEffect(() => {
+    if (turnDeadline === null) {
+      return;
+    }
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [turnDeadline]);
+
+  // Resolve the phase once its deadline passes (either player may do it, the transaction keeps it safe)
+  // Retried until the room brings the next deadline: the server may not consider it due yet
+  useEffect(() => {
+    if (!roomId || !userId || turnDeadline === null) {
+      return;
+    }
+
+    return scheduleTurnTimeout(turnDeadline, () => {
+      logger.info('Turn deadline passed, resolving timeout', { roomId, turnDeadline }, 'GamePage');
+      return resolveTurnTimeout(roomId, userId);
+    });
+  }, [roomId, userId, turnDeadline]);
+
+  // The bot's moves are requested by this browser: its move in the game, or accepting the rematch we proposed
+  const botId = room?.bot?.id ?? null;
+  const isBotPending = !!room && !!botId && (
+    isBotToMove(room, botId) ||
+    (room.status === 'finished' && room.rematch_requested_by === userId && !room.rematch_room)
+  );
+  const roomUpdate = room?.lastUpdate?.toMillis?.() ?? null;
+  useEffect(() => {
+    if (!roomId || !isBotPending || roomUpdate === null) {
+      return;
+    }
+
+    // Only request once per room update; the bot's move brings the next one
+    if (botRequestedUpdateRef.current === roomUpdate) {
+      return;
+    }
+
+    // Pause before the bot moves so its plays can be followed
+    const timeout = setTimeout(() => {
+      botRequestedUpdateRef.current = roomUpdate;
+      playBotTurn(roomId).catch((error) => {
+        logger.warn('Could not play bot turn', error, 'GamePage');
+      });
+    }, GAME_CONFIG.bot.moveDelayMs);
+
+    return () => clearTimeout(timeout);
+  }, [roomId, isBotPending, roomUpdate]);
+
+  // Seconds left in the current phase (null when there is no deadline)
+  const secondsLeft = turnDeadline === null ? null : Math.max(0, Math.ceil((turnDeadline - now) / 1000));
+
   const handleCopyRoomCode = async () => {
     if (!roomId) {
       logger.warn('Attempted to copy room code but roomId is undefined', undefined, 'GamePage');
@@ -195,7 +334,7 @@ export default function GamePage() {
 
     try {
       logger.info('Leaving room', { roomId, userId: user.id }, 'GamePage');
-      await leaveRoom(user.id, roomId);
+      await leaveRoom(roomId);
 
       toast('Has abandonado la sala');
       logger.info('Successfully left room, navigating to menu', { roomId }, 'GamePage');
@@ -219,7 +358,7 @@ export default function GamePage() {
 
     try {
       logger.info('Starting game', { roomId, userId: user.id }, 'GamePage');
-      await startGame(user.id, roomId);
+      await startGame(roomId);
 
       toast('¡Partida iniciada!');
       logger.info('Game started successfully', { roomId }, 'GamePage');
@@ -232,6 +371,64 @@ export default function GamePage() {
     }
   };
 
+  const handleSaveRuleset = async (ruleset: Ruleset) => {
+    if (!roomId || !user) {
+      logger.warn('Cannot save ruleset: missing roomId or user', { roomId, userId: user?.id }, 'GamePage');
+      return;
+    }
+
+    logger.info('Saving room ruleset', { roomId, userId: user.id }, 'GamePage');
+    await updateRoomRuleset(roomId, ruleset);
+    toast('Reglas actualizadas');
+  };
+
+  const handleSelectDeck = async (deckId: string, isCustomDeck: boolean) => {
+    if (!roomId || !user) {
+      logger.warn('Cannot select deck: missing roomId or user', { roomId, userId: user?.id }, 'GamePage');
+      return;
+    }
+
+    logger.info('Selecting room deck', { roomId, userId: user.id, deckId, isCustomDeck }, 'GamePage');
+    await updateRoomDeck(roomId, deckId, isCustomDeck);
+    toast('Mazo actualizado');
+  };
+
+  const handleSeriesLengthChange = async (bestOf: number) => {
+    if (!roomId || !user) {
+      logger.warn('Cannot change series length: missing roomId or user', { roomId, userId: user?.id }, 'GamePage');
+      return;
+    }
+
+    try {
+      logger.info('Changing series length', { roomId, userId: user.id, bestOf }, 'GamePage');
+      await updateRoomSeriesLength(roomId, bestOf);
+    } catch (error: any) {
+      logger.error('Failed to change series length', error, 'GamePage');
+      const errorMessage = error instanceof Error ? error.message : 'Error al cambiar la serie';
+      toast(errorMessage);
+    }
+  };
+
+  const handleAddBot = async (difficulty: BotDifficulty) => {
+    if (!roomId || !user) {
+      logger.warn('Cannot add bot: missing roomId or user', { roomId, userId: user?.id }, 'GamePage');
+      return;
+    }
+
+    setIsAddingBot(true);
+
+    try {
+      logger.info('Adding bot to room', { roomId, userId: user.id, difficulty }, 'GamePage');
+      await addBotToRoom(roomId, difficulty);
+    } catch (error: any) {
+      logger.error('Failed to add bot', error, 'GamePage');
+      const errorMessage = error instanceof Error ? error.message : 'Error al añadir el bot';
+      toast(errorMessage);
+    } finally {
+      setIsAddingBot(false);
+    }
+  };
+
   // Check if current user is the creator (first player)
   const isCreator = user && room && room.order_players[0] === user.id;
 
@@ -263,14 +460,31 @@ export default function GamePage() {
     );
   }
 
+  // Abandon button for active matches (intro/playing): leaving counts as a loss
+  const forfeitButton = (
+    <div className="fixed top-4 right-4 z-50">
+      <ForfeitDialog onConfirm={handleLeaveRoom} isLeaving={isLeaving}>
+        <Button variant="outline" size="sm" disabled={isLeaving}>
+          Abandonar
+        </Button>
+      </ForfeitDialog>
+    </div>
+  );
+
   // Show intro screen when room status is 'intro'
   if (room?.status === 'intro') {
-    return <GameIntro onComplete={handleIntroComplete} />;
+    return (
+      <>
+        <GameIntro onComplete={handleIntroComplete} />
+        {forfeitButton}
+      </>
+    );
   }
 
   // Show game over screen when room status is 'finished'
   if (room?.status === 'finished' && user) {
     const isWinner = room.winner === user.id;
+    const isDraw = room.win_reason === 'draw';
     // Calculate memory history from used_cards (authentic cards only)
     const memoryHistory = room.used_cards
       ?.filter(playedCard => playedCard.card.authenticity === 'authentic')
@@ -280,7 +494,7 @@ export default function GamePage() {
       if (roomId && user) {
         try {
           logger.info('Leaving room from game over', { userId: user.id, roomId }, 'GamePage');
-          await leaveRoom(user.id, roomId);
+          await leaveRoom(roomId);
           clearCurrentRoom(); // Clear from local auth store
           logger.info('Successfully left room, navigating to menu', { roomId }, 'GamePage');
           navigate('/menu');
@@ -293,11 +507,67 @@ export default function GamePage() {
       }
     };
 
+    const rematchStatus: RematchStatus = !room.rematch_requested_by
+      ? 'none'
+      : room.rematch_requested_by === user.id ? 'sent' : 'received';
+
+    const handleRematch = async () => {
+      if (!roomId) {
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        if (rematchStatus === 'received') {
+          logger.info('Accepting rematch', { userId: user.id, roomId }, 'GamePage');
+          await acceptRematch(roomId);
+          // Navigation happens when the room snapshot brings rematch_room
+        } else {
+          logger.info('Requesting rematch', { userId: user.id, roomId }, 'GamePage');
+          await requestRematch(roomId);
+          toast('Revancha propuesta');
+        }
+      } catch (error: any) {
+        logger.error('Failed to handle rematch', error, 'GamePage');
+        const errorMessage = error instanceof Error ? error.message : 'Error con la revancha';
+        toast(errorMessage);
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+
+    const handleNextSeriesGame = async () => {
+      if (!roomId) {
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        logger.info('Starting next series game', { userId: user.id, roomId }, 'GamePage');
+        await startNextSeriesGame(roomId);
+        // Navigation happens when the room snapshot brings rematch_room
+      } catch (error: any) {
+        logger.error('Failed to start next series game', error, 'GamePage');
+        const errorMessage = error instanceof Error ? error.message : 'Error al iniciar la siguiente partida';
+        toast(errorMessage);
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+
     return (
       <GameOver
         isWinner={isWinner}
+        isDraw={isDraw}
+        winReason={room.win_reason}
         memoryHistory={memoryHistory}
         onBackToMenu={handleBackToMenu}
+        rematchStatus={rematchStatus}
+        onRematch={handleRematch}
+        isRematchProcessing={isProcessing}
+        seriesScore={seriesScore}
+        onNextSeriesGame={handleNextSeriesGame}
+        onWatchReplay={() => navigate(`/replay/${roomId}`)}
       />
     );
   }
@@ -387,6 +657,26 @@ export default function GamePage() {
       }
     };
 
+    const handleUseItem = async (item: ItemCard, target?: ItemTarget) => {
+      if (!roomId || !user) {
+        logger.warn('Cannot use item: missing roomId or user', { roomId, userId: user?.id }, 'GamePage');
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        logger.info('Player using item', { userId: user.id, roomId, itemId: item.id, target }, 'GamePage');
+        await activateItem(roomId, user.id, item.id, target);
+        toast(`${item.name} usado`);
+      } catch (error: any) {
+        logger.error('Failed to use item', error, 'GamePage');
+        const errorMessage = error instanceof Error ? error.message : 'Error al usar el item';
+        toast(errorMessage);
+      } finally {
+        setIsProcessing(false);
+      }
+    };
+
     // Determine if current user is the active player
     const currentPlayerIndex = room.turn;
     const currentPlayerId = room.order_players[currentPlayerIndex];
@@ -396,18 +686,23 @@ export default function GamePage() {
       <>
         <GameBoard
           room={room}
+          playerView={playerView}
           currentPlayer={currentPlayerInfo}
           opponent={opponentInfo}
           userId={user.id}
           onClaim={handleClaim}
           onReject={handleReject}
           onCardSelect={handleCardSelect}
+          onUseItem={handleUseItem}
+          secondsLeft={secondsLeft}
+          seriesScore={seriesScore}
         />
 
         {/* Memory Card Decision Modal - Shows to BOTH players but with different visibility */}
         <MemoryCardModal
           isOpen={room.current_card !== null}
           card={room.current_card}
+          revealedCard={playerView?.current_card}
           turnState={room.turn_state}
           currentMultiplier={room.current_multiplier}
           isPlayerTurn={isPlayerTurn}
@@ -416,7 +711,12 @@ export default function GamePage() {
           onClaim={handleClaim}
           onReject={handleReject}
           isProcessing={isProcessing}
+          secondsLeft={secondsLeft}
+          cancelMultiplierItem={room.players[user.id]?.items.find(item => item.effect === 'cancel_multiplier')}
+          onUseItem={handleUseItem}
         />
+
+        {forfeitButton}
       </>
     );
   }
@@ -454,6 +754,7 @@ export default function GamePage() {
               <div className="space-y-3">
                 <p className="text-2xl font-bold text-foreground">{roomId}</p>
                 <p className="text-sm text-muted-foreground">Comparte este código con tu oponente</p>
+                <p className="text-xs text-muted-foreground">Tus amigos pueden ver la partida en /game/{roomId}/watch</p>
                 <Button
                   variant="default"
                   size="lg"
@@ -470,6 +771,9 @@ export default function GamePage() {
           {/* Players section */}
           <div className="border rounded-lg p-8 w-full max-w-2xl mt-8">
             <h2 className="text-xl font-bold mb-4 text-center">Jugadores</h2>
+            <p className="text-sm text-muted-foreground text-center mb-4">
+              Espectadores: {spectatorCount}
+            </p>
             <div className="space-y-3">
               {players.map((player, index) => (
                 <div
@@ -482,7 +786,9 @@ export default function GamePage() {
                         {index + 1}.
                       </span>
                       <span className="font-medium">
-                        {player.name}
+                        <Link to={`/profile/${player.id}`} className="underline underline-offset-4">
+                          {player.name}
+                        </Link>
                         {player.id === user?.id && ' (Tú)'}
                         {index === 0 && (
                           <span className="ml-2 text-xs px-2 py-1 bg-yellow-500/20 text-yellow-600 rounded">
@@ -509,6 +815,30 @@ export default function GamePage() {
                   />
                 </div>
               )}
+
+              {/* Practice against a bot instead of waiting (creator only, not counted in stats or rating) */}
+              {isCreator && players.length === 1 && room?.status === 'waiting' && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground text-center">
+                    ¿Sin oponente? Practica contra un bot (no cuenta para estadísticas ni puntuación)
+                  </p>
+                  <div className="flex gap-2">
+                    {(Object.keys(BOT_DIFFICULTIES) as BotDifficulty[]).map(difficulty => (
+                      <Button
+                        key={difficulty}
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => handleAddBot(difficulty)}
+                        disabled={isAddingBot}
+                        title={BOT_DIFFICULTIES[difficulty].description}
+                        className="flex-1"
+                      >
+                        Bot {BOT_DIFFICULTIES[difficulty].name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Start game button - only show for creator with 2 players */}
@@ -568,6 +898,53 @@ export default function GamePage() {
               </div>
             )}
           </div>
+
+          {/* Ruleset - creator can change it while waiting */}
+          {room?.status === 'waiting' && (
+            <RulesetPanel
+              ruleset={getRuleset(room)}
+              canEdit={!!isCreator}
+              onSave={handleSaveRuleset}
+            />
+          )}
+
+          {/* Deck - creator picks it from the catalog or their own decks while waiting */}
+          {room?.status === 'waiting' && user && (
+            <DeckPanel
+              deckId={getRoomDeckId(room)}
+              isCustomDeck={!!room.deck?.owner_id}
+              minSize={getMinMemories(getRuleset(room))}
+              canEdit={!!isCreator}
+              userId={user.id}
+              onSelect={handleSelectDeck}
+            />
+          )}
+
+          {/* Series length - creator picks single game or best-of-N while waiting */}
+          {room?.status === 'waiting' && (
+            <div className="border rounded-lg p-6 w-full max-w-2xl space-y-4">
+              <h2 className="text-xl font-bold">Serie</h2>
+              {isCreator ? (
+                <div className="flex gap-2">
+                  {GAME_CONFIG.series.lengths.map(bestOf => (
+                    <Button
+                      key={bestOf}
+                      variant={(room.best_of ?? 1) === bestOf ? 'default' : 'secondary'}
+                      size="sm"
+                      onClick={() => handleSeriesLengthChange(bestOf)}
+                      className="flex-1"
+                    >
+                      {bestOf === 1 ? 'Partida única' : `Mejor de ${bestOf}`}
+                    </Button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm font-bold">
+                  {(room.best_of ?? 1) === 1 ? 'Partida única' : `Mejor de ${room.best_of}`}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { Input } from '@/components/ui/8bit/input';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { forfeitMatch, isGameError } from '@/services/gameEngine';
+import { getPlayerView } from '@/services/hiddenDeck';
+import {
+  HOT_SEAT_PLAYER_IDS,
+  applyHotSeatAction,
+  createHotSeatGame,
+  getHotSeatActivePlayer,
+  toHotSeatRoom
+} from '@/services/hotSeatService';
+import { DEFAULT_RULESET } from '@/config/gameConfig';
+import type { ActionResult, GameAction, GameState, ItemCard, ItemTarget, PlayerInfo, Ruleset } from '@/types';
+import { GameIntro } from '@/components/GameIntro';
+import { GameBoard } from '@/components/game/GameBoard';
+import { MemoryCardModal } from '@/components/game/MemoryCardModal';
+import { GameOver } from '@/components/GameOver';
+import { RulesetPanel } from '@/components/RulesetPanel';
+import { ForfeitDialog } from '@/components/ForfeitDialog';
+
+// setup: names and rules, intro: story, handoff: pass-the-device screen, playing: the board
+type HotSeatScreen = 'setup' | 'intro' | 'handoff' | 'playing';
+
+const MAX_NAME_LENGTH = 20;
+
+/**
+ * Two players on one device, with no accounts and no Firebase: the whole match runs in memory
+ * with the game engine. Between turns the device is handed over behind a cover screen, so the
+ * card revealed to one player never shows while the other holds it
+ */
+export default function HotSeatPage() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [screen, setScreen] = useState<HotSeatScreen>('setup');
+  const [names, setNames] = useState<string[]>(['Jugador 1', 'Jugador 2']);
+  const [ruleset, setRuleset] = useState<Ruleset>(DEFAULT_RULESET);
+  const [state, setState] = useState<GameState | null>(null);
+
+  const nameOf = (playerId: string | null) => names[HOT_SEAT_PLAYER_IDS.indexOf(playerId ?? '')] ?? 'Jugador';
+  const toPlayerInfo = (playerId: string): PlayerInfo => ({
+    id: playerId,
+    name: nameOf(playerId),
+    integrity: state?.players[playerId]?.integrity ?? 0
+  });
+
+  const handleBackToMenu = () => navigate(user ? '/menu' : '/');
+
+  const startMatch = (orderPlayers: string[]) => {
+    try {
+      setState(createHotSeatGame(ruleset, orderPlayers));
+      logger.info('Hot-seat match dealt', { orderPlayers }, 'HotSeatPage');
+    } catch (error: any) {
+      logger.error('Failed to deal hot-seat match', error, 'HotSeatPage');
+      toast(error instanceof Error ? error.message : 'Error al repartir el mazo');
+      setScreen('setup');
+    }
+  };
+
+  const handleStart = () => {
+    if (names.some(name => name.trim().length === 0)) {
+      toast('Ambos jugadores necesitan un nombre');
+      return;
+    }
+
+    setNames(names.map(name => name.trim()));
+    startMatch(HOT_SEAT_PLAYER_IDS);
+    setScreen('intro');
+  };
+
+  /**
+   * Applies a step to the match; when another player has to act next, the device is handed over
+   */
+  const applyStep = (step: (current: GameState) => ActionResult) => {
+    if (!state) {
+      return;
+    }
+
+    const result = step(state);
+    if (isGameError(result)) {
+      logger.warn('Hot-seat action rejected', result, 'HotSeatPage');
+      toast(result.message);
+      return;
+    }
+
+    const nextPlayerId = getHotSeatActivePlayer(result.state);
+    setState(result.state);
+    if (nextPlayerId && nextPlayerId !== getHotSeatActivePlayer(state)) {
+      setScreen('handoff');
+    }
+  };
+
+  const playAction = (action: GameAction) => applyStep(current => applyHotSeatAction(current, action));
+
+  if (screen === 'setup' || !state) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <div className="max-w-2xl w-full space-y-6">
+          <div className="text-center space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">Hot-seat</h1>
+            <p className="text-sm text-muted-foreground">
+              Dos jugadores en un mismo dispositivo, sin cuentas ni conexión. La partida no se guarda.
+            </p>
+          </div>
+
+          <Card className="p-6 space-y-4">
+            {HOT_SEAT_PLAYER_IDS.map((playerId, index) => (
+              <label key={playerId} className="block space-y-1 text-sm">
+                <span className="font-bold">Jugador {index + 1}</span>
+                <Input
+                  value={names[index]}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(event) => setNames(names.map((name, i) => (i === index ? event.target.value : name)))}
+                />
+              </label>
+            ))}
+          </Card>
+
+          <RulesetPanel
+            ruleset={ruleset}
+            canEdit
+            onSave={async (newRuleset) => {
+              setRuleset(newRuleset);
+              toast('Reglas actualizadas');
+            }}
+          />
+
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={handleBackToMenu} className="flex-1">
+              Volver
+            </Button>
+            <Button onClick={handleStart} className="flex-1">
+              COMENZAR
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (screen === 'intro') {
+    return <GameIntro onComplete={() => setScreen('handoff')} />;
+  }
+
+  if (state.status === 'finished') {
+    const memoryHistory = state.used_cards
+      .filter(playedCard => playedCard.card.authenticity === 'authentic')
+      .map(playedCard => playedCard.card.memory);
+
+    // One shared screen: the result is told from the winner's side, naming them
+    return (
+      <GameOver
+        isWinner
+        isDraw={state.win_reason === 'draw'}
+        winReason={state.win_reason}
+        winnerName={state.winner ? nameOf(state.winner) : undefined}
+        memoryHistory={memoryHistory}
+        onBackToMenu={handleBackToMenu}
+        rematchStatus="none"
+        onRematch={() => {
+          // The other player starts the rematch
+          startMatch([...state.order_players].reverse());
+          setScreen('handoff');
+        }}
+      />
+    );
+  }
+
+  const activePlayerId = getHotSeatActivePlayer(state)!;
+
+  // Cover screen while the device changes hands: nothing of the board shows
+  if (screen === 'handoff') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-8">
+        <Card className="p-8 w-full max-w-md space-y-6 text-center">
+          <h1 className="text-2xl font-bold tracking-tight">Pasa el dispositivo</h1>
+          <p className="text-lg">
+            Turno de <span className="font-bold">{nameOf(activePlayerId)}</span>
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {nameOf(state.order_players.find(playerId => playerId !== activePlayerId) ?? null)}, no mires la pantalla.
+          </p>
+          <Button size="lg" onClick={() => setScreen('playing')} className="w-full">
+            Soy {nameOf(activePlayerId)}, continuar
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const room = toHotSeatRoom(state);
+  const playerView = getPlayerView(state, activePlayerId);
+  const opponentId = state.order_players.find(playerId => playerId !== activePlayerId)!;
+
+  const handleClaim = () => playAction({
+    type: state.turn_state === 'decide' ? 'claim_card' : 'opponent_claim_card',
+    userId: activePlayerId
+  });
+
+  const handleReject = () => playAction({
+    type: state.turn_state === 'decide' ? 'reject_card' : 'opponent_reject_back',
+    userId: activePlayerId
+  });
+
+  const handleUseItem = (item: ItemCard, target?: ItemTarget) => {
+    playAction({ type: 'use_item', userId: activePlayerId, itemId: item.id, ...(target && { target }) });
+    toast(`${item.name} usado`);
+  };
+
+  return (
+    <>
+      <GameBoard
+        room={room}
+        playerView={playerView}
+        currentPlayer={toPlayerInfo(activePlayerId)}
+        opponent={toPlayerInfo(opponentId)}
+        userId={activePlayerId}
+        onClaim={handleClaim}
+        onReject={handleReject}
+        onCardSelect={(cardIndex) => playAction({ type: 'select_card', userId: activePlayerId, cardIndex })}
+        onUseItem={handleUseItem}
+        secondsLeft={null}
+        seriesScore={null}
+      />
+
+      {/* Only the player holding the device gets the revealed card (their own view) */}
+      <MemoryCardModal
+        isOpen={room.current_card !== null}
+        card={room.current_card}
+        revealedCard={playerView.current_card}
+        turnState={room.turn_state}
+        currentMultiplier={room.current_multiplier}
+        isPlayerTurn={room.order_players[room.turn] === activePlayerId}
+        cardInitiator={room.card_initiator}
+        currentUserId={activePlayerId}
+        onClaim={handleClaim}
+        onReject={handleReject}
+        cancelMultiplierItem={room.players[activePlayerId]?.items.find(item => item.effect === 'cancel_multiplier')}
+        onUseItem={handleUseItem}
+      />
+
+      <div className="fixed top-4 right-4 z-50">
+        <ForfeitDialog
+          onConfirm={async () => applyStep(current => forfeitMatch(current, activePlayerId))}
+          isLeaving={false}
+        >
+          <Button variant="outline" size="sm">
+            Abandonar
+          </Button>
+        </ForfeitDialog>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { userRepository } from '@/repositories';
+import { getLeaderboardPage, getRatingHistory, getRatingRank } from '@/services/leaderboardService';
+import type { FirestoreRatingChange, RankedPlayer, RatingResult } from '@/types';
+import { LoadingState } from '@/components/LoadingState';
+
+const RESULT_LABELS: Record<RatingResult, string> = {
+  win: 'Victoria',
+  loss: 'Derrota',
+  draw: 'Empate'
+};
+
+export default function LeaderboardPage() {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [players, setPlayers] = useState<RankedPlayer[]>([]);
+  // Cursor of the last player of each page shown so far (null before the first page)
+  const [cursors, setCursors] = useState<(RankedPlayer | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingPage, setIsLoadingPage] = useState(true);
+  const [ownRating, setOwnRating] = useState<number | null>(null);
+  const [ownRank, setOwnRank] = useState<number | null>(null);
+  const [history, setHistory] = useState<FirestoreRatingChange[]>([]);
+
+  const userId = user?.id ?? null;
+
+  const loadPage = useCallback(async (index: number, after: RankedPlayer | null) => {
+    setIsLoadingPage(true);
+    try {
+      const page = await getLeaderboardPage(after);
+      setPlayers(page.players);
+      setHasMore(page.hasMore);
+      setPageIndex(index);
+      setCursors(previous => [...previous.slice(0, index + 1), page.cursor]);
+    } catch (error) {
+      logger.error('Failed to load leaderboard', error, 'LeaderboardPage');
+      toast(error instanceof Error ? error.message : 'Error al cargar la clasificación');
+    } finally {
+      setIsLoadingPage(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(0, null);
+  }, [loadPage]);
+
+  // The viewer's own rating, position and recent rating changes
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const loadOwnRating = async () => {
+      try {
+        const rating = (await userRepository.get(userId))?.rating;
+
+        if (rating === undefined) {
+          return;
+        }
+
+        const [rank, ratingHistory] = await Promise.all([getRatingRank(rating), getRatingHistory(userId)]);
+        setOwnRating(rating);
+        setOwnRank(rank);
+        setHistory(ratingHistory);
+      } catch (error) {
+        logger.error('Failed to load own rating', error, 'LeaderboardPage');
+      }
+    };
+
+    loadOwnRating();
+  }, [userId]);
+
+  const pageSize = GAME_CONFIG.rating.leaderboardPageSize;
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+      <Card className="p-8 w-full max-w-2xl space-y-6">
+        <h1 className="text-3xl font-bold tracking-tight text-center">Clasificación</h1>
+
+        <div className="text-center text-sm space-y-1">
+          {ownRating === null ? (
+            <p className="text-muted-foreground italic">
+              Termina una partida para entrar en la clasificación (empiezas con {GAME_CONFIG.rating.initial} puntos)
+            </p>
+          ) : (
+            <p className="font-bold">Tu puntuación: {ownRating} · Posición #{ownRank}</p>
+          )}
+        </div>
+
+        {isLoadingPage ? (
+          <LoadingState variant="compact" message="Cargando clasificación..." className="justify-center" />
+        ) : players.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic text-center">Todavía nadie terminó una partida</p>
+        ) : (
+          <ol className="space-y-2 text-sm">
+            {players.map((player, index) => (
+              <li
+                key={player.id}
+                className={`flex justify-between gap-4 ${player.id === userId ? 'font-bold' : ''}`}
+              >
+                <span>
+                  #{pageIndex * pageSize + index + 1}{' '}
+                  <Link to={`/profile/${player.id}`} className="underline">{player.name}</Link>
+                </span>
+                <span>{player.rating} · {player.ratedGames} partidas</span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex justify-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => loadPage(pageIndex - 1, cursors[pageIndex - 1])}
+            disabled={isLoadingPage || pageIndex === 0}
+          >
+            Anterior
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => loadPage(pageIndex + 1, cursors[pageIndex + 1])}
+            disabled={isLoadingPage || !hasMore}
+          >
+            Siguiente
+          </Button>
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="font-bold">Tus últimas partidas</h2>
+            {history.map(change => (
+              <p key={change.roomCode} className="text-xs flex justify-between gap-4">
+                <span>{RESULT_LABELS[change.result]} contra un rival de {change.opponentRating}</span>
+                <span>
+                  {change.delta >= 0 ? `+${change.delta}` : change.delta} → {change.rating}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => navigate('/menu')}>
+            Volver al menú
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/stores/authStore';
 import { JoinRoomDialog } from '@/components/JoinRoomDialog';
+import { PublicRoomList } from '@/components/PublicRoomList';
 import { Button } from '@/components/ui/8bit/button';
+import { toast } from '@/components/ui/8bit/toast';
 import { logger } from '@/lib/utils/logger';
-import { createRoom, roomExists } from '@/services/roomService';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { createRoom, joinMatchmaking, leaveMatchmaking, roomExists } from '@/services/roomService';
+import { matchmakingRepository } from '@/repositories';
 import { LoadingState } from '@/components/LoadingState';
 
 export default function MainMenuPage() {
   const navigate = useNavigate();
   const { user, logout, clearCurrentRoom } = useAuthStore();
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [isPublicRoom, setIsPublicRoom] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isQueued, setIsQueued] = useState(false); // In the queue, waiting for an opponent to claim us
+  const [searchSecondsLeft, setSearchSecondsLeft] = useState(0);
+
+  const userId = user?.id ?? null;
+  const isBusy = isCreatingRoom || isSearching;
 
   // Redirect to active room if user has one (and it exists)
   useEffect(() => {
@@ -49,8 +60,8 @@ export default function MainMenuPage() {
     setError(null);
 
     try {
-      logger.info('Creating new room', { userId: user.id });
-      const roomCode = await createRoom(user.id);
+      logger.info('Creating new room', { userId: user.id, isPublic: isPublicRoom });
+      const roomCode = await createRoom(undefined, isPublicRoom);
       logger.info('Room created successfully, navigating', { roomCode });
       navigate(`/game/${roomCode}`);
     } catch (error: any) {
@@ -60,6 +71,84 @@ export default function MainMenuPage() {
     }
   };
 
+  const handleFindMatch = async () => {
+    setIsSearching(true);
+    setSearchSecondsLeft(GAME_CONFIG.matchmaking.timeoutSeconds);
+    setError(null);
+
+    try {
+      const roomCode = await joinMatchmaking();
+
+      // Paired with someone who was already waiting
+      if (roomCode) {
+        logger.info('Matched right away, navigating', { roomCode });
+        navigate(`/game/${roomCode}`);
+        return;
+      }
+
+      // Only listen once the queue entry is ours: an entry left by an earlier pairing is overwritten by now
+      setIsQueued(true);
+    } catch (error: any) {
+      logger.error('Error joining matchmaking', error);
+      setError(error.message || 'Error al buscar partida');
+      setIsSearching(false);
+    }
+  };
+
+  const handleCancelSearch = useCallback(async (hasTimedOut: boolean) => {
+    try {
+      await leaveMatchmaking();
+      setIsSearching(false);
+      setIsQueued(false);
+      if (hasTimedOut) {
+        toast('No se encontró rival. Intenta nuevamente.');
+      }
+    } catch (error: any) {
+      // Already paired: the queue listener takes the user to the room
+      logger.warn('Could not leave matchmaking', error);
+      toast(error.message || 'Error al cancelar la búsqueda');
+    }
+  }, []);
+
+  // While queued, wait for an opponent to pair into a room with us
+  // (entries left behind by closed tabs expire on the server after the timeout)
+  useEffect(() => {
+    if (!isQueued || !userId) {
+      return;
+    }
+
+    const unsubscribe = matchmakingRepository.subscribe(
+      userId,
+      (entry) => {
+        const roomCode = entry?.room_code;
+        if (roomCode) {
+          logger.info('Matched with a waiting opponent, navigating', { roomCode });
+          // The pairing is consumed: clear the entry so the user can search again later
+          leaveMatchmaking().catch(error => logger.warn('Could not clear matchmaking entry', error));
+          navigate(`/game/${roomCode}`);
+        }
+      },
+      (error) => logger.error('Matchmaking listener error', error)
+    );
+
+    return () => unsubscribe();
+  }, [isQueued, userId, navigate]);
+
+  // Search countdown: give up when the matchmaking timeout runs out
+  useEffect(() => {
+    if (!isSearching) {
+      return;
+    }
+
+    if (searchSecondsLeft <= 0) {
+      handleCancelSearch(true);
+      return;
+    }
+
+    const timeout = setTimeout(() => setSearchSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [isSearching, searchSecondsLeft, handleCancelSearch]);
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -93,7 +182,7 @@ export default function MainMenuPage() {
             <Button
               onClick={handleCreateRoom}
               className="w-full"
-              disabled={isCreatingRoom}
+              disabled={isBusy}
             >
               {isCreatingRoom ? (
                 <LoadingState
@@ -106,22 +195,82 @@ export default function MainMenuPage() {
               )}
             </Button>
 
+            <label className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={isPublicRoom}
+                onChange={(event) => setIsPublicRoom(event.target.checked)}
+                disabled={isBusy}
+              />
+              Sala pública (aparece en la lista de salas)
+            </label>
+
+            {isSearching ? (
+              <div className="space-y-2">
+                <LoadingState
+                  variant="compact"
+                  message={`Buscando rival... (${searchSecondsLeft}s)`}
+                  className="justify-center"
+                />
+                <Button onClick={() => handleCancelSearch(false)} variant="outline" className="w-full">
+                  CANCELAR BÚSQUEDA
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={handleFindMatch} className="w-full" disabled={isBusy}>
+                BUSCAR PARTIDA
+              </Button>
+            )}
+
+            <Button onClick={() => navigate('/hotseat')} variant="outline" className="w-full" disabled={isBusy}>
+              HOT-SEAT (MISMO DISPOSITIVO)
+            </Button>
+
             <JoinRoomDialog>
-              <Button variant="outline" className="w-full" disabled={isCreatingRoom}>
+              <Button variant="outline" className="w-full" disabled={isBusy}>
                 UNIRSE A SALA
               </Button>
             </JoinRoomDialog>
 
+            <Button
+              onClick={() => user && navigate(`/profile/${user.id}`)}
+              variant="outline"
+              className="w-full"
+              disabled={isBusy}
+            >
+              MI PERFIL
+            </Button>
+
+            <Button
+              onClick={() => navigate('/leaderboard')}
+              variant="outline"
+              className="w-full"
+              disabled={isBusy}
+            >
+              CLASIFICACIÓN
+            </Button>
+
+            <Button
+              onClick={() => navigate('/decks')}
+              variant="outline"
+              className="w-full"
+              disabled={isBusy}
+            >
+              MIS MAZOS
+            </Button>
+
             <Button
               onClick={handleLogout}
               variant="secondary"
               className="w-full"
-              disabled={isCreatingRoom}
+              disabled={isBusy}
             >
               SALIR
             </Button>
           </div>
         </div>
+
+        {userId && <PublicRoomList userId={userId} disabled={isBusy} />}
       </div>
     </div>
   );
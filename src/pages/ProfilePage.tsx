@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { userRepository } from '@/repositories';
+import {
+  EMPTY_PLAYER_STATS,
+  getAverageFinalIntegrity,
+  getRejectRate,
+  getTotalByReason
+} from '@/services/statsService';
+import type { FirestoreUser, StatsByReason, WinReason } from '@/types';
+import { LoadingState } from '@/components/LoadingState';
+
+// How each counted game was decided, as shown next to wins and losses
+const WIN_REASON_LABELS: Record<Exclude<WinReason, 'draw'>, string> = {
+  reached_10_points: 'Integridad objetivo',
+  opponent_defeated: 'Integridad agotada',
+  deck_exhausted: 'Mazo agotado',
+  timeout: 'Tiempo agotado',
+  opponent_forfeited: 'Abandono'
+};
+
+export default function ProfilePage() {
+  const { userId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [profile, setProfile] = useState<FirestoreUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      navigate('/menu');
+      return;
+    }
+
+    const loadProfile = async () => {
+      try {
+        const userData = await userRepository.get(userId);
+
+        if (!userData) {
+          toast('El jugador no existe');
+          navigate('/menu');
+          return;
+        }
+
+        setProfile(userData);
+      } catch (error) {
+        logger.error('Failed to load profile', error, 'ProfilePage');
+        toast('Error al cargar el perfil');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, [userId, navigate]);
+
+  if (isLoading || !profile) {
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <LoadingState message="Cargando perfil..." />
+      </div>
+    );
+  }
+
+  const stats = profile.stats ?? EMPTY_PLAYER_STATS;
+
+  const renderByReason = (title: string, byReason: StatsByReason) => (
+    <div className="space-y-1">
+      <p className="font-bold">{title}: {getTotalByReason(byReason)}</p>
+      {(Object.keys(WIN_REASON_LABELS) as (keyof StatsByReason)[])
+        .filter(reason => byReason[reason])
+        .map(reason => (
+          <p key={reason} className="text-xs text-muted-foreground">
+            {WIN_REASON_LABELS[reason]}: {byReason[reason]}
+          </p>
+        ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+      <Card className="p-8 w-full max-w-2xl space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight">{profile.name}</h1>
+          <p className="text-sm text-muted-foreground">
+            {userId === user?.id ? 'Tu perfil' : 'Perfil de jugador'} · Partidas jugadas: {stats.gamesPlayed}
+          </p>
+          {profile.rating !== undefined && (
+            <p className="text-sm font-bold">Puntuación: {profile.rating}</p>
+          )}
+        </div>
+
+        {stats.gamesPlayed === 0 ? (
+          <p className="text-sm text-muted-foreground italic text-center">
+            Todavía no terminó ninguna partida
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-6 text-sm">
+            {renderByReason('Victorias', stats.wins)}
+            {renderByReason('Derrotas', stats.losses)}
+            <p>Empates: {stats.draws}</p>
+            <p>Memorias auténticas reclamadas: {stats.authenticClaimed}</p>
+            <p>Fatal glitches recibidos: {stats.fatalGlitchesTaken}</p>
+            <p>Tasa de rechazo: {Math.round(getRejectRate(stats) * 100)}%</p>
+            <p>Integridad final promedio: {getAverageFinalIntegrity(stats).toFixed(1)}</p>
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => navigate(-1)}>
+            Volver
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
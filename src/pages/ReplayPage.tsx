@@ -0,0 +1,351 @@
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { userRepository } from '@/repositories';
+import { getRoom, getRoomEvents } from '@/services/roomService';
+import { getRuleset } from '@/services/gameEngine';
+import { buildReplay } from '@/services/replayService';
+import { exportMatch, importMatch } from '@/services/matchExport';
+import type { GameEvent, MatchExport, PlayerInfo, ReplayStep } from '@/types';
+import { LoadingState } from '@/components/LoadingState';
+import { PlayArea } from '@/components/game/PlayArea';
+import { InfoPanel } from '@/components/game/InfoPanel';
+import { MemoryCardModal } from '@/components/game/MemoryCardModal';
+
+// Time each step stays on screen while the replay is playing
+const REPLAY_STEP_MS = 1500;
+
+const formatPoints = (points: number): string => (points > 0 ? `+${points}` : `${points}`);
+
+/**
+ * Describes one logged event for the replay (names come from the players of the room)
+ */
+const describeEvent = (event: GameEvent, nameOf: (userId: string | null) => string): string => {
+  switch (event.type) {
+    case 'CardSelected':
+      return `${nameOf(event.userId)} seleccionó una carta`;
+    case 'CardRejected':
+      return `${nameOf(event.userId)} rechazó la carta (${event.multiplier}x)`;
+    case 'CardClaimed':
+      return `${nameOf(event.userId)} reclamó la carta (${event.multiplier}x): ${formatPoints(event.points)}`;
+    case 'CardForcedBack':
+      return `${nameOf(event.userId)} obligó a ${nameOf(event.targetId)} a tomar la carta (${event.multiplier}x): ${formatPoints(event.points)}`;
+    case 'ItemEarned':
+      return `${nameOf(event.userId)} obtuvo ${event.item.name}`;
+    case 'ItemUsed':
+      return `${nameOf(event.userId)} usó ${event.item.name}`;
+    case 'ShieldBlocked':
+      return `El firewall de ${nameOf(event.userId)} bloqueó ${formatPoints(event.points)}`;
+    case 'TurnTimedOut':
+      return `Se agotó el tiempo de ${nameOf(event.userId)}`;
+    case 'GameFinished':
+      return event.winnerId ? `Ganó ${nameOf(event.winnerId)}` : 'La partida terminó en empate';
+  }
+};
+
+export default function ReplayPage() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [steps, setSteps] = useState<ReplayStep[]>([]);
+  const [players, setPlayers] = useState<PlayerInfo[]>([]);
+  const [match, setMatch] = useState<MatchExport | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load the finished room and rebuild the match from its event log
+  useEffect(() => {
+    if (!roomId) {
+      navigate('/menu');
+      return;
+    }
+
+    const loadReplay = async () => {
+      try {
+        const room = await getRoom(roomId);
+
+        if (!room) {
+          toast('La sala no existe');
+          navigate('/menu');
+          return;
+        }
+
+        if (room.status !== 'finished') {
+          toast('La repetición estará disponible cuando termine la partida');
+          navigate('/menu');
+          return;
+        }
+
+        const events = await getRoomEvents(roomId);
+        const replaySteps = buildReplay(events, room.order_players, getRuleset(room));
+        setSteps(replaySteps);
+
+        const playerInfos = await Promise.all(room.order_players.map(async (playerId) => {
+          const userData = await userRepository.get(playerId);
+          return {
+            id: playerId,
+            name: userData?.name || 'Jugador',
+            integrity: 0
+          };
+        }));
+        setPlayers(playerInfos);
+
+        // Matches that ended before the deal have nothing to export
+        if (replaySteps.length > 0) {
+          setMatch(exportMatch(roomId, room, events, playerInfos));
+        }
+      } catch (error) {
+        logger.error('Failed to load replay', error, 'ReplayPage');
+        toast(error instanceof Error ? error.message : 'Error al cargar la repetición');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReplay();
+  }, [roomId, navigate]);
+
+  // Advance one step at a time while playing, and stop at the end
+  const lastStepIndex = steps.length - 1;
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+
+    if (stepIndex >= lastStepIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setStepIndex(stepIndex + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, stepIndex, lastStepIndex]);
+
+  // Download the match as a portable JSON file (for bug reports or to share it)
+  const handleExport = () => {
+    if (!match) {
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(match, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `partida-${match.roomCode}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Replace the replay with an exported match file, verified by playing it again
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const imported = importMatch(await file.text());
+      setMatch(imported.match);
+      setSteps(imported.steps);
+      setPlayers(imported.match.players.map(player => ({ ...player, integrity: 0 })));
+      setIsPlaying(false);
+      setStepIndex(0);
+      toast(`Partida ${imported.match.roomCode} importada`);
+    } catch (error) {
+      logger.error('Failed to import match', error, 'ReplayPage');
+      toast(error instanceof Error ? error.message : 'Error al importar la partida');
+    }
+  };
+
+  const importInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept="application/json,.json"
+      className="hidden"
+      onChange={handleImport}
+    />
+  );
+
+  const importButton = (
+    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+      Importar
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <LoadingState message="Cargando repetición..." />
+      </div>
+    );
+  }
+
+  const backToMenuButton = (
+    <Button variant="outline" size="sm" onClick={() => navigate('/menu')}>
+      Volver al menú
+    </Button>
+  );
+
+  if (steps.length === 0 || players.length < 2) {
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <Card className="p-8 w-full max-w-md space-y-6 text-center">
+          <h1 className="text-2xl font-bold tracking-tight">Repetición</h1>
+          <p className="text-sm text-muted-foreground">
+            Esta partida terminó antes de repartir las cartas: no hay jugadas que mostrar.
+          </p>
+          <div className="flex justify-center gap-4">
+            {importButton}
+            {backToMenuButton}
+          </div>
+          {importInput}
+        </Card>
+      </div>
+    );
+  }
+
+  const { state, events } = steps[stepIndex];
+  const ruleset = state.ruleset;
+
+  const nameOf = (playerId: string | null) => players.find(player => player.id === playerId)?.name ?? 'Jugador';
+  const stepDescription = events.length === 0
+    ? 'Cartas repartidas en la mesa'
+    : events.map(event => describeEvent(event, nameOf)).join(' · ');
+
+  // Players who took part see the match from their side; anyone else follows the first player
+  const [perspectiveId, otherId] = user && state.order_players.includes(user.id)
+    ? [user.id, state.order_players.find(playerId => playerId !== user.id)!]
+    : state.order_players;
+  const toPlayerInfo = (playerId: string): PlayerInfo => ({
+    id: playerId,
+    name: nameOf(playerId),
+    integrity: state.players[playerId].integrity
+  });
+  const perspectivePlayer = state.players[perspectiveId];
+  const currentTurnPlayerId = state.order_players[state.turn % state.order_players.length];
+
+  const usedCardsCount = state.used_cards.length;
+  const revealedAuthentic = state.used_cards.filter(playedCard => playedCard.card.authenticity === 'authentic').length;
+  const revealedCorrupted = state.used_cards.filter(playedCard => playedCard.card.authenticity === 'corrupted').length;
+  const memoryHistory = state.used_cards
+    .filter(playedCard => playedCard.card.authenticity === 'authentic')
+    .map(playedCard => playedCard.card.memory);
+
+  const goToStep = (index: number) => {
+    setIsPlaying(false);
+    setStepIndex(Math.max(0, Math.min(lastStepIndex, index)));
+  };
+
+  const togglePlaying = () => {
+    // Playing from the last step starts over
+    if (!isPlaying && stepIndex >= lastStepIndex) {
+      setStepIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <>
+      <div className="h-screen w-full flex flex-col">
+        {/* Top section: Table of this step, read-only (2/3 height) */}
+        <div className="h-2/3 bg-background border-b-4 border-primary">
+          <PlayArea
+            deckSize={ruleset.deckSize - state.cards_drawn}
+            currentCard={state.current_card}
+            canClaim={false}
+            canReject={false}
+            onClaim={() => {}}
+            onReject={() => {}}
+            isRevealing={false}
+            showActions={false}
+            totalCards={ruleset.deckSize}
+            revealedCards={usedCardsCount}
+            remainingCards={ruleset.deckSize - usedCardsCount}
+            authenticCount={ruleset.distribution.authentic}
+            corruptedCount={ruleset.distribution.corrupted}
+            fatalGlitchCount={ruleset.distribution.fatalGlitch}
+            revealedAuthentic={revealedAuthentic}
+            revealedCorrupted={revealedCorrupted}
+            gameStatus="playing" // Keep the table visible on the final step too
+            tableCards={state.table_cards}
+            onCardSelect={() => {}}
+            canSelectCard={false}
+            turnState={state.turn_state}
+            peekedAuthenticities={state.table_cards.map(() => null)}
+            targetingItem={null}
+            secondsLeft={null}
+          />
+        </div>
+
+        {/* Bottom section: Integrities after this step and what happened (1/3 height) */}
+        <div className="h-1/3 bg-secondary/20">
+          <InfoPanel
+            currentPlayer={toPlayerInfo(perspectiveId)}
+            opponent={toPlayerInfo(otherId)}
+            currentPhase={stepDescription}
+            memoryHistory={memoryHistory}
+            isPlayerTurn={currentTurnPlayerId === perspectiveId}
+            targetIntegrity={ruleset.targetIntegrity}
+            lossThreshold={ruleset.lossThreshold}
+            items={perspectivePlayer.items}
+            isShielded={!!perspectivePlayer.shielded}
+            selectedItemId={null}
+            canUseItem={() => false}
+            onItemClick={() => {}}
+            seriesScore={null}
+          />
+        </div>
+      </div>
+
+      <MemoryCardModal
+        isOpen={state.current_card !== null}
+        card={state.current_card}
+        revealedCard={state.current_card}
+        turnState={state.turn_state}
+        currentMultiplier={state.current_multiplier}
+        isPlayerTurn={false}
+        cardInitiator={state.card_initiator}
+        currentUserId={user?.id ?? ''}
+        onClaim={() => {}}
+        onReject={() => {}}
+        isReplay
+      />
+
+      {/* Replay controls stay usable above the card modal */}
+      <Card className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] pointer-events-auto p-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => goToStep(0)} disabled={stepIndex === 0}>
+            Inicio
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToStep(stepIndex - 1)} disabled={stepIndex === 0}>
+            Anterior
+          </Button>
+          <Button size="sm" onClick={togglePlaying}>
+            {isPlaying ? 'Pausa' : 'Reproducir'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToStep(stepIndex + 1)} disabled={stepIndex === lastStepIndex}>
+            Siguiente
+          </Button>
+          <p className="text-xs text-muted-foreground px-2">
+            Paso {stepIndex + 1} de {steps.length}
+          </p>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!match}>
+            Exportar
+          </Button>
+          {importButton}
+          {backToMenuButton}
+        </div>
+        {importInput}
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/8bit/button';
+import { Card } from '@/components/ui/8bit/card';
+import { toast } from '@/components/ui/8bit/toast';
+import { logger } from '@/lib/utils/logger';
+import { useAuthStore } from '@/stores/authStore';
+import { roomRepository, seriesRepository, userRepository } from '@/repositories';
+import { watchRoom, stopWatchingRoom } from '@/services/spectatorService';
+import { getSeriesScore } from '@/services/seriesService';
+import type { FirestoreRoom, FirestoreSeries, PlayerInfo, WinReason } from '@/types';
+import { LoadingState } from '@/components/LoadingState';
+import { SpectatorBoard } from '@/components/game/SpectatorBoard';
+import { MemoryCardModal } from '@/components/game/MemoryCardModal';
+
+// Why the match ended, as told to spectators
+const WIN_REASON_LABELS: Record<Exclude<WinReason, 'draw'>, string> = {
+  reached_10_points: 'alcanzó la integridad objetivo',
+  opponent_defeated: 'su rival perdió toda la integridad',
+  deck_exhausted: 'el mazo se agotó y conservó más integridad',
+  timeout: 'su rival dejó de responder',
+  opponent_forfeited: 'su rival abandonó la partida'
+};
+
+export default function SpectatorPage() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [room, setRoom] = useState<FirestoreRoom | null>(null);
+  const [series, setSeries] = useState<FirestoreSeries | null>(null);
+  const [players, setPlayers] = useState<PlayerInfo[]>([]);
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [isLoadingRoom, setIsLoadingRoom] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const userId = user?.id ?? null;
+
+  // Real-time listener for the public room document (the only room data spectators can read)
+  useEffect(() => {
+    if (!roomId) {
+      navigate('/menu');
+      return;
+    }
+
+    const unsubscribe = roomRepository.subscribe(
+      roomId,
+      async (roomData) => {
+        if (!roomData) {
+          logger.warn('Watched room does not exist', { roomId }, 'SpectatorPage');
+          toast('La sala no existe');
+          navigate('/menu');
+          return;
+        }
+
+        // Players watch their own game from the game page
+        if (userId && roomData.order_players.includes(userId)) {
+          navigate(`/game/${roomId}`);
+          return;
+        }
+
+        setRoom(roomData);
+
+        try {
+          const playerInfos = await Promise.all(roomData.order_players.map(async (playerId) => {
+            const userData = await userRepository.get(playerId);
+            return {
+              id: playerId,
+              name: userData?.name || 'Jugador',
+              integrity: roomData.players[playerId]?.integrity || 0
+            };
+          }));
+          setPlayers(playerInfos);
+        } catch (error) {
+          logger.error('Failed to fetch player names', error, 'SpectatorPage');
+        }
+
+        setIsLoadingRoom(false);
+      },
+      (error) => {
+        logger.error('Watched room listener error', error, 'SpectatorPage');
+        toast('Error al conectar con la sala');
+        setIsLoadingRoom(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [roomId, userId, navigate]);
+
+  // Register as spectator while the page is open (the lobby shows the count)
+  const isPlayer = !!(room && userId && room.order_players.includes(userId));
+  const hasRoom = room !== null;
+  useEffect(() => {
+    if (!roomId || !userId || !hasRoom || isPlayer) {
+      return;
+    }
+
+    watchRoom(roomId, userId).catch((error) => {
+      logger.warn('Could not register as spectator', error, 'SpectatorPage');
+    });
+
+    const handleUnload = () => {
+      stopWatchingRoom(roomId, userId);
+    };
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      stopWatchingRoom(roomId, userId);
+    };
+  }, [roomId, userId, hasRoom, isPlayer]);
+
+  // Real-time spectator count
+  useEffect(() => {
+    if (!roomId) {
+      return;
+    }
+
+    const unsubscribe = roomRepository.subscribeSpectatorCount(
+      roomId,
+      setSpectatorCount,
+      (error) => logger.error('Spectators listener error', error, 'SpectatorPage')
+    );
+
+    return () => unsubscribe();
+  }, [roomId]);
+
+  // Real-time listener for the series this room belongs to (best-of-N)
+  const seriesId = room?.series_id ?? null;
+  useEffect(() => {
+    if (!seriesId) {
+      setSeries(null);
+      return;
+    }
+
+    const unsubscribe = seriesRepository.subscribe(
+      seriesId,
+      setSeries,
+      (error) => logger.error('Series listener error', error, 'SpectatorPage')
+    );
+
+    return () => unsubscribe();
+  }, [seriesId]);
+
+  // Spectators follow the players to their rematch (or next series game)
+  const rematchRoom = room?.status === 'finished' ? room.rematch_room ?? null : null;
+  useEffect(() => {
+    if (rematchRoom && rematchRoom !== roomId) {
+      navigate(`/game/${rematchRoom}/watch`);
+    }
+  }, [rematchRoom, roomId, navigate]);
+
+  // Tick once per second while a turn deadline is running (display only, players resolve timeouts)
+  const turnDeadline = room?.status === 'playing' ? room.turn_deadline ?? null : null;
+  useEffect(() => {
+    if (turnDeadline === null) {
+      return;
+    }
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [turnDeadline]);
+
+  const secondsLeft = turnDeadline === null ? null : Math.max(0, Math.ceil((turnDeadline - now) / 1000));
+  const seriesScore = series && room ? getSeriesScore(series, room.order_players[0]) : null;
+
+  if (isLoadingRoom || !room) {
+    return (
+      <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+        <LoadingState message="Conectando a la sala..." />
+      </div>
+    );
+  }
+
+  const backToMenuButton = (
+    <Button variant="outline" size="sm" onClick={() => navigate('/menu')}>
+      Volver al menú
+    </Button>
+  );
+
+  if (room.status === 'playing' && userId) {
+    return (
+      <>
+        <SpectatorBoard
+          room={room}
+          players={players}
+          spectatorCount={spectatorCount}
+          secondsLeft={secondsLeft}
+          seriesScore={seriesScore}
+        />
+
+        <MemoryCardModal
+          isOpen={room.current_card !== null}
+          card={room.current_card}
+          turnState={room.turn_state}
+          currentMultiplier={room.current_multiplier}
+          isPlayerTurn={false}
+          cardInitiator={room.card_initiator}
+          currentUserId={userId}
+          onClaim={() => {}}
+          onReject={() => {}}
+          secondsLeft={secondsLeft}
+          isSpectator
+        />
+
+        <div className="fixed top-4 right-4 z-50">{backToMenuButton}</div>
+      </>
+    );
+  }
+
+  const winner = players.find(player => player.id === room.winner);
+
+  return (
+    <div className="min-h-screen bg-background p-8 flex items-center justify-center">
+      <Card className="p-8 w-full max-w-2xl space-y-6 text-center">
+        <h1 className="text-3xl font-bold tracking-tight">Modo espectador</h1>
+        <p className="text-sm text-muted-foreground">Sala {roomId} · Espectadores: {spectatorCount}</p>
+
+        <div className="space-y-2">
+          {players.map(player => (
+            <p key={player.id} className="font-medium">
+              {player.name} · Integridad: {player.integrity}
+            </p>
+          ))}
+        </div>
+
+        {(room.status === 'waiting' || room.status === 'intro') && (
+          <LoadingState
+            variant="compact"
+            message="Esperando que comience la partida..."
+            className="justify-center"
+          />
+        )}
+
+        {room.status === 'finished' && (
+          <p className="text-lg font-bold">
+            {room.win_reason === 'draw' || !winner
+              ? 'La partida terminó en empate'
+              : `Ganó ${winner.name}${room.win_reason ? `: ${WIN_REASON_LABELS[room.win_reason]}` : ''}`}
+          </p>
+        )}
+
+        {room.status === 'finished' ? (
+          <div className="flex justify-center gap-4">
+            <Button variant="secondary" size="sm" onClick={() => navigate(`/replay/${roomId}`)}>
+              Ver repetición
+            </Button>
+            {backToMenuButton}
+          </div>
+        ) : backToMenuButton}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { DeckMetadata, DeckSummary, FirestoreDeck } from '@/types';
+
+// Stored deck document; metadata is missing on decks seeded before the catalog
+type DeckDocumentData = Partial<FirestoreDeck> & { memories?: unknown };
+
+// Metadata of a deck document, filled in where missing (a deck without a name is named after its ID)
+const toDeckMetadata = (deckId: string, deckData: DeckDocumentData): DeckMetadata => ({
+  name: deckData.name ?? deckId,
+  language: deckData.language ?? 'es',
+  theme: deckData.theme ?? '',
+  size: deckData.size ?? (Array.isArray(deckData.memories) ? deckData.memories.length : 0),
+  author: deckData.author ?? '',
+  version: deckData.version ?? 1
+});
+
+/**
+ * Reads the catalog information of a deck document
+ * @param deckId - The deck ID
+ * @param deckData - The deck document
+ */
+export const toDeckSummary = (deckId: string, deckData: DeckDocumentData): DeckSummary => ({
+  id: deckId,
+  ...toDeckMetadata(deckId, deckData)
+});
+
+/**
+ * Reads a deck document (decks/{deckId}) with its memories, shared by every DeckRepository
+ * @param deckId - The deck ID (for the error message)
+ * @param deckData - The deck document, undefined if it doesn't exist
+ * @returns The deck with its metadata and memory texts
+ * @throws Error if the deck doesn't exist or has no memories
+ */
+export const toDeck = (deckId: string, deckData: DeckDocumentData | undefined): FirestoreDeck => {
+  if (!deckData) {
+    throw new Error(`Deck "${deckId}" not found. Run seed:deck script first.`);
+  }
+
+  const { memories } = deckData;
+
+  if (!memories || !Array.isArray(memories)) {
+    throw new Error('Deck does not have a valid "memories" field.');
+  }
+
+  if (memories.length === 0) {
+    throw new Error('Deck is empty. At least one memory is required.');
+  }
+
+  return { ...toDeckMetadata(deckId, deckData), size: memories.length, memories: memories as string[] };
+};
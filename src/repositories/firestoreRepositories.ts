@@ -0,0 +1,219 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  startAfter,
+  Timestamp,
+  where,
+  type Firestore
+} from 'firebase/firestore';
+import type {
+  DeckRepository,
+  DocumentUpdater,
+  FirestoreDeck,
+  FirestoreMatchmakingEntry,
+  FirestorePlayerView,
+  FirestoreRatingChange,
+  FirestoreRoom,
+  FirestoreRoomEvent,
+  FirestoreSeries,
+  FirestoreUser,
+  MatchmakingRepository,
+  Repositories,
+  RoomRepository,
+  SeriesRepository,
+  UserRepository
+} from '@/types';
+import { toDeck, toDeckSummary } from './deckDocument';
+import { toRankedPlayer } from './userDocument';
+
+/**
+ * Reads a document, updates it with the updater and writes it back in one transaction
+ * Firestore retries the transaction (and the updater) if the document changes meanwhile
+ * @throws Error if the document doesn't exist
+ */
+const updateInTransaction = async <T extends object>(
+  db: Firestore,
+  path: string[],
+  updater: DocumentUpdater<T>
+): Promise<T> => {
+  const ref = doc(db, path.join('/'));
+
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) {
+      throw new Error(`Document ${path.join('/')} not found`);
+    }
+
+    const next = updater(snapshot.data() as T);
+    transaction.set(ref, next);
+    return next;
+  });
+};
+
+const createRoomRepository = (db: Firestore): RoomRepository => ({
+  get: async (roomCode) => {
+    const snapshot = await getDoc(doc(db, 'rooms', roomCode));
+    return snapshot.exists() ? snapshot.data() as FirestoreRoom : null;
+  },
+
+  subscribe: (roomCode, onChange, onError) => onSnapshot(
+    doc(db, 'rooms', roomCode),
+    (snapshot) => onChange(snapshot.exists() ? snapshot.data() as FirestoreRoom : null),
+    onError
+  ),
+
+  subscribeView: (roomCode, userId, onChange, onError) => onSnapshot(
+    doc(db, 'rooms', roomCode, 'views', userId),
+    (snapshot) => onChange(snapshot.exists() ? snapshot.data() as FirestorePlayerView : null),
+    onError
+  ),
+
+  subscribeSpectatorCount: (roomCode, onChange, onError) => onSnapshot(
+    collection(db, 'rooms', roomCode, 'spectators'),
+    (snapshot) => onChange(snapshot.size),
+    onError
+  ),
+
+  addSpectator: async (roomCode, userId, spectator) => {
+    await setDoc(doc(db, 'rooms', roomCode, 'spectators', userId), spectator);
+  },
+
+  removeSpectator: async (roomCode, userId) => {
+    await deleteDoc(doc(db, 'rooms', roomCode, 'spectators', userId));
+  },
+
+  // See the matching index in firestore.indexes.json
+  subscribePublic: (updatedAfter, maxRooms, onChange, onError) => onSnapshot(
+    query(
+      collection(db, 'rooms'),
+      where('is_public', '==', true),
+      where('status', '==', 'waiting'),
+      where('lastUpdate', '>', Timestamp.fromDate(updatedAfter)),
+      orderBy('lastUpdate', 'desc'),
+      limit(maxRooms)
+    ),
+    (snapshot) => onChange(snapshot.docs.map(roomDoc => ({ code: roomDoc.id, room: roomDoc.data() as FirestoreRoom }))),
+    onError
+  ),
+
+  getEvents: async (roomCode) => {
+    const eventsSnap = await getDocs(query(collection(db, 'rooms', roomCode, 'events'), orderBy('seq')));
+    return eventsSnap.docs.map(eventDoc => eventDoc.data() as FirestoreRoomEvent);
+  },
+
+  // Only for trusted contexts (emulator scripts, tests): the security rules reject room writes from clients
+  update: (roomCode, updater) => updateInTransaction<FirestoreRoom>(db, ['rooms', roomCode], updater)
+});
+
+const createUserRepository = (db: Firestore): UserRepository => ({
+  get: async (userId) => {
+    const snapshot = await getDoc(doc(db, 'users', userId));
+    return snapshot.exists() ? snapshot.data() as FirestoreUser : null;
+  },
+
+  subscribe: (userId, onChange, onError) => onSnapshot(
+    doc(db, 'users', userId),
+    (snapshot) => onChange(snapshot.exists() ? snapshot.data() as FirestoreUser : null),
+    onError
+  ),
+
+  create: async (userId, user) => {
+    await setDoc(doc(db, 'users', userId), user);
+  },
+
+  update: (userId, updater) => updateInTransaction<FirestoreUser>(db, ['users', userId], updater),
+
+  // Users without a rating are left out by the ordering (see firestore.indexes.json)
+  // The user ID breaks ties, so a page never starts in the middle of tied players
+  listByRating: async (maxPlayers, after) => {
+    const usersSnap = await getDocs(query(
+      collection(db, 'users'),
+      orderBy('rating', 'desc'),
+      orderBy('rated_games', 'desc'),
+      orderBy(documentId(), 'desc'),
+      ...(after ? [startAfter(after.rating, after.ratedGames, after.id)] : []),
+      limit(maxPlayers)
+    ));
+    return usersSnap.docs.map(userDoc => toRankedPlayer(userDoc.id, userDoc.data() as FirestoreUser));
+  },
+
+  countRatedAbove: async (rating) => {
+    const betterSnap = await getCountFromServer(query(collection(db, 'users'), where('rating', '>', rating)));
+    return betterSnap.data().count;
+  },
+
+  getRatingHistory: async (userId, maxChanges) => {
+    const historySnap = await getDocs(query(
+      collection(db, 'users', userId, 'rating_history'),
+      orderBy('createdAt', 'desc'),
+      limit(maxChanges)
+    ));
+    return historySnap.docs.map(historyDoc => historyDoc.data() as FirestoreRatingChange);
+  }
+});
+
+const createSeriesRepository = (db: Firestore): SeriesRepository => ({
+  subscribe: (seriesId, onChange, onError) => onSnapshot(
+    doc(db, 'series', seriesId),
+    (snapshot) => onChange(snapshot.exists() ? snapshot.data() as FirestoreSeries : null),
+    onError
+  )
+});
+
+const createMatchmakingRepository = (db: Firestore): MatchmakingRepository => ({
+  subscribe: (userId, onChange, onError) => onSnapshot(
+    doc(db, 'matchmaking', userId),
+    (snapshot) => onChange(snapshot.exists() ? snapshot.data() as FirestoreMatchmakingEntry : null),
+    onError
+  )
+});
+
+// Catalog decks live in decks/, private decks under their owner's account
+const decksPath = (ownerId?: string): [string, ...string[]] => (ownerId ? ['users', ownerId, 'decks'] : ['decks']);
+
+const createDeckRepository = (db: Firestore): DeckRepository => ({
+  list: async (ownerId) => {
+    const decksSnap = await getDocs(collection(db, ...decksPath(ownerId)));
+    return decksSnap.docs.map(deckDoc => toDeckSummary(deckDoc.id, deckDoc.data()));
+  },
+
+  get: async (deckId, ownerId) => {
+    const deckSnap = await getDoc(doc(db, ...decksPath(ownerId), deckId));
+    return toDeck(deckId, deckSnap.data());
+  },
+
+  create: async (ownerId, deck) => {
+    const deckRef = doc(collection(db, ...decksPath(ownerId)));
+    await setDoc(deckRef, deck);
+    return deckRef.id;
+  },
+
+  update: (ownerId, deckId, updater) => updateInTransaction<FirestoreDeck>(db, [...decksPath(ownerId), deckId], updater),
+
+  delete: async (ownerId, deckId) => {
+    await deleteDoc(doc(db, ...decksPath(ownerId), deckId));
+  }
+});
+
+/**
+ * Creates the repositories backed by Firestore (web SDK)
+ * @param db - The Firestore instance (the app's or a test's)
+ */
+export const createFirestoreRepositories = (db: Firestore): Repositories => ({
+  rooms: createRoomRepository(db),
+  users: createUserRepository(db),
+  decks: createDeckRepository(db),
+  series: createSeriesRepository(db),
+  matchmaking: createMatchmakingRepository(db)
+});
@@ -0,0 +1,15 @@
+import { db } from '@/lib/firebase/config';
+import { createFirestoreRepositories } from './firestoreRepositories';
+
+// The app's repositories, backed by Firestore
+// Code that should also run offline or in unit tests takes a repository as a parameter instead
+export const {
+  rooms: roomRepository,
+  users: userRepository,
+  decks: deckRepository,
+  series: seriesRepository,
+  matchmaking: matchmakingRepository
+} = createFirestoreRepositories(db);
+
+export { createFirestoreRepositories } from './firestoreRepositories';
+export { createMemoryRepositories, type MemoryRepositoriesSeed, type MemoryRoomStore } from './memoryRepositories';
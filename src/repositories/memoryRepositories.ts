@@ -0,0 +1,215 @@
+import type {
+  DocumentUpdater,
+  FirestoreDeck,
+  FirestoreMatchmakingEntry,
+  FirestorePlayerView,
+  FirestoreRatingChange,
+  FirestoreRoom,
+  FirestoreRoomEvent,
+  FirestoreSeries,
+  FirestoreUser,
+  PublicRoom,
+  RankedPlayer,
+  Repositories,
+  Unsubscribe
+} from '@/types';
+import { toDeck, toDeckSummary } from './deckDocument';
+import { toRankedPlayer } from './userDocument';
+
+// Initial contents of the in-memory store, keyed like their Firestore paths
+export interface MemoryRepositoriesSeed {
+  rooms?: Record<string, FirestoreRoom>;
+  users?: Record<string, FirestoreUser>;
+  decks?: Record<string, FirestoreDeck>;
+  userDecks?: Record<string, Record<string, FirestoreDeck>>; // ownerId -> deckId -> private deck
+  views?: Record<string, Record<string, FirestorePlayerView>>; // roomCode -> userId -> view
+  events?: Record<string, FirestoreRoomEvent[]>;
+  spectators?: Record<string, string[]>; // roomCode -> spectator ids
+  ratingHistory?: Record<string, FirestoreRatingChange[]>; // userId -> rating changes
+  series?: Record<string, FirestoreSeries>;
+  matchmaking?: Record<string, FirestoreMatchmakingEntry>; // userId -> queue entry
+}
+
+// Write access to what only the trusted resolver writes (views, events, series, queue entries)
+export interface MemoryRoomStore {
+  setView(roomCode: string, userId: string, view: FirestorePlayerView | null): void;
+  appendEvents(roomCode: string, events: FirestoreRoomEvent[]): void;
+  setSpectators(roomCode: string, spectatorIds: string[]): void;
+  setRoom(roomCode: string, room: FirestoreRoom | null): void;
+  setSeries(seriesId: string, series: FirestoreSeries | null): void;
+  setMatchmakingEntry(userId: string, entry: FirestoreMatchmakingEntry | null): void;
+}
+
+// Leaderboard order: rating, then rated games, then user ID (all descending, like the Firestore query)
+const compareByRating = (a: RankedPlayer, b: RankedPlayer): number =>
+  b.rating - a.rating || b.ratedGames - a.ratedGames || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+/**
+ * A keyed collection of documents with change listeners
+ * Documents are stored as given (Timestamps keep their methods) and treated as immutable values:
+ * updaters return a new document, as the game engine does, instead of mutating the current one
+ */
+const createDocumentStore = <T>(initial: Record<string, T> = {}) => {
+  const documents = new Map<string, T>(Object.entries(initial));
+  const listeners = new Map<string, Set<(value: T | null) => void>>();
+  const collectionListeners = new Set<() => void>();
+
+  const read = (key: string): T | null => documents.get(key) ?? null;
+
+  const write = (key: string, value: T | null) => {
+    if (value === null) {
+      documents.delete(key);
+    } else {
+      documents.set(key, value);
+    }
+    listeners.get(key)?.forEach(listener => listener(read(key)));
+    collectionListeners.forEach(listener => listener());
+  };
+
+  const subscribe = (key: string, onChange: (value: T | null) => void): Unsubscribe => {
+    const keyListeners = listeners.get(key) ?? new Set();
+    keyListeners.add(onChange);
+    listeners.set(key, keyListeners);
+
+    // Like onSnapshot: the current value is delivered right away
+    onChange(read(key));
+
+    return () => {
+      keyListeners.delete(onChange);
+    };
+  };
+
+  // Like a query listener: called right away and after any document changes
+  const subscribeAll = (onChange: () => void): Unsubscribe => {
+    collectionListeners.add(onChange);
+    onChange();
+
+    return () => {
+      collectionListeners.delete(onChange);
+    };
+  };
+
+  // Atomic like a transaction (nothing runs between read and write): if the updater throws, nothing is written
+  const update = async (key: string, updater: DocumentUpdater<T>, description: string): Promise<T> => {
+    const current = read(key);
+    if (current === null) {
+      throw new Error(`Document ${description} not found`);
+    }
+
+    const next = updater(current);
+    write(key, next);
+    return next;
+  };
+
+  return { read, write, subscribe, subscribeAll, update, entries: () => documents.entries() };
+};
+
+/**
+ * Creates repositories that keep everything in memory, with the same semantics as the Firestore ones
+ * For offline play, unit tests that need no emulators and deterministic simulations
+ * @param seed - Initial documents
+ * @returns The repositories plus the store for what only the trusted resolver writes
+ */
+export const createMemoryRepositories = (
+  seed: MemoryRepositoriesSeed = {}
+): Repositories & { store: MemoryRoomStore } => {
+  const rooms = createDocumentStore<FirestoreRoom>(seed.rooms);
+  const users = createDocumentStore<FirestoreUser>(seed.users);
+  // Catalog decks by ID, private decks by `${ownerId}/${deckId}`
+  const decks = createDocumentStore<FirestoreDeck>({
+    ...seed.decks,
+    ...Object.fromEntries(Object.entries(seed.userDecks ?? {}).flatMap(([ownerId, ownerDecks]) =>
+      Object.entries(ownerDecks).map(([deckId, deck]) => [`${ownerId}/${deckId}`, deck])
+    ))
+  });
+  const deckKey = (deckId: string, ownerId?: string) => (ownerId ? `${ownerId}/${deckId}` : deckId);
+  let createdDecks = 0;
+  const events = createDocumentStore<FirestoreRoomEvent[]>(seed.events);
+  const spectators = createDocumentStore<string[]>(seed.spectators);
+  const ratingHistory = createDocumentStore<FirestoreRatingChange[]>(seed.ratingHistory);
+  const series = createDocumentStore<FirestoreSeries>(seed.series);
+  const matchmaking = createDocumentStore<FirestoreMatchmakingEntry>(seed.matchmaking);
+  const views = createDocumentStore<FirestorePlayerView>(
+    Object.fromEntries(Object.entries(seed.views ?? {}).flatMap(([roomCode, roomViews]) =>
+      Object.entries(roomViews).map(([userId, view]) => [`${roomCode}/${userId}`, view])
+    ))
+  );
+
+  const listPublicRooms = (updatedAfter: Date, maxRooms: number): PublicRoom[] => [...rooms.entries()]
+    .filter(([, room]) => room.is_public && room.status === 'waiting' && room.lastUpdate.toMillis() > updatedAfter.getTime())
+    .sort(([, a], [, b]) => b.lastUpdate.toMillis() - a.lastUpdate.toMillis())
+    .slice(0, maxRooms)
+    .map(([code, room]) => ({ code, room }));
+
+  return {
+    rooms: {
+      get: async (roomCode) => rooms.read(roomCode),
+      subscribe: (roomCode, onChange) => rooms.subscribe(roomCode, onChange),
+      subscribeView: (roomCode, userId, onChange) => views.subscribe(`${roomCode}/${userId}`, onChange),
+      subscribeSpectatorCount: (roomCode, onChange) =>
+        spectators.subscribe(roomCode, ids => onChange(ids?.length ?? 0)),
+      addSpectator: async (roomCode, userId) => {
+        const ids = spectators.read(roomCode) ?? [];
+        if (!ids.includes(userId)) {
+          spectators.write(roomCode, [...ids, userId]);
+        }
+      },
+      removeSpectator: async (roomCode, userId) =>
+        spectators.write(roomCode, (spectators.read(roomCode) ?? []).filter(id => id !== userId)),
+      subscribePublic: (updatedAfter, maxRooms, onChange) =>
+        rooms.subscribeAll(() => onChange(listPublicRooms(updatedAfter, maxRooms))),
+      getEvents: async (roomCode) => [...(events.read(roomCode) ?? [])].sort((a, b) => a.seq - b.seq),
+      update: (roomCode, updater) => rooms.update(roomCode, updater, `rooms/${roomCode}`)
+    },
+
+    users: {
+      get: async (userId) => users.read(userId),
+      subscribe: (userId, onChange) => users.subscribe(userId, onChange),
+      create: async (userId, user) => users.write(userId, user),
+      update: (userId, updater) => users.update(userId, updater, `users/${userId}`),
+      // Users missing the rating or the rated games are left out, as Firestore does when ordering by them
+      listByRating: async (maxPlayers, after) => [...users.entries()]
+        .filter(([, user]) => user.rating !== undefined && user.rated_games !== undefined)
+        .map(([userId, user]) => toRankedPlayer(userId, user))
+        .sort(compareByRating)
+        .filter(player => !after || compareByRating(after, player) < 0)
+        .slice(0, maxPlayers),
+      countRatedAbove: async (rating) => [...users.entries()]
+        .filter(([, user]) => user.rating !== undefined && user.rating > rating).length,
+      getRatingHistory: async (userId, maxChanges) => [...(ratingHistory.read(userId) ?? [])]
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+        .slice(0, maxChanges)
+    },
+
+    decks: {
+      list: async (ownerId) => [...decks.entries()]
+        .filter(([key]) => (ownerId ? key.startsWith(`${ownerId}/`) : !key.includes('/')))
+        .map(([key, deck]) => toDeckSummary(key.slice(key.indexOf('/') + 1), deck)),
+      get: async (deckId, ownerId) => toDeck(deckId, decks.read(deckKey(deckId, ownerId)) ?? undefined),
+      create: async (ownerId, deck) => {
+        const deckId = `deck-${++createdDecks}`;
+        decks.write(deckKey(deckId, ownerId), deck);
+        return deckId;
+      },
+      update: (ownerId, deckId, updater) => decks.update(deckKey(deckId, ownerId), updater, `users/${ownerId}/decks/${deckId}`),
+      delete: async (ownerId, deckId) => decks.write(deckKey(deckId, ownerId), null)
+    },
+
+    series: {
+      subscribe: (seriesId, onChange) => series.subscribe(seriesId, onChange)
+    },
+
+    matchmaking: {
+      subscribe: (userId, onChange) => matchmaking.subscribe(userId, onChange)
+    },
+
+    store: {
+      setView: (roomCode, userId, view) => views.write(`${roomCode}/${userId}`, view),
+      appendEvents: (roomCode, newEvents) => events.write(roomCode, [...(events.read(roomCode) ?? []), ...newEvents]),
+      setSpectators: (roomCode, spectatorIds) => spectators.write(roomCode, spectatorIds),
+      setRoom: (roomCode, room) => rooms.write(roomCode, room),
+      setSeries: (seriesId, seriesData) => series.write(seriesId, seriesData),
+      setMatchmakingEntry: (userId, entry) => matchmaking.write(userId, entry)
+    }
+  };
+};
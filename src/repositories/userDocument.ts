@@ -0,0 +1,14 @@
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { FirestoreUser, RankedPlayer } from '@/types';
+
+/**
+ * Reads the leaderboard entry of a user document, shared by every UserRepository
+ * @param userId - The user ID
+ * @param user - The user document
+ */
+export const toRankedPlayer = (userId: string, user: FirestoreUser): RankedPlayer => ({
+  id: userId,
+  name: user.name || 'Jugador',
+  rating: user.rating ?? GAME_CONFIG.rating.initial,
+  ratedGames: user.rated_games ?? 0
+});
@@ -0,0 +1,306 @@
+/**
+ * Deck CLI: curates the deck catalog (decks/{deckId}) from version-controlled files
+ *
+ * Usage:
+ *   pnpm deck list
+ *   pnpm deck import <file> [--deck <id>] [--replace] [--dry-run] [--format json|csv|txt] [--rules <preset>]
+ *                           [--name <name>] [--theme <theme>] [--language <code>] [--author <author>]
+ *   pnpm deck export <deckId> [--out <file>] [--format json|csv|txt]
+ *   pnpm deck validate <file> [--format json|csv|txt] [--rules <preset>]
+ *   pnpm deck generate [--deck <id>] [--count <n>] [--dry-run]
+ *
+ * Imports merge into the deck by default (--replace keeps only the file's memories), drop blank and
+ * repeated memories, and bump the deck version when the memories change. --dry-run prints the diff
+ * without writing. File formats are described in deckFile.ts
+ * Decks must have enough memories to deal the --rules preset (classic|quick|marathon, classic by default)
+ *
+ * Local (emulator):  FIRESTORE_EMULATOR_HOST=localhost:8080 pnpm deck ...
+ * Production:        FIREBASE_PROJECT_ID=your-project-id pnpm deck ...
+ *
+ * For production, you need to:
+ * 1. Set FIREBASE_PROJECT_ID environment variable
+ * 2. Authenticate with Firebase CLI: firebase login
+ * 3. Or provide service account credentials via GOOGLE_APPLICATION_CREDENTIALS
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+import { GAME_CONFIG, RULESET_PRESETS } from '@/config/gameConfig';
+import { toDeckSummary } from '@/repositories/deckDocument';
+import { GENERATED_DECK_METADATA, generateMemoryPool } from '@/lib/utils/memoryGenerator';
+import type { FirestoreDeck, Ruleset, RulesetPresetId } from '@/types';
+import {
+  DECK_FILE_FORMATS,
+  getDeckFileFormat,
+  getDeckIssues,
+  parseDeckFile,
+  planDeckImport,
+  serializeDeckFile,
+  type DeckFileFormat,
+  type DeckImportResult,
+  type ParsedDeckFile
+} from './deckFile.js';
+
+// Memories generated by the generate command unless --count says otherwise
+const DEFAULT_GENERATED_COUNT = 500;
+
+// Memories listed per side of a dry-run diff
+const MAX_DIFF_LINES = 20;
+
+// Initialize Firebase Admin SDK
+function initializeFirebaseAdmin(): Firestore {
+  if (getApps().length === 0) {
+    const projectId = process.env.FIREBASE_PROJECT_ID || 'backup-deathmatch';
+
+    initializeApp({
+      projectId,
+    });
+  }
+
+  const db = getFirestore();
+
+  // Connect to emulator ONLY if FIRESTORE_EMULATOR_HOST is set
+  if (process.env.FIRESTORE_EMULATOR_HOST) {
+    const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+    console.log(`🔧 Connecting to Firestore Emulator at ${emulatorHost}...`);
+
+    const [host, port] = emulatorHost.split(':');
+    db.settings({
+      host: `${host}:${port}`,
+      ssl: false,
+    });
+  } else {
+    const projectId = process.env.FIREBASE_PROJECT_ID || 'backup-deathmatch';
+    console.log(`☁️  Connecting to Firebase Production (${projectId})...`);
+    console.log('⚠️  Make sure you are authenticated with Firebase CLI or have GOOGLE_APPLICATION_CREDENTIALS set\n');
+  }
+
+  return db;
+}
+
+/**
+ * Reads a catalog deck, null if it doesn't exist (an empty deck is read as such, so it can be filled)
+ */
+async function readDeck(db: Firestore, deckId: string): Promise<FirestoreDeck | null> {
+  const deckSnap = await db.collection('decks').doc(deckId).get();
+  const deckData = deckSnap.data();
+
+  if (!deckData) {
+    return null;
+  }
+
+  const { id: _id, ...metadata } = toDeckSummary(deckId, deckData);
+  const memories = Array.isArray(deckData.memories) ? deckData.memories as string[] : [];
+  return { ...metadata, size: memories.length, memories };
+}
+
+function resolveFormat(filePath: string | undefined, format: string | undefined): DeckFileFormat {
+  if (format) {
+    const requested = DECK_FILE_FORMATS.find(known => known === format);
+    if (!requested) {
+      throw new Error(`Unknown format "${format}". Use one of: ${DECK_FILE_FORMATS.join(', ')}.`);
+    }
+    return requested;
+  }
+
+  if (!filePath) {
+    return 'json';
+  }
+
+  const detected = getDeckFileFormat(filePath);
+  if (!detected) {
+    throw new Error(`Can't tell the format of "${filePath}" from its extension. Pass --format json|csv|txt.`);
+  }
+  return detected;
+}
+
+function resolveRuleset(presetId: string): Ruleset {
+  const preset = RULESET_PRESETS[presetId as RulesetPresetId];
+  if (!preset) {
+    throw new Error(`Unknown rules "${presetId}". Use one of: ${Object.keys(RULESET_PRESETS).join(', ')}.`);
+  }
+  return preset.ruleset;
+}
+
+function readDeckFile(filePath: string | undefined, format: string | undefined): ParsedDeckFile {
+  if (!filePath) {
+    throw new Error('Missing the file to read.');
+  }
+
+  return parseDeckFile(readFileSync(filePath, 'utf8'), resolveFormat(filePath, format));
+}
+
+function printSample(memories: string[], marker: string) {
+  memories.slice(0, MAX_DIFF_LINES).forEach(memory => console.log(`   ${marker} ${memory}`));
+  if (memories.length > MAX_DIFF_LINES) {
+    console.log(`   ... and ${memories.length - MAX_DIFF_LINES} more`);
+  }
+}
+
+function printImportPlan(deckId: string, current: FirestoreDeck | null, plan: DeckImportResult) {
+  console.log(current
+    ? `📝 decks/${deckId} (v${current.version}, ${current.size} memories) -> v${plan.deck.version}, ${plan.deck.size} memories`
+    : `🆕 decks/${deckId} will be created with ${plan.deck.size} memories`);
+
+  plan.metadataChanges.forEach(field => {
+    const key = field as keyof FirestoreDeck;
+    console.log(`   ${field}: "${current?.[key]}" -> "${plan.deck[key]}"`);
+  });
+
+  console.log(`➕ ${plan.added.length} added`);
+  printSample(plan.added, '+');
+  console.log(`➖ ${plan.removed.length} removed`);
+  printSample(plan.removed, '-');
+
+  if (plan.duplicatesDropped > 0) {
+    console.log(`🧹 ${plan.duplicatesDropped} blank or repeated memories dropped`);
+  }
+}
+
+/**
+ * Plans an import, prints it and writes it unless it's a dry run
+ * @returns Whether the deck is valid
+ */
+async function applyImport(
+  db: Firestore,
+  deckId: string,
+  file: ParsedDeckFile,
+  options: { replace: boolean; dryRun: boolean; ruleset: Ruleset; overrides?: ParsedDeckFile['metadata'] }
+): Promise<boolean> {
+  const current = await readDeck(db, deckId);
+  const plan = planDeckImport(deckId, current, file, options.replace ? 'replace' : 'merge', options.overrides);
+
+  printImportPlan(deckId, current, plan);
+
+  const issues = getDeckIssues(plan.deck.memories, options.ruleset);
+  if (issues.length > 0) {
+    console.error('\n❌ The deck is not valid:');
+    issues.forEach(issue => console.error(`   ${issue}`));
+    return false;
+  }
+
+  if (!plan.hasChanges) {
+    console.log('\n✅ Nothing to change');
+    return true;
+  }
+
+  if (options.dryRun) {
+    console.log('\n🔍 Dry run: nothing was written');
+    return true;
+  }
+
+  await db.collection('decks').doc(deckId).set(plan.deck);
+  console.log(`\n✅ Deck saved to /decks/${deckId} (v${plan.deck.version})`);
+  return true;
+}
+
+async function run(argv: string[]): Promise<boolean> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      deck: { type: 'string', default: GAME_CONFIG.deck.defaultId },
+      replace: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      format: { type: 'string' },
+      rules: { type: 'string', default: 'classic' },
+      out: { type: 'string' },
+      count: { type: 'string' },
+      name: { type: 'string' },
+      theme: { type: 'string' },
+      language: { type: 'string' },
+      author: { type: 'string' },
+    },
+  });
+  const [command, target] = positionals;
+  const ruleset = resolveRuleset(values.rules);
+
+  switch (command) {
+    case 'validate': {
+      const file = readDeckFile(target, values.format);
+      const plan = planDeckImport(values.deck, null, file, 'replace');
+      const issues = getDeckIssues(plan.deck.memories, ruleset);
+
+      console.log(`📦 ${plan.deck.size} memories (${plan.duplicatesDropped} repeated)`);
+      issues.forEach(issue => console.error(`   ❌ ${issue}`));
+      if (issues.length === 0) {
+        console.log('✅ The deck is valid');
+      }
+      return issues.length === 0;
+    }
+
+    case 'list': {
+      const db = initializeFirebaseAdmin();
+      const decksSnap = await db.collection('decks').get();
+
+      decksSnap.docs.forEach(deckDoc => {
+        const deck = toDeckSummary(deckDoc.id, deckDoc.data());
+        console.log(`📚 ${deck.id}: ${deck.name} · ${deck.size} memories · ${deck.language} · v${deck.version}`);
+      });
+      console.log(`\n📊 Total decks: ${decksSnap.size}`);
+      return true;
+    }
+
+    case 'import': {
+      const file = readDeckFile(target, values.format);
+      const db = initializeFirebaseAdmin();
+      const overrides = {
+        ...(values.name !== undefined && { name: values.name }),
+        ...(values.theme !== undefined && { theme: values.theme }),
+        ...(values.language !== undefined && { language: values.language }),
+        ...(values.author !== undefined && { author: values.author }),
+      };
+
+      return applyImport(db, values.deck, file, { replace: values.replace, dryRun: values['dry-run'], ruleset, overrides });
+    }
+
+    case 'export': {
+      if (!target) {
+        throw new Error('Missing the deck to export.');
+      }
+
+      const db = initializeFirebaseAdmin();
+      const deck = await readDeck(db, target);
+      if (!deck) {
+        throw new Error(`Deck "${target}" not found.`);
+      }
+
+      const content = serializeDeckFile(deck, resolveFormat(values.out, values.format));
+      if (!values.out) {
+        process.stdout.write(content);
+        return true;
+      }
+
+      writeFileSync(values.out, content);
+      console.log(`✅ Exported ${deck.size} memories of /decks/${target} (v${deck.version}) to ${values.out}`);
+      return true;
+    }
+
+    case 'generate': {
+      const count = values.count ? Number(values.count) : DEFAULT_GENERATED_COUNT;
+      if (!Number.isInteger(count) || count <= 0) {
+        throw new Error('--count must be a positive integer.');
+      }
+
+      console.log(`🎲 Generating ${count} unique procedural memories...`);
+      const { version: _version, ...metadata } = GENERATED_DECK_METADATA;
+      const file = { metadata, memories: generateMemoryPool(count) };
+
+      const db = initializeFirebaseAdmin();
+      return applyImport(db, values.deck, file, { replace: true, dryRun: values['dry-run'], ruleset });
+    }
+
+    default:
+      console.error('Usage: pnpm deck <list|import|export|validate|generate> [options] (see src/scripts/deckCli.ts)');
+      return false;
+  }
+}
+
+run(process.argv.slice(2))
+  .then(isValid => process.exit(isValid ? 0 : 1))
+  .catch(error => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
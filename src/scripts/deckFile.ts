@@ -0,0 +1,267 @@
+/**
+ * Deck files for the deck CLI (see deckCli.ts)
+ * Parses and writes decks as JSON, CSV or plain text, and works out what an import changes,
+ * so deck content can be curated and version-controlled instead of regenerated randomly
+ */
+
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { cleanMemoryLines, getMinMemories } from '@/lib/validations/deck';
+import type { DeckMetadata, FirestoreDeck, Ruleset } from '@/types';
+
+export type DeckFileFormat = 'json' | 'csv' | 'txt';
+
+export const DECK_FILE_FORMATS: DeckFileFormat[] = ['json', 'csv', 'txt'];
+
+// Metadata a file can carry (only JSON files do); size and version are always computed
+export type DeckFileMetadata = Partial<Omit<DeckMetadata, 'size' | 'version'>>;
+
+export interface ParsedDeckFile {
+  metadata: DeckFileMetadata;
+  memories: string[];
+}
+
+// How imported memories are combined with the ones already in the deck
+export type ImportMode = 'merge' | 'replace';
+
+export interface DeckImportResult {
+  deck: FirestoreDeck;
+  added: string[];
+  removed: string[];
+  duplicatesDropped: number; // Blank and repeated lines left out (in the file or already in the deck)
+  metadataChanges: string[]; // Metadata fields whose value changes
+  hasChanges: boolean;
+}
+
+const METADATA_FIELDS = ['name', 'language', 'theme', 'author'] as const;
+
+// Lines starting with this are comments in plain text files
+const TXT_COMMENT_PREFIX = '#';
+
+// Header cell CSV files may start with
+const CSV_HEADER = 'memory';
+
+/**
+ * Picks the format of a deck file from its extension
+ * @param filePath - Path of the file
+ * @returns The format, or null if the extension isn't a deck format
+ */
+export const getDeckFileFormat = (filePath: string): DeckFileFormat | null => {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  return DECK_FILE_FORMATS.find(format => format === extension) ?? null;
+};
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and line breaks)
+ */
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let isQuoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (isQuoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (isQuoted) {
+    throw new Error('CSV file has an unclosed quote.');
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+
+  return rows;
+};
+
+const parseJsonDeck = (content: string): ParsedDeckFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('JSON file is not valid JSON.');
+  }
+
+  // Either a plain array of memories or an exported deck (metadata plus memories)
+  const deckData = Array.isArray(data) ? { memories: data } : data as Record<string, unknown>;
+  const { memories } = deckData ?? {};
+
+  if (!Array.isArray(memories) || memories.some(memory => typeof memory !== 'string')) {
+    throw new Error('JSON file must be an array of memories or an object with a "memories" array of strings.');
+  }
+
+  const metadata: DeckFileMetadata = {};
+  METADATA_FIELDS.forEach(field => {
+    const value = deckData[field];
+    if (value !== undefined) {
+      if (typeof value !== 'string') {
+        throw new Error(`JSON field "${field}" must be a string.`);
+      }
+      metadata[field] = value;
+    }
+  });
+
+  return { metadata, memories: memories.map(memory => memory.trim()) };
+};
+
+/**
+ * Parses a deck file
+ * JSON: an array of memories, or an object with metadata (name, language, theme, author) and memories
+ * CSV: one memory per row in the first column, with an optional "memory" header
+ * Plain text: one memory per line; lines starting with # are comments
+ * @param content - The file content
+ * @param format - The file format
+ * @returns The metadata found in the file and its memories (trimmed, blank lines dropped)
+ * @throws Error if the file can't be parsed
+ */
+export const parseDeckFile = (content: string, format: DeckFileFormat): ParsedDeckFile => {
+  const text = content.replace(/^\uFEFF/, ''); // Editors may save a byte order mark
+
+  switch (format) {
+    case 'json': {
+      const parsed = parseJsonDeck(text);
+      return { ...parsed, memories: parsed.memories.filter(memory => memory.length > 0) };
+    }
+    case 'csv': {
+      const cells = parseCsvRows(text).map(row => (row[0] ?? '').trim());
+      const memories = cells[0]?.toLowerCase() === CSV_HEADER ? cells.slice(1) : cells;
+      return { metadata: {}, memories: memories.filter(memory => memory.length > 0) };
+    }
+    case 'txt':
+      return {
+        metadata: {},
+        memories: text
+          .split(/\r?\n/)
+          .map(line => line.trim())
+          .filter(line => line.length > 0 && !line.startsWith(TXT_COMMENT_PREFIX))
+      };
+  }
+};
+
+const toCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes a deck as a file that parseDeckFile reads back
+ * Only JSON keeps the metadata; CSV and plain text hold just the memories
+ * @param deck - The deck
+ * @param format - The file format
+ * @returns The file content
+ */
+export const serializeDeckFile = (deck: FirestoreDeck, format: DeckFileFormat): string => {
+  switch (format) {
+    case 'json': {
+      const { name, language, theme, author, version, memories } = deck;
+      return `${JSON.stringify({ name, language, theme, author, version, memories }, null, 2)}\n`;
+    }
+    case 'csv':
+      return `${[CSV_HEADER, ...deck.memories.map(toCsvCell)].join('\n')}\n`;
+    case 'txt':
+      return `${deck.memories.join('\n')}\n`;
+  }
+};
+
+/**
+ * Lists the problems that keep a deck out of the catalog
+ * Memories follow the same limits as the deck editor
+ * @param memories - The deck's memories, already deduplicated
+ * @param ruleset - The rules the deck must be able to deal (sets the minimum of memories)
+ * @returns Validation messages, empty if the deck is valid
+ */
+export const getDeckIssues = (memories: string[], ruleset: Ruleset): string[] => {
+  const { maxMemoryLength } = GAME_CONFIG.customDecks;
+  const minMemories = getMinMemories(ruleset);
+  const issues = memories
+    .map((memory, index) => (memory.length > maxMemoryLength
+      ? `Memory ${index + 1} is longer than ${maxMemoryLength} characters: "${memory.slice(0, 40)}..."`
+      : null))
+    .filter((issue): issue is string => issue !== null);
+
+  if (memories.length < minMemories) {
+    issues.push(`Deck needs at least ${minMemories} memories. Currently has ${memories.length}.`);
+  }
+
+  return issues;
+};
+
+/**
+ * Works out the deck an import leaves behind, without writing anything
+ * Merging keeps the current memories and appends the new ones; replacing keeps only the file's.
+ * Either way blank and repeated memories are dropped. The version is bumped whenever the memories change
+ * @param deckId - The deck ID (names a new deck that has no name)
+ * @param current - The deck as it is now, null if it doesn't exist yet
+ * @param file - The parsed file
+ * @param mode - Merge into or replace the current memories
+ * @param overrides - Metadata given on the command line, which wins over the file's
+ * @returns The resulting deck and what changed
+ */
+export const planDeckImport = (
+  deckId: string,
+  current: FirestoreDeck | null,
+  file: ParsedDeckFile,
+  mode: ImportMode,
+  overrides: DeckFileMetadata = {}
+): DeckImportResult => {
+  const currentMemories = current?.memories ?? [];
+  const combined = mode === 'merge' ? [...currentMemories, ...file.memories] : file.memories;
+  const memories = cleanMemoryLines(combined);
+
+  const currentSet = new Set(currentMemories);
+  const nextSet = new Set(memories);
+  const added = memories.filter(memory => !currentSet.has(memory));
+  const removed = currentMemories.filter(memory => !nextSet.has(memory));
+  const memoriesChanged = added.length > 0 || removed.length > 0
+    || memories.some((memory, index) => memory !== currentMemories[index]);
+
+  const metadata = {
+    name: overrides.name ?? file.metadata.name ?? current?.name ?? deckId,
+    language: overrides.language ?? file.metadata.language ?? current?.language ?? 'es',
+    theme: overrides.theme ?? file.metadata.theme ?? current?.theme ?? '',
+    author: overrides.author ?? file.metadata.author ?? current?.author ?? ''
+  };
+  const metadataChanges = current
+    ? METADATA_FIELDS.filter(field => metadata[field] !== current[field])
+    : [];
+
+  const hasChanges = !current || memoriesChanged || metadataChanges.length > 0;
+  const currentVersion = current?.version ?? 0;
+
+  return {
+    deck: {
+      ...metadata,
+      size: memories.length,
+      version: !current || memoriesChanged ? currentVersion + 1 : currentVersion,
+      memories
+    },
+    added,
+    removed,
+    duplicatesDropped: combined.length - memories.length,
+    metadataChanges,
+    hasChanges
+  };
+};
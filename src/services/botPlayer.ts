@@ -0,0 +1,231 @@
+import { getActingPlayerId, getRuleset } from '@/services/gameEngine';
+import type {
+  Authenticity,
+  BotDifficulty,
+  FirestorePlayer,
+  FirestorePlayerView,
+  FirestoreRoom,
+  GameAction,
+  Ruleset
+} from '@/types';
+
+const AUTHENTICITIES: Authenticity[] = ['authentic', 'corrupted', 'fatalGlitch'];
+
+// Score of an option that ends the game right away (far above any integrity difference)
+const GAME_OVER_SCORE = 1000;
+
+// How likely a player is to reject a card of each kind after seeing it
+// The hard bot reads a rejection through these: rejected cards are rarely authentic
+const REJECT_LIKELIHOOD: Record<Authenticity, number> = {
+  authentic: 0.2,
+  corrupted: 0.9,
+  fatalGlitch: 1
+};
+
+type CardCounts = Record<Authenticity, number>;
+
+/**
+ * Checks if it's the bot's move: its draw turn, its own card to decide,
+ * or the card its opponent rejected to it
+ * @param room - The public room document
+ * @param botId - The bot's player ID
+ */
+export const isBotToMove = (room: FirestoreRoom, botId: string): boolean =>
+  room.status === 'playing' &&
+  (room.turn_state === 'draw' || room.turn_state === 'decide' || room.turn_state === 'opponent_decide') &&
+  getActingPlayerId(room) === botId;
+
+/**
+ * Counts the cards of each kind the bot hasn't seen yet: the ruleset distribution minus
+ * the cards revealed in used_cards (the counts GameBoard shows) and the card in the bot's hand
+ */
+const getUnseenCounts = (room: FirestoreRoom, view: FirestorePlayerView | null, ruleset: Ruleset): CardCounts => {
+  const counts: CardCounts = { ...ruleset.distribution };
+
+  (room.used_cards || []).forEach(playedCard => {
+    counts[playedCard.card.authenticity]--;
+  });
+  if (view?.current_card) {
+    counts[view.current_card.authenticity]--;
+  }
+
+  return counts;
+};
+
+/**
+ * Gets the probability of each kind for an unknown card, optionally weighted by
+ * how likely a player was to reject it
+ */
+const getCardOdds = (counts: CardCounts, weights?: Record<Authenticity, number>): CardCounts => {
+  const weighted = Object.fromEntries(AUTHENTICITIES.map(authenticity => [
+    authenticity,
+    Math.max(0, counts[authenticity]) * (weights ? weights[authenticity] : 1)
+  ])) as CardCounts;
+  const total = AUTHENTICITIES.reduce((sum, authenticity) => sum + weighted[authenticity], 0);
+
+  return Object.fromEntries(AUTHENTICITIES.map(authenticity => [
+    authenticity,
+    total === 0 ? 0 : weighted[authenticity] / total
+  ])) as CardCounts;
+};
+
+/**
+ * Gets the points a player actually receives (an active shield blocks negative points)
+ */
+const getReceivedPoints = (player: FirestorePlayer, points: number): number =>
+  points < 0 && player.shielded ? 0 : points;
+
+/**
+ * Scores the integrities after an option from the bot's side: the integrity difference,
+ * or a game over score when the option reaches the target or the loss threshold
+ * (same checks as checkVictoryCondition, without its logging)
+ */
+const scoreOutcome = (
+  room: FirestoreRoom,
+  botId: string,
+  points: { [playerId: string]: number },
+  ruleset: Ruleset
+): number => {
+  const opponentId = room.order_players.find(playerId => playerId !== botId)!;
+  const integrityOf = (playerId: string) => room.players[playerId].integrity + (points[playerId] ?? 0);
+
+  const loserId = room.order_players.find(playerId => integrityOf(playerId) <= ruleset.lossThreshold);
+  const winnerId = room.order_players.find(playerId => integrityOf(playerId) >= ruleset.targetIntegrity) ??
+    (loserId ? room.order_players.find(playerId => playerId !== loserId) : undefined);
+  if (winnerId) {
+    return winnerId === botId ? GAME_OVER_SCORE : -GAME_OVER_SCORE;
+  }
+
+  return integrityOf(botId) - integrityOf(opponentId);
+};
+
+/**
+ * Picks a table card: one the bot peeked as authentic, else the first one not peeked as harmful
+ */
+const chooseTableCard = (room: FirestoreRoom, view: FirestorePlayerView | null): number => {
+  const peekedAuthenticity = (index: number) =>
+    view?.peeked_cards.find(peeked => peeked.memory === room.table_cards[index].memory)?.authenticity ?? null;
+  const indexes = room.table_cards.map((_, index) => index);
+
+  return indexes.find(index => peekedAuthenticity(index) === 'authentic') ??
+    indexes.find(index => peekedAuthenticity(index) === null) ??
+    0;
+};
+
+/**
+ * Decides the bot's own card (decide phase), knowing its authenticity
+ * - easy: claims anything that isn't negative and rejects the rest, blind to the multiplier
+ * - normal: rejecting costs or earns the multiplied value; it assumes the opponent answers
+ *   at random and avoids options that lose the game
+ * - hard: predicts the opponent's answer from what a rejected card usually is, so it rejects
+ *   bad cards to opponents who take them and bluffs good cards to opponents who send them back
+ */
+const decideOwnCard = (
+  room: FirestoreRoom,
+  view: FirestorePlayerView,
+  botId: string,
+  difficulty: BotDifficulty,
+  ruleset: Ruleset
+): GameAction => {
+  const card = view.current_card!;
+
+  if (difficulty === 'easy') {
+    return card.value >= 0 ? { type: 'claim_card', userId: botId } : { type: 'reject_card', userId: botId };
+  }
+
+  const opponentId = room.order_players.find(playerId => playerId !== botId)!;
+  const multipliedValue = card.value * ruleset.rejectMultiplier;
+  const score = (points: { [playerId: string]: number }) => scoreOutcome(room, botId, points, ruleset);
+
+  const claimScore = score({ [botId]: getReceivedPoints(room.players[botId], card.value) });
+  const opponentClaimsScore = score({ [opponentId]: getReceivedPoints(room.players[opponentId], multipliedValue) });
+  const rejectedBackScore = score({ [botId]: getReceivedPoints(room.players[botId], multipliedValue) });
+
+  // Chance that the opponent takes the rejected card instead of sending it back
+  let opponentClaimChance = 0.5;
+  if (difficulty === 'hard') {
+    // The opponent doesn't know the card: they only see the revealed cards and the rejection
+    const publicOdds = getCardOdds(getUnseenCounts(room, null, ruleset), REJECT_LIKELIHOOD);
+    const expectedValue = AUTHENTICITIES.reduce(
+      (sum, authenticity) => sum + publicOdds[authenticity] * ruleset.pointValues[authenticity],
+      0
+    );
+    opponentClaimChance = 1 / (1 + Math.exp(-expectedValue * ruleset.rejectMultiplier));
+  }
+
+  const rejectScore = opponentClaimChance * opponentClaimsScore + (1 - opponentClaimChance) * rejectedBackScore;
+
+  return claimScore >= rejectScore ? { type: 'claim_card', userId: botId } : { type: 'reject_card', userId: botId };
+};
+
+/**
+ * Decides a card the opponent rejected to the bot (opponent_decide phase), without knowing it
+ * - easy: takes it when the unseen cards are worth something on average, ignoring the multiplier
+ * - normal: weighs the multiplied points of every unseen card, and avoids losing the game
+ * - hard: like normal, but reads the rejection: a card the opponent didn't want is rarely authentic
+ */
+const decideRejectedCard = (
+  room: FirestoreRoom,
+  view: FirestorePlayerView | null,
+  botId: string,
+  difficulty: BotDifficulty,
+  ruleset: Ruleset
+): GameAction => {
+  const initiatorId = room.card_initiator!;
+  const odds = getCardOdds(
+    getUnseenCounts(room, view, ruleset),
+    difficulty === 'hard' ? REJECT_LIKELIHOOD : undefined
+  );
+
+  if (difficulty === 'easy') {
+    const expectedValue = AUTHENTICITIES.reduce(
+      (sum, authenticity) => sum + odds[authenticity] * ruleset.pointValues[authenticity],
+      0
+    );
+    return expectedValue >= 0
+      ? { type: 'opponent_claim_card', userId: botId }
+      : { type: 'opponent_reject_back', userId: botId };
+  }
+
+  const expectedScore = (receiverId: string) => AUTHENTICITIES.reduce((sum, authenticity) => {
+    const points = getReceivedPoints(room.players[receiverId], ruleset.pointValues[authenticity] * room.current_multiplier);
+    return sum + odds[authenticity] * scoreOutcome(room, botId, { [receiverId]: points }, ruleset);
+  }, 0);
+
+  return expectedScore(botId) >= expectedScore(initiatorId)
+    ? { type: 'opponent_claim_card', userId: botId }
+    : { type: 'opponent_reject_back', userId: botId };
+};
+
+/**
+ * Chooses the bot's next game action using only what a human in its seat could know:
+ * the public room (revealed cards in used_cards, integrities, shields) and the bot's own view
+ * (the card it selected, cards it peeked). Bots don't use items.
+ * @param room - The public room document
+ * @param view - The bot's player view (rooms/{code}/views/{botId})
+ * @param botId - The bot's player ID
+ * @param difficulty - How the bot weighs claiming against rejecting
+ * @returns The action to apply, or null if it's not the bot's move
+ */
+export const chooseBotAction = (
+  room: FirestoreRoom,
+  view: FirestorePlayerView | null,
+  botId: string,
+  difficulty: BotDifficulty
+): GameAction | null => {
+  if (!isBotToMove(room, botId)) {
+    return null;
+  }
+
+  const ruleset = getRuleset(room);
+
+  switch (room.turn_state) {
+    case 'draw':
+      return { type: 'select_card', userId: botId, cardIndex: chooseTableCard(room, view) };
+    case 'decide':
+      // The view brings the selected card right after the selection; wait for it
+      return view?.current_card ? decideOwnCard(room, view, botId, difficulty, ruleset) : null;
+    default:
+      return decideRejectedCard(room, view, botId, difficulty, ruleset);
+  }
+};
@@ -0,0 +1,101 @@
+import { logger } from '@/lib/utils/logger';
+import { validateCustomDeck, type CustomDeckFormData } from '@/lib/validations/deck';
+import type { DeckRepository, DeckSummary, FirestoreDeck, Ruleset, User } from '@/types';
+
+// Private decks written in the deck editor (users/{uid}/decks/{deckId})
+// Only their owner reads and writes them (see firestore.rules); the server reads them when their owner
+// picks one for a room. Every call takes the deck repository, so it runs against Firestore or in memory
+
+/**
+ * Lists the user's private decks
+ * @param decks - Deck repository
+ * @param userId - The owner
+ * @returns Promise with the decks, sorted by name
+ */
+export const listCustomDecks = async (decks: DeckRepository, userId: string): Promise<DeckSummary[]> => {
+  try {
+    const ownDecks = await decks.list(userId);
+    return ownDecks.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    logger.error('Error listing custom decks', { userId, error }, 'customDeckService');
+    throw new Error('Error al cargar tus mazos.');
+  }
+};
+
+/**
+ * Gets one of the user's private decks to edit it
+ * @param decks - Deck repository
+ * @param userId - The owner
+ * @param deckId - The deck ID
+ * @returns Promise with the deck and its memories
+ */
+export const getCustomDeck = async (decks: DeckRepository, userId: string, deckId: string): Promise<FirestoreDeck> => {
+  try {
+    return await decks.get(deckId, userId);
+  } catch (error) {
+    logger.error('Error fetching custom deck', { userId, deckId, error }, 'customDeckService');
+    throw new Error('El mazo no existe.');
+  }
+};
+
+/**
+ * Validates and saves a private deck, bumping its version when it already exists
+ * @param decks - Deck repository
+ * @param user - The owner (named as the deck's author)
+ * @param deckId - The deck to update, or null to create a new one
+ * @param form - The deck as edited
+ * @param ruleset - The rules the deck is meant for (sets the minimum of memories)
+ * @returns Promise with the deck ID
+ * @throws Error with the first validation message if the deck is invalid
+ */
+export const saveCustomDeck = async (
+  decks: DeckRepository,
+  user: Pick<User, 'id' | 'name'>,
+  deckId: string | null,
+  form: CustomDeckFormData,
+  ruleset: Ruleset
+): Promise<string> => {
+  const { name, theme, memories } = validateCustomDeck(form, ruleset);
+  const trimmedMemories = memories.map(memory => memory.trim());
+
+  const fields = {
+    name,
+    theme,
+    language: 'es',
+    author: user.name,
+    size: trimmedMemories.length,
+    memories: trimmedMemories
+  };
+
+  try {
+    if (!deckId) {
+      const newDeckId = await decks.create(user.id, { ...fields, version: 1 });
+      logger.info('Custom deck created', { userId: user.id, deckId: newDeckId, size: fields.size }, 'customDeckService');
+      return newDeckId;
+    }
+
+    const saved = await decks.update(user.id, deckId, current => ({ ...current, ...fields, version: current.version + 1 }));
+    logger.info('Custom deck updated', { userId: user.id, deckId, size: fields.size, version: saved.version }, 'customDeckService');
+    return deckId;
+  } catch (error) {
+    logger.error('Error saving custom deck', { userId: user.id, deckId, error }, 'customDeckService');
+    throw new Error('Error al guardar el mazo.');
+  }
+};
+
+/**
+ * Deletes one of the user's private decks
+ * Rooms that already dealt from it keep their cards
+ * @param decks - Deck repository
+ * @param userId - The owner
+ * @param deckId - The deck ID
+ */
+export const deleteCustomDeck = async (decks: DeckRepository, userId: string, deckId: string): Promise<void> => {
+  try {
+    await decks.delete(userId, deckId);
+    logger.info('Custom deck deleted', { userId, deckId }, 'customDeckService');
+  } catch (error) {
+    logger.error('Error deleting custom deck', { userId, deckId, error }, 'customDeckService');
+    throw new Error('Error al eliminar el mazo.');
+  }
+};
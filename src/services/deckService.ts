@@ -1,99 +1,57 @@
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
-import { GAME_CONFIG, type Authenticity } from '@/config/gameConfig';
+import { DEFAULT_RULESET, GAME_CONFIG, ITEM_DEFINITIONS, type Authenticity } from '@/config/gameConfig';
 import { roomLogger } from '@/lib/utils/logger';
-import type { MemoryCard } from '@/types';
-
-// Cache for deck data to avoid repeated Firestore calls
-let cachedMemories: string[] | null = null;
-let cacheTimestamp: number = 0;
-const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+import { createSeededRandom } from '@/lib/utils/seededRandom';
+import type { FirestoreRoom, ItemCard, ItemEffect, MemoryCard, Ruleset } from '@/types';
 
 /**
  * Shuffles an array using Fisher-Yates algorithm
  * @param array - Array to shuffle
+ * @param random - Random number generator in [0, 1) (a seeded one makes the shuffle reproducible)
  * @returns Shuffled copy of the array
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: () => number = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
 /**
- * Fetches memories from Firestore with caching
- * @returns Promise with array of memory strings
- * @throws Error if deck doesn't exist or is invalid
+ * Gets the deck a room draws its memories from
+ * Rooms created before the deck catalog use the default deck
+ * @param room - The room (or any object with an optional deck)
+ * @returns The deck ID
  */
-async function fetchMemoriesFromFirestore(): Promise<string[]> {
-  const now = Date.now();
-
-  // Return cached data if still valid
-  if (cachedMemories && (now - cacheTimestamp) < CACHE_DURATION_MS) {
-    roomLogger.debug('Using cached memories', {
-      cacheAge: Math.floor((now - cacheTimestamp) / 1000),
-      totalMemories: cachedMemories.length
-    });
-    return cachedMemories;
-  }
-
-  roomLogger.info('Fetching memories from Firestore');
-
-  // Fetch fresh data from Firestore
-  const deckRef = doc(db, 'decks', 'default');
-  const deckSnap = await getDoc(deckRef);
-
-  if (!deckSnap.exists()) {
-    throw new Error('Default deck not found. Run seed:deck script first.');
-  }
-
-  const deckData = deckSnap.data();
-  const memories = deckData.memories as string[];
-
-  if (!memories || !Array.isArray(memories)) {
-    throw new Error('Deck does not have a valid "memories" field.');
-  }
-
-  if (memories.length === 0) {
-    throw new Error('Deck is empty. At least one memory is required.');
-  }
-
-  // Update cache
-  cachedMemories = memories;
-  cacheTimestamp = now;
-
-  roomLogger.info('Memories fetched and cached', {
-    totalMemories: memories.length,
-    cacheExpiry: CACHE_DURATION_MS / 1000 / 60
-  });
-
-  return memories;
-}
+export const getRoomDeckId = (room: Pick<FirestoreRoom, 'deck'>): string =>
+  room.deck?.id ?? GAME_CONFIG.deck.defaultId;
 
 /**
- * Generates a random deck of memory cards for a game room
- * Fetches memories from /decks/default and assigns random authenticity
+ * Builds a random deck of memory cards for a game room
+ * Picks memories from the pool and assigns random authenticity
+ * Only the trusted resolver deals decks (see functions/src/deckDealer.ts), so clients never see them
+ * With a seed, memory selection, authenticity shuffle and glitch placement all draw from one seeded
+ * generator: the same pool, ruleset and seed always build the same deck
  *
- * @returns Promise with array of 15 memory cards with assigned authenticity
- * @throws Error if deck doesn't exist or has insufficient cards
+ * @param allMemories - Memory pool (the memories of the room's deck, see decks/{deckId})
+ * @param ruleset - Ruleset with the deck size, authenticity distribution and point values
+ * @param seed - Seed of the deck (Math.random when omitted)
+ * @returns Array of ruleset.deckSize memory cards with assigned authenticity
+ * @throws Error if the pool has insufficient memories
  */
-export const generateGameDeck = async (): Promise<MemoryCard[]> => {
-  roomLogger.info('Generating game deck from default deck');
+export const buildGameDeck = (allMemories: string[], ruleset: Ruleset = DEFAULT_RULESET, seed?: string): MemoryCard[] => {
+  roomLogger.info('Building game deck from memory pool', { deckSize: ruleset.deckSize, isSeeded: seed !== undefined });
+  const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
 
   try {
-    // Fetch memories with caching
-    const allMemories = await fetchMemoriesFromFirestore();
-
     // Validate sufficient memories
-    if (allMemories.length < GAME_CONFIG.deck.totalCards) {
-      throw new Error(`Deck needs at least ${GAME_CONFIG.deck.totalCards} memories. Currently has ${allMemories.length}.`);
+    if (allMemories.length < ruleset.deckSize) {
+      throw new Error(`Deck needs at least ${ruleset.deckSize} memories. Currently has ${allMemories.length}.`);
     }
 
     // Warning if memory pool is too small (risk of repetitive games)
-    const recommendedMinimum = GAME_CONFIG.deck.totalCards * 3;
+    const recommendedMinimum = ruleset.deckSize * 3;
     if (allMemories.length < recommendedMinimum) {
       roomLogger.warn('Memory pool is small, games may feel repetitive', {
         currentSize: allMemories.length,
@@ -103,35 +61,36 @@ export const generateGameDeck = async (): Promise<MemoryCard[]> => {
 
     roomLogger.debug('Deck validated successfully', {
       totalMemories: allMemories.length,
-      requiredCards: GAME_CONFIG.deck.totalCards
+      requiredCards: ruleset.deckSize
     });
 
-    // Step 1: Randomly select 15 memories from the pool
-    const shuffledMemories = shuffleArray(allMemories);
-    const selectedMemories = shuffledMemories.slice(0, GAME_CONFIG.deck.totalCards);
+    // Step 1: Randomly select deckSize memories from the pool
+    const shuffledMemories = shuffleArray(allMemories, random);
+    const selectedMemories = shuffledMemories.slice(0, ruleset.deckSize);
 
     // Step 2: Create authenticity distribution array (without fatal glitches)
     const nonFatalAuthenticities: Authenticity[] = [
-      ...Array(GAME_CONFIG.deck.distribution.authentic).fill('authentic'),
-      ...Array(GAME_CONFIG.deck.distribution.corrupted).fill('corrupted'),
+      ...Array(ruleset.distribution.authentic).fill('authentic'),
+      ...Array(ruleset.distribution.corrupted).fill('corrupted'),
     ];
 
-    // Verify distribution adds up to totalCards
-    const totalAuthenticities = nonFatalAuthenticities.length + GAME_CONFIG.deck.distribution.fatalGlitch;
-    if (totalAuthenticities !== GAME_CONFIG.deck.totalCards) {
-      throw new Error(`Authenticity distribution (${totalAuthenticities}) does not match total cards (${GAME_CONFIG.deck.totalCards})`);
+    // Verify distribution adds up to deckSize
+    const totalAuthenticities = nonFatalAuthenticities.length + ruleset.distribution.fatalGlitch;
+    if (totalAuthenticities !== ruleset.deckSize) {
+      throw new Error(`Authenticity distribution (${totalAuthenticities}) does not match total cards (${ruleset.deckSize})`);
     }
 
     // Step 3: Shuffle non-fatal authenticity assignments
-    const shuffledNonFatal = shuffleArray(nonFatalAuthenticities);
+    const shuffledNonFatal = shuffleArray(nonFatalAuthenticities, random);
 
     // Step 4: Insert fatal glitches at random positions (but never in first 7 positions)
-    const minFatalPosition = 7; // Fatal glitch can only appear from position 7 onwards (index 7 = 8th card)
+    // Fatal glitch can only appear from position 7 onwards (index 7 = 8th card), or later in small decks
+    const minFatalPosition = Math.min(7, shuffledNonFatal.length);
     const shuffledAuthenticity: Authenticity[] = [...shuffledNonFatal];
 
-    for (let i = 0; i < GAME_CONFIG.deck.distribution.fatalGlitch; i++) {
+    for (let i = 0; i < ruleset.distribution.fatalGlitch; i++) {
       // Random position from minFatalPosition to end of deck
-      const randomPosition = minFatalPosition + Math.floor(Math.random() * (GAME_CONFIG.deck.totalCards - minFatalPosition));
+      const randomPosition = minFatalPosition + Math.floor(random() * (shuffledAuthenticity.length + 1 - minFatalPosition));
       shuffledAuthenticity.splice(randomPosition, 0, 'fatalGlitch');
     }
 
@@ -144,7 +103,7 @@ export const generateGameDeck = async (): Promise<MemoryCard[]> => {
     // Step 5: Create memory cards by combining memories with authenticity
     const memoryDeck: MemoryCard[] = selectedMemories.map((memory, index) => {
       const authenticity = shuffledAuthenticity[index];
-      const value = GAME_CONFIG.pointValues[authenticity];
+      const value = ruleset.pointValues[authenticity];
 
       return {
         memory,
@@ -173,3 +132,23 @@ export const generateGameDeck = async (): Promise<MemoryCard[]> => {
     throw new Error('Failed to generate memory deck.');
   }
 };
+
+/**
+ * Generates the shuffled item deck for a game room
+ * Contains GAME_CONFIG.items.copiesPerEffect copies of every item in ITEM_DEFINITIONS
+ * @returns Array of item cards with ids unique within the room
+ */
+export const generateItemDeck = (): ItemCard[] => {
+  const itemCards: ItemCard[] = (Object.keys(ITEM_DEFINITIONS) as ItemEffect[]).flatMap(effect =>
+    Array.from({ length: GAME_CONFIG.items.copiesPerEffect }, (_, copy) => ({
+      id: `${effect}-${copy + 1}`,
+      name: ITEM_DEFINITIONS[effect].name,
+      description: ITEM_DEFINITIONS[effect].description,
+      effect
+    }))
+  );
+
+  roomLogger.debug('Item deck generated', { totalItems: itemCards.length });
+
+  return shuffleArray(itemCards);
+};
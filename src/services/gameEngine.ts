@@ -0,0 +1,1029 @@
+import type {
+  ActionResult,
+  FirestoreRoom,
+  FirestoreRoomSecret,
+  GameAction,
+  GameError,
+  GameErrorCode,
+  GameEvent,
+  GameState,
+  ItemCard,
+  ItemTarget,
+  MemoryCard,
+  PlayedCard,
+  Ruleset,
+  TurnState,
+  WinReason
+} from '@/types';
+import { DEFAULT_RULESET, GAME_CONFIG } from '@/config/gameConfig';
+import { roomLogger } from '@/lib/utils/logger';
+import { createSeededRandom } from '@/lib/utils/seededRandom';
+
+/**
+ * Gets the ruleset snapshotted on a room
+ * Rooms created before rulesets existed fall back to the default (classic) rules
+ * @param room - Any room-like object with an optional ruleset
+ * @returns The room's ruleset
+ */
+export const getRuleset = (room: { ruleset?: Ruleset | null }): Ruleset => {
+  return room.ruleset ?? DEFAULT_RULESET;
+};
+
+/**
+ * Initializes the table cards with the first cards from the memory deck
+ * This is called when a room is created (and when its ruleset changes in the lobby)
+ * @param memoryDeck - The complete memory deck
+ * @param tableSize - Number of cards visible on the table (ruleset.tableSize, 3 by default)
+ * @returns The first tableSize cards to display on the table
+ * @throws Error if memory deck has less than tableSize cards
+ */
+export const initializeTableCards = (
+  memoryDeck: MemoryCard[],
+  tableSize: number = DEFAULT_RULESET.tableSize
+): MemoryCard[] => {
+  roomLogger.debug('Initializing table cards', { deckSize: memoryDeck.length, tableSize });
+
+  if (memoryDeck.length < tableSize) {
+    roomLogger.error('Cannot initialize table cards: insufficient cards in deck', {
+      deckSize: memoryDeck.length,
+      tableSize
+    });
+    throw new Error(`El mazo debe tener al menos ${tableSize} cartas para inicializar el tablero.`);
+  }
+
+  // Take the first cards from the deck
+  const tableCards = memoryDeck.slice(0, tableSize);
+
+  roomLogger.info('Table cards initialized', {
+    tableCardsCount: tableCards.length,
+    cardsDrawn: tableSize
+  });
+
+  return tableCards;
+};
+
+/**
+ * Refreshes table cards after a card has been claimed or rejected
+ * Removes the selected card from the table and replaces it with the next available card from the deck
+ * @param currentTableCards - Current cards on the table (ruleset.tableSize)
+ * @param selectedCardIndex - Index of the card that was selected from the table
+ * @param memoryDeck - The complete memory deck
+ * @param cardsDrawn - Number of cards already drawn from the deck
+ * @returns Object with updated table cards and new cards drawn count
+ */
+export const refreshTableCards = (
+  currentTableCards: MemoryCard[],
+  selectedCardIndex: number,
+  memoryDeck: MemoryCard[],
+  cardsDrawn: number
+): { tableCards: MemoryCard[]; newCardsDrawn: number } => {
+  roomLogger.debug('Refreshing table cards', {
+    currentTableCardsCount: currentTableCards.length,
+    selectedCardIndex,
+    cardsDrawn,
+    remainingInDeck: memoryDeck.length - cardsDrawn
+  });
+
+  // Validate selected card index
+  if (selectedCardIndex < 0 || selectedCardIndex >= currentTableCards.length) {
+    roomLogger.error('Invalid card index for refresh', {
+      selectedCardIndex,
+      tableCardsCount: currentTableCards.length
+    });
+    throw new Error('Índice de carta inválido.');
+  }
+
+  // Create a copy of current table cards
+  const newTableCards = [...currentTableCards];
+
+  // Check if there are more cards available in the deck
+  if (cardsDrawn < memoryDeck.length) {
+    // Replace the selected card with the next card from the deck
+    const nextCard = memoryDeck[cardsDrawn];
+    newTableCards[selectedCardIndex] = nextCard;
+
+    roomLogger.info('Table card replaced with new card from deck', {
+      selectedCardIndex,
+      cardsDrawn: cardsDrawn + 1,
+      remainingInDeck: memoryDeck.length - (cardsDrawn + 1)
+    });
+
+    return {
+      tableCards: newTableCards,
+      newCardsDrawn: cardsDrawn + 1
+    };
+  } else {
+    // No more cards in deck - remove the selected card from table
+    newTableCards.splice(selectedCardIndex, 1);
+
+    roomLogger.info('Table card removed, no cards left in deck', {
+      selectedCardIndex,
+      remainingTableCards: newTableCards.length,
+      cardsDrawn
+    });
+
+    return {
+      tableCards: newTableCards,
+      newCardsDrawn: cardsDrawn
+    };
+  }
+};
+
+/**
+ * Validates if the game can continue based on available cards
+ * @param tableCards - Current cards on the table
+ * @param memoryDeck - The complete memory deck
+ * @param cardsDrawn - Number of cards already drawn
+ * @returns True if game can continue (has cards on table), false otherwise
+ */
+export const canGameContinue = (
+  tableCards: MemoryCard[],
+  memoryDeck: MemoryCard[],
+  cardsDrawn: number
+): boolean => {
+  const hasCardsOnTable = tableCards.length > 0;
+  const hasCardsInDeck = cardsDrawn < memoryDeck.length;
+
+  roomLogger.debug('Checking if game can continue', {
+    hasCardsOnTable,
+    hasCardsInDeck,
+    tableCardsCount: tableCards.length,
+    remainingInDeck: memoryDeck.length - cardsDrawn
+  });
+
+  return hasCardsOnTable || hasCardsInDeck;
+};
+
+/**
+ * Gets the number of cards remaining in the game
+ * @param tableCards - Current cards on the table
+ * @param memoryDeck - The complete memory deck
+ * @param cardsDrawn - Number of cards already drawn
+ * @returns Total number of cards still available to play
+ */
+export const getRemainingCardsCount = (
+  tableCards: MemoryCard[],
+  memoryDeck: MemoryCard[],
+  cardsDrawn: number
+): number => {
+  const cardsOnTable = tableCards.length;
+  const cardsInDeck = memoryDeck.length - cardsDrawn;
+  const total = cardsOnTable + cardsInDeck;
+
+  roomLogger.debug('Calculating remaining cards', {
+    cardsOnTable,
+    cardsInDeck,
+    total
+  });
+
+  return total;
+};
+
+/**
+ * Checks if a player has won the game
+ * Win condition: Player reaches ruleset.targetIntegrity (+10 by default)
+ * Lose condition: Player reaches ruleset.lossThreshold (-10 by default) or below
+ * The reason keeps its historical 'reached_10_points' name for any target
+ * @param players - Players object with integrity values
+ * @param orderPlayers - Player IDs in turn order
+ * @param ruleset - Integrity limits to check against
+ * @returns Object with winner info { hasWinner: boolean, winnerId: string | null, reason: string }
+ */
+export const checkVictoryCondition = (
+  players: { [userId: string]: { integrity: number; items: ItemCard[] } },
+  orderPlayers: string[],
+  ruleset: Pick<Ruleset, 'targetIntegrity' | 'lossThreshold'> = DEFAULT_RULESET
+): { hasWinner: boolean; winnerId: string | null; reason: WinReason | '' } => {
+  roomLogger.debug('Checking victory condition', {
+    player1Integrity: players[orderPlayers[0]]?.integrity,
+    player2Integrity: players[orderPlayers[1]]?.integrity,
+    targetIntegrity: ruleset.targetIntegrity,
+    lossThreshold: ruleset.lossThreshold
+  });
+
+  // Check if any player reached the target integrity (victory)
+  for (const playerId of orderPlayers) {
+    if (players[playerId].integrity >= ruleset.targetIntegrity) {
+      roomLogger.info('Victory detected: Player reached target integrity', {
+        winnerId: playerId,
+        integrity: players[playerId].integrity
+      });
+      return {
+        hasWinner: true,
+        winnerId: playerId,
+        reason: 'reached_10_points'
+      };
+    }
+  }
+
+  // Check if any player reached the loss threshold or below (defeat)
+  for (const playerId of orderPlayers) {
+    if (players[playerId].integrity <= ruleset.lossThreshold) {
+      // Winner is the OTHER player
+      const winnerId = orderPlayers.find(id => id !== playerId)!;
+      roomLogger.info('Victory detected: Player reached loss threshold', {
+        loserId: playerId,
+        loserIntegrity: players[playerId].integrity,
+        winnerId,
+        winnerIntegrity: players[winnerId].integrity
+      });
+      return {
+        hasWinner: true,
+        winnerId,
+        reason: 'opponent_defeated'
+      };
+    }
+  }
+
+  return {
+    hasWinner: false,
+    winnerId: null,
+    reason: ''
+  };
+};
+
+/**
+ * Resolves a game whose memory deck is exhausted (no cards left on the table or in the deck)
+ * The player with the highest integrity wins; equal integrity is a draw
+ * @param players - Players object with integrity values
+ * @param orderPlayers - Player IDs in turn order
+ * @returns Object with { winnerId: string | null, reason: 'deck_exhausted' | 'draw' }
+ */
+export const resolveDeckExhaustion = (
+  players: { [userId: string]: { integrity: number; items: ItemCard[] } },
+  orderPlayers: string[]
+): { winnerId: string | null; reason: WinReason } => {
+  const [firstId, secondId] = orderPlayers;
+  const firstIntegrity = players[firstId].integrity;
+  const secondIntegrity = players[secondId].integrity;
+
+  if (firstIntegrity === secondIntegrity) {
+    roomLogger.info('Deck exhausted with tied integrity: draw', { integrity: firstIntegrity });
+    return { winnerId: null, reason: 'draw' };
+  }
+
+  const winnerId = firstIntegrity > secondIntegrity ? firstId : secondId;
+  roomLogger.info('Deck exhausted: highest integrity wins', {
+    winnerId,
+    player1Integrity: firstIntegrity,
+    player2Integrity: secondIntegrity
+  });
+
+  return { winnerId, reason: 'deck_exhausted' };
+};
+
+/**
+ * Builds a GameError result
+ * @param code - Machine-readable error code
+ * @param message - User-facing message (same text the Firestore actions throw)
+ * @returns The GameError
+ */
+const gameError = (code: GameErrorCode, message: string): GameError => ({ code, message });
+
+/**
+ * Type guard to distinguish an engine error from a successful result
+ * @param result - The value returned by applyAction
+ * @returns True if the action was rejected by the engine
+ */
+export const isGameError = (result: ActionResult): result is GameError => 'code' in result;
+
+/**
+ * Builds the plain game state from a room document and its hidden deck
+ * Fills optional fields so the state can be written back to Firestore as-is
+ * @param room - The room document data
+ * @param secret - The room's secret document (full cards and peeked cards)
+ * @returns The game state used by the engine
+ */
+export const toGameState = (room: FirestoreRoom, secret: FirestoreRoomSecret): GameState => ({
+  players: Object.fromEntries(Object.entries(room.players).map(([playerId, player]) => [
+    playerId,
+    secret.peeked_cards[playerId]?.length
+      ? { ...player, peeked_cards: secret.peeked_cards[playerId] }
+      : player
+  ])),
+  status: room.status,
+  order_players: room.order_players,
+  turn: room.turn,
+  memory_deck: secret.memory_deck,
+  current_card: secret.current_card,
+  table_cards: secret.table_cards,
+  cards_drawn: room.cards_drawn,
+  turn_state: room.turn_state,
+  selected_card_index: room.selected_card_index,
+  current_multiplier: room.current_multiplier,
+  card_initiator: room.card_initiator,
+  auto_selected: room.auto_selected ?? false,
+  deck_seed: secret.deck_seed ?? null,
+  turn_deadline: room.turn_deadline ?? null,
+  used_cards: room.used_cards || [],
+  item_deck: room.item_deck || [],
+  winner: room.winner ?? null,
+  win_reason: room.win_reason ?? null,
+  ruleset: getRuleset(room)
+});
+
+/**
+ * DRAW Phase: Player selects a card from the table
+ * Moves the selected card to current_card and transitions to DECIDE phase
+ */
+const selectCard = (state: GameState, userId: string, cardIndex: number): ActionResult => {
+  // Validate turn state is 'draw'
+  if (state.turn_state !== 'draw') {
+    return gameError('invalid_turn_state', `No puedes seleccionar una carta en este momento. Estado actual: ${state.turn_state}`);
+  }
+
+  // Validate it's the player's turn
+  if (state.order_players[state.turn] !== userId) {
+    return gameError('not_your_turn', 'No es tu turno.');
+  }
+
+  // Validate card index
+  if (!Number.isInteger(cardIndex) || cardIndex < 0 || cardIndex >= state.table_cards.length) {
+    return gameError('invalid_card_index', 'Índice de carta inválido.');
+  }
+
+  const selectedCard = state.table_cards[cardIndex];
+
+  return {
+    state: {
+      ...state,
+      current_card: selectedCard,
+      selected_card_index: cardIndex,
+      card_initiator: userId,
+      turn_state: 'decide',
+      current_multiplier: 1 // Reset multiplier to 1
+    },
+    events: [{ type: 'CardSelected', userId, cardIndex, card: selectedCard }]
+  };
+};
+
+/**
+ * DECIDE Phase: Player rejects the card (passes to opponent)
+ * Transitions to OPPONENT_DECIDE phase with the ruleset's reject multiplier
+ */
+const rejectCard = (state: GameState, userId: string): ActionResult => {
+  // Validate turn state is 'decide'
+  if (state.turn_state !== 'decide') {
+    return gameError('invalid_turn_state', `No puedes rechazar una carta en este momento. Estado actual: ${state.turn_state}`);
+  }
+
+  // Validate it's the player's turn (card initiator)
+  if (state.card_initiator !== userId) {
+    return gameError('not_initiator', 'No puedes rechazar esta carta.');
+  }
+
+  if (!state.current_card) {
+    return gameError('no_current_card', 'No hay carta seleccionada.');
+  }
+
+  const multiplier = state.ruleset.rejectMultiplier; // Risk multiplier
+
+  return {
+    state: {
+      ...state,
+      turn_state: 'opponent_decide',
+      current_multiplier: multiplier
+    },
+    events: [{ type: 'CardRejected', userId, multiplier }]
+  };
+};
+
+/**
+ * Gets the player who has to act in the current phase: the rejected card's receiver,
+ * or the player whose turn it is (who draws, then decides their card)
+ * @param state - Current game state (or the public room)
+ * @returns The acting player's ID
+ */
+export const getActingPlayerId = (
+  state: Pick<GameState, 'order_players' | 'turn' | 'turn_state' | 'card_initiator'>
+): string =>
+  state.turn_state === 'opponent_decide'
+    ? state.order_players.find(id => id !== state.card_initiator)!
+    : state.order_players[state.turn];
+
+/**
+ * Calculates when a turn phase times out
+ * @param turnState - The phase that is starting
+ * @param now - When the phase starts
+ * @returns Deadline as epoch milliseconds
+ */
+export const getPhaseDeadline = (turnState: TurnState, now: Date): number => {
+  const phaseSeconds: Partial<Record<TurnState, number>> = GAME_CONFIG.turn.phaseSeconds;
+  const seconds = phaseSeconds[turnState] ?? GAME_CONFIG.turn.phaseSeconds.draw;
+  return now.getTime() + seconds * 1000;
+};
+
+/**
+ * Gives the next card of the item deck to a player
+ * Nothing is granted if the item deck is empty or the player already holds the maximum
+ * @param state - Current game state
+ * @param userId - The player who earns the item
+ * @returns The state with the item granted and its event (null if nothing was granted)
+ */
+const grantItem = (state: GameState, userId: string): { state: GameState; event: GameEvent | null } => {
+  const player = state.players[userId];
+
+  if (state.item_deck.length === 0 || player.items.length >= GAME_CONFIG.items.maxPerPlayer) {
+    return { state, event: null };
+  }
+
+  const [item, ...itemDeck] = state.item_deck;
+
+  return {
+    state: {
+      ...state,
+      item_deck: itemDeck,
+      players: {
+        ...state.players,
+        [userId]: { ...player, items: [...player.items, item] }
+      }
+    },
+    event: { type: 'ItemEarned', userId, item }
+  };
+};
+
+/**
+ * Resolves the current card: applies points × current_multiplier to the receiver,
+ * records it in used_cards, refreshes the table and either finishes the game
+ * (victory or deck exhaustion) or passes the turn. Shared by claim, opponent claim and reject back.
+ * An active shield blocks negative points, and claiming an authentic memory or
+ * surviving a fatal glitch earns the receiver an item.
+ * @param state - State with a current card in play
+ * @param receiverId - The player who takes the card's points
+ * @param wasForced - True if the card was forced back via opponentRejectBack
+ * @param now - Timestamp recorded as playedAt
+ * @param timedOut - True if the card is auto-claimed because the turn deadline passed
+ * @returns The resolved state, the points applied and the side events (items, shield, game finished)
+ */
+const resolveCurrentCard = (
+  state: GameState,
+  receiverId: string,
+  wasForced: boolean,
+  now: Date,
+  timedOut: boolean = false
+): { state: GameState; points: number; events: GameEvent[] } => {
+  const card = state.current_card!;
+  const receiver = state.players[receiverId];
+  const cardPoints = card.value * state.current_multiplier;
+  const isBlocked = cardPoints < 0 && !!receiver.shielded;
+  const points = isBlocked ? 0 : cardPoints;
+  const events: GameEvent[] = [];
+
+  const players = {
+    ...state.players,
+    [receiverId]: {
+      ...receiver,
+      integrity: receiver.integrity + points,
+      ...(isBlocked && { shielded: false })
+    }
+  };
+
+  if (isBlocked) {
+    events.push({ type: 'ShieldBlocked', userId: receiverId, points: cardPoints });
+  }
+
+  const { tableCards, newCardsDrawn } = refreshTableCards(
+    state.table_cards,
+    state.selected_card_index!,
+    state.memory_deck,
+    state.cards_drawn
+  );
+
+  const playedCard: PlayedCard = {
+    card,
+    playedBy: receiverId,
+    playedAt: now,
+    multiplier: state.current_multiplier,
+    wasForced,
+    ...(timedOut && { timedOut }),
+    ...(state.auto_selected && { autoSelected: true })
+  };
+
+  let resolved: GameState = {
+    ...state,
+    players,
+    table_cards: tableCards,
+    cards_drawn: newCardsDrawn,
+    current_card: null,
+    selected_card_index: null,
+    current_multiplier: 1,
+    card_initiator: null,
+    auto_selected: false,
+    used_cards: [...state.used_cards, playedCard]
+  };
+
+  const earnsItem = (card.authenticity === 'authentic' && !wasForced) ||
+    (card.authenticity === 'fatalGlitch' && players[receiverId].integrity > state.ruleset.lossThreshold);
+
+  if (earnsItem) {
+    const granted = grantItem(resolved, receiverId);
+    resolved = granted.state;
+    if (granted.event) {
+      events.push(granted.event);
+    }
+  }
+
+  const victoryCheck = checkVictoryCondition(players, state.order_players, state.ruleset);
+
+  if (victoryCheck.hasWinner) {
+    return {
+      state: {
+        ...resolved,
+        status: 'finished',
+        winner: victoryCheck.winnerId,
+        win_reason: victoryCheck.reason as WinReason
+      },
+      points,
+      events: [...events, { type: 'GameFinished', winnerId: victoryCheck.winnerId, reason: victoryCheck.reason as WinReason }]
+    };
+  }
+
+  // No one reached the integrity limits but there are no cards left to play
+  if (!canGameContinue(tableCards, state.memory_deck, newCardsDrawn)) {
+    const exhaustion = resolveDeckExhaustion(players, state.order_players);
+    return {
+      state: {
+        ...resolved,
+        status: 'finished',
+        winner: exhaustion.winnerId,
+        win_reason: exhaustion.reason
+      },
+      points,
+      events: [...events, { type: 'GameFinished', winnerId: exhaustion.winnerId, reason: exhaustion.reason }]
+    };
+  }
+
+  return {
+    state: {
+      ...resolved,
+      turn: (state.turn + 1) % state.order_players.length,
+      turn_state: 'draw'
+    },
+    points,
+    events
+  };
+};
+
+/**
+ * DECIDE Phase: Player claims the card (accepts it)
+ * Player sees the card value and applies points × current_multiplier
+ */
+const claimCard = (state: GameState, userId: string, now: Date): ActionResult => {
+  // Validate turn state is 'decide'
+  if (state.turn_state !== 'decide') {
+    return gameError('invalid_turn_state', `No puedes reclamar una carta en este momento. Estado actual: ${state.turn_state}`);
+  }
+
+  // Validate it's the player's turn (card initiator)
+  if (state.card_initiator !== userId) {
+    return gameError('not_initiator', 'No puedes reclamar esta carta.');
+  }
+
+  if (!state.current_card) {
+    return gameError('no_current_card', 'No hay carta seleccionada.');
+  }
+
+  const resolved = resolveCurrentCard(state, userId, false, now);
+  const events: GameEvent[] = [{
+    type: 'CardClaimed',
+    userId,
+    card: state.current_card,
+    multiplier: state.current_multiplier,
+    points: resolved.points
+  }];
+
+  return {
+    state: resolved.state,
+    events: [...events, ...resolved.events]
+  };
+};
+
+/**
+ * OPPONENT_DECIDE Phase: Opponent claims the card (blind)
+ * Points × current_multiplier are applied to the opponent
+ */
+const opponentClaimCard = (state: GameState, userId: string, now: Date): ActionResult => {
+  // Validate turn state is 'opponent_decide'
+  if (state.turn_state !== 'opponent_decide') {
+    return gameError('invalid_turn_state', `No puedes reclamar en este momento. Estado actual: ${state.turn_state}`);
+  }
+
+  // Validate user is NOT the card initiator (must be opponent)
+  if (state.card_initiator === userId) {
+    return gameError('is_initiator', 'No puedes reclamar tu propia carta rechazada.');
+  }
+
+  if (!state.players[userId]) {
+    return gameError('not_in_game', 'No eres parte de esta partida.');
+  }
+
+  if (!state.current_card) {
+    return gameError('no_current_card', 'No hay carta seleccionada.');
+  }
+
+  const resolved = resolveCurrentCard(state, userId, false, now);
+  const events: GameEvent[] = [{
+    type: 'CardClaimed',
+    userId,
+    card: state.current_card,
+    multiplier: state.current_multiplier,
+    points: resolved.points
+  }];
+
+  return {
+    state: resolved.state,
+    events: [...events, ...resolved.events]
+  };
+};
+
+/**
+ * OPPONENT_DECIDE Phase: Opponent rejects back (forces card to original player)
+ * Original player receives points × current_multiplier FORCED (blind)
+ */
+const opponentRejectBack = (state: GameState, userId: string, now: Date): ActionResult => {
+  // Validate turn state is 'opponent_decide'
+  if (state.turn_state !== 'opponent_decide') {
+    return gameError('invalid_turn_state', `No puedes rechazar en este momento. Estado actual: ${state.turn_state}`);
+  }
+
+  // Validate user is NOT the card initiator (must be opponent)
+  if (state.card_initiator === userId) {
+    return gameError('is_initiator', 'No puedes rechazar tu propia carta.');
+  }
+
+  if (!state.players[userId]) {
+    return gameError('not_in_game', 'No eres parte de esta partida.');
+  }
+
+  if (!state.current_card) {
+    return gameError('no_current_card', 'No hay carta seleccionada.');
+  }
+
+  if (!state.card_initiator) {
+    return gameError('no_initiator', 'No hay jugador iniciador.');
+  }
+
+  const resolved = resolveCurrentCard(state, state.card_initiator, true, now);
+  const events: GameEvent[] = [{
+    type: 'CardForcedBack',
+    userId,
+    targetId: state.card_initiator,
+    card: state.current_card,
+    multiplier: state.current_multiplier,
+    points: resolved.points
+  }];
+
+  return {
+    state: resolved.state,
+    events: [...events, ...resolved.events]
+  };
+};
+
+/**
+ * Checks if two memory cards are the same card (Firestore data has no card ids)
+ */
+const isSameCard = (a: MemoryCard, b: MemoryCard): boolean =>
+  a.memory === b.memory && a.authenticity === b.authenticity && a.value === b.value;
+
+/**
+ * Applies an item's effect to the game state (the item is consumed by playItem)
+ * - peek: reveals a table card's authenticity to the player (stored in peeked_cards)
+ * - shield: blocks the next negative points the player receives
+ * - swap: moves a table card to the bottom of the deck and replaces it with the next deck card
+ * - cancel_multiplier: resets the multiplier of a card the opponent rejected
+ * peek, shield and swap are used at the start of the player's own turn (DRAW phase)
+ */
+const applyItemEffect = (
+  state: GameState,
+  userId: string,
+  item: ItemCard,
+  target?: ItemTarget
+): GameState | GameError => {
+  const player = state.players[userId];
+  const isOwnDrawPhase = state.turn_state === 'draw' && state.order_players[state.turn] === userId;
+  const hasValidTarget = !!target && Number.isInteger(target.cardIndex) && target.cardIndex >= 0 && target.cardIndex < state.table_cards.length;
+
+  switch (item.effect) {
+    case 'peek': {
+      if (!isOwnDrawPhase) {
+        return gameError('item_not_usable', 'Solo puedes usar este item al inicio de tu turno.');
+      }
+
+      if (!hasValidTarget) {
+        return gameError('invalid_card_index', 'Índice de carta inválido.');
+      }
+
+      const peekedCard = state.table_cards[target!.cardIndex];
+
+      return {
+        ...state,
+        players: {
+          ...state.players,
+          [userId]: { ...player, peeked_cards: [...(player.peeked_cards || []), peekedCard] }
+        }
+      };
+    }
+
+    case 'shield': {
+      if (!isOwnDrawPhase) {
+        return gameError('item_not_usable', 'Solo puedes usar este item al inicio de tu turno.');
+      }
+
+      if (player.shielded) {
+        return gameError('item_not_usable', 'Ya tienes un firewall activo.');
+      }
+
+      return {
+        ...state,
+        players: {
+          ...state.players,
+          [userId]: { ...player, shielded: true }
+        }
+      };
+    }
+
+    case 'swap': {
+      if (!isOwnDrawPhase) {
+        return gameError('item_not_usable', 'Solo puedes usar este item al inicio de tu turno.');
+      }
+
+      if (!hasValidTarget) {
+        return gameError('invalid_card_index', 'Índice de carta inválido.');
+      }
+
+      if (state.cards_drawn >= state.memory_deck.length) {
+        return gameError('deck_empty', 'No quedan cartas en el mazo para reemplazar.');
+      }
+
+      // Remove the discarded card from the drawn part of the deck and put it at the bottom,
+      // so cards_drawn still matches the cards that left the deck
+      const discardedCard = state.table_cards[target!.cardIndex];
+      const discardedIndex = state.memory_deck.findIndex(
+        (card, index) => index < state.cards_drawn && isSameCard(card, discardedCard)
+      );
+
+      // A table card always comes from the drawn part of the deck: anything else is a corrupted state
+      if (discardedIndex === -1) {
+        return gameError('invalid_target', 'La carta elegida no está en el mazo.');
+      }
+
+      const remainingDeck = state.memory_deck.filter((_, index) => index !== discardedIndex);
+      const tableCards = [...state.table_cards];
+      tableCards[target!.cardIndex] = remainingDeck[state.cards_drawn - 1];
+
+      return {
+        ...state,
+        table_cards: tableCards,
+        memory_deck: [...remainingDeck, discardedCard]
+      };
+    }
+
+    case 'cancel_multiplier': {
+      if (state.turn_state !== 'opponent_decide' || state.card_initiator === userId) {
+        return gameError('item_not_usable', 'Solo puedes usar este item cuando te rechazan una carta.');
+      }
+
+      if (state.current_multiplier === 1) {
+        return gameError('item_not_usable', 'La carta no tiene multiplicador.');
+      }
+
+      return { ...state, current_multiplier: 1 };
+    }
+  }
+};
+
+/**
+ * Player uses one of their items
+ * The item is removed from the player's hand after its effect is applied
+ */
+const playItem = (state: GameState, userId: string, itemId: string, target?: ItemTarget): ActionResult => {
+  if (!state.players[userId]) {
+    return gameError('not_in_game', 'No eres parte de esta partida.');
+  }
+
+  const item = state.players[userId].items.find(playerItem => playerItem.id === itemId);
+
+  if (!item) {
+    return gameError('item_not_owned', 'No tienes ese item.');
+  }
+
+  const nextState = applyItemEffect(state, userId, item, target);
+
+  if ('code' in nextState) {
+    return nextState;
+  }
+
+  const player = nextState.players[userId];
+
+  return {
+    state: {
+      ...nextState,
+      players: {
+        ...nextState.players,
+        [userId]: { ...player, items: player.items.filter(playerItem => playerItem.id !== itemId) }
+      }
+    },
+    events: [{ type: 'ItemUsed', userId, item, ...(target && { target }) }]
+  };
+};
+
+/**
+ * Picks the table card played for a player whose draw phase timed out
+ * Random from the deal's seed (one draw per played card), so players can't predict it while the seed
+ * is hidden, yet replays with the published seed pick the same card. Decks dealt without a seed
+ * fall back to a pick derived from the public state
+ */
+const getTimeoutCardIndex = (state: GameState): number => {
+  if (state.deck_seed === null) {
+    return (state.cards_drawn + state.used_cards.length) % state.table_cards.length;
+  }
+
+  const random = createSeededRandom(`${state.deck_seed}:timeout:${state.used_cards.length}`);
+  return Math.floor(random() * state.table_cards.length);
+};
+
+/**
+ * Resolves a phase whose deadline has passed (any player in the game can trigger it)
+ * The player who had to act gets a timeout; at GAME_CONFIG.turn.maxTimeouts they forfeit.
+ * Otherwise the phase is played for them:
+ * - draw: a table card is auto-selected (see getTimeoutCardIndex); once resolved, it is recorded
+ *   as autoSelected in used_cards
+ * - decide / opponent_decide: the card is auto-claimed and recorded as timedOut in used_cards
+ */
+const resolveTimeout = (state: GameState, userId: string, now: Date): ActionResult => {
+  if (!state.players[userId]) {
+    return gameError('not_in_game', 'No eres parte de esta partida.');
+  }
+
+  if (state.turn_deadline === null || now.getTime() < state.turn_deadline) {
+    return gameError('deadline_not_reached', 'El tiempo del turno aún no se ha agotado.');
+  }
+
+  const timedOutId = getActingPlayerId(state);
+  const timeouts = (state.players[timedOutId].timeouts || 0) + 1;
+
+  const counted: GameState = {
+    ...state,
+    players: {
+      ...state.players,
+      [timedOutId]: { ...state.players[timedOutId], timeouts }
+    }
+  };
+  const timedOutEvent: GameEvent = { type: 'TurnTimedOut', userId: timedOutId, turnState: state.turn_state, timeouts };
+
+  if (timeouts >= GAME_CONFIG.turn.maxTimeouts) {
+    const winnerId = state.order_players.find(id => id !== timedOutId)!;
+    roomLogger.info('Player forfeits after too many timeouts', { timedOutId, winnerId, timeouts });
+
+    return {
+      state: {
+        ...counted,
+        status: 'finished',
+        winner: winnerId,
+        win_reason: 'timeout'
+      },
+      events: [timedOutEvent, { type: 'GameFinished', winnerId, reason: 'timeout' }]
+    };
+  }
+
+  switch (state.turn_state) {
+    case 'draw': {
+      const selected = selectCard(counted, timedOutId, getTimeoutCardIndex(state));
+
+      if (isGameError(selected)) {
+        return selected;
+      }
+
+      return { state: { ...selected.state, auto_selected: true }, events: [timedOutEvent, ...selected.events] };
+    }
+
+    case 'decide':
+    case 'opponent_decide': {
+      if (!state.current_card) {
+        return gameError('no_current_card', 'No hay carta seleccionada.');
+      }
+
+      const resolved = resolveCurrentCard(counted, timedOutId, false, now, true);
+
+      return {
+        state: resolved.state,
+        events: [
+          timedOutEvent,
+          {
+            type: 'CardClaimed',
+            userId: timedOutId,
+            card: state.current_card,
+            multiplier: state.current_multiplier,
+            points: resolved.points
+          },
+          ...resolved.events
+        ]
+      };
+    }
+
+    default:
+      return gameError('invalid_turn_state', `No se puede resolver el tiempo en este momento. Estado actual: ${state.turn_state}`);
+  }
+};
+
+/**
+ * Sets the deadline of the phase the game is in after an action
+ * A new deadline starts whenever the phase or the turn changes; finished games have none
+ */
+const withTurnDeadline = (previous: GameState, next: GameState, now: Date): GameState => {
+  if (next.status !== 'playing') {
+    return { ...next, turn_deadline: null };
+  }
+
+  const phaseChanged = previous.turn_state !== next.turn_state || previous.turn !== next.turn;
+
+  return phaseChanged ? { ...next, turn_deadline: getPhaseDeadline(next.turn_state, now) } : next;
+};
+
+/**
+ * Finishes a match because a player left it (intro or playing)
+ * The remaining player wins with 'opponent_forfeited'; both players stay in the room
+ * so the finished room keeps the full match record
+ * @param state - Current game state
+ * @param userId - The player who leaves
+ * @returns The finished state with its GameFinished event, or a GameError if there is no match to forfeit
+ */
+export const forfeitMatch = (state: GameState, userId: string): ActionResult => {
+  if (state.status !== 'intro' && state.status !== 'playing') {
+    return gameError('not_in_progress', 'No hay una partida en curso que abandonar.');
+  }
+
+  if (!state.players[userId]) {
+    return gameError('not_in_game', 'No eres parte de esta partida.');
+  }
+
+  const winnerId = state.order_players.find(id => id !== userId) ?? null;
+
+  roomLogger.info('Player forfeits the match', { userId, winnerId });
+
+  return {
+    state: {
+      ...state,
+      status: 'finished',
+      winner: winnerId,
+      win_reason: 'opponent_forfeited',
+      turn_deadline: null
+    },
+    events: [{ type: 'GameFinished', winnerId, reason: 'opponent_forfeited' }]
+  };
+};
+
+/**
+ * Routes an action to its handler
+ */
+const dispatchAction = (state: GameState, action: GameAction, now: Date): ActionResult => {
+  switch (action.type) {
+    case 'select_card':
+      return selectCard(state, action.userId, action.cardIndex);
+    case 'claim_card':
+      return claimCard(state, action.userId, now);
+    case 'reject_card':
+      return rejectCard(state, action.userId);
+    case 'opponent_claim_card':
+      return opponentClaimCard(state, action.userId, now);
+    case 'opponent_reject_back':
+      return opponentRejectBack(state, action.userId, now);
+    case 'use_item':
+      return playItem(state, action.userId, action.itemId, action.target);
+    case 'resolve_timeout':
+      return resolveTimeout(state, action.userId, now);
+    default:
+      // Actions can come from untrusted payloads or old replays: never let them fall through
+      return gameError('unknown_action', 'Acción desconocida.');
+  }
+};
+
+/**
+ * Applies a player action to the game state
+ * Pure function: never touches Firestore and never mutates the given state,
+ * so the same rules can run inside transactions, bots, replays or simulations
+ * @param state - Current game state
+ * @param action - The action to apply
+ * @param now - Timestamp recorded on played cards and used for turn deadlines (defaults to current time)
+ * @returns The next state with the events it produced, or a GameError if the action is illegal
+ */
+export const applyAction = (
+  state: GameState,
+  action: GameAction,
+  now: Date = new Date()
+): ActionResult => {
+  roomLogger.debug('Applying game action', { type: action.type, userId: action.userId });
+
+  // Validate room status is 'playing'
+  if (state.status !== 'playing') {
+    return gameError('not_playing', 'La partida no está en progreso.');
+  }
+
+  const result = dispatchAction(state, action, now);
+
+  if (isGameError(result)) {
+    return result;
+  }
+
+  return { ...result, state: withTurnDeadline(state, result.state, now) };
+};
@@ -0,0 +1,84 @@
+import type {
+  FirestorePlayer,
+  FirestorePlayerView,
+  FirestoreRoom,
+  FirestoreRoomSecret,
+  GameState,
+  MemoryCard,
+  PublicMemoryCard
+} from '@/types';
+
+// Room fields written back after a game action (everything in GameState except the hidden deck)
+export type PublicGameState = Omit<GameState, 'players' | 'memory_deck' | 'table_cards' | 'current_card' | 'deck_seed'> &
+  Pick<FirestoreRoom, 'players' | 'table_cards' | 'current_card'>;
+
+export interface SplitGameState {
+  room: PublicGameState;
+  secret: FirestoreRoomSecret;
+  views: { [userId: string]: FirestorePlayerView };
+}
+
+/**
+ * Secret document of a room whose deck has not been dealt yet
+ */
+export const EMPTY_ROOM_SECRET: FirestoreRoomSecret = {
+  memory_deck: [],
+  table_cards: [],
+  current_card: null,
+  peeked_cards: {}
+};
+
+/**
+ * Strips a card down to what every player may see (its memory text)
+ * @param card - The full memory card
+ * @returns The card without authenticity or value
+ */
+export const toPublicCard = (card: MemoryCard): PublicMemoryCard => ({ memory: card.memory });
+
+/**
+ * Builds what one player may see of the hidden deck
+ * The card initiator sees the current card; each player sees only their own peeked cards
+ * @param state - The full game state
+ * @param userId - The player the view is for
+ * @returns The player's view document
+ */
+export const getPlayerView = (state: GameState, userId: string): FirestorePlayerView => ({
+  current_card: state.card_initiator === userId ? state.current_card : null,
+  peeked_cards: state.players[userId]?.peeked_cards || []
+});
+
+/**
+ * Splits a full game state into the client-readable room fields, the secret document
+ * and one view per player, so authenticity never reaches the room document
+ * @param state - The full game state produced by the engine
+ * @returns The room fields, the secret document and the player views
+ */
+export const splitGameState = (state: GameState): SplitGameState => {
+  const { memory_deck, table_cards, current_card, players, deck_seed, ...publicFields } = state;
+
+  const publicPlayers: { [userId: string]: FirestorePlayer } = {};
+  const peekedCards: { [userId: string]: MemoryCard[] } = {};
+
+  Object.entries(players).forEach(([playerId, player]) => {
+    const { peeked_cards, ...publicPlayer } = player;
+    publicPlayers[playerId] = publicPlayer;
+    peekedCards[playerId] = peeked_cards || [];
+  });
+
+  return {
+    room: {
+      ...publicFields,
+      players: publicPlayers,
+      table_cards: table_cards.map(toPublicCard),
+      current_card: current_card ? toPublicCard(current_card) : null
+    },
+    secret: {
+      memory_deck,
+      table_cards,
+      current_card,
+      peeked_cards: peekedCards,
+      ...(deck_seed !== null && { deck_seed })
+    },
+    views: Object.fromEntries(state.order_players.map(playerId => [playerId, getPlayerView(state, playerId)]))
+  };
+};
@@ -0,0 +1,60 @@
+import { buildGameDeck, generateItemDeck } from '@/services/deckService';
+import { applyAction, getActingPlayerId, isGameError } from '@/services/gameEngine';
+import { splitGameState } from '@/services/hiddenDeck';
+import { createDealtGameState } from '@/services/replayService';
+import { generateMemoryPool } from '@/lib/utils/memoryGenerator';
+import { DEFAULT_RULESET } from '@/config/gameConfig';
+import type { ActionResult, FirestoreRoom, GameAction, GameState, Ruleset } from '@/types';
+
+// Both seats of a hot-seat match (no accounts: the players share one device)
+export const HOT_SEAT_PLAYER_IDS = ['hotseat-1', 'hotseat-2'];
+
+/**
+ * Deals a new hot-seat match entirely in memory
+ * The memories are generated locally (the same generator that seeds decks/default),
+ * so no Firestore deck is needed
+ * @param ruleset - Rules of the match
+ * @param orderPlayers - Players in turn order (swap them for a rematch)
+ * @returns The state of the match ready for its first draw
+ */
+export const createHotSeatGame = (
+  ruleset: Ruleset = DEFAULT_RULESET,
+  orderPlayers: string[] = HOT_SEAT_PLAYER_IDS
+): GameState => {
+  const memoryDeck = buildGameDeck(generateMemoryPool(ruleset.deckSize * 3), ruleset);
+  const state = createDealtGameState({ memoryDeck, itemDeck: generateItemDeck() }, orderPlayers, ruleset);
+
+  // No turn timers: the players pass the device at their own pace
+  return { ...state, turn_deadline: null };
+};
+
+/**
+ * Applies an action to a hot-seat match with the game engine (same rules as online games)
+ * @param state - Current state of the match
+ * @param action - The action of the player holding the device
+ * @returns The next state with its events, or a GameError if the action is illegal
+ */
+export const applyHotSeatAction = (state: GameState, action: GameAction): ActionResult => {
+  const result = applyAction(state, action);
+
+  return isGameError(result) ? result : { ...result, state: { ...result.state, turn_deadline: null } };
+};
+
+/**
+ * Gets the player who should hold the device: the one who has to act next
+ * @returns The acting player's ID, or null once the match is over
+ */
+export const getHotSeatActivePlayer = (state: GameState): string | null =>
+  state.status === 'playing' ? getActingPlayerId(state) : null;
+
+/**
+ * Builds the room the game components render (GameBoard, MemoryCardModal), with public cards only
+ * Each player's hidden cards come from their own view (see getPlayerView)
+ * @param state - Current state of the match
+ */
+export const toHotSeatRoom = (state: GameState): FirestoreRoom => ({
+  ...splitGameState(state).room,
+  createdAt: null,
+  finishedAt: null,
+  lastUpdate: null
+});
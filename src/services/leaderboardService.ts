@@ -0,0 +1,63 @@
+import { userRepository } from '@/repositories';
+import { firestoreLogger } from '@/lib/utils/logger';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { FirestoreRatingChange, RankedPlayer } from '@/types';
+
+export interface LeaderboardPage {
+  players: RankedPlayer[];
+  cursor: RankedPlayer | null; // Last player of the page, to fetch the next one
+  hasMore: boolean;
+}
+
+/**
+ * Gets a page of rated players, best rating first
+ * Users who never finished a game have no rating and are not listed
+ * @param after - The cursor of the previous page (null for the first page)
+ * @returns Promise with the page of players
+ */
+export const getLeaderboardPage = async (after: RankedPlayer | null): Promise<LeaderboardPage> => {
+  const pageSize = GAME_CONFIG.rating.leaderboardPageSize;
+
+  try {
+    // One extra player tells whether there is a next page
+    const players = await userRepository.listByRating(pageSize + 1, after);
+    const pagePlayers = players.slice(0, pageSize);
+
+    return {
+      players: pagePlayers,
+      cursor: pagePlayers[pagePlayers.length - 1] ?? null,
+      hasMore: players.length > pageSize
+    };
+  } catch (error) {
+    firestoreLogger.error('Error fetching leaderboard', error);
+    throw new Error('Error al obtener la clasificación.');
+  }
+};
+
+/**
+ * Gets the leaderboard position of a rating (players tied on rating share the position)
+ * @param rating - The player's rating
+ * @returns Promise with the 1-based position
+ */
+export const getRatingRank = async (rating: number): Promise<number> => {
+  try {
+    return (await userRepository.countRatedAbove(rating)) + 1;
+  } catch (error) {
+    firestoreLogger.error('Error fetching rating rank', { rating, error });
+    throw new Error('Error al obtener tu posición.');
+  }
+};
+
+/**
+ * Gets the most recent rating changes of a user, newest first
+ * @param userId - The user
+ * @returns Promise with the rating changes
+ */
+export const getRatingHistory = async (userId: string): Promise<FirestoreRatingChange[]> => {
+  try {
+    return await userRepository.getRatingHistory(userId, GAME_CONFIG.rating.historySize);
+  } catch (error) {
+    firestoreLogger.error('Error fetching rating history', { userId, error });
+    throw new Error('Error al obtener el historial de puntuación.');
+  }
+};
@@ -0,0 +1,124 @@
+import { buildReplay, createDealtGameState, isGameEvent, simulateMatch } from '@/services/replayService';
+import { getRuleset } from '@/services/gameEngine';
+import { MATCH_EXPORT_VERSION, validateMatchExport } from '@/lib/validations/matchExport';
+import { roomLogger } from '@/lib/utils/logger';
+import type { FirestoreRoom, FirestoreRoomEvent, FirestoreTimestamp, GameState, MatchExport, ReplayStep } from '@/types';
+
+/**
+ * Converts a stored timestamp (Firebase Timestamp, Date or millis) to an ISO string
+ */
+const toIsoString = (timestamp: FirestoreTimestamp | Date | number): string =>
+  (typeof timestamp === 'number' || timestamp instanceof Date ? new Date(timestamp) : timestamp.toDate()).toISOString();
+
+/**
+ * Reads the result of a game state in the export format
+ */
+const toMatchResult = (state: GameState): MatchExport['result'] => ({
+  winner: state.winner,
+  winReason: state.win_reason,
+  integrity: Object.fromEntries(Object.entries(state.players).map(([playerId, player]) => [playerId, player.integrity]))
+});
+
+/**
+ * Exports a finished room as a portable match document
+ * The actions are rebuilt from the room's event log, so they are checked by the engine on the way out too
+ * @param roomCode - The room code
+ * @param room - The finished room
+ * @param events - The room's events in sequence order
+ * @param players - Players of the room with their display names
+ * @returns The match document (serialize it with JSON.stringify)
+ * @throws Error if the room isn't finished, the deck was never dealt or the log doesn't match the engine
+ */
+export const exportMatch = (
+  roomCode: string,
+  room: FirestoreRoom,
+  events: FirestoreRoomEvent[],
+  players: { id: string; name: string }[]
+): MatchExport => {
+  if (room.status !== 'finished') {
+    throw new Error('Solo se pueden exportar partidas terminadas.');
+  }
+
+  const deal = events.find(event => event.type === 'DeckDealt');
+  const steps = buildReplay(events, room.order_players, getRuleset(room));
+
+  if (!deal || deal.type !== 'DeckDealt' || steps.length === 0) {
+    throw new Error('Esta partida terminó antes de repartir las cartas.');
+  }
+
+  // Each step starts with the logged event of its action, which holds when it was played
+  const gameEvents = events.filter(event => isGameEvent(event));
+  let eventIndex = 0;
+  const actions = steps.slice(1).map(step => {
+    const playedAt = toIsoString(gameEvents[eventIndex].createdAt);
+    eventIndex += step.events.length;
+    return { action: step.action!, playedAt };
+  });
+
+  roomLogger.info('Match exported', { roomCode, actions: actions.length });
+
+  return {
+    version: MATCH_EXPORT_VERSION,
+    roomCode,
+    ruleset: getRuleset(room),
+    players: room.order_players.map(playerId => ({
+      id: playerId,
+      name: players.find(player => player.id === playerId)?.name ?? 'Jugador'
+    })),
+    memoryDeck: deal.memoryDeck,
+    itemDeck: deal.itemDeck,
+    ...(deal.seed && { seed: deal.seed }),
+    actions,
+    startedAt: toIsoString(deal.createdAt),
+    finishedAt: room.finishedAt ? toIsoString(room.finishedAt) : null,
+    result: toMatchResult(steps[steps.length - 1].state)
+  };
+};
+
+/**
+ * Replays the actions of a match document from its dealt deck
+ * @param match - A validated match document
+ * @returns One step per action, starting with the dealt table
+ * @throws Error if an action is illegal
+ */
+export const replayMatchExport = (match: MatchExport): ReplayStep[] =>
+  simulateMatch(
+    createDealtGameState(match, match.players.map(player => player.id), match.ruleset),
+    match.actions.map(({ action }) => action)
+  );
+
+/**
+ * Imports a match document: validates it and plays it again to verify the recorded result
+ * @param json - Contents of the exported file
+ * @returns The match and its replay steps
+ * @throws Error if the file is invalid or the simulation doesn't reach the recorded result
+ */
+export const importMatch = (json: string): { match: MatchExport; steps: ReplayStep[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('El archivo no es un JSON válido.');
+  }
+
+  const match = validateMatchExport(data);
+  const steps = replayMatchExport(match);
+  const simulatedResult = toMatchResult(steps[steps.length - 1].state);
+
+  const matchesRecordedResult = simulatedResult.winner === match.result.winner &&
+    simulatedResult.winReason === match.result.winReason &&
+    match.players.every(({ id }) => simulatedResult.integrity[id] === match.result.integrity[id]);
+
+  if (!matchesRecordedResult) {
+    roomLogger.warn('Imported match result does not match its simulation', {
+      roomCode: match.roomCode,
+      recorded: match.result,
+      simulated: simulatedResult
+    });
+    throw new Error('El resultado registrado no coincide con la simulación de la partida.');
+  }
+
+  roomLogger.info('Match imported', { roomCode: match.roomCode, actions: match.actions.length });
+
+  return { match, steps };
+};
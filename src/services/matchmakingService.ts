@@ -0,0 +1,30 @@
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { MatchmakingCandidate } from '@/types';
+
+/**
+ * Checks if a queue entry has waited longer than the matchmaking timeout
+ * Expired entries are never paired (their player already gave up the search)
+ * @param joinedAt - When the player joined the queue (milliseconds)
+ * @param now - Current time (milliseconds)
+ */
+export const isQueueEntryExpired = (joinedAt: number, now: number): boolean =>
+  now - joinedAt >= GAME_CONFIG.matchmaking.timeoutSeconds * 1000;
+
+/**
+ * Picks the opponent for a player joining the queue: the closest rating,
+ * and among equal gaps the one who has waited the longest
+ * @param candidates - Waiting players (not expired, the joining player excluded)
+ * @param rating - The joining player's rating
+ * @returns The opponent, or null if nobody is waiting
+ */
+export const findOpponent = (candidates: MatchmakingCandidate[], rating: number): MatchmakingCandidate | null =>
+  candidates.reduce<MatchmakingCandidate | null>((best, candidate) => {
+    if (!best) {
+      return candidate;
+    }
+
+    const gap = Math.abs(candidate.rating - rating);
+    const bestGap = Math.abs(best.rating - rating);
+
+    return gap < bestGap || (gap === bestGap && candidate.joinedAt < best.joinedAt) ? candidate : best;
+  }, null);
@@ -0,0 +1,59 @@
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { GameState, RatingChange, RatingResult } from '@/types';
+
+/**
+ * Gets the expected score of a player against an opponent (Elo)
+ * @param rating - The player's rating
+ * @param opponentRating - The opponent's rating
+ * @returns A number between 0 (sure loss) and 1 (sure win)
+ */
+export const getExpectedScore = (rating: number, opponentRating: number): number =>
+  1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+/**
+ * Gets the outcome of a finished game for a player
+ * A forfeit is a regular loss for the player who left (and a win for the other one)
+ */
+export const getRatingResult = (state: GameState, playerId: string): RatingResult => {
+  if (state.winner === null) {
+    return 'draw';
+  }
+
+  return state.winner === playerId ? 'win' : 'loss';
+};
+
+const RESULT_SCORES: Record<RatingResult, number> = {
+  win: 1,
+  loss: 0,
+  draw: 0.5
+};
+
+/**
+ * Computes the rating change of both players after a finished game
+ * @param state - The finished game state
+ * @param ratings - Each player's rating before the game (players without one start at the initial rating)
+ * @returns The rating change of each player
+ */
+export const getRatingChanges = (
+  state: GameState,
+  ratings: { [userId: string]: number | undefined }
+): { [userId: string]: RatingChange } => {
+  const ratingOf = (playerId: string) => ratings[playerId] ?? GAME_CONFIG.rating.initial;
+
+  return Object.fromEntries(state.order_players.map(playerId => {
+    const opponentId = state.order_players.find(id => id !== playerId)!;
+    const result = getRatingResult(state, playerId);
+    const expected = getExpectedScore(ratingOf(playerId), ratingOf(opponentId));
+    const change = GAME_CONFIG.rating.kFactor * (RESULT_SCORES[result] - expected);
+    // Rounded away from zero on both sides, so one player gains exactly what the other loses
+    const delta = Math.sign(change) * Math.round(Math.abs(change));
+
+    return [playerId, {
+      rating: ratingOf(playerId) + delta,
+      delta,
+      result,
+      opponentId,
+      opponentRating: ratingOf(opponentId)
+    }];
+  }));
+};
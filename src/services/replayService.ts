@@ -0,0 +1,178 @@
+import { applyAction, forfeitMatch, getPhaseDeadline, initializeTableCards, isGameError } from '@/services/gameEngine';
+import { roomLogger } from '@/lib/utils/logger';
+import type { ActionResult, GameEvent, GameState, MatchAction, ReplayStep, RoomEvent, Ruleset } from '@/types';
+
+// Replays run on their own clock starting at the epoch: only the order of the actions matters,
+// so a timed-out phase is resolved exactly at the deadline the replay itself computed
+const REPLAY_START = new Date(0);
+
+type DeckDealtEvent = Extract<RoomEvent, { type: 'DeckDealt' }>;
+
+const GAME_EVENT_TYPES = new Set<RoomEvent['type']>([
+  'CardSelected',
+  'CardRejected',
+  'CardClaimed',
+  'CardForcedBack',
+  'ItemEarned',
+  'ItemUsed',
+  'ShieldBlocked',
+  'TurnTimedOut',
+  'GameFinished'
+]);
+
+/**
+ * Checks if a logged event was produced by the game engine (not by the room lifecycle)
+ */
+export const isGameEvent = (event: RoomEvent): event is GameEvent => GAME_EVENT_TYPES.has(event.type);
+
+/**
+ * Builds the game state right after the deck was dealt (same initial values as a new room)
+ * @param deal - The dealt memory and item decks, with the deal's seed if any (a DeckDealt event)
+ * @param orderPlayers - Players in turn order
+ * @param ruleset - Rules of the match
+ * @returns The state the first action was applied to
+ */
+export const createDealtGameState = (
+  deal: Pick<DeckDealtEvent, 'memoryDeck' | 'itemDeck' | 'seed'>,
+  orderPlayers: string[],
+  ruleset: Ruleset
+): GameState => ({
+  players: Object.fromEntries(orderPlayers.map(playerId => [playerId, { integrity: 0, items: [] }])),
+  status: 'playing',
+  order_players: orderPlayers,
+  turn: 0,
+  memory_deck: deal.memoryDeck,
+  current_card: null,
+  table_cards: initializeTableCards(deal.memoryDeck, ruleset.tableSize),
+  cards_drawn: ruleset.tableSize,
+  turn_state: 'draw',
+  selected_card_index: null,
+  current_multiplier: 1,
+  card_initiator: null,
+  auto_selected: false,
+  deck_seed: deal.seed ?? null,
+  turn_deadline: getPhaseDeadline('draw', REPLAY_START),
+  used_cards: [],
+  item_deck: deal.itemDeck,
+  winner: null,
+  win_reason: null,
+  ruleset
+});
+
+/**
+ * Applies a recorded action with the game engine, on the replay clock
+ * @param state - State the action was played on
+ * @param action - The recorded action
+ * @returns The next state with its events, or a GameError if the action is illegal
+ */
+export const applyMatchAction = (state: GameState, action: MatchAction): ActionResult => {
+  switch (action.type) {
+    case 'forfeit':
+      return forfeitMatch(state, action.userId);
+    case 'resolve_timeout':
+      return applyAction(state, action, new Date(state.turn_deadline ?? 0));
+    default:
+      return applyAction(state, action, REPLAY_START);
+  }
+};
+
+/**
+ * Finds the action that produced an event, given the state it was applied to
+ * Side events (ItemEarned, ShieldBlocked) never start an action
+ * @returns The recorded action, or null if the event can't start one
+ */
+const toMatchAction = (state: GameState, event: GameEvent): MatchAction | null => {
+  switch (event.type) {
+    case 'CardSelected':
+      return { type: 'select_card', userId: event.userId, cardIndex: event.cardIndex };
+    case 'CardRejected':
+      return { type: 'reject_card', userId: event.userId };
+    case 'CardClaimed':
+      return { type: state.turn_state === 'decide' ? 'claim_card' : 'opponent_claim_card', userId: event.userId };
+    case 'CardForcedBack':
+      return { type: 'opponent_reject_back', userId: event.userId };
+    case 'ItemUsed':
+      return { type: 'use_item', userId: event.userId, itemId: event.item.id, ...(event.target && { target: event.target }) };
+    case 'TurnTimedOut':
+      return { type: 'resolve_timeout', userId: event.userId };
+    case 'GameFinished': {
+      // A game only finishes on its own event when a player forfeits it
+      const leaverId = state.order_players.find(playerId => playerId !== event.winnerId);
+      return event.reason === 'opponent_forfeited' && leaverId ? { type: 'forfeit', userId: leaverId } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Plays a list of recorded actions from a starting state
+ * @param initialState - State right after the deck was dealt (see createDealtGameState)
+ * @param actions - Actions in play order
+ * @returns One step per action, starting with the initial state
+ * @throws Error if an action is illegal at the point it was recorded
+ */
+export const simulateMatch = (initialState: GameState, actions: MatchAction[]): ReplayStep[] => {
+  const steps: ReplayStep[] = [{ action: null, events: [], state: initialState }];
+
+  actions.forEach((action, index) => {
+    const result = applyMatchAction(steps[steps.length - 1].state, action);
+
+    if (isGameError(result)) {
+      roomLogger.error('Recorded action rejected by the engine', { actionIndex: index, type: action.type, error: result.code });
+      throw new Error(`La jugada ${index + 1} de la partida no es válida: ${result.message}`);
+    }
+
+    steps.push({ action, events: result.events, state: result.state });
+  });
+
+  return steps;
+};
+
+/**
+ * Rebuilds a finished match turn by turn from its event log
+ * Every logged action is applied again with the game engine, starting from the dealt deck,
+ * and the events it produces must match the log
+ * @param events - The room's events in sequence order
+ * @param orderPlayers - Players in turn order
+ * @param ruleset - Rules of the match
+ * @returns One step per action, starting with the dealt table (empty if the deck was never dealt)
+ * @throws Error if the log doesn't match what the engine produces
+ */
+export const buildReplay = (
+  events: RoomEvent[],
+  orderPlayers: string[],
+  ruleset: Ruleset
+): ReplayStep[] => {
+  const deal = events.find((event): event is DeckDealtEvent => event.type === 'DeckDealt');
+
+  if (!deal) {
+    return [];
+  }
+
+  const gameEvents = events.filter(isGameEvent);
+  const steps: ReplayStep[] = [{ action: null, events: [], state: createDealtGameState(deal, orderPlayers, ruleset) }];
+  let index = 0;
+
+  while (index < gameEvents.length) {
+    const { state } = steps[steps.length - 1];
+    const action = toMatchAction(state, gameEvents[index]);
+    const result = action ? applyMatchAction(state, action) : null;
+    const loggedEvents = result && !isGameError(result) ? gameEvents.slice(index, index + result.events.length) : [];
+
+    if (!action || !result || isGameError(result) ||
+      result.events.some((event, eventIndex) => event.type !== loggedEvents[eventIndex]?.type)) {
+      roomLogger.error('Replay diverged from the event log', {
+        eventIndex: index,
+        eventType: gameEvents[index].type,
+        error: result && isGameError(result) ? result.code : null
+      });
+      throw new Error('El historial de la partida no coincide con sus jugadas.');
+    }
+
+    steps.push({ action, events: loggedEvents, state: result.state });
+    index += loggedEvents.length;
+  }
+
+  return steps;
+};
@@ -1,169 +1,152 @@
-import { customAlphabet } from 'nanoid';
-import {
-  doc,
-  getDoc,
-  updateDoc,
-  Timestamp,
-  runTransaction
-} from 'firebase/firestore';
-import { db } from '@/lib/firebase/config';
+import { httpsCallable } from 'firebase/functions';
 import { roomLogger } from '@/lib/utils/logger';
-import { generateGameDeck } from './deckService';
-import { initializeTableCards } from './gameService';
-import type { FirestoreRoom, RoomStatus } from '@/types';
-
-// Custom alphabet for room codes (no confusing characters: 0/O, 1/I)
-const ROOM_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
-const ROOM_CODE_LENGTH = 6;
-const MAX_GENERATION_ATTEMPTS = 3;
-
-const generateRoomCode = customAlphabet(ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH);
+import { functions } from '@/lib/firebase/config';
+import { deckRepository, roomRepository, userRepository } from '@/repositories';
+import type {
+  AddBotRequest,
+  BotDifficulty,
+  CreateRoomRequest,
+  DeckSummary,
+  FirestoreRoom,
+  FirestoreRoomEvent,
+  MatchmakingResponse,
+  RoomCodeResponse,
+  RoomRequest,
+  Ruleset,
+  UpdateDeckRequest,
+  UpdateRulesetRequest,
+  UpdateSeriesLengthRequest
+} from '@/types';
+
+// Rooms are written only by the trusted resolver (Cloud Functions, see functions/src/roomLifecycle.ts)
+// The server acts as the signed-in user and validates every transition
+const createRoomCallable = httpsCallable<CreateRoomRequest, RoomCodeResponse>(functions, 'createRoom');
+const updateRoomRulesetCallable = httpsCallable<UpdateRulesetRequest, void>(functions, 'updateRoomRuleset');
+const updateRoomDeckCallable = httpsCallable<UpdateDeckRequest, void>(functions, 'updateRoomDeck');
+const updateRoomSeriesLengthCallable = httpsCallable<UpdateSeriesLengthRequest, void>(functions, 'updateRoomSeriesLength');
+const joinRoomCallable = httpsCallable<RoomRequest, void>(functions, 'joinRoom');
+const leaveRoomCallable = httpsCallable<RoomRequest, void>(functions, 'leaveRoom');
+const startGameCallable = httpsCallable<RoomRequest, void>(functions, 'startGame');
+const completeIntroCallable = httpsCallable<RoomRequest, void>(functions, 'completeIntro');
+const requestRematchCallable = httpsCallable<RoomRequest, void>(functions, 'requestRematch');
+const acceptRematchCallable = httpsCallable<RoomRequest, RoomCodeResponse>(functions, 'acceptRematch');
+const startNextSeriesGameCallable = httpsCallable<RoomRequest, RoomCodeResponse>(functions, 'startNextSeriesGame');
+const joinMatchmakingCallable = httpsCallable<void, MatchmakingResponse>(functions, 'joinMatchmaking');
+const leaveMatchmakingCallable = httpsCallable<void, void>(functions, 'leaveMatchmaking');
+const addBotToRoomCallable = httpsCallable<AddBotRequest, void>(functions, 'addBotToRoom');
+const playBotTurnCallable = httpsCallable<RoomRequest, void>(functions, 'playBotTurn');
 
 /**
- * Generates a unique room code that doesn't already exist in Firestore
- * @returns Promise with the unique room code
- * @throws Error if unable to generate unique code after MAX_GENERATION_ATTEMPTS
+ * Runs a room lifecycle call, logging its failure
+ * Server errors arrive with their Spanish message, shown as is
+ * @param description - What the call does (for logs)
+ * @param context - Log context
+ * @param fallbackMessage - Message for errors without one
+ * @param call - The callable invocation
  */
-export const generateUniqueRoomCode = async (): Promise<string> => {
-  roomLogger.info('Generating unique room code');
-
-  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
-    const roomCode = generateRoomCode();
-    roomLogger.debug(`Generated room code attempt ${attempt}`, { roomCode });
-
-    // Check if room already exists
-    const roomRef = doc(db, 'rooms', roomCode);
-    const roomSnap = await getDoc(roomRef);
-
-    if (!roomSnap.exists()) {
-      roomLogger.info('Unique room code generated successfully', { roomCode, attempts: attempt });
-      return roomCode;
+const runRoomCall = async <T>(
+  description: string,
+  context: Record<string, unknown>,
+  fallbackMessage: string,
+  call: () => Promise<T>
+): Promise<T> => {
+  try {
+    return await call();
+  } catch (error: any) {
+    if (error instanceof Error) {
+      roomLogger.error(`Failed to ${description}`, { ...context, message: error.message });
+      throw error;
     }
 
-    roomLogger.warn('Room code collision detected, retrying', { roomCode, attempt });
+    roomLogger.error(`Unexpected error trying to ${description}`, { ...context, error });
+    throw new Error(fallbackMessage);
   }
-
-  const error = new Error('No se pudo generar un código de sala único. Intenta nuevamente.');
-  roomLogger.error('Failed to generate unique room code after max attempts', { maxAttempts: MAX_GENERATION_ATTEMPTS });
-  throw error;
 };
 
 /**
- * Creates a new game room in Firestore with initial state
- * @param userId - The ID of the user creating the room
- * @param roomCode - Optional custom room code (if not provided, generates unique one)
+ * Creates a new game room for the signed-in user (its creator and first player)
+ * @param ruleset - Rules for the room (classic rules when omitted), snapshotted onto the room
+ * @param isPublic - List the room in the lobby browser (private rooms are joined by code)
+ * @param deckId - Deck from the catalog (the default deck when omitted) or one of the user's private decks
+ * @param isCustomDeck - deckId is one of the user's private decks
  * @returns Promise with the created room code
- * @throws Error if room creation fails
+ * @throws Error if the ruleset or deck is invalid or room creation fails
  */
-export const createRoom = async (userId: string, roomCode?: string): Promise<string> => {
-  roomLogger.info('Creating new room', { userId, customRoomCode: !!roomCode });
+export const createRoom = async (
+  ruleset?: Ruleset,
+  isPublic: boolean = false,
+  deckId?: string,
+  isCustomDeck: boolean = false
+): Promise<string> => {
+  roomLogger.info('Creating new room', { isPublic, deckId, isCustomDeck });
+
+  return runRoomCall('create room', { isPublic, deckId }, 'Error al crear la sala. Intenta nuevamente.', async () => {
+    const { data } = await createRoomCallable({ ruleset, isPublic, deckId, isCustomDeck });
+    roomLogger.info('Room created successfully', { roomCode: data.roomCode });
+    return data.roomCode;
+  });
+};
 
-  try {
-    // Generate unique room code if not provided
-    const finalRoomCode = roomCode || await generateUniqueRoomCode();
-
-    // Generate the game deck (15 random cards with authenticity)
-    roomLogger.info('Generating game deck for new room', { roomCode: finalRoomCode });
-    const memoryDeck = await generateGameDeck();
-    roomLogger.info('Game deck generated', { roomCode: finalRoomCode, deckSize: memoryDeck.length });
-
-    // Initialize table cards with first 3 cards from the deck
-    const tableCards = initializeTableCards(memoryDeck);
-    roomLogger.info('Table cards initialized', { roomCode: finalRoomCode, tableCardsCount: tableCards.length });
-
-    // Use transaction to ensure atomicity (room creation + user update)
-    const result = await runTransaction(db, async (transaction) => {
-      const roomRef = doc(db, 'rooms', finalRoomCode);
-      const userRef = doc(db, 'users', userId);
-
-      // Double-check room doesn't exist (in case of custom code)
-      const roomSnap = await transaction.get(roomRef);
-      if (roomSnap.exists()) {
-        throw new Error('La sala ya existe. Intenta con otro código.');
-      }
-
-      // Verify user exists
-      const userSnap = await transaction.get(userRef);
-      if (!userSnap.exists()) {
-        throw new Error('Usuario no encontrado. Por favor inicia sesión nuevamente.');
-      }
-
-      // Prepare room data according to Firestore schema
-      const now = Timestamp.now();
-      const roomData: FirestoreRoom = {
-        players: {
-          [userId]: {
-            integrity: 0, // Starting life points
-            items: []
-          }
-        },
-        status: 'waiting' as RoomStatus,
-        createdAt: now,
-        finishedAt: null,
-        lastUpdate: now,
-        order_players: [userId], // Creator is first player
-        turn: 0, // First player's turn
-        memory_deck: memoryDeck, // Populated with 15 random cards
-        current_card: null,
-        table_cards: tableCards, // First 3 cards visible on the table
-        cards_drawn: 3, // 3 cards already drawn for the table
-        turn_state: 'draw', // Initial state: waiting for card selection
-        selected_card_index: null, // No card selected yet
-        current_multiplier: 1, // Default multiplier
-        card_initiator: null, // No initiator yet
-        used_cards: [], // Track all played cards
-        revealed_real_memories: [] // Track authentic memories that have been claimed
-      };
-
-      roomLogger.debug('Creating room document', {
-        roomCode: finalRoomCode,
-        deckSize: memoryDeck.length,
-        status: roomData.status
-      });
-
-      // Create room document
-      transaction.set(roomRef, roomData);
-
-      // Update user's current_room field
-      transaction.update(userRef, {
-        current_room: finalRoomCode
-      });
-
-      roomLogger.info('Room created successfully', {
-        roomCode: finalRoomCode,
-        userId,
-        status: 'waiting',
-        deckCards: memoryDeck.length
-      });
-
-      return finalRoomCode;
-    });
-
-    return result;
-  } catch (error: any) {
-    // Handle Firestore transaction errors
-    if (error.code === 'permission-denied') {
-      roomLogger.error('Permission denied creating room', { userId, error });
-      throw new Error('No tienes permisos para crear una sala.');
-    }
+/**
+ * Changes the ruleset of a room that is still waiting for players (creator only)
+ * @param roomCode - The room code
+ * @param ruleset - The new ruleset (a preset or tweaked values)
+ * @returns Promise that resolves when the ruleset is saved
+ * @throws Error if validation fails or user doesn't have permission
+ */
+export const updateRoomRuleset = async (roomCode: string, ruleset: Ruleset): Promise<void> => {
+  roomLogger.info('Updating room ruleset', { roomCode });
 
-    if (error.code === 'unavailable') {
-      roomLogger.error('Firestore unavailable', { error });
-      throw new Error('Servicio no disponible. Verifica tu conexión.');
-    }
+  await runRoomCall('update room ruleset', { roomCode }, 'Error al actualizar las reglas de la sala.', () =>
+    updateRoomRulesetCallable({ roomCode, ruleset })
+  );
+};
 
-    // Re-throw custom errors
-    if (error instanceof Error) {
-      roomLogger.error('Room creation failed', { userId, message: error.message });
-      throw error;
-    }
+/**
+ * Changes the deck of a room that is still waiting for players (creator only)
+ * @param roomCode - The room code
+ * @param deckId - Deck from the catalog (see listDecks) or one of the user's private decks
+ * @param isCustomDeck - deckId is one of the user's private decks (see customDeckService)
+ * @returns Promise that resolves when the deck is saved
+ * @throws Error if the deck is missing, too small for the room's rules, or user doesn't have permission
+ */
+export const updateRoomDeck = async (roomCode: string, deckId: string, isCustomDeck: boolean = false): Promise<void> => {
+  roomLogger.info('Updating room deck', { roomCode, deckId, isCustomDeck });
 
-    // Generic error
-    roomLogger.error('Unexpected error creating room', { userId, error });
-    throw new Error('Error al crear la sala. Intenta nuevamente.');
+  await runRoomCall('update room deck', { roomCode, deckId }, 'Error al actualizar el mazo de la sala.', () =>
+    updateRoomDeckCallable({ roomCode, deckId, isCustomDeck })
+  );
+};
+
+/**
+ * Lists the deck catalog (decks/{id} metadata, readable by any signed-in user)
+ * @returns Promise with the decks, sorted by name
+ */
+export const listDecks = async (): Promise<DeckSummary[]> => {
+  try {
+    const decks = await deckRepository.list();
+    return decks.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    roomLogger.error('Error listing decks', { error });
+    throw new Error('Error al cargar los mazos.');
   }
 };
 
+/**
+ * Changes the series length of a room that is still waiting for players (creator only)
+ * @param roomCode - The room code
+ * @param bestOf - Series length (one of GAME_CONFIG.series.lengths, 1 = single game)
+ * @returns Promise that resolves when the series length is saved
+ * @throws Error if validation fails or user doesn't have permission
+ */
+export const updateRoomSeriesLength = async (roomCode: string, bestOf: number): Promise<void> => {
+  roomLogger.info('Updating room series length', { roomCode, bestOf });
+
+  await runRoomCall('update room series length', { roomCode, bestOf }, 'Error al actualizar la serie de la sala.', () =>
+    updateRoomSeriesLengthCallable({ roomCode, bestOf })
+  );
+};
+
 /**
  * Checks if a room exists in Firestore
  * @param roomCode - The room code to check
@@ -171,9 +154,7 @@ export const createRoom = async (userId: string, roomCode?: string): Promise<str
  */
 export const roomExists = async (roomCode: string): Promise<boolean> => {
   try {
-    const roomRef = doc(db, 'rooms', roomCode);
-    const roomSnap = await getDoc(roomRef);
-    return roomSnap.exists();
+    return (await roomRepository.get(roomCode)) !== null;
   } catch (error) {
     roomLogger.error('Error checking room existence', { roomCode, error });
     return false;
@@ -188,15 +169,13 @@ export const roomExists = async (roomCode: string): Promise<boolean> => {
 export const getRoom = async (roomCode: string): Promise<FirestoreRoom | null> => {
   try {
     roomLogger.debug('Fetching room data', { roomCode });
-    const roomRef = doc(db, 'rooms', roomCode);
-    const roomSnap = await getDoc(roomRef);
+    const roomData = await roomRepository.get(roomCode);
 
-    if (!roomSnap.exists()) {
+    if (!roomData) {
       roomLogger.warn('Room not found', { roomCode });
       return null;
     }
 
-    const roomData = roomSnap.data() as FirestoreRoom;
     roomLogger.debug('Room data fetched successfully', { roomCode, status: roomData.status });
     return roomData;
   } catch (error) {
@@ -205,6 +184,22 @@ export const getRoom = async (roomCode: string): Promise<FirestoreRoom | null> =
   }
 };
 
+/**
+ * Gets the event log of a finished room, in sequence order
+ * The log stays hidden by the security rules until the room is finished
+ * @param roomCode - The room code
+ * @returns Promise with the room's events
+ */
+export const getRoomEvents = async (roomCode: string): Promise<FirestoreRoomEvent[]> => {
+  try {
+    roomLogger.debug('Fetching room events', { roomCode });
+    return await roomRepository.getEvents(roomCode);
+  } catch (error) {
+    roomLogger.error('Error fetching room events', { roomCode, error });
+    throw new Error('Error al obtener el historial de la sala.');
+  }
+};
+
 /**
  * Updates user's current_room field in Firestore
  * @param userId - The user ID to update
@@ -217,10 +212,7 @@ export const updateUserCurrentRoom = async (
 ): Promise<void> => {
   try {
     roomLogger.debug('Updating user current room', { userId, roomCode });
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      current_room: roomCode
-    });
+    await userRepository.update(userId, user => ({ ...user, current_room: roomCode }));
     roomLogger.info('User current room updated', { userId, roomCode });
   } catch (error) {
     roomLogger.error('Error updating user current room', { userId, roomCode, error });
@@ -229,264 +221,165 @@ export const updateUserCurrentRoom = async (
 };
 
 /**
- * Joins an existing room (adds player to room)
- * @param userId - The ID of the user joining
+ * Joins an existing room as its second player
  * @param roomCode - The room code to join
  * @returns Promise that resolves when join is complete
  * @throws Error if room is full, doesn't exist, or join fails
  */
-export const joinRoom = async (userId: string, roomCode: string): Promise<void> => {
-  roomLogger.info('User attempting to join room', { userId, roomCode });
+export const joinRoom = async (roomCode: string): Promise<void> => {
+  roomLogger.info('Joining room', { roomCode });
 
-  try {
-    await runTransaction(db, async (transaction) => {
-      const roomRef = doc(db, 'rooms', roomCode);
-      const userRef = doc(db, 'users', userId);
-
-      // Get room data
-      const roomSnap = await transaction.get(roomRef);
-      if (!roomSnap.exists()) {
-        throw new Error('La sala no existe.');
-      }
-
-      const roomData = roomSnap.data() as FirestoreRoom;
-
-      // Check if room is full (max 2 players)
-      const playerCount = Object.keys(roomData.players).length;
-      if (playerCount >= 2) {
-        throw new Error('La sala está llena (máximo 2 jugadores).');
-      }
-
-      // Check if user is already in the room
-      if (roomData.players[userId]) {
-        roomLogger.warn('User already in room', { userId, roomCode });
-        throw new Error('Ya estás en esta sala.');
-      }
-
-      // Check if room has already started
-      if (roomData.status !== 'waiting') {
-        throw new Error('La partida ya ha comenzado.');
-      }
-
-      // Add player to room
-      transaction.update(roomRef, {
-        [`players.${userId}`]: {
-          integrity: 0,
-          items: []
-        },
-        order_players: [...roomData.order_players, userId],
-        lastUpdate: Timestamp.now()
-      });
-
-      // Update user's current_room
-      transaction.update(userRef, {
-        current_room: roomCode
-      });
-
-      roomLogger.info('User joined room successfully', { userId, roomCode, playerCount: playerCount + 1 });
-    });
-  } catch (error: any) {
-    if (error instanceof Error) {
-      roomLogger.error('Failed to join room', { userId, roomCode, message: error.message });
-      throw error;
-    }
-    roomLogger.error('Unexpected error joining room', { userId, roomCode, error });
-    throw new Error('Error al unirse a la sala.');
-  }
+  await runRoomCall('join room', { roomCode }, 'Error al unirse a la sala.', () =>
+    joinRoomCallable({ roomCode })
+  );
 };
 
 /**
- * Leaves a room (removes player from room)
- * @param userId - The ID of the user leaving
+ * Leaves a room
+ * - waiting: removes the player from the room (deletes it if empty)
+ * - intro/playing: the player forfeits, the room finishes with the remaining player as winner
+ * - finished: the room is kept untouched as the match record
  * @param roomCode - The room code to leave
  * @returns Promise that resolves when leave is complete
  */
-export const leaveRoom = async (userId: string, roomCode: string): Promise<void> => {
-  roomLogger.info('User leaving room', { userId, roomCode });
+export const leaveRoom = async (roomCode: string): Promise<void> => {
+  roomLogger.info('Leaving room', { roomCode });
 
-  try {
-    await runTransaction(db, async (transaction) => {
-      const roomRef = doc(db, 'rooms', roomCode);
-      const userRef = doc(db, 'users', userId);
-
-      // Get room data
-      const roomSnap = await transaction.get(roomRef);
-      if (!roomSnap.exists()) {
-        roomLogger.warn('Room does not exist when leaving', { userId, roomCode });
-        // Still clear user's current_room
-        transaction.update(userRef, { current_room: null });
-        return;
-      }
-
-      const roomData = roomSnap.data() as FirestoreRoom;
-
-      // Remove player from room
-      const updatedPlayers = { ...roomData.players };
-      delete updatedPlayers[userId];
-
-      const updatedOrderPlayers = roomData.order_players.filter(id => id !== userId);
-      const remainingPlayersCount = updatedOrderPlayers.length;
-
-      // If room is in 'waiting' status and no players left, delete the room
-      if (roomData.status === 'waiting' && remainingPlayersCount === 0) {
-        roomLogger.info('Deleting empty waiting room', { userId, roomCode });
-        transaction.delete(roomRef);
-      }
-      // If players remain, just update the room
-      else if (remainingPlayersCount > 0) {
-        transaction.update(roomRef, {
-          players: updatedPlayers,
-          order_players: updatedOrderPlayers,
-          lastUpdate: Timestamp.now()
-        });
-        roomLogger.info('Player removed from room', { userId, roomCode, remainingPlayers: remainingPlayersCount });
-      }
-      // If no players left in active game, mark as finished (don't delete)
-      else {
-        transaction.update(roomRef, {
-          players: updatedPlayers,
-          order_players: updatedOrderPlayers,
-          status: 'finished' as RoomStatus,
-          finishedAt: Timestamp.now(),
-          lastUpdate: Timestamp.now()
-        });
-        roomLogger.info('Game ended due to player leaving', { userId, roomCode });
-      }
-
-      // Clear user's current_room
-      transaction.update(userRef, {
-        current_room: null
-      });
-
-      roomLogger.info('User left room successfully', { userId, roomCode });
-    });
-  } catch (error) {
-    roomLogger.error('Error leaving room', { userId, roomCode, error });
-    throw new Error('Error al salir de la sala.');
-  }
+  await runRoomCall('leave room', { roomCode }, 'Error al salir de la sala.', () =>
+    leaveRoomCallable({ roomCode })
+  );
 };
 
 /**
- * Starts a game by changing room status from 'waiting' to 'intro'
- * Only the room creator (first player in order_players) can start the game
- * @param userId - The ID of the user attempting to start the game
+ * Starts a game by changing room status from 'waiting' to 'intro' (creator only)
  * @param roomCode - The room code to start
  * @returns Promise that resolves when game is started
  * @throws Error if validation fails or user doesn't have permission
  */
-export const startGame = async (userId: string, roomCode: string): Promise<void> => {
-  roomLogger.info('User attempting to start game', { userId, roomCode });
+export const startGame = async (roomCode: string): Promise<void> => {
+  roomLogger.info('Starting game', { roomCode });
 
-  try {
-    await runTransaction(db, async (transaction) => {
-      const roomRef = doc(db, 'rooms', roomCode);
-
-      // Get room data
-      const roomSnap = await transaction.get(roomRef);
-      if (!roomSnap.exists()) {
-        throw new Error('La sala no existe.');
-      }
-
-      const roomData = roomSnap.data() as FirestoreRoom;
-
-      // Validate room status is 'waiting'
-      if (roomData.status !== 'waiting') {
-        throw new Error('La partida ya ha comenzado o ha finalizado.');
-      }
-
-      // Validate exactly 2 players
-      const playerCount = Object.keys(roomData.players).length;
-      if (playerCount !== 2) {
-        throw new Error('Se necesitan exactamente 2 jugadores para iniciar la partida.');
-      }
-
-      // Validate user is the creator (first in order_players)
-      const creatorId = roomData.order_players[0];
-      if (creatorId !== userId) {
-        throw new Error('Solo el creador de la sala puede iniciar la partida.');
-      }
-
-      // Update room status to 'intro'
-      transaction.update(roomRef, {
-        status: 'intro' as RoomStatus,
-        lastUpdate: Timestamp.now()
-      });
-
-      roomLogger.info('Game started successfully', {
-        userId,
-        roomCode,
-        playerCount,
-        newStatus: 'intro'
-      });
-    });
-  } catch (error: any) {
-    // Handle transaction errors
-    if (error instanceof Error) {
-      roomLogger.error('Failed to start game', {
-        userId,
-        roomCode,
-        message: error.message
-      });
-      throw error;
-    }
-
-    // Generic error
-    roomLogger.error('Unexpected error starting game', { userId, roomCode, error });
-    throw new Error('Error al iniciar la partida.');
-  }
+  await runRoomCall('start game', { roomCode }, 'Error al iniciar la partida.', () =>
+    startGameCallable({ roomCode })
+  );
 };
 
 /**
  * Completes the intro phase by changing room status from 'intro' to 'playing'
- * Any player in the room can complete the intro (both see the same intro screen)
+ * Any player in the room can complete the intro; the server deals the hidden deck
  * @param roomCode - The room code to transition to playing
  * @returns Promise that resolves when intro is completed
  * @throws Error if room doesn't exist or status is not 'intro'
  */
 export const completeIntro = async (roomCode: string): Promise<void> => {
-  roomLogger.info('Attempting to complete intro', { roomCode });
+  roomLogger.info('Completing intro', { roomCode });
 
-  try {
-    await runTransaction(db, async (transaction) => {
-      const roomRef = doc(db, 'rooms', roomCode);
-
-      // Get room data
-      const roomSnap = await transaction.get(roomRef);
-      if (!roomSnap.exists()) {
-        throw new Error('La sala no existe.');
-      }
-
-      const roomData = roomSnap.data() as FirestoreRoom;
-
-      // Validate room status is 'intro'
-      if (roomData.status !== 'intro') {
-        throw new Error('La intro no está en progreso. Status actual: ' + roomData.status);
-      }
-
-      // Update room status to 'playing'
-      transaction.update(roomRef, {
-        status: 'playing' as RoomStatus,
-        lastUpdate: Timestamp.now()
-      });
-
-      roomLogger.info('Intro completed successfully', {
-        roomCode,
-        previousStatus: 'intro',
-        newStatus: 'playing'
-      });
-    });
-  } catch (error: any) {
-    // Handle transaction errors
-    if (error instanceof Error) {
-      roomLogger.error('Failed to complete intro', {
-        roomCode,
-        message: error.message
-      });
-      throw error;
-    }
+  await runRoomCall('complete intro', { roomCode }, 'Error al completar la introducción.', () =>
+    completeIntroCallable({ roomCode })
+  );
+};
 
-    // Generic error
-    roomLogger.error('Unexpected error completing intro', { roomCode, error });
-    throw new Error('Error al completar la introducción.');
-  }
+/**
+ * Proposes a rematch after a finished game
+ * The opponent accepts it with acceptRematch
+ * @param roomCode - The finished room code
+ * @returns Promise that resolves when the proposal is saved
+ * @throws Error if the game is not finished or a rematch was already proposed
+ */
+export const requestRematch = async (roomCode: string): Promise<void> => {
+  roomLogger.info('Requesting rematch', { roomCode });
+
+  await runRoomCall('request rematch', { roomCode }, 'Error al pedir la revancha.', () =>
+    requestRematchCallable({ roomCode })
+  );
+};
+
+/**
+ * Accepts a rematch proposed by the opponent
+ * The server creates a fresh room (the other player starts) and moves both players to it
+ * @param roomCode - The finished room code
+ * @returns Promise with the new room code
+ * @throws Error if there is no pending rematch or a player already left the room
+ */
+export const acceptRematch = async (roomCode: string): Promise<string> => {
+  roomLogger.info('Accepting rematch', { roomCode });
+
+  return runRoomCall('accept rematch', { roomCode }, 'Error al aceptar la revancha.', async () => {
+    const { data } = await acceptRematchCallable({ roomCode });
+    return data.roomCode;
+  });
+};
+
+/**
+ * Starts the next game of a best-of-N series after a series game finished
+ * Either player can start it; like a rematch, the other player starts the new game
+ * @param roomCode - The finished room code
+ * @returns Promise with the new room code
+ * @throws Error if the room is not part of an unfinished series or a player already left
+ */
+export const startNextSeriesGame = async (roomCode: string): Promise<string> => {
+  roomLogger.info('Starting next series game', { roomCode });
+
+  return runRoomCall('start next series game', { roomCode }, 'Error al iniciar la siguiente partida.', async () => {
+    const { data } = await startNextSeriesGameCallable({ roomCode });
+    return data.roomCode;
+  });
+};
+
+/**
+ * Puts the signed-in user in the matchmaking queue
+ * When someone is already waiting, the server pairs them into a new room right away;
+ * otherwise the user waits until their queue entry (matchmaking/{uid}) gets a room code
+ * @returns Promise with the room code when paired right away, null when left waiting
+ * @throws Error if the search fails
+ */
+export const joinMatchmaking = async (): Promise<string | null> => {
+  roomLogger.info('Joining matchmaking');
+
+  return runRoomCall('join matchmaking', {}, 'Error al buscar partida.', async () => {
+    const { data } = await joinMatchmakingCallable();
+    return data.roomCode;
+  });
+};
+
+/**
+ * Takes the signed-in user out of the matchmaking queue (cancelled search or timeout)
+ * @returns Promise that resolves when the user is out of the queue
+ * @throws Error if the user was already paired (their room is on its way)
+ */
+export const leaveMatchmaking = async (): Promise<void> => {
+  roomLogger.info('Leaving matchmaking');
+
+  await runRoomCall('leave matchmaking', {}, 'Error al cancelar la búsqueda.', () =>
+    leaveMatchmakingCallable()
+  );
+};
+
+/**
+ * Fills the second seat of a waiting room with a bot opponent (creator only)
+ * Games against a bot are practice: they don't count for stats or rating
+ * @param roomCode - The waiting room code
+ * @param difficulty - How the bot plays
+ * @returns Promise that resolves when the bot has joined
+ * @throws Error if the room is not waiting for a second player or the user is not its creator
+ */
+export const addBotToRoom = async (roomCode: string, difficulty: BotDifficulty): Promise<void> => {
+  roomLogger.info('Adding bot to room', { roomCode, difficulty });
+
+  await runRoomCall('add bot', { roomCode, difficulty }, 'Error al añadir el bot.', () =>
+    addBotToRoomCallable({ roomCode, difficulty })
+  );
+};
+
+/**
+ * Asks the server to play the bot's pending move (or accept a rematch) in a room
+ * The human's browser drives the bot; the server chooses and validates its moves
+ * @param roomCode - The room code
+ * @returns Promise that resolves when the move is applied
+ * @throws Error if the room has no bot or the move was already played
+ */
+export const playBotTurn = async (roomCode: string): Promise<void> => {
+  await runRoomCall('play bot turn', { roomCode }, 'Error al jugar el turno del bot.', () =>
+    playBotTurnCallable({ roomCode })
+  );
 };
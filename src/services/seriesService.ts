@@ -0,0 +1,102 @@
+import type { FirestoreSeries, FirestoreTimestamp, SeriesScore } from '@/types';
+import { roomLogger } from '@/lib/utils/logger';
+
+/**
+ * Gets the number of game wins needed to take a series
+ * @param bestOf - Series length (3 or 5)
+ * @returns Wins needed for a majority
+ */
+export const getWinsNeeded = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+/**
+ * Builds a new series for two players
+ * @param orderPlayers - Players of the series (turn order of the first game)
+ * @param bestOf - Series length
+ * @param firstRoomCode - Room code of the first game
+ * @param now - Creation timestamp
+ * @returns The series document data
+ */
+export const createSeriesData = (
+  orderPlayers: string[],
+  bestOf: number,
+  firstRoomCode: string,
+  now: FirestoreTimestamp
+): FirestoreSeries => ({
+  best_of: bestOf,
+  order_players: orderPlayers,
+  wins: Object.fromEntries(orderPlayers.map(playerId => [playerId, 0])),
+  rooms: [firstRoomCode],
+  status: 'in_progress',
+  winner: null,
+  createdAt: now,
+  finishedAt: null,
+  lastUpdate: now
+});
+
+/**
+ * Records a finished game in a series
+ * A draw adds no wins; the series finishes once a player reaches the majority
+ * @param series - The current series
+ * @param winnerId - Winner of the game (null on a draw)
+ * @returns The updated series fields
+ */
+export const recordSeriesGame = (
+  series: FirestoreSeries,
+  winnerId: string | null
+): Pick<FirestoreSeries, 'wins' | 'status' | 'winner'> => {
+  if (!winnerId) {
+    return { wins: series.wins, status: series.status, winner: series.winner };
+  }
+
+  const wins = { ...series.wins, [winnerId]: (series.wins[winnerId] || 0) + 1 };
+  const hasSeriesWinner = wins[winnerId] >= getWinsNeeded(series.best_of);
+
+  if (hasSeriesWinner) {
+    roomLogger.info('Series winner decided', { winnerId, wins, bestOf: series.best_of });
+  }
+
+  return {
+    wins,
+    status: hasSeriesWinner ? 'finished' : 'in_progress',
+    winner: hasSeriesWinner ? winnerId : null
+  };
+};
+
+/**
+ * Finishes a series because a player forfeited one of its games
+ * The remaining player takes the series
+ * @param series - The current series
+ * @param winnerId - The remaining player
+ * @returns The updated series fields
+ */
+export const forfeitSeries = (
+  series: FirestoreSeries,
+  winnerId: string | null
+): Pick<FirestoreSeries, 'wins' | 'status' | 'winner'> => {
+  roomLogger.info('Series forfeited', { winnerId, wins: series.wins });
+
+  return {
+    wins: winnerId ? { ...series.wins, [winnerId]: (series.wins[winnerId] || 0) + 1 } : series.wins,
+    status: 'finished',
+    winner: winnerId
+  };
+};
+
+/**
+ * Builds the series score as seen by one player
+ * @param series - The series
+ * @param userId - The player viewing the score
+ * @returns The score for UI display
+ */
+export const getSeriesScore = (series: FirestoreSeries, userId: string): SeriesScore => {
+  const opponentId = series.order_players.find(id => id !== userId);
+
+  return {
+    bestOf: series.best_of,
+    gameNumber: series.rooms.length,
+    playerWins: series.wins[userId] || 0,
+    opponentWins: opponentId ? series.wins[opponentId] || 0 : 0,
+    status: series.status,
+    isSeriesWinner: series.winner === userId
+  };
+};
@@ -0,0 +1,39 @@
+import { Timestamp } from 'firebase/firestore';
+import { roomRepository } from '@/repositories';
+import { roomLogger } from '@/lib/utils/logger';
+import type { FirestoreSpectator } from '@/types';
+
+/**
+ * Registers the user as a spectator of a room (shown as the spectator count in the lobby)
+ * Players of the room can't be spectators (see firestore.rules)
+ * @param roomCode - The room code to watch
+ * @param userId - The ID of the spectator
+ * @returns Promise that resolves when the spectator is registered
+ * @throws Error if the registration fails
+ */
+export const watchRoom = async (roomCode: string, userId: string): Promise<void> => {
+  try {
+    const spectator: FirestoreSpectator = { joinedAt: Timestamp.now() };
+    await roomRepository.addSpectator(roomCode, userId, spectator);
+    roomLogger.info('Spectator joined room', { roomCode, userId });
+  } catch (error) {
+    roomLogger.error('Error joining room as spectator', { roomCode, userId, error });
+    throw new Error('Error al entrar como espectador.');
+  }
+};
+
+/**
+ * Removes the user from the spectators of a room
+ * @param roomCode - The room code being watched
+ * @param userId - The ID of the spectator
+ * @returns Promise that resolves when the spectator is removed
+ */
+export const stopWatchingRoom = async (roomCode: string, userId: string): Promise<void> => {
+  try {
+    await roomRepository.removeSpectator(roomCode, userId);
+    roomLogger.info('Spectator left room', { roomCode, userId });
+  } catch (error) {
+    // Best effort: a stale spectator only inflates the count
+    roomLogger.warn('Error leaving room as spectator', { roomCode, userId, error });
+  }
+};
@@ -0,0 +1,97 @@
+import type { GameEvent, GameState, PlayerStats, StatsByReason } from '@/types';
+
+export const EMPTY_PLAYER_STATS: PlayerStats = {
+  gamesPlayed: 0,
+  wins: {},
+  losses: {},
+  draws: 0,
+  fatalGlitchesTaken: 0,
+  authenticClaimed: 0,
+  cardsDecided: 0,
+  cardsRejected: 0,
+  totalFinalIntegrity: 0
+};
+
+/**
+ * Computes what one finished game adds to each player's stats
+ * @param events - Every engine event of the game, in play order
+ * @param state - The finished game state
+ * @returns The stats of this game for each player
+ */
+export const getMatchStats = (events: GameEvent[], state: GameState): { [userId: string]: PlayerStats } => {
+  const stats: { [userId: string]: PlayerStats } = Object.fromEntries(state.order_players.map(playerId => [
+    playerId,
+    {
+      ...EMPTY_PLAYER_STATS,
+      gamesPlayed: 1,
+      wins: {},
+      losses: {},
+      totalFinalIntegrity: state.players[playerId].integrity
+    }
+  ]));
+
+  // Who selected the card in play, and whether they rejected it
+  let initiatorId: string | null = null;
+  let wasRejected = false;
+
+  events.forEach(event => {
+    switch (event.type) {
+      case 'CardSelected':
+        initiatorId = event.userId;
+        wasRejected = false;
+        break;
+      case 'CardRejected':
+        wasRejected = true;
+        stats[event.userId].cardsDecided++;
+        stats[event.userId].cardsRejected++;
+        break;
+      case 'CardClaimed':
+        if (event.userId === initiatorId && !wasRejected) {
+          stats[event.userId].cardsDecided++;
+        }
+        if (event.card.authenticity === 'authentic') {
+          stats[event.userId].authenticClaimed++;
+        }
+        if (event.card.authenticity === 'fatalGlitch') {
+          stats[event.userId].fatalGlitchesTaken++;
+        }
+        break;
+      case 'CardForcedBack':
+        if (event.card.authenticity === 'fatalGlitch') {
+          stats[event.targetId].fatalGlitchesTaken++;
+        }
+        break;
+    }
+  });
+
+  if (state.win_reason === 'draw' || !state.winner || !state.win_reason) {
+    state.order_players.forEach(playerId => stats[playerId].draws++);
+    return stats;
+  }
+
+  const reason = state.win_reason;
+  state.order_players.forEach(playerId => {
+    const side = playerId === state.winner ? 'wins' : 'losses';
+    stats[playerId][side] = { [reason]: 1 };
+  });
+
+  return stats;
+};
+
+/**
+ * Adds up the wins or losses of every reason
+ */
+export const getTotalByReason = (byReason: StatsByReason): number =>
+  Object.values(byReason).reduce((total, count) => total + (count || 0), 0);
+
+/**
+ * Share of their own selected cards the player rejected (0 if they never decided)
+ */
+export const getRejectRate = (stats: PlayerStats): number =>
+  stats.cardsDecided === 0 ? 0 : stats.cardsRejected / stats.cardsDecided;
+
+/**
+ * Average integrity the player finished their games with (0 before the first game)
+ */
+export const getAverageFinalIntegrity = (stats: PlayerStats): number =>
+  stats.gamesPlayed === 0 ? 0 : stats.totalFinalIntegrity / stats.gamesPlayed;
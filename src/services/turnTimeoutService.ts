@@ -0,0 +1,48 @@
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { roomLogger } from '@/lib/utils/logger';
+
+/**
+ * Resolves a phase once its deadline passes, retrying until it is resolved
+ * Clients tell the deadline passed with their own clock, but the resolver checks it against the
+ * server's: a client whose clock runs ahead is told the deadline isn't due yet. So the first call
+ * waits a grace margin past the deadline, and failed calls are retried with a growing delay until
+ * the caller stops them (when the room's turn_deadline changes or the page closes)
+ * @param turnDeadline - Epoch ms of the deadline, by the server's clock
+ * @param resolve - Asks the resolver to time out the phase (see resolveTurnTimeout)
+ * @param now - Current time (defaults to the client's clock)
+ * @returns A function that cancels the pending call or retry
+ */
+export const scheduleTurnTimeout = (
+  turnDeadline: number,
+  resolve: () => Promise<void>,
+  now: () => number = Date.now
+): (() => void) => {
+  const { timeoutGraceMs, timeoutRetryMs } = GAME_CONFIG.turn;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let isCancelled = false;
+
+  const attempt = async (retryDelay: number) => {
+    timer = null;
+
+    try {
+      await resolve();
+    } catch (error) {
+      if (isCancelled) {
+        return;
+      }
+
+      // Not due yet by the server's clock, or the other player resolved it first (the room update cancels us then)
+      roomLogger.warn('Could not resolve turn timeout, retrying', { turnDeadline, retryDelay, error });
+      timer = setTimeout(() => attempt(Math.min(retryDelay * 2, timeoutRetryMs.max)), retryDelay);
+    }
+  };
+
+  timer = setTimeout(() => attempt(timeoutRetryMs.initial), Math.max(0, turnDeadline + timeoutGraceMs - now()));
+
+  return () => {
+    isCancelled = true;
+    if (timer !== null) {
+      clearTimeout(timer);
+    }
+  };
+};
@@ -7,10 +7,10 @@ import {
   sendEmailVerification,
   type User as FirebaseUser
 } from 'firebase/auth';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
-import { auth, db } from '@/lib/firebase/config';
+import { auth } from '@/lib/firebase/config';
 import { authLogger } from '@/lib/utils/logger';
-import type { User } from '@/types';
+import { userRepository } from '@/repositories';
+import type { FirestoreUser, User } from '@/types';
 
 interface AuthState {
   user: User | null;
@@ -56,12 +56,10 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         try {
           authLogger.info('User authenticated', { uid: firebaseUser.uid, email: firebaseUser.email });
 
-          const userDocRef = doc(db, 'users', firebaseUser.uid);
-          const userDoc = await getDoc(userDocRef);
+          const userData = await userRepository.get(firebaseUser.uid);
 
-          if (userDoc.exists()) {
+          if (userData) {
             authLogger.debug('User document found in Firestore');
-            const userData = userDoc.data();
             set({
               user: {
                 id: firebaseUser.uid,
@@ -85,7 +83,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
               currentRoom: null
             };
 
-            const firestoreData = {
+            const firestoreData: FirestoreUser = {
               email: newUser.email,
               name: newUser.name,
               current_room: null
@@ -96,7 +94,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
               data: firestoreData
             });
 
-            await setDoc(userDocRef, firestoreData);
+            await userRepository.create(firebaseUser.uid, firestoreData);
 
             authLogger.info('Firestore user document created successfully');
 
@@ -152,14 +150,13 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       }
 
       // Fetch user data from Firestore
-      const userDoc = await getDoc(doc(db, 'users', firebaseUser.uid));
+      const userData = await userRepository.get(firebaseUser.uid);
 
-      if (!userDoc.exists()) {
+      if (!userData) {
         authLogger.error('User document not found in Firestore after login', { uid: firebaseUser.uid });
         throw new Error('Usuario no encontrado en la base de datos');
       }
 
-      const userData = userDoc.data();
       const user: User = {
         id: firebaseUser.uid,
         email: firebaseUser.email || '',
@@ -223,7 +220,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         currentRoom: null
       };
 
-      const firestoreData = {
+      const firestoreData: FirestoreUser = {
         email: newUser.email,
         name: newUser.name,
         current_room: null
@@ -234,7 +231,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         data: firestoreData
       });
 
-      await setDoc(doc(db, 'users', firebaseUser.uid), firestoreData);
+      await userRepository.create(firebaseUser.uid, firestoreData);
 
       authLogger.info('Registration successful - user created in Auth and Firestore, verification email sent', { uid: firebaseUser.uid });
 
@@ -299,8 +296,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       authLogger.info('Clearing current room', { userId: user.id, previousRoom: user.currentRoom });
 
       // Update Firebase
-      const userRef = doc(db, 'users', user.id);
-      await updateDoc(userRef, { current_room: null });
+      await userRepository.update(user.id, userData => ({ ...userData, current_room: null }));
 
       // Update local state
       set({ user: { ...user, currentRoom: null } });
@@ -60,7 +60,6 @@ export const useRoomStore = create<RoomState>((set, get) => ({
             lastUpdate: data.lastUpdate?.toDate() || new Date(),
             orderPlayers: data.order_players || [],
             turn: data.turn || 0,
-            memoryDeck: data.memory_deck || [],
             currentCard: data.current_card || null,
             tableCards: data.table_cards || [],
             cardsDrawn: data.cards_drawn || 0,
@@ -112,7 +111,6 @@ export const useRoomStore = create<RoomState>((set, get) => ({
         lastUpdate: new Date(),
         orderPlayers: [userId],
         turn: 0,
-        memoryDeck: [],
         currentCard: null,
         tableCards: [],
         cardsDrawn: 0,
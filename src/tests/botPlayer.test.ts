@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { chooseBotAction, isBotToMove } from '@/services/botPlayer';
+import { createMockMemoryCard, createMockRoom } from './testUtils';
+import type { Authenticity, FirestorePlayerView, FirestoreRoom } from '@/types';
+
+const HUMAN_ID = 'human';
+const BOT_ID = 'bot-human';
+
+// The bot holding the card it selected (decide phase)
+const createDecideRoom = (overrides?: Partial<FirestoreRoom>): FirestoreRoom =>
+  createMockRoom(HUMAN_ID, BOT_ID, {
+    turn: 1,
+    turn_state: 'decide',
+    selected_card_index: 0,
+    card_initiator: BOT_ID,
+    ...overrides
+  });
+
+// The human rejected their card to the bot (opponent_decide phase)
+const createRejectedRoom = (overrides?: Partial<FirestoreRoom>): FirestoreRoom =>
+  createMockRoom(HUMAN_ID, BOT_ID, {
+    turn_state: 'opponent_decide',
+    selected_card_index: 0,
+    card_initiator: HUMAN_ID,
+    current_multiplier: 3,
+    ...overrides
+  });
+
+const createView = (authenticity: Authenticity | null, peeked: FirestorePlayerView['peeked_cards'] = []): FirestorePlayerView => ({
+  current_card: authenticity ? createMockMemoryCard(authenticity) : null,
+  peeked_cards: peeked
+});
+
+// The fatal glitch was already played, so only authentic and corrupted cards are left
+const FATAL_GLITCH_PLAYED: FirestoreRoom['used_cards'] = [
+  { card: createMockMemoryCard('fatalGlitch'), playedBy: HUMAN_ID, playedAt: new Date(), multiplier: 1, wasForced: false }
+];
+
+describe('botPlayer - isBotToMove', () => {
+  it('should follow the draw turn, the card initiator and the rejected card', () => {
+    expect(isBotToMove(createMockRoom(HUMAN_ID, BOT_ID, { turn: 1 }), BOT_ID)).toBe(true);
+    expect(isBotToMove(createMockRoom(HUMAN_ID, BOT_ID, { turn: 0 }), BOT_ID)).toBe(false);
+    expect(isBotToMove(createDecideRoom(), BOT_ID)).toBe(true);
+    expect(isBotToMove(createRejectedRoom(), BOT_ID)).toBe(true);
+    expect(isBotToMove(createRejectedRoom({ card_initiator: BOT_ID }), BOT_ID)).toBe(false);
+  });
+
+  it('should never move outside a game in progress', () => {
+    expect(isBotToMove(createMockRoom(HUMAN_ID, BOT_ID, { turn: 1, status: 'finished' }), BOT_ID)).toBe(false);
+  });
+});
+
+describe('botPlayer - chooseBotAction', () => {
+  it('should return null when it is not the bot\'s move', () => {
+    expect(chooseBotAction(createMockRoom(HUMAN_ID, BOT_ID), null, BOT_ID, 'hard')).toBeNull();
+  });
+
+  it('should wait for its view before deciding its own card', () => {
+    expect(chooseBotAction(createDecideRoom(), createView(null), BOT_ID, 'normal')).toBeNull();
+  });
+
+  it('should pick a table card peeked as authentic, else avoid the ones peeked as harmful', () => {
+    const room = createMockRoom(HUMAN_ID, BOT_ID, { turn: 1 });
+    const peekedAs = (index: number, authenticity: Authenticity) =>
+      createMockMemoryCard(authenticity, room.table_cards[index].memory);
+
+    expect(chooseBotAction(room, createView(null, [peekedAs(0, 'corrupted'), peekedAs(2, 'authentic')]), BOT_ID, 'easy'))
+      .toEqual({ type: 'select_card', userId: BOT_ID, cardIndex: 2 });
+    expect(chooseBotAction(room, createView(null, [peekedAs(0, 'fatalGlitch')]), BOT_ID, 'easy'))
+      .toEqual({ type: 'select_card', userId: BOT_ID, cardIndex: 1 });
+  });
+
+  describe('own card (decide)', () => {
+    it('should bluff an authentic card on hard, which easy and normal just claim', () => {
+      const view = createView('authentic');
+
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'easy')?.type).toBe('claim_card');
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'normal')?.type).toBe('claim_card');
+      // A rejected card looks harmful, so the opponent sends it back tripled
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'hard')?.type).toBe('reject_card');
+    });
+
+    it('should take a corrupted card on hard rather than get it back tripled', () => {
+      const view = createView('corrupted');
+
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'easy')?.type).toBe('reject_card');
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'normal')?.type).toBe('reject_card');
+      expect(chooseBotAction(createDecideRoom(), view, BOT_ID, 'hard')?.type).toBe('claim_card');
+    });
+
+    it('should claim a corrupted card near the loss threshold on normal, while easy risks it coming back', () => {
+      const room = createDecideRoom({
+        players: {
+          [HUMAN_ID]: { integrity: 0, items: [] },
+          [BOT_ID]: { integrity: -8, items: [] }
+        }
+      });
+
+      expect(chooseBotAction(room, createView('corrupted'), BOT_ID, 'easy')?.type).toBe('reject_card');
+      expect(chooseBotAction(room, createView('corrupted'), BOT_ID, 'normal')?.type).toBe('claim_card');
+    });
+
+    it('should reject a fatal glitch behind its shield, which blocks it if it comes back', () => {
+      const room = createDecideRoom({
+        players: {
+          [HUMAN_ID]: { integrity: 0, items: [] },
+          [BOT_ID]: { integrity: 0, items: [], shielded: true }
+        }
+      });
+
+      expect(chooseBotAction(room, createView('fatalGlitch'), BOT_ID, 'hard')?.type).toBe('reject_card');
+    });
+  });
+
+  describe('rejected card (opponent_decide)', () => {
+    it('should send back a card that could be the fatal glitch', () => {
+      (['easy', 'normal', 'hard'] as const).forEach(difficulty => {
+        expect(chooseBotAction(createRejectedRoom(), null, BOT_ID, difficulty)?.type).toBe('opponent_reject_back');
+      });
+    });
+
+    it('should read the rejection on hard and send back what easy and normal take', () => {
+      const room = createRejectedRoom({ used_cards: FATAL_GLITCH_PLAYED });
+
+      expect(chooseBotAction(room, null, BOT_ID, 'easy')?.type).toBe('opponent_claim_card');
+      expect(chooseBotAction(room, null, BOT_ID, 'normal')?.type).toBe('opponent_claim_card');
+      expect(chooseBotAction(room, null, BOT_ID, 'hard')?.type).toBe('opponent_reject_back');
+    });
+
+    it('should avoid a tripled card that could drop it to the loss threshold on normal', () => {
+      const room = createRejectedRoom({
+        used_cards: FATAL_GLITCH_PLAYED,
+        players: {
+          [HUMAN_ID]: { integrity: 0, items: [] },
+          [BOT_ID]: { integrity: -8, items: [] }
+        }
+      });
+
+      // Easy only looks at the average card, blind to the multiplier and the threshold
+      expect(chooseBotAction(room, null, BOT_ID, 'easy')?.type).toBe('opponent_claim_card');
+      expect(chooseBotAction(room, null, BOT_ID, 'normal')?.type).toBe('opponent_reject_back');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryRepositories } from '@/repositories/memoryRepositories';
+import { deleteCustomDeck, getCustomDeck, listCustomDecks, saveCustomDeck } from '@/services/customDeckService';
+import { cleanMemoryLines, getCustomDeckIssues, getMinMemories, parseMemoryLines } from '@/lib/validations/deck';
+import { RULESET_PRESETS } from '@/config/gameConfig';
+
+const OWNER = { id: 'player-1', name: 'Player 1' };
+const OTHER_USER_ID = 'player-2';
+const QUICK_RULES = RULESET_PRESETS.quick.ruleset; // Deals 11 memories
+const MARATHON_RULES = RULESET_PRESETS.marathon.ruleset; // Deals 25 memories
+
+const createMemories = (count: number): string[] => Array.from({ length: count }, (_, i) => `Recuerdo ${i + 1}`);
+
+describe('Custom deck validation', () => {
+  it('should split pasted text into trimmed lines, keeping inner blank lines', () => {
+    expect(parseMemoryLines('\n  Uno \r\nDos\n\nTres\n\n')).toEqual(['Uno', 'Dos', '', 'Tres']);
+    expect(parseMemoryLines('   \n')).toEqual([]);
+  });
+
+  it('should point at blank, too long and repeated lines', () => {
+    const memories = [...createMemories(11), '', 'x'.repeat(161), 'recuerdo  1'];
+
+    expect(getCustomDeckIssues({ name: 'Mazo', theme: '', memories }, QUICK_RULES)).toEqual([
+      'Línea 12: está vacía',
+      'Línea 13: supera los 160 caracteres',
+      'Línea 14: repite la línea 1'
+    ]);
+  });
+
+  it('should require a name and between the memories the rules deal and 300', () => {
+    expect(getCustomDeckIssues({ name: ' ', theme: '', memories: createMemories(10) }, QUICK_RULES)).toEqual([
+      'El nombre del mazo es requerido',
+      'El mazo necesita al menos 11 recuerdos para estas reglas (tiene 10)'
+    ]);
+    expect(getCustomDeckIssues({ name: 'Mazo', theme: '', memories: createMemories(301) }, QUICK_RULES)).toEqual([
+      'El mazo no puede tener más de 300 recuerdos (tiene 301)'
+    ]);
+  });
+
+  it('should require as many memories as the chosen rules deal', () => {
+    const memories = createMemories(getMinMemories(QUICK_RULES));
+
+    expect(getMinMemories(MARATHON_RULES)).toBe(MARATHON_RULES.deckSize);
+    expect(getCustomDeckIssues({ name: 'Mazo', theme: '', memories }, QUICK_RULES)).toEqual([]);
+    expect(getCustomDeckIssues({ name: 'Mazo', theme: '', memories }, MARATHON_RULES)).toEqual([
+      'El mazo necesita al menos 25 recuerdos para estas reglas (tiene 11)'
+    ]);
+  });
+
+  it('should drop blank lines and duplicates keeping the first one', () => {
+    expect(cleanMemoryLines(['Uno', '', 'Dos', 'uno', 'Dos '])).toEqual(['Uno', 'Dos']);
+  });
+});
+
+describe('customDeckService', () => {
+  it('should create a deck owned by the user at version 1', async () => {
+    const { decks } = createMemoryRepositories();
+
+    const deckId = await saveCustomDeck(decks, OWNER, null, { name: ' Verano ', theme: 'Playa', memories: createMemories(12) }, QUICK_RULES);
+
+    expect(await getCustomDeck(decks, OWNER.id, deckId)).toEqual({
+      name: 'Verano',
+      theme: 'Playa',
+      language: 'es',
+      author: OWNER.name,
+      size: 12,
+      version: 1,
+      memories: createMemories(12)
+    });
+    expect(await listCustomDecks(decks, OTHER_USER_ID)).toEqual([]);
+  });
+
+  it('should bump the version when a deck is edited', async () => {
+    const { decks } = createMemoryRepositories();
+    const deckId = await saveCustomDeck(decks, OWNER, null, { name: 'Verano', theme: '', memories: createMemories(12) }, QUICK_RULES);
+
+    await saveCustomDeck(decks, OWNER, deckId, { name: 'Verano', theme: '', memories: createMemories(20) }, QUICK_RULES);
+
+    expect(await listCustomDecks(decks, OWNER.id)).toEqual([
+      expect.objectContaining({ id: deckId, size: 20, version: 2 })
+    ]);
+  });
+
+  it('should refuse to save an invalid deck', async () => {
+    const { decks } = createMemoryRepositories();
+
+    await expect(saveCustomDeck(decks, OWNER, null, { name: 'Verano', theme: '', memories: createMemories(3) }, QUICK_RULES))
+      .rejects.toThrow('El mazo necesita al menos 11 recuerdos para estas reglas (tiene 3)');
+    expect(await listCustomDecks(decks, OWNER.id)).toEqual([]);
+  });
+
+  it('should list decks by name and forget deleted ones', async () => {
+    const { decks } = createMemoryRepositories();
+    const winterId = await saveCustomDeck(decks, OWNER, null, { name: 'Invierno', theme: '', memories: createMemories(11) }, QUICK_RULES);
+    await saveCustomDeck(decks, OWNER, null, { name: 'Alegrías', theme: '', memories: createMemories(11) }, QUICK_RULES);
+
+    expect((await listCustomDecks(decks, OWNER.id)).map(deck => deck.name)).toEqual(['Alegrías', 'Invierno']);
+
+    await deleteCustomDeck(decks, OWNER.id, winterId);
+
+    expect((await listCustomDecks(decks, OWNER.id)).map(deck => deck.name)).toEqual(['Alegrías']);
+    await expect(getCustomDeck(decks, OWNER.id, winterId)).rejects.toThrow('El mazo no existe.');
+  });
+});
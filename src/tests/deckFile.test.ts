@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { getDeckFileFormat, getDeckIssues, parseDeckFile, planDeckImport, serializeDeckFile } from '@/scripts/deckFile';
+import { RULESET_PRESETS } from '@/config/gameConfig';
+import type { FirestoreDeck } from '@/types';
+
+const createMemories = (count: number): string[] => Array.from({ length: count }, (_, i) => `Recuerdo ${i + 1}`);
+
+const createDeck = (memories: string[], version: number = 1): FirestoreDeck => ({
+  name: 'Recuerdos de prueba',
+  language: 'es',
+  theme: 'Pruebas',
+  size: memories.length,
+  author: 'Tests',
+  version,
+  memories
+});
+
+describe('Deck files', () => {
+  it('should tell the format from the extension', () => {
+    expect(getDeckFileFormat('decks/retro.JSON')).toBe('json');
+    expect(getDeckFileFormat('retro.csv')).toBe('csv');
+    expect(getDeckFileFormat('retro.md')).toBeNull();
+  });
+
+  it('should read plain text skipping blank lines and comments', () => {
+    expect(parseDeckFile('\uFEFF# Verano\n  Uno \r\n\nDos\n', 'txt')).toEqual({ metadata: {}, memories: ['Uno', 'Dos'] });
+  });
+
+  it('should read the first CSV column with quoted commas, quotes and line breaks', () => {
+    const csv = 'memory,notes\nUno,primera\n"Dos, tres","con ""comillas"""\n"Cuatro\nlíneas"\n';
+
+    expect(parseDeckFile(csv, 'csv').memories).toEqual(['Uno', 'Dos, tres', 'Cuatro\nlíneas']);
+    expect(() => parseDeckFile('"Uno', 'csv')).toThrow('CSV file has an unclosed quote.');
+  });
+
+  it('should read JSON arrays and exported decks with their metadata', () => {
+    expect(parseDeckFile('["Uno", " Dos "]', 'json')).toEqual({ metadata: {}, memories: ['Uno', 'Dos'] });
+    expect(parseDeckFile('{"name": "Retro", "theme": "80s", "version": 7, "memories": ["Uno"]}', 'json')).toEqual({
+      metadata: { name: 'Retro', theme: '80s' },
+      memories: ['Uno']
+    });
+    expect(() => parseDeckFile('{"memories": [1, 2]}', 'json')).toThrow('"memories" array of strings');
+    expect(() => parseDeckFile('{', 'json')).toThrow('JSON file is not valid JSON.');
+  });
+
+  it('should read back every format it writes', () => {
+    const deck = createDeck(['Uno', 'Dos, "tres"', 'Cuatro']);
+
+    expect(parseDeckFile(serializeDeckFile(deck, 'json'), 'json')).toEqual({
+      metadata: { name: deck.name, language: deck.language, theme: deck.theme, author: deck.author },
+      memories: deck.memories
+    });
+    expect(parseDeckFile(serializeDeckFile(deck, 'csv'), 'csv').memories).toEqual(deck.memories);
+    expect(parseDeckFile(serializeDeckFile(deck, 'txt'), 'txt').memories).toEqual(deck.memories);
+  });
+
+  it('should reject decks too small for the rules or with memories that are too long', () => {
+    const quickRules = RULESET_PRESETS.quick.ruleset;
+
+    expect(getDeckIssues(createMemories(11), quickRules)).toEqual([]);
+    expect(getDeckIssues(createMemories(3), quickRules)).toEqual(['Deck needs at least 11 memories. Currently has 3.']);
+    expect(getDeckIssues(createMemories(11), RULESET_PRESETS.marathon.ruleset)).toEqual([
+      'Deck needs at least 25 memories. Currently has 11.'
+    ]);
+    expect(getDeckIssues([...createMemories(11), 'x'.repeat(161)], quickRules)).toEqual([
+      expect.stringContaining('Memory 12 is longer than 160 characters')
+    ]);
+  });
+});
+
+describe('Deck imports', () => {
+  it('should create a new deck at version 1 named after its ID', () => {
+    const plan = planDeckImport('retro', null, { metadata: {}, memories: ['Uno', 'Dos'] }, 'merge');
+
+    expect(plan.deck).toEqual({ name: 'retro', language: 'es', theme: '', author: '', size: 2, version: 1, memories: ['Uno', 'Dos'] });
+    expect(plan.added).toEqual(['Uno', 'Dos']);
+    expect(plan.hasChanges).toBe(true);
+  });
+
+  it('should merge new memories after the current ones, dropping repeats, and bump the version', () => {
+    const current = createDeck(['Uno', 'Dos'], 3);
+
+    const plan = planDeckImport('retro', current, { metadata: {}, memories: ['dos', 'Tres', 'Tres'] }, 'merge');
+
+    expect(plan.deck.memories).toEqual(['Uno', 'Dos', 'Tres']);
+    expect(plan.deck.version).toBe(4);
+    expect(plan.added).toEqual(['Tres']);
+    expect(plan.removed).toEqual([]);
+    expect(plan.duplicatesDropped).toBe(2);
+  });
+
+  it('should replace the memories and report the removed ones', () => {
+    const plan = planDeckImport('retro', createDeck(['Uno', 'Dos']), { metadata: {}, memories: ['Dos', 'Tres'] }, 'replace');
+
+    expect(plan.deck.memories).toEqual(['Dos', 'Tres']);
+    expect(plan.added).toEqual(['Tres']);
+    expect(plan.removed).toEqual(['Uno']);
+  });
+
+  it('should keep the version when only the metadata changes, with command line values winning', () => {
+    const current = createDeck(['Uno', 'Dos'], 2);
+
+    const plan = planDeckImport(
+      'retro',
+      current,
+      { metadata: { name: 'Del archivo', theme: 'Retro' }, memories: ['Uno', 'Dos'] },
+      'replace',
+      { name: 'De la consola' }
+    );
+
+    expect(plan.deck).toMatchObject({ name: 'De la consola', theme: 'Retro', version: 2 });
+    expect(plan.metadataChanges).toEqual(['name', 'theme']);
+    expect(plan.hasChanges).toBe(true);
+  });
+
+  it('should find nothing to change when the file matches the deck', () => {
+    const current = createDeck(['Uno', 'Dos']);
+
+    const plan = planDeckImport('retro', current, { metadata: {}, memories: ['Uno', 'Dos'] }, 'merge');
+
+    expect(plan.hasChanges).toBe(false);
+    expect(plan.deck).toEqual(current);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { buildGameDeck } from '@/services/deckService';
+import { createSeededRandom } from '@/lib/utils/seededRandom';
+import { DEFAULT_RULESET, RULESET_PRESETS } from '@/config/gameConfig';
+
+const MEMORY_POOL = Array.from({ length: 20 }, (_, i) => `Recuerdo ${i + 1}`);
+const QUICK_RULESET = RULESET_PRESETS.quick.ruleset;
+
+describe('Seeded random numbers', () => {
+  it('should give different sequences for different seeds', () => {
+    const sequence = (seed: string) => {
+      const random = createSeededRandom(seed);
+      return Array.from({ length: 10 }, () => random());
+    };
+
+    expect(sequence('partida-42')).not.toEqual(sequence('partida-43'));
+    expect(sequence('')).not.toEqual(sequence('0'));
+  });
+
+  it('should repeat the same sequence for the same seed, within [0, 1)', () => {
+    const first = createSeededRandom('partida-42');
+    const second = createSeededRandom('partida-42');
+    const values = Array.from({ length: 100 }, () => first());
+
+    expect(Array.from({ length: 100 }, () => second())).toEqual(values);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('buildGameDeck - seeded', () => {
+  it('should deal exactly the same deck for a seed', () => {
+    const deck = buildGameDeck(MEMORY_POOL, QUICK_RULESET, 'partida-42');
+
+    expect(deck.map(card => [card.memory, card.authenticity])).toEqual([
+      ['Recuerdo 4', 'authentic'],
+      ['Recuerdo 16', 'authentic'],
+      ['Recuerdo 14', 'authentic'],
+      ['Recuerdo 12', 'authentic'],
+      ['Recuerdo 11', 'corrupted'],
+      ['Recuerdo 2', 'corrupted'],
+      ['Recuerdo 19', 'authentic'],
+      ['Recuerdo 8', 'fatalGlitch'],
+      ['Recuerdo 5', 'authentic'],
+      ['Recuerdo 13', 'corrupted'],
+      ['Recuerdo 10', 'corrupted']
+    ]);
+    expect(deck.map(card => card.value)).toEqual(deck.map(card => QUICK_RULESET.pointValues[card.authenticity]));
+    expect(buildGameDeck(MEMORY_POOL, QUICK_RULESET, 'partida-42')).toEqual(deck);
+  });
+
+  it('should deal a different deck for another seed', () => {
+    expect(buildGameDeck(MEMORY_POOL, QUICK_RULESET, 'partida-43'))
+      .not.toEqual(buildGameDeck(MEMORY_POOL, QUICK_RULESET, 'partida-42'));
+
+    // Deal seeds are 128 random bits in hex: one changed digit is already another deal
+    expect(buildGameDeck(MEMORY_POOL, QUICK_RULESET, '0123456789abcdef0123456789abcdef'))
+      .not.toEqual(buildGameDeck(MEMORY_POOL, QUICK_RULESET, '0123456789abcdef0123456789abcdee'));
+  });
+
+  it('should keep the distribution and the fatal glitch out of the first 7 cards for every seed', () => {
+    const pool = Array.from({ length: 40 }, (_, i) => `Recuerdo ${i + 1}`);
+
+    for (let i = 0; i < 50; i++) {
+      const deck = buildGameDeck(pool, DEFAULT_RULESET, `seed-${i}`);
+      const count = (authenticity: string) => deck.filter(card => card.authenticity === authenticity).length;
+
+      expect(count('authentic')).toBe(DEFAULT_RULESET.distribution.authentic);
+      expect(count('corrupted')).toBe(DEFAULT_RULESET.distribution.corrupted);
+      expect(deck.findIndex(card => card.authenticity === 'fatalGlitch')).toBeGreaterThanOrEqual(7);
+    }
+  });
+});
@@ -1,19 +1,21 @@
-import { doc, setDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, deleteDoc, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
-import type { FirestoreRoom } from '@/types';
-import { createMockRoom } from './testUtils';
+import { toGameState } from '@/services/gameEngine';
+import { splitGameState, type SplitGameState } from '@/services/hiddenDeck';
+import { replayMatchExport } from '@/services/matchExport';
+import { runGameAction } from '../../functions/src/gameActions';
+import type { DeckMetadata, FirestorePlayerView, FirestoreRoom, FirestoreRoomEvent, FirestoreRoomSecret, MatchExport, MemoryCard } from '@/types';
+import { createMockRoom, createMockRoomSecret } from './testUtils';
 
 /**
- * Creates a test room in Firebase emulator
- * Returns the room code for testing
+ * Writes a test room with its secret deck and player views
  */
-export const createTestRoom = async (
+const writeTestRoom = async (
   roomCode: string,
-  player1Id: string = 'test-player-1',
-  player2Id: string = 'test-player-2',
-  overrides?: Partial<FirestoreRoom>
-): Promise<string> => {
-  const roomData = createMockRoom(player1Id, player2Id, overrides);
+  mockRoom: FirestoreRoom,
+  { room, secret, views }: SplitGameState
+): Promise<void> => {
+  const roomData = { ...mockRoom, ...room };
 
   // Convert Date objects to Timestamps for Firestore
   const firestoreData = {
@@ -25,31 +27,155 @@ export const createTestRoom = async (
 
   const roomRef = doc(db, 'rooms', roomCode);
   await setDoc(roomRef, firestoreData);
+  await setDoc(doc(db, 'rooms', roomCode, 'secret', 'deck'), secret);
+  await Promise.all(Object.entries(views).map(([playerId, view]) =>
+    setDoc(doc(db, 'rooms', roomCode, 'views', playerId), view)
+  ));
+};
+
+/**
+ * Creates a test room in Firebase emulator, with its secret deck and player views
+ * Returns the room code for testing
+ */
+export const createTestRoom = async (
+  roomCode: string,
+  player1Id: string = 'test-player-1',
+  player2Id: string = 'test-player-2',
+  overrides?: Partial<FirestoreRoom>,
+  memoryDeck?: MemoryCard[]
+): Promise<string> => {
+  const mockRoom = createMockRoom(player1Id, player2Id, overrides);
+  await writeTestRoom(roomCode, mockRoom, splitGameState(toGameState(mockRoom, createMockRoomSecret(memoryDeck))));
 
   return roomCode;
 };
 
 /**
- * Deletes a test room from Firebase emulator
+ * Creates a test room in Firebase emulator from an exported match (see src/tests/fixtures)
+ * The room is left as it was after the given number of actions, so a real game can be continued
+ * @param roomCode - Code for the test room
+ * @param match - The exported match
+ * @param actionCount - Actions of the match to play before writing the room (all of them by default)
  */
-export const deleteTestRoom = async (roomCode: string): Promise<void> => {
+export const createTestRoomFromMatch = async (
+  roomCode: string,
+  match: MatchExport,
+  actionCount: number = match.actions.length
+): Promise<string> => {
+  const steps = replayMatchExport({ ...match, actions: match.actions.slice(0, actionCount) });
+  const [player1Id, player2Id] = match.players.map(player => player.id);
+  const mockRoom = createMockRoom(player1Id, player2Id, { ruleset: match.ruleset });
+  await writeTestRoom(roomCode, mockRoom, splitGameState(steps[steps.length - 1].state));
+
+  return roomCode;
+};
+
+/**
+ * Reads the secret document (hidden deck) of a test room
+ */
+export const getTestRoomSecret = async (roomCode: string): Promise<FirestoreRoomSecret> => {
+  const secretSnap = await getDoc(doc(db, 'rooms', roomCode, 'secret', 'deck'));
+  return secretSnap.data() as FirestoreRoomSecret;
+};
+
+/**
+ * Reads what a player of a test room can see of the hidden deck
+ */
+export const getTestPlayerView = async (roomCode: string, userId: string): Promise<FirestorePlayerView> => {
+  const viewSnap = await getDoc(doc(db, 'rooms', roomCode, 'views', userId));
+  return viewSnap.data() as FirestorePlayerView;
+};
+
+/**
+ * Reads the event log of a test room, in sequence order
+ */
+export const getTestRoomEvents = async (roomCode: string): Promise<FirestoreRoomEvent[]> => {
+  const eventsSnap = await getDocs(query(collection(db, 'rooms', roomCode, 'events'), orderBy('seq')));
+  return eventsSnap.docs.map(eventDoc => eventDoc.data() as FirestoreRoomEvent);
+};
+
+/**
+ * Deletes a test room from Firebase emulator, with its secret deck, player views and events
+ */
+export const deleteTestRoom = async (roomCode: string, userIds: string[] = []): Promise<void> => {
+  await deleteDoc(doc(db, 'rooms', roomCode, 'secret', 'deck'));
+  await Promise.all(userIds.map(userId => deleteDoc(doc(db, 'rooms', roomCode, 'views', userId))));
+  const eventsSnap = await getDocs(collection(db, 'rooms', roomCode, 'events'));
+  await Promise.all(eventsSnap.docs.map(eventDoc => deleteDoc(eventDoc.ref)));
   const roomRef = doc(db, 'rooms', roomCode);
   await deleteDoc(roomRef);
 };
 
+// Game actions applied through the trusted resolver (the code the gameAction Cloud Function runs)
+export const selectCard = (roomCode: string, cardIndex: number, userId: string) =>
+  runGameAction(roomCode, { type: 'select_card', userId, cardIndex });
+
+export const claimCard = (roomCode: string, userId: string) =>
+  runGameAction(roomCode, { type: 'claim_card', userId });
+
+export const rejectCard = (roomCode: string, userId: string) =>
+  runGameAction(roomCode, { type: 'reject_card', userId });
+
+export const opponentClaimCard = (roomCode: string, userId: string) =>
+  runGameAction(roomCode, { type: 'opponent_claim_card', userId });
+
+export const opponentRejectBack = (roomCode: string, userId: string) =>
+  runGameAction(roomCode, { type: 'opponent_reject_back', userId });
+
 /**
  * Creates test users in Firebase emulator
  */
 export const createTestUser = async (
   userId: string,
   email: string = `${userId}@test.com`,
-  name: string = `Test User ${userId}`
+  name: string = `Test User ${userId}`,
+  currentRoom: string | null = null
 ): Promise<void> => {
   const userRef = doc(db, 'users', userId);
   await setDoc(userRef, {
     email,
     name,
-    current_room: null
+    current_room: currentRoom
+  });
+};
+
+/**
+ * Seeds a memory deck in Firebase emulator (the default one is needed to generate game decks)
+ */
+export const createTestDeck = async (
+  memoryCount: number = 45,
+  deckId: string = 'default',
+  metadata?: Partial<DeckMetadata>
+): Promise<void> => {
+  const deckRef = doc(db, 'decks', deckId);
+  await setDoc(deckRef, {
+    name: `Test deck ${deckId}`,
+    language: 'es',
+    theme: 'Tests',
+    size: memoryCount,
+    author: 'Tests',
+    version: 1,
+    ...metadata,
+    memories: Array.from({ length: memoryCount }, (_, i) => `Test memory ${deckId} ${i + 1}`)
+  });
+};
+
+/**
+ * Creates one of a user's private decks in Firebase emulator
+ */
+export const createTestCustomDeck = async (
+  ownerId: string,
+  deckId: string,
+  memoryCount: number = 45
+): Promise<void> => {
+  await setDoc(doc(db, 'users', ownerId, 'decks', deckId), {
+    name: `Custom deck ${deckId}`,
+    language: 'es',
+    theme: '',
+    size: memoryCount,
+    author: ownerId,
+    version: 1,
+    memories: Array.from({ length: memoryCount }, (_, i) => `Custom memory ${deckId} ${i + 1}`)
   });
 };
 
@@ -57,6 +183,11 @@ export const createTestUser = async (
  * Deletes a test user from Firebase emulator
  */
 export const deleteTestUser = async (userId: string): Promise<void> => {
+  const historySnap = await getDocs(collection(db, 'users', userId, 'rating_history'));
+  await Promise.all(historySnap.docs.map(historyDoc => deleteDoc(historyDoc.ref)));
+  const decksSnap = await getDocs(collection(db, 'users', userId, 'decks'));
+  await Promise.all(decksSnap.docs.map(deckDoc => deleteDoc(deckDoc.ref)));
+  await deleteDoc(doc(db, 'matchmaking', userId));
   const userRef = doc(db, 'users', userId);
   await deleteDoc(userRef);
 };
@@ -69,7 +200,7 @@ export const cleanupTestData = async (
   userIds: string[]
 ): Promise<void> => {
   const deletePromises = [
-    ...roomCodes.map(code => deleteTestRoom(code)),
+    ...roomCodes.map(code => deleteTestRoom(code, userIds)),
     ...userIds.map(id => deleteTestUser(id))
   ];
 
@@ -0,0 +1,279 @@
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import { doc, getDoc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { toGameState } from '@/services/gameEngine';
+import { splitGameState } from '@/services/hiddenDeck';
+import { createMockRoom, createMockRoomSecret } from './testUtils';
+
+// Production rules are loaded on their own project, so the permissive
+// firestore.test.rules used by the integration tests are left untouched
+const PROJECT_ID = 'demo-backup-deathmatch-rules';
+const ROOM_CODE = 'RULES-ROOM-001';
+const PLAYER_1_ID = 'rules-player-1';
+const PLAYER_2_ID = 'rules-player-2';
+const OUTSIDER_ID = 'rules-outsider';
+
+describe('firestore.rules - clients cannot write game state', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const firestoreAs = (userId: string) => testEnv.authenticatedContext(userId).firestore();
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      firestore: {
+        rules: readFileSync(path.resolve(__dirname, '../../firestore.rules'), 'utf8'),
+        host: 'localhost',
+        port: 8080
+      }
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+
+    // Seed a playing room with its secret deck and views, bypassing the rules (as the server does)
+    const { room, secret, views } = splitGameState(
+      toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret())
+    );
+
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'rooms', ROOM_CODE), { ...createMockRoom(PLAYER_1_ID, PLAYER_2_ID), ...room });
+      await setDoc(doc(db, 'rooms', ROOM_CODE, 'secret', 'deck'), secret);
+      await setDoc(doc(db, 'rooms', ROOM_CODE, 'views', PLAYER_1_ID), views[PLAYER_1_ID]);
+      await setDoc(doc(db, 'rooms', ROOM_CODE, 'views', PLAYER_2_ID), views[PLAYER_2_ID]);
+      await setDoc(doc(db, 'series', ROOM_CODE), { order_players: [PLAYER_1_ID, PLAYER_2_ID], wins: {} });
+      await setDoc(doc(db, 'users', PLAYER_1_ID), { email: 'player1@test.com', current_room: ROOM_CODE });
+      await setDoc(doc(db, 'users', PLAYER_2_ID), { email: 'player2@test.com', current_room: ROOM_CODE });
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  describe('rooms', () => {
+    it('should let authenticated users read rooms', async () => {
+      await assertSucceeds(getDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE)));
+    });
+
+    it('should reject unauthenticated reads', async () => {
+      await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), 'rooms', ROOM_CODE)));
+    });
+
+    it('should reject a player setting their own integrity', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE), {
+        [`players.${PLAYER_1_ID}.integrity`]: 10
+      }));
+    });
+
+    it('should reject a player declaring themselves the winner', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE), {
+        status: 'finished',
+        winner: PLAYER_1_ID
+      }));
+    });
+
+    it('should reject joining a room by writing it directly', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE), {
+        order_players: [PLAYER_1_ID, OUTSIDER_ID]
+      }));
+    });
+
+    it('should reject creating and deleting rooms from the client', async () => {
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', 'RULES-ROOM-002'), createMockRoom(PLAYER_1_ID)));
+      await assertFails(deleteDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE)));
+    });
+  });
+
+  describe('hidden deck', () => {
+    it('should keep the secret deck unreadable, even for players', async () => {
+      await assertFails(getDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'secret', 'deck')));
+    });
+
+    it('should only let each player read their own view', async () => {
+      await assertSucceeds(getDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'views', PLAYER_1_ID)));
+      await assertFails(getDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'views', PLAYER_2_ID)));
+    });
+
+    it('should reject writes to a player view', async () => {
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'views', PLAYER_1_ID), {
+        current_card: { memory: 'Fake', authenticity: 'authentic', value: 1 },
+        peeked_cards: []
+      }));
+    });
+  });
+
+  describe('spectators', () => {
+    it('should let a spectator register and leave', async () => {
+      const spectatorRef = doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE, 'spectators', OUTSIDER_ID);
+
+      await assertSucceeds(setDoc(spectatorRef, { joinedAt: new Date() }));
+      await assertSucceeds(deleteDoc(spectatorRef));
+    });
+
+    it('should reject registering someone else or a player as spectator', async () => {
+      await assertFails(setDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE, 'spectators', PLAYER_2_ID), { joinedAt: new Date() }));
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'spectators', PLAYER_1_ID), { joinedAt: new Date() }));
+    });
+
+    it('should never let a spectator read the hidden cards', async () => {
+      await assertFails(getDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE, 'secret', 'deck')));
+      await assertFails(getDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE, 'views', PLAYER_1_ID)));
+    });
+  });
+
+  describe('event log', () => {
+    const seedEvent = (status: string) => testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await updateDoc(doc(db, 'rooms', ROOM_CODE), { status });
+      await setDoc(doc(db, 'rooms', ROOM_CODE, 'events', '000001'), {
+        type: 'PlayerJoined',
+        userId: PLAYER_2_ID,
+        seq: 1,
+        createdAt: new Date()
+      });
+    });
+
+    it('should hide events while the game is being played', async () => {
+      await seedEvent('playing');
+
+      await assertFails(getDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'events', '000001')));
+    });
+
+    it('should let authenticated users read events once the game is finished', async () => {
+      await seedEvent('finished');
+
+      await assertSucceeds(getDoc(doc(firestoreAs(OUTSIDER_ID), 'rooms', ROOM_CODE, 'events', '000001')));
+    });
+
+    it('should reject writing events from the client', async () => {
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'rooms', ROOM_CODE, 'events', '000002'), {
+        type: 'PlayerLeft',
+        userId: PLAYER_1_ID,
+        seq: 2,
+        createdAt: new Date()
+      }));
+    });
+  });
+
+  describe('matchmaking', () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'matchmaking', PLAYER_1_ID), {
+          rating: 1000,
+          status: 'waiting',
+          room_code: null,
+          joinedAt: new Date()
+        });
+      });
+    });
+
+    it('should only let users read their own queue entry', async () => {
+      await assertSucceeds(getDoc(doc(firestoreAs(PLAYER_1_ID), 'matchmaking', PLAYER_1_ID)));
+      await assertFails(getDoc(doc(firestoreAs(OUTSIDER_ID), 'matchmaking', PLAYER_1_ID)));
+    });
+
+    it('should reject joining or leaving the queue by writing it directly', async () => {
+      await assertFails(setDoc(doc(firestoreAs(OUTSIDER_ID), 'matchmaking', OUTSIDER_ID), {
+        rating: 1000,
+        status: 'waiting',
+        room_code: null,
+        joinedAt: new Date()
+      }));
+      await assertFails(deleteDoc(doc(firestoreAs(PLAYER_1_ID), 'matchmaking', PLAYER_1_ID)));
+    });
+  });
+
+  describe('custom decks', () => {
+    const createCustomDeck = (memoryCount: number) => ({
+      name: 'Mis recuerdos',
+      language: 'es',
+      theme: '',
+      size: memoryCount,
+      author: 'Player 1',
+      version: 1,
+      memories: Array.from({ length: memoryCount }, (_, i) => `Recuerdo ${i + 1}`)
+    });
+
+    it('should let users write and read their own decks', async () => {
+      const deckRef = doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID, 'decks', 'mine');
+
+      await assertSucceeds(setDoc(deckRef, createCustomDeck(20)));
+      await assertSucceeds(getDoc(deckRef));
+      await assertSucceeds(deleteDoc(deckRef));
+    });
+
+    it('should keep decks private to their owner', async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await setDoc(doc(context.firestore(), 'users', PLAYER_1_ID, 'decks', 'mine'), createCustomDeck(20));
+      });
+      const deckRef = doc(firestoreAs(PLAYER_2_ID), 'users', PLAYER_1_ID, 'decks', 'mine');
+
+      await assertFails(getDoc(deckRef));
+      await assertFails(setDoc(deckRef, createCustomDeck(20)));
+      await assertFails(deleteDoc(deckRef));
+    });
+
+    it('should reject decks that break the limits', async () => {
+      const deckRef = doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID, 'decks', 'mine');
+
+      await assertFails(setDoc(deckRef, createCustomDeck(5)));
+      await assertFails(setDoc(deckRef, createCustomDeck(301)));
+      await assertFails(setDoc(deckRef, { ...createCustomDeck(20), size: 45 }));
+      await assertFails(setDoc(deckRef, { ...createCustomDeck(20), name: '' }));
+      await assertFails(setDoc(deckRef, { ...createCustomDeck(20), rating: 3000 }));
+    });
+
+    it('should reject writing the shared catalog', async () => {
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'decks', 'default'), createCustomDeck(20)));
+    });
+  });
+
+  describe('series and users', () => {
+    it('should reject players writing series results', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'series', ROOM_CODE), {
+        [`wins.${PLAYER_1_ID}`]: 2
+      }));
+    });
+
+    it('should only let users update their own document', async () => {
+      await assertSucceeds(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID), { current_room: null }));
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_2_ID), { current_room: null }));
+    });
+
+    it('should reject users writing their own stats', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID), { 'stats.gamesPlayed': 100 }));
+      await assertFails(setDoc(doc(firestoreAs(OUTSIDER_ID), 'users', OUTSIDER_ID), {
+        email: 'outsider@test.com',
+        current_room: null,
+        stats: { gamesPlayed: 100 }
+      }));
+    });
+
+    it('should reject users writing their own rating', async () => {
+      await assertFails(updateDoc(doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID), { rating: 3000 }));
+      await assertFails(setDoc(doc(firestoreAs(OUTSIDER_ID), 'users', OUTSIDER_ID), {
+        email: 'outsider@test.com',
+        current_room: null,
+        rating: 3000
+      }));
+    });
+
+    it('should let authenticated users read rating history but never write it', async () => {
+      await assertSucceeds(getDoc(doc(firestoreAs(OUTSIDER_ID), 'users', PLAYER_1_ID, 'rating_history', ROOM_CODE)));
+      await assertFails(setDoc(doc(firestoreAs(PLAYER_1_ID), 'users', PLAYER_1_ID, 'rating_history', ROOM_CODE), {
+        rating: 3000,
+        delta: 2000
+      }));
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { validateGameAction } from '@/lib/validations/gameAction';
+
+const PLAYER_ID = 'player1';
+
+describe('Game action validation', () => {
+  it('should accept every action type played by the authenticated player', () => {
+    expect(validateGameAction({ type: 'select_card', cardIndex: 2 }, PLAYER_ID))
+      .toEqual({ type: 'select_card', cardIndex: 2, userId: PLAYER_ID });
+    expect(validateGameAction({ type: 'use_item', itemId: 'item-1', target: { cardIndex: 0 } }, PLAYER_ID))
+      .toEqual({ type: 'use_item', itemId: 'item-1', target: { cardIndex: 0 }, userId: PLAYER_ID });
+    expect(validateGameAction({ type: 'resolve_timeout' }, PLAYER_ID))
+      .toEqual({ type: 'resolve_timeout', userId: PLAYER_ID });
+  });
+
+  it('should ignore the userId sent by the client and drop unknown fields', () => {
+    expect(validateGameAction({ type: 'claim_card', userId: 'someone-else', points: 99 }, PLAYER_ID))
+      .toEqual({ type: 'claim_card', userId: PLAYER_ID });
+  });
+
+  it('should reject unknown or missing action types', () => {
+    expect(() => validateGameAction({ type: 'steal_card' }, PLAYER_ID)).toThrow('Acción inválida.');
+    expect(() => validateGameAction({}, PLAYER_ID)).toThrow('Acción inválida.');
+    expect(() => validateGameAction(null, PLAYER_ID)).toThrow();
+  });
+
+  it('should reject card indexes that are not non negative integers', () => {
+    expect(() => validateGameAction({ type: 'select_card', cardIndex: 1.5 }, PLAYER_ID))
+      .toThrow('El índice de carta debe ser un número entero');
+    expect(() => validateGameAction({ type: 'select_card', cardIndex: -1 }, PLAYER_ID))
+      .toThrow('El índice de carta no puede ser negativo');
+    expect(() => validateGameAction({ type: 'select_card', cardIndex: '0' }, PLAYER_ID))
+      .toThrow('El índice de carta debe ser un número');
+    expect(() => validateGameAction({ type: 'use_item', itemId: 'item-1', target: { cardIndex: 7.2 } }, PLAYER_ID))
+      .toThrow('El índice de carta debe ser un número entero');
+  });
+
+  it('should reject an item action without an item id', () => {
+    expect(() => validateGameAction({ type: 'use_item', itemId: '' }, PLAYER_ID)).toThrow('El id del item es requerido');
+    expect(() => validateGameAction({ type: 'use_item' }, PLAYER_ID)).toThrow();
+  });
+});
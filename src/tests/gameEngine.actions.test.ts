@@ -0,0 +1,318 @@
+import { describe, it, expect } from 'vitest';
+import { applyAction, forfeitMatch, isGameError, toGameState } from '@/services/gameEngine';
+import { DEFAULT_RULESET } from '@/config/gameConfig';
+import { createMockMemoryCard, createMockRoom, createMockRoomSecret, deepClone } from './testUtils';
+import type { ActionResult, GameAction, GameState } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+/**
+ * Unwraps a successful engine result, failing the test on GameError
+ */
+const expectSuccess = (result: ActionResult) => {
+  if (isGameError(result)) {
+    throw new Error(`Expected success but got ${result.code}: ${result.message}`);
+  }
+  return result;
+};
+
+/**
+ * Creates a game state in 'decide' with the given card selected by player 1
+ */
+const createDecideState = (overrides?: Partial<GameState>): GameState => {
+  const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+  return {
+    ...state,
+    current_card: state.table_cards[0],
+    selected_card_index: 0,
+    card_initiator: PLAYER_1_ID,
+    turn_state: 'decide',
+    ...overrides
+  };
+};
+
+describe('gameEngine - applyAction', () => {
+  describe('select_card', () => {
+    it('should move the selected table card to current_card', () => {
+      const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+
+      const result = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 1 }));
+
+      expect(result.state.turn_state).toBe('decide');
+      expect(result.state.current_card).toEqual(state.table_cards[1]);
+      expect(result.state.selected_card_index).toBe(1);
+      expect(result.state.card_initiator).toBe(PLAYER_1_ID);
+      expect(result.state.current_multiplier).toBe(1);
+      expect(result.events).toEqual([
+        { type: 'CardSelected', userId: PLAYER_1_ID, cardIndex: 1, card: state.table_cards[1] }
+      ]);
+    });
+
+    it('should return an error if it is not the player turn', () => {
+      const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+
+      const result = applyAction(state, { type: 'select_card', userId: PLAYER_2_ID, cardIndex: 0 });
+
+      expect(result).toEqual({ code: 'not_your_turn', message: 'No es tu turno.' });
+    });
+
+    it('should return an error if the game is not in progress', () => {
+      const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' }), createMockRoomSecret());
+
+      const result = applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 });
+
+      expect(isGameError(result) && result.code).toBe('not_playing');
+    });
+
+    it('should return an error for an invalid card index', () => {
+      const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+
+      const result = applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 3 });
+
+      expect(isGameError(result) && result.code).toBe('invalid_card_index');
+      expect(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0.5 }))
+        .toMatchObject({ code: 'invalid_card_index' });
+    });
+  });
+
+  describe('unknown actions', () => {
+    it('should return an error instead of falling through', () => {
+      const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+      const action = { type: 'steal_card', userId: PLAYER_1_ID } as unknown as GameAction;
+
+      const result = applyAction(state, action);
+
+      expect(isGameError(result)).toBe(true);
+      expect(result).toEqual({ code: 'unknown_action', message: 'Acción desconocida.' });
+    });
+  });
+
+  describe('claim_card', () => {
+    it('should apply points, refresh the table and pass the turn', () => {
+      const state = createDecideState();
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].integrity).toBe(state.current_card!.value);
+      expect(result.state.turn).toBe(1);
+      expect(result.state.turn_state).toBe('draw');
+      expect(result.state.current_card).toBeNull();
+      expect(result.state.table_cards[0]).toEqual(state.memory_deck[3]);
+      expect(result.state.cards_drawn).toBe(4);
+      expect(result.state.used_cards).toHaveLength(1);
+      expect(result.state.used_cards[0].wasForced).toBe(false);
+      expect(result.events[0]).toMatchObject({ type: 'CardClaimed', userId: PLAYER_1_ID, points: 1 });
+    });
+
+    it('should not mutate the given state', () => {
+      const state = createDecideState();
+      const snapshot = deepClone(state);
+
+      applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID });
+
+      expect(state).toEqual(snapshot);
+    });
+
+    it('should return an error if the player is not the initiator', () => {
+      const state = createDecideState();
+
+      const result = applyAction(state, { type: 'claim_card', userId: PLAYER_2_ID });
+
+      expect(isGameError(result) && result.code).toBe('not_initiator');
+    });
+
+    it('should finish the game when a player reaches +10', () => {
+      const state = createDecideState({
+        players: {
+          [PLAYER_1_ID]: { integrity: 9, items: [] },
+          [PLAYER_2_ID]: { integrity: 0, items: [] }
+        }
+      });
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('finished');
+      expect(result.state.winner).toBe(PLAYER_1_ID);
+      expect(result.state.win_reason).toBe('reached_10_points');
+      expect(result.state.turn).toBe(0);
+      expect(result.events.map(event => event.type)).toEqual(['CardClaimed', 'GameFinished']);
+    });
+  });
+
+  describe('reject flow', () => {
+    it('should pass the card to the opponent with a 3x multiplier', () => {
+      const state = createDecideState();
+
+      const result = expectSuccess(applyAction(state, { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.turn_state).toBe('opponent_decide');
+      expect(result.state.current_multiplier).toBe(3);
+      expect(result.state.current_card).toEqual(state.current_card);
+      expect(result.events).toEqual([{ type: 'CardRejected', userId: PLAYER_1_ID, multiplier: 3 }]);
+    });
+
+    it('should apply 3x points to the opponent when they claim', () => {
+      const rejected = expectSuccess(applyAction(createDecideState(), { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      const result = expectSuccess(applyAction(rejected.state, { type: 'opponent_claim_card', userId: PLAYER_2_ID }));
+
+      expect(result.state.players[PLAYER_2_ID].integrity).toBe(3);
+      expect(result.state.players[PLAYER_1_ID].integrity).toBe(0);
+      expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_2_ID, multiplier: 3, wasForced: false });
+    });
+
+    it('should force 3x points back to the initiator on reject back', () => {
+      const corrupted = createMockMemoryCard('corrupted', 'Corrupted memory');
+      const rejected = expectSuccess(applyAction(
+        createDecideState({ current_card: corrupted }),
+        { type: 'reject_card', userId: PLAYER_1_ID }
+      ));
+
+      const result = expectSuccess(applyAction(rejected.state, { type: 'opponent_reject_back', userId: PLAYER_2_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].integrity).toBe(-3);
+      expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_1_ID, multiplier: 3, wasForced: true });
+      expect(result.events[0]).toMatchObject({ type: 'CardForcedBack', userId: PLAYER_2_ID, targetId: PLAYER_1_ID, points: -3 });
+    });
+
+    it('should return an error if the initiator tries to claim their own rejected card', () => {
+      const rejected = expectSuccess(applyAction(createDecideState(), { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      const result = applyAction(rejected.state, { type: 'opponent_claim_card', userId: PLAYER_1_ID });
+
+      expect(result).toEqual({ code: 'is_initiator', message: 'No puedes reclamar tu propia carta rechazada.' });
+    });
+
+    it('should declare the opponent winner when a fatal glitch is forced back', () => {
+      const rejected = expectSuccess(applyAction(
+        createDecideState({ current_card: createMockMemoryCard('fatalGlitch', 'Fatal glitch') }),
+        { type: 'reject_card', userId: PLAYER_1_ID }
+      ));
+
+      const result = expectSuccess(applyAction(rejected.state, { type: 'opponent_reject_back', userId: PLAYER_2_ID }));
+
+      expect(result.state.status).toBe('finished');
+      expect(result.state.winner).toBe(PLAYER_2_ID);
+      expect(result.state.win_reason).toBe('opponent_defeated');
+    });
+  });
+
+  describe('deck exhaustion', () => {
+    /**
+     * Creates a 'decide' state where the selected card is the last one left in the game
+     */
+    const createLastCardState = (player1Integrity: number, player2Integrity: number): GameState => {
+      const state = createDecideState();
+      const lastCard = createMockMemoryCard('authentic', 'Last memory');
+      return {
+        ...state,
+        players: {
+          [PLAYER_1_ID]: { integrity: player1Integrity, items: [] },
+          [PLAYER_2_ID]: { integrity: player2Integrity, items: [] }
+        },
+        table_cards: [lastCard],
+        cards_drawn: state.memory_deck.length,
+        current_card: lastCard,
+        selected_card_index: 0
+      };
+    };
+
+    it('should finish with the highest integrity as winner when the last card is played', () => {
+      const state = createLastCardState(2, 2);
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('finished');
+      expect(result.state.table_cards).toHaveLength(0);
+      expect(result.state.winner).toBe(PLAYER_1_ID);
+      expect(result.state.win_reason).toBe('deck_exhausted');
+      expect(result.events[1]).toEqual({ type: 'GameFinished', winnerId: PLAYER_1_ID, reason: 'deck_exhausted' });
+    });
+
+    it('should finish as a draw when integrities are tied', () => {
+      const state = createLastCardState(1, 2);
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('finished');
+      expect(result.state.winner).toBeNull();
+      expect(result.state.win_reason).toBe('draw');
+    });
+
+    it('should keep playing while cards remain on the table', () => {
+      const state = createLastCardState(0, 0);
+      const stateWithSpare = { ...state, table_cards: [...state.table_cards, createMockMemoryCard('corrupted')] };
+
+      const result = expectSuccess(applyAction(stateWithSpare, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('playing');
+      expect(result.state.table_cards).toHaveLength(1);
+    });
+  });
+
+  describe('ruleset', () => {
+    it('should use the ruleset reject multiplier', () => {
+      const state = createDecideState();
+      const customState = { ...state, ruleset: { ...state.ruleset, rejectMultiplier: 2 } };
+
+      const result = expectSuccess(applyAction(customState, { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.current_multiplier).toBe(2);
+    });
+
+    it('should finish the game at the ruleset target integrity', () => {
+      const state = createDecideState({
+        players: {
+          [PLAYER_1_ID]: { integrity: 2, items: [] },
+          [PLAYER_2_ID]: { integrity: 0, items: [] }
+        }
+      });
+      const customState = { ...state, ruleset: { ...state.ruleset, targetIntegrity: 3 } };
+
+      const result = expectSuccess(applyAction(customState, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('finished');
+      expect(result.state.winner).toBe(PLAYER_1_ID);
+    });
+
+    it('should fall back to the default ruleset for rooms without one', () => {
+      const room = createMockRoom(PLAYER_1_ID, PLAYER_2_ID);
+      delete room.ruleset;
+
+      const state = toGameState(room, createMockRoomSecret());
+
+      expect(state.ruleset).toEqual(DEFAULT_RULESET);
+    });
+  });
+});
+
+describe('gameEngine - forfeitMatch', () => {
+  it('should finish the match with the remaining player as winner', () => {
+    const state = createDecideState();
+
+    const result = expectSuccess(forfeitMatch(state, PLAYER_1_ID));
+
+    expect(result.state.status).toBe('finished');
+    expect(result.state.winner).toBe(PLAYER_2_ID);
+    expect(result.state.win_reason).toBe('opponent_forfeited');
+    expect(result.state.order_players).toEqual([PLAYER_1_ID, PLAYER_2_ID]);
+    expect(result.events).toEqual([{ type: 'GameFinished', winnerId: PLAYER_2_ID, reason: 'opponent_forfeited' }]);
+  });
+
+  it('should allow forfeiting during the intro', () => {
+    const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { status: 'intro' }), createMockRoomSecret());
+
+    const result = expectSuccess(forfeitMatch(state, PLAYER_2_ID));
+
+    expect(result.state.winner).toBe(PLAYER_1_ID);
+  });
+
+  it('should return an error when the match is not in progress', () => {
+    const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { status: 'finished' }), createMockRoomSecret());
+
+    const result = forfeitMatch(state, PLAYER_1_ID);
+
+    expect(isGameError(result) && result.code).toBe('not_in_progress');
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { applyAction, isGameError, toGameState } from '@/services/gameEngine';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { createMockItem, createMockMemoryCard, createMockRoom, createMockRoomSecret } from './testUtils';
+import type { ActionResult, FirestorePlayer, GameState, ItemCard } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+/**
+ * Unwraps a successful engine result, failing the test on GameError
+ */
+const expectSuccess = (result: ActionResult) => {
+  if (isGameError(result)) {
+    throw new Error(`Expected success but got ${result.code}: ${result.message}`);
+  }
+  return result;
+};
+
+/**
+ * Creates a game state in 'draw' where player 1 holds the given items
+ */
+const createStateWithItems = (items: ItemCard[], overrides?: Partial<GameState>): GameState => {
+  const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+  return {
+    ...state,
+    players: {
+      ...state.players,
+      [PLAYER_1_ID]: { ...state.players[PLAYER_1_ID], items }
+    },
+    ...overrides
+  };
+};
+
+/**
+ * Puts the given card in play, selected by player 1
+ */
+const withCardInPlay = (state: GameState, card = state.table_cards[0]): GameState => ({
+  ...state,
+  current_card: card,
+  selected_card_index: 0,
+  card_initiator: PLAYER_1_ID,
+  turn_state: 'decide'
+});
+
+const setPlayer = (state: GameState, userId: string, player: Partial<FirestorePlayer>): GameState => ({
+  ...state,
+  players: {
+    ...state.players,
+    [userId]: { ...state.players[userId], ...player }
+  }
+});
+
+describe('gameEngine - Items', () => {
+  describe('earning items', () => {
+    it('should grant the next item when claiming an authentic memory', () => {
+      const itemDeck = [createMockItem('shield'), createMockItem('peek')];
+      const state = withCardInPlay(createStateWithItems([], { item_deck: itemDeck }));
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].items).toEqual([itemDeck[0]]);
+      expect(result.state.item_deck).toEqual([itemDeck[1]]);
+      expect(result.events).toContainEqual({ type: 'ItemEarned', userId: PLAYER_1_ID, item: itemDeck[0] });
+    });
+
+    it('should not grant items for corrupted memories', () => {
+      const state = withCardInPlay(
+        createStateWithItems([], { item_deck: [createMockItem('shield')] }),
+        createMockMemoryCard('corrupted')
+      );
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].items).toHaveLength(0);
+      expect(result.state.item_deck).toHaveLength(1);
+    });
+
+    it('should not grant items when the player hand is full', () => {
+      const hand = Array.from({ length: GAME_CONFIG.items.maxPerPlayer }, (_, i) => createMockItem('peek', `peek-${i + 1}`));
+      const state = withCardInPlay(createStateWithItems(hand, { item_deck: [createMockItem('shield')] }));
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].items).toEqual(hand);
+      expect(result.events.map(event => event.type)).not.toContain('ItemEarned');
+    });
+
+    it('should grant an item to a player who survives a fatal glitch', () => {
+      const shielded = setPlayer(createStateWithItems([], { item_deck: [createMockItem('swap')] }), PLAYER_1_ID, { shielded: true });
+      const state = withCardInPlay(shielded, createMockMemoryCard('fatalGlitch'));
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.status).toBe('playing');
+      expect(result.state.players[PLAYER_1_ID].items).toHaveLength(1);
+    });
+  });
+
+  describe('use_item', () => {
+    it('should return an error if the player does not own the item', () => {
+      const state = createStateWithItems([]);
+
+      const result = applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'peek-1', target: { cardIndex: 0 } });
+
+      expect(result).toEqual({ code: 'item_not_owned', message: 'No tienes ese item.' });
+    });
+
+    it('should return an error when using a turn item outside the player turn', () => {
+      const state = createStateWithItems([createMockItem('shield')], { turn: 1 });
+
+      const result = applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'shield-1' });
+
+      expect(isGameError(result) && result.code).toBe('item_not_usable');
+    });
+
+    it('should consume the item and emit ItemUsed', () => {
+      const shield = createMockItem('shield');
+      const state = createStateWithItems([shield]);
+
+      const result = expectSuccess(applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: shield.id }));
+
+      expect(result.state.players[PLAYER_1_ID].items).toHaveLength(0);
+      expect(result.events).toEqual([{ type: 'ItemUsed', userId: PLAYER_1_ID, item: shield }]);
+    });
+  });
+
+  describe('effects', () => {
+    it('peek should reveal the targeted table card to the player', () => {
+      const state = createStateWithItems([createMockItem('peek')]);
+
+      const result = expectSuccess(applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'peek-1', target: { cardIndex: 2 } }));
+
+      expect(result.state.players[PLAYER_1_ID].peeked_cards).toEqual([state.table_cards[2]]);
+      expect(result.state.turn_state).toBe('draw');
+    });
+
+    it('peek should require a valid table card', () => {
+      const state = createStateWithItems([createMockItem('peek')]);
+
+      const result = applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'peek-1' });
+
+      expect(isGameError(result) && result.code).toBe('invalid_card_index');
+    });
+
+    it('shield should block the next negative points and be consumed', () => {
+      const shielded = expectSuccess(applyAction(
+        createStateWithItems([createMockItem('shield')]),
+        { type: 'use_item', userId: PLAYER_1_ID, itemId: 'shield-1' }
+      ));
+      const state = withCardInPlay(shielded.state, createMockMemoryCard('corrupted'));
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].integrity).toBe(0);
+      expect(result.state.players[PLAYER_1_ID].shielded).toBe(false);
+      expect(result.events).toContainEqual({ type: 'ShieldBlocked', userId: PLAYER_1_ID, points: -1 });
+    });
+
+    it('shield should not block positive points', () => {
+      const state = withCardInPlay(setPlayer(createStateWithItems([]), PLAYER_1_ID, { shielded: true }));
+
+      const result = expectSuccess(applyAction(state, { type: 'claim_card', userId: PLAYER_1_ID }));
+
+      expect(result.state.players[PLAYER_1_ID].integrity).toBe(1);
+      expect(result.state.players[PLAYER_1_ID].shielded).toBe(true);
+    });
+
+    it('swap should replace the table card and move it to the bottom of the deck', () => {
+      const state = createStateWithItems([createMockItem('swap')]);
+      const swappedCard = state.table_cards[1];
+
+      const result = expectSuccess(applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'swap-1', target: { cardIndex: 1 } }));
+
+      expect(result.state.table_cards[1]).toEqual(state.memory_deck[3]);
+      expect(result.state.cards_drawn).toBe(state.cards_drawn);
+      expect(result.state.memory_deck).toHaveLength(state.memory_deck.length);
+      expect(result.state.memory_deck[result.state.memory_deck.length - 1]).toEqual(swappedCard);
+      // Drawn part of the deck still matches the table
+      expect(result.state.memory_deck.slice(0, result.state.cards_drawn)).toEqual(
+        expect.arrayContaining(result.state.table_cards)
+      );
+    });
+
+    it('swap should return an error when the deck is empty', () => {
+      const state = createStateWithItems([createMockItem('swap')]);
+      const emptyDeckState = { ...state, cards_drawn: state.memory_deck.length };
+
+      const result = applyAction(emptyDeckState, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'swap-1', target: { cardIndex: 0 } });
+
+      expect(isGameError(result) && result.code).toBe('deck_empty');
+    });
+
+    it('swap should return an error when the table card is not in the drawn part of the deck', () => {
+      const state = createStateWithItems([createMockItem('swap')]);
+      const tableCards = [...state.table_cards];
+      tableCards[1] = createMockMemoryCard('authentic', 'Recuerdo que no está en el mazo');
+      const corruptedState = { ...state, table_cards: tableCards };
+
+      const result = applyAction(corruptedState, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'swap-1', target: { cardIndex: 1 } });
+
+      expect(result).toEqual({ code: 'invalid_target', message: 'La carta elegida no está en el mazo.' });
+    });
+
+    it('cancel_multiplier should reset the multiplier of a rejected card', () => {
+      const state = setPlayer(
+        withCardInPlay(createStateWithItems([])),
+        PLAYER_2_ID,
+        { items: [createMockItem('cancel_multiplier')] }
+      );
+      const rejected = expectSuccess(applyAction(state, { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      const result = expectSuccess(applyAction(rejected.state, { type: 'use_item', userId: PLAYER_2_ID, itemId: 'cancel_multiplier-1' }));
+
+      expect(result.state.current_multiplier).toBe(1);
+      expect(result.state.turn_state).toBe('opponent_decide');
+    });
+
+    it('cancel_multiplier should not be usable by the card initiator', () => {
+      const state = withCardInPlay(createStateWithItems([createMockItem('cancel_multiplier')]));
+      const rejected = expectSuccess(applyAction(state, { type: 'reject_card', userId: PLAYER_1_ID }));
+
+      const result = applyAction(rejected.state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'cancel_multiplier-1' });
+
+      expect(isGameError(result) && result.code).toBe('item_not_usable');
+    });
+  });
+});
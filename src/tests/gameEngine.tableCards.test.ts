@@ -4,10 +4,10 @@ import {
   refreshTableCards,
   canGameContinue,
   getRemainingCardsCount
-} from '@/services/gameService';
+} from '@/services/gameEngine';
 import { createMockDeck } from './testUtils';
 
-describe('gameService - Table Cards Management', () => {
+describe('gameEngine - Table Cards Management', () => {
   describe('initializeTableCards', () => {
     it('should return first 3 cards from the deck', () => {
       const deck = createMockDeck(5, 5, 5); // 15 cards total
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { applyAction, getPhaseDeadline, isGameError, toGameState } from '@/services/gameEngine';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { createMockItem, createMockRoom, createMockRoomSecret } from './testUtils';
+import type { ActionResult, GameState } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+const START = new Date('2025-01-01T00:00:00Z');
+
+/**
+ * Unwraps a successful engine result, failing the test on GameError
+ */
+const expectSuccess = (result: ActionResult) => {
+  if (isGameError(result)) {
+    throw new Error(`Expected success but got ${result.code}: ${result.message}`);
+  }
+  return result;
+};
+
+/**
+ * Creates a playing state whose draw phase started at START
+ */
+const createPlayingState = (overrides?: Partial<GameState>): GameState => ({
+  ...toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret()),
+  turn_deadline: getPhaseDeadline('draw', START),
+  ...overrides
+});
+
+const afterDeadline = (state: GameState) => new Date(state.turn_deadline! + 1);
+
+describe('gameEngine - Turn deadlines', () => {
+  it('should start a new deadline when the phase changes', () => {
+    const state = createPlayingState();
+    const actionTime = new Date(START.getTime() + 5000);
+
+    const result = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 }, actionTime));
+
+    expect(result.state.turn_deadline).toBe(getPhaseDeadline('decide', actionTime));
+  });
+
+  it('should keep the deadline when the phase does not change', () => {
+    const state = createPlayingState({
+      players: {
+        [PLAYER_1_ID]: { integrity: 0, items: [createMockItem('shield')] },
+        [PLAYER_2_ID]: { integrity: 0, items: [] }
+      }
+    });
+
+    const result = expectSuccess(applyAction(state, { type: 'use_item', userId: PLAYER_1_ID, itemId: 'shield-1' }, new Date(START.getTime() + 5000)));
+
+    expect(result.state.turn_deadline).toBe(state.turn_deadline);
+  });
+
+  it('should clear the deadline when the game finishes', () => {
+    const state = createPlayingState({
+      players: {
+        [PLAYER_1_ID]: { integrity: 9, items: [] },
+        [PLAYER_2_ID]: { integrity: 0, items: [] }
+      }
+    });
+    const selected = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 }, START));
+
+    const result = expectSuccess(applyAction(selected.state, { type: 'claim_card', userId: PLAYER_1_ID }, START));
+
+    expect(result.state.status).toBe('finished');
+    expect(result.state.turn_deadline).toBeNull();
+  });
+});
+
+describe('gameEngine - resolve_timeout', () => {
+  it('should return an error before the deadline passes', () => {
+    const state = createPlayingState();
+
+    const result = applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, START);
+
+    expect(result).toEqual({ code: 'deadline_not_reached', message: 'El tiempo del turno aún no se ha agotado.' });
+  });
+
+  it('should auto-select a table card in the draw phase', () => {
+    const state = createPlayingState();
+
+    const result = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)));
+
+    expect(result.state.turn_state).toBe('decide');
+    expect(result.state.card_initiator).toBe(PLAYER_1_ID);
+    expect(result.state.players[PLAYER_1_ID].timeouts).toBe(1);
+    expect(result.events[0]).toEqual({ type: 'TurnTimedOut', userId: PLAYER_1_ID, turnState: 'draw', timeouts: 1 });
+  });
+
+  it('should pick the same card for the same state', () => {
+    const state = createPlayingState();
+    const now = afterDeadline(state);
+
+    const first = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_1_ID }, now));
+    const second = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, now));
+
+    expect(first.state.selected_card_index).toBe(second.state.selected_card_index);
+  });
+
+  it('should pick the card from the deal seed, the same for the same seed', () => {
+    const pickFor = (deckSeed: string) => {
+      const state = createPlayingState({ deck_seed: deckSeed });
+      return expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)))
+        .state.selected_card_index;
+    };
+    const picks = Array.from({ length: 20 }, (_, i) => pickFor(`0123456789abcdef0123456789abcd${String(i).padStart(2, '0')}`));
+
+    expect(picks.map((_, i) => pickFor(`0123456789abcdef0123456789abcd${String(i).padStart(2, '0')}`))).toEqual(picks);
+    picks.forEach(pick => {
+      expect(pick).toBeGreaterThanOrEqual(0);
+      expect(pick).toBeLessThan(3);
+    });
+    // Not derived from the public state: different seeds pick different cards on the same table
+    expect(new Set(picks).size).toBeGreaterThan(1);
+  });
+
+  it('should fall back to a pick derived from the public state for decks dealt without a seed', () => {
+    const state = createPlayingState({ deck_seed: null });
+
+    const result = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)));
+
+    expect(result.state.selected_card_index).toBe((state.cards_drawn + state.used_cards.length) % state.table_cards.length);
+  });
+
+  it('should record the auto-selected card in used_cards once it is claimed', () => {
+    const state = createPlayingState();
+    const timedOut = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)));
+
+    expect(timedOut.state.auto_selected).toBe(true);
+
+    const result = expectSuccess(applyAction(timedOut.state, { type: 'claim_card', userId: PLAYER_1_ID }, START));
+
+    expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_1_ID, autoSelected: true, wasForced: false });
+    expect(result.state.used_cards[0].timedOut).toBeUndefined();
+    expect(result.state.auto_selected).toBe(false);
+  });
+
+  it('should not mark cards the player selected themselves', () => {
+    const state = createPlayingState();
+    const selected = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 }, START));
+
+    const result = expectSuccess(applyAction(selected.state, { type: 'claim_card', userId: PLAYER_1_ID }, START));
+
+    expect(result.state.used_cards[0].autoSelected).toBeUndefined();
+  });
+
+  it('should mark a card both auto-selected and auto-claimed when both phases time out', () => {
+    const state = createPlayingState();
+    const selected = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)));
+
+    const result = expectSuccess(applyAction(selected.state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(selected.state)));
+
+    expect(result.state.players[PLAYER_1_ID].timeouts).toBe(2);
+    expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_1_ID, autoSelected: true, timedOut: true });
+  });
+
+  it('should auto-claim the card in the decide phase and record the timeout', () => {
+    const state = createPlayingState();
+    const selected = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 }, START));
+
+    const result = expectSuccess(applyAction(selected.state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(selected.state)));
+
+    expect(result.state.players[PLAYER_1_ID].integrity).toBe(1);
+    expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_1_ID, timedOut: true, wasForced: false });
+    expect(result.state.turn).toBe(1);
+    expect(result.state.turn_state).toBe('draw');
+  });
+
+  it('should auto-claim for the opponent in the opponent_decide phase', () => {
+    const state = createPlayingState();
+    const selected = expectSuccess(applyAction(state, { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 }, START));
+    const rejected = expectSuccess(applyAction(selected.state, { type: 'reject_card', userId: PLAYER_1_ID }, START));
+
+    const result = expectSuccess(applyAction(rejected.state, { type: 'resolve_timeout', userId: PLAYER_1_ID }, afterDeadline(rejected.state)));
+
+    expect(result.state.players[PLAYER_2_ID].integrity).toBe(3);
+    expect(result.state.players[PLAYER_2_ID].timeouts).toBe(1);
+    expect(result.state.used_cards[0]).toMatchObject({ playedBy: PLAYER_2_ID, multiplier: 3, timedOut: true });
+  });
+
+  it('should make the player forfeit after too many timeouts', () => {
+    const state = createPlayingState({
+      players: {
+        [PLAYER_1_ID]: { integrity: 5, items: [], timeouts: GAME_CONFIG.turn.maxTimeouts - 1 },
+        [PLAYER_2_ID]: { integrity: 0, items: [] }
+      }
+    });
+
+    const result = expectSuccess(applyAction(state, { type: 'resolve_timeout', userId: PLAYER_2_ID }, afterDeadline(state)));
+
+    expect(result.state.status).toBe('finished');
+    expect(result.state.winner).toBe(PLAYER_2_ID);
+    expect(result.state.win_reason).toBe('timeout');
+    expect(result.state.turn_deadline).toBeNull();
+    expect(result.events[1]).toEqual({ type: 'GameFinished', winnerId: PLAYER_2_ID, reason: 'timeout' });
+  });
+});
@@ -1,17 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import { checkVictoryCondition } from '@/services/gameEngine';
 import {
+  createTestRoom,
+  createTestUser,
+  cleanupTestData,
   selectCard,
   claimCard,
   rejectCard,
-  opponentClaimCard,
-  checkVictoryCondition
-} from '@/services/gameService';
-import {
-  createTestRoom,
-  createTestUser,
-  cleanupTestData
+  opponentClaimCard
 } from './firebaseTestUtils';
 import { createMockMemoryCard } from './testUtils';
 import type { FirestoreRoom } from '@/types';
@@ -42,10 +40,8 @@ describe('gameService - End-to-End Full Game Tests', () => {
     await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, {
       turn_state: 'draw',
       turn: 0,
-      memory_deck: authenticDeck,
-      table_cards: authenticDeck.slice(0, 3),
       cards_drawn: 3
-    });
+    }, authenticDeck);
 
     const roomRef = doc(db, 'rooms', ROOM_CODE);
 
@@ -130,10 +126,8 @@ describe('gameService - End-to-End Full Game Tests', () => {
     await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, {
       turn_state: 'draw',
       turn: 0,
-      memory_deck: corruptedDeck,
-      table_cards: corruptedDeck.slice(0, 3),
       cards_drawn: 3
-    });
+    }, corruptedDeck);
 
     const roomRef = doc(db, 'rooms', ROOM_CODE);
 
@@ -205,10 +199,8 @@ describe('gameService - End-to-End Full Game Tests', () => {
     await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, {
       turn_state: 'draw',
       turn: 0,
-      memory_deck: authenticDeck,
-      table_cards: authenticDeck.slice(0, 3),
       cards_drawn: 3
-    });
+    }, authenticDeck);
 
     const roomRef = doc(db, 'rooms', ROOM_CODE);
 
@@ -1,19 +1,22 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
+import { GAME_CONFIG } from '@/config/gameConfig';
 import {
+  createTestRoom,
+  createTestRoomFromMatch,
+  createTestUser,
+  cleanupTestData,
+  getTestPlayerView,
   selectCard,
   claimCard,
   rejectCard,
   opponentClaimCard,
   opponentRejectBack
-} from '@/services/gameService';
-import {
-  createTestRoom,
-  createTestUser,
-  cleanupTestData
 } from './firebaseTestUtils';
-import type { FirestoreRoom } from '@/types';
+import type { FirestoreRoom, MatchExport } from '@/types';
 
 describe('gameService - Integration Tests with Firebase', () => {
   const ROOM_CODE = 'TEST-ROOM-001';
@@ -62,8 +65,8 @@ describe('gameService - Integration Tests with Firebase', () => {
       expect(afterSelectRoom.card_initiator).toBe(PLAYER_1_ID);
       expect(afterSelectRoom.current_multiplier).toBe(1);
 
-      // Store the card value for later verification
-      const cardValue = afterSelectRoom.current_card!.value;
+      // Store the card value for later verification (only the initiator's view has it)
+      const cardValue = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!.value;
 
       // ACT 2: Player 1 claims the card
       await claimCard(ROOM_CODE, PLAYER_1_ID);
@@ -130,7 +133,7 @@ describe('gameService - Integration Tests with Firebase', () => {
       const roomRef = doc(db, 'rooms', ROOM_CODE);
       const afterSelectSnap = await getDoc(roomRef);
       const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
-      const cardValue = afterSelectRoom.current_card!.value;
+      const cardValue = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!.value;
 
       expect(afterSelectRoom.turn_state).toBe('decide');
 
@@ -196,16 +199,13 @@ describe('gameService - Integration Tests with Firebase', () => {
 
       // Get the card and verify it's negative (or force it for test)
       const roomRef = doc(db, 'rooms', ROOM_CODE);
-      const afterSelectSnap = await getDoc(roomRef);
-      const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
+      const cardValue = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!.value;
 
       // Skip if card is not negative (depends on mock data)
-      if (afterSelectRoom.current_card!.value >= 0) {
+      if (cardValue >= 0) {
         return;
       }
 
-      const cardValue = afterSelectRoom.current_card!.value;
-
       // Player 1 rejects
       await rejectCard(ROOM_CODE, PLAYER_1_ID);
 
@@ -234,9 +234,7 @@ describe('gameService - Integration Tests with Firebase', () => {
       // ACT: Player 1 selects and claims a card
       await selectCard(ROOM_CODE, 0, PLAYER_1_ID);
 
-      const afterSelectSnap = await getDoc(roomRef);
-      const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
-      const selectedCard = afterSelectRoom.current_card!;
+      const selectedCard = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!;
 
       await claimCard(ROOM_CODE, PLAYER_1_ID);
 
@@ -272,9 +270,7 @@ describe('gameService - Integration Tests with Firebase', () => {
         // Select first available card
         await selectCard(ROOM_CODE, 0, currentPlayerId);
 
-        const snap = await getDoc(roomRef);
-        const room = snap.data() as FirestoreRoom;
-        const card = room.current_card!;
+        const card = (await getTestPlayerView(ROOM_CODE, currentPlayerId)).current_card!;
 
         // ACT: Claim the card (regardless of type)
         await claimCard(ROOM_CODE, currentPlayerId);
@@ -315,9 +311,7 @@ describe('gameService - Integration Tests with Firebase', () => {
         // Select a card
         await selectCard(ROOM_CODE, 0, currentPlayerId);
 
-        const afterSelectSnap = await getDoc(roomRef);
-        const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
-        const card = afterSelectRoom.current_card!;
+        const card = (await getTestPlayerView(ROOM_CODE, currentPlayerId)).current_card!;
 
         // Track what we expect
         playedCards.push({ card, playedBy: currentPlayerId });
@@ -353,9 +347,7 @@ describe('gameService - Integration Tests with Firebase', () => {
       // Player 1 selects a card
       await selectCard(ROOM_CODE, 0, PLAYER_1_ID);
 
-      const afterSelectSnap = await getDoc(roomRef);
-      const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
-      const selectedCard = afterSelectRoom.current_card!;
+      const selectedCard = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!;
 
       // Player 1 rejects
       await rejectCard(ROOM_CODE, PLAYER_1_ID);
@@ -389,9 +381,7 @@ describe('gameService - Integration Tests with Firebase', () => {
       // Player 1 selects a card
       await selectCard(ROOM_CODE, 0, PLAYER_1_ID);
 
-      const afterSelectSnap = await getDoc(roomRef);
-      const afterSelectRoom = afterSelectSnap.data() as FirestoreRoom;
-      const selectedCard = afterSelectRoom.current_card!;
+      const selectedCard = (await getTestPlayerView(ROOM_CODE, PLAYER_1_ID)).current_card!;
 
       // Player 1 rejects
       await rejectCard(ROOM_CODE, PLAYER_1_ID);
@@ -450,4 +440,63 @@ describe('gameService - Integration Tests with Firebase', () => {
       expect(afterTurn1Room.table_cards[2]).toEqual(initialTableCards[2]);
     });
   });
+
+  describe('games seeded from exported matches', () => {
+    const MATCH_ROOM_CODE = 'TEST-ROOM-MATCH';
+    const match: MatchExport = JSON.parse(
+      readFileSync(path.resolve(__dirname, 'fixtures/fatalGlitchForcedBack.match.json'), 'utf8')
+    );
+    const [MATCH_PLAYER_1_ID, MATCH_PLAYER_2_ID] = match.players.map(player => player.id);
+
+    afterEach(async () => {
+      await cleanupTestData([MATCH_ROOM_CODE], [MATCH_PLAYER_1_ID, MATCH_PLAYER_2_ID]);
+    });
+
+    it('should finish the recorded match when its last action is played on the server', async () => {
+      // ARRANGE: The fatal glitch was just rejected back to player 1's opponent
+      await createTestRoomFromMatch(MATCH_ROOM_CODE, match, match.actions.length - 1);
+
+      // ACT: Play the last recorded action through the trusted resolver
+      await opponentRejectBack(MATCH_ROOM_CODE, MATCH_PLAYER_1_ID);
+
+      // ASSERT: Same result as the exported match
+      const room = (await getDoc(doc(db, 'rooms', MATCH_ROOM_CODE))).data() as FirestoreRoom;
+      expect(room.status).toBe('finished');
+      expect(room.winner).toBe(match.result.winner);
+      expect(room.win_reason).toBe(match.result.winReason);
+      expect(room.players[MATCH_PLAYER_2_ID].integrity).toBe(match.result.integrity[MATCH_PLAYER_2_ID]);
+    });
+
+    it('should record both players\' stats when the game finishes', async () => {
+      await createTestRoomFromMatch(MATCH_ROOM_CODE, match, match.actions.length - 1);
+
+      await opponentRejectBack(MATCH_ROOM_CODE, MATCH_PLAYER_1_ID);
+
+      const winnerStats = (await getDoc(doc(db, 'users', MATCH_PLAYER_1_ID))).data()?.stats;
+      const loserStats = (await getDoc(doc(db, 'users', MATCH_PLAYER_2_ID))).data()?.stats;
+      expect(winnerStats.gamesPlayed).toBe(1);
+      expect(winnerStats.wins).toEqual({ opponent_defeated: 1 });
+      expect(loserStats.losses).toEqual({ opponent_defeated: 1 });
+      expect(loserStats.fatalGlitchesTaken).toBe(1);
+      expect(loserStats.totalFinalIntegrity).toBe(match.result.integrity[MATCH_PLAYER_2_ID]);
+    });
+
+    it('should update both players\' rating and rating history when the game finishes', async () => {
+      await createTestRoomFromMatch(MATCH_ROOM_CODE, match, match.actions.length - 1);
+
+      await opponentRejectBack(MATCH_ROOM_CODE, MATCH_PLAYER_1_ID);
+
+      // Both players start at the same rating, so the winner takes half the K-factor
+      const winner = (await getDoc(doc(db, 'users', MATCH_PLAYER_1_ID))).data();
+      const loser = (await getDoc(doc(db, 'users', MATCH_PLAYER_2_ID))).data();
+      expect(winner?.rating).toBe(GAME_CONFIG.rating.initial + GAME_CONFIG.rating.kFactor / 2);
+      expect(loser?.rating).toBe(GAME_CONFIG.rating.initial - GAME_CONFIG.rating.kFactor / 2);
+      expect(winner?.rated_games).toBe(1);
+
+      const history = (await getDoc(doc(db, 'users', MATCH_PLAYER_2_ID, 'rating_history', MATCH_ROOM_CODE))).data();
+      expect(history?.result).toBe('loss');
+      expect(history?.delta).toBe(-GAME_CONFIG.rating.kFactor / 2);
+      expect(history?.opponentId).toBe(MATCH_PLAYER_1_ID);
+    });
+  });
 });
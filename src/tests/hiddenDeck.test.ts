@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { toGameState } from '@/services/gameEngine';
+import { getPlayerView, splitGameState } from '@/services/hiddenDeck';
+import { createMockRoom, createMockRoomSecret } from './testUtils';
+import type { GameState } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+/**
+ * Creates a game state in 'decide' where player 1 selected the first table card
+ * and already peeked at the second one
+ */
+const createStateWithCardInPlay = (): GameState => {
+  const state = toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret());
+  return {
+    ...state,
+    turn_state: 'decide',
+    current_card: state.table_cards[0],
+    selected_card_index: 0,
+    card_initiator: PLAYER_1_ID,
+    players: {
+      ...state.players,
+      [PLAYER_1_ID]: { ...state.players[PLAYER_1_ID], peeked_cards: [state.table_cards[1]] }
+    }
+  };
+};
+
+describe('hiddenDeck - splitGameState', () => {
+  it('should only put the memory text of the cards in the room', () => {
+    const state = createStateWithCardInPlay();
+
+    const { room } = splitGameState(state);
+
+    expect(room.table_cards).toEqual(state.table_cards.map(card => ({ memory: card.memory })));
+    expect(room.current_card).toEqual({ memory: state.current_card!.memory });
+    expect(room).not.toHaveProperty('memory_deck');
+    expect(room.players[PLAYER_1_ID]).not.toHaveProperty('peeked_cards');
+  });
+
+  it('should keep the full cards in the secret document', () => {
+    const state = createStateWithCardInPlay();
+
+    const { secret } = splitGameState(state);
+
+    expect(secret.memory_deck).toEqual(state.memory_deck);
+    expect(secret.table_cards).toEqual(state.table_cards);
+    expect(secret.current_card).toEqual(state.current_card);
+    expect(secret.peeked_cards).toEqual({
+      [PLAYER_1_ID]: [state.table_cards[1]],
+      [PLAYER_2_ID]: []
+    });
+  });
+
+  it('should keep the deal seed in the secret document, never in the room', () => {
+    const state = { ...createStateWithCardInPlay(), deck_seed: '0123456789abcdef0123456789abcdef' };
+
+    const { room, secret, views } = splitGameState(state);
+
+    expect(secret.deck_seed).toBe(state.deck_seed);
+    expect(room).not.toHaveProperty('deck_seed');
+    Object.values(views).forEach(view => expect(view).not.toHaveProperty('deck_seed'));
+    expect(toGameState({ ...createMockRoom(PLAYER_1_ID, PLAYER_2_ID), ...room }, secret).deck_seed).toBe(state.deck_seed);
+  });
+
+  it('should round-trip through toGameState', () => {
+    const state = createStateWithCardInPlay();
+
+    const { room, secret } = splitGameState(state);
+    const restored = toGameState({ ...createMockRoom(PLAYER_1_ID, PLAYER_2_ID), ...room }, secret);
+
+    expect(restored.current_card).toEqual(state.current_card);
+    expect(restored.table_cards).toEqual(state.table_cards);
+    expect(restored.players[PLAYER_1_ID].peeked_cards).toEqual([state.table_cards[1]]);
+  });
+});
+
+describe('hiddenDeck - getPlayerView', () => {
+  it('should reveal the current card only to the card initiator', () => {
+    const state = createStateWithCardInPlay();
+
+    expect(getPlayerView(state, PLAYER_1_ID).current_card).toEqual(state.current_card);
+    expect(getPlayerView(state, PLAYER_2_ID).current_card).toBeNull();
+  });
+
+  it('should only show each player their own peeked cards', () => {
+    const state = createStateWithCardInPlay();
+
+    expect(getPlayerView(state, PLAYER_1_ID).peeked_cards).toEqual([state.table_cards[1]]);
+    expect(getPlayerView(state, PLAYER_2_ID).peeked_cards).toEqual([]);
+  });
+});
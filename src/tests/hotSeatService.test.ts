@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { isGameError } from '@/services/gameEngine';
+import {
+  HOT_SEAT_PLAYER_IDS,
+  applyHotSeatAction,
+  createHotSeatGame,
+  getHotSeatActivePlayer,
+  toHotSeatRoom
+} from '@/services/hotSeatService';
+import { DEFAULT_RULESET, RULESET_PRESETS } from '@/config/gameConfig';
+import type { GameAction, GameState } from '@/types';
+
+const [PLAYER_1_ID, PLAYER_2_ID] = HOT_SEAT_PLAYER_IDS;
+
+const play = (state: GameState, action: GameAction): GameState => {
+  const result = applyHotSeatAction(state, action);
+  if (isGameError(result)) {
+    throw new Error(result.message);
+  }
+  return result.state;
+};
+
+describe('hotSeatService - createHotSeatGame', () => {
+  it('should deal a full deck in memory with no turn timer', () => {
+    const state = createHotSeatGame();
+
+    expect(state.status).toBe('playing');
+    expect(state.memory_deck).toHaveLength(DEFAULT_RULESET.deckSize);
+    expect(state.table_cards).toHaveLength(DEFAULT_RULESET.tableSize);
+    expect(state.turn_deadline).toBeNull();
+    expect(getHotSeatActivePlayer(state)).toBe(PLAYER_1_ID);
+  });
+
+  it('should let the other player start a rematch', () => {
+    const state = createHotSeatGame(RULESET_PRESETS.quick.ruleset, [PLAYER_2_ID, PLAYER_1_ID]);
+
+    expect(state.memory_deck).toHaveLength(RULESET_PRESETS.quick.ruleset.deckSize);
+    expect(getHotSeatActivePlayer(state)).toBe(PLAYER_2_ID);
+  });
+});
+
+describe('hotSeatService - applyHotSeatAction', () => {
+  it('should hand the device to the receiver of a rejected card', () => {
+    let state = play(createHotSeatGame(), { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 });
+    expect(getHotSeatActivePlayer(state)).toBe(PLAYER_1_ID);
+
+    state = play(state, { type: 'reject_card', userId: PLAYER_1_ID });
+
+    expect(getHotSeatActivePlayer(state)).toBe(PLAYER_2_ID);
+    expect(state.turn_deadline).toBeNull();
+  });
+
+  it('should keep the card hidden from the room the board renders', () => {
+    const state = play(createHotSeatGame(), { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 });
+
+    const room = toHotSeatRoom(state);
+
+    expect(room.current_card).toEqual({ memory: state.current_card!.memory });
+    room.table_cards.forEach(card => expect(card).not.toHaveProperty('authenticity'));
+  });
+
+  it('should play a whole match to the end with the game engine', () => {
+    let state = createHotSeatGame();
+
+    // Every player claims the first table card until the game ends
+    while (state.status === 'playing') {
+      const playerId = getHotSeatActivePlayer(state)!;
+      state = play(state, { type: 'select_card', userId: playerId, cardIndex: 0 });
+      state = play(state, { type: 'claim_card', userId: playerId });
+    }
+
+    expect(state.status).toBe('finished');
+    expect(state.win_reason).not.toBeNull();
+    expect(getHotSeatActivePlayer(state)).toBeNull();
+  });
+});
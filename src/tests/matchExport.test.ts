@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { applyAction, isGameError, toGameState } from '@/services/gameEngine';
+import { exportMatch, importMatch } from '@/services/matchExport';
+import { applyMatchAction } from '@/services/replayService';
+import { createMockDeck, createMockRoom, createMockRoomSecret } from './testUtils';
+import type { FirestoreRoom, FirestoreRoomEvent, GameAction, GameState, MatchExport, RoomEvent } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+const PLAYERS = [{ id: PLAYER_1_ID, name: 'Player 1' }, { id: PLAYER_2_ID, name: 'Player 2' }];
+const START = new Date('2025-01-01T00:00:00Z');
+
+const readFixture = (fileName: string): string =>
+  readFileSync(path.resolve(__dirname, 'fixtures', fileName), 'utf8');
+
+const DEFAULT_ACTIONS: GameAction[] = [
+  { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 },
+  { type: 'claim_card', userId: PLAYER_1_ID },
+  { type: 'select_card', userId: PLAYER_2_ID, cardIndex: 0 },
+  { type: 'reject_card', userId: PLAYER_2_ID },
+  { type: 'opponent_claim_card', userId: PLAYER_1_ID }
+];
+
+/**
+ * Plays a few actions and logs them like the server does, then marks the room finished
+ * Timeouts are resolved right at their deadline
+ * @param actions - Actions to play
+ * @param seed - Seed the deck was dealt with, if any
+ * @returns The finished room and its event log
+ */
+const playFinishedMatch = (
+  actions: GameAction[] = DEFAULT_ACTIONS,
+  seed?: string
+): { room: FirestoreRoom; events: FirestoreRoomEvent[] } => {
+  const memoryDeck = createMockDeck(5, 5, 5);
+  let state: GameState = {
+    ...toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret(memoryDeck)),
+    deck_seed: seed ?? null
+  };
+  const loggedEvents: RoomEvent[] = [{ type: 'DeckDealt', userId: PLAYER_1_ID, memoryDeck, itemDeck: [], ...(seed && { seed }) }];
+
+  actions.forEach(action => {
+    const result = action.type === 'resolve_timeout' ? applyMatchAction(state, action) : applyAction(state, action, START);
+    if (isGameError(result)) {
+      throw new Error(result.message);
+    }
+    state = result.state;
+    loggedEvents.push(...result.events);
+  });
+
+  const events = loggedEvents.map((event, index) => ({
+    ...event,
+    seq: index + 1,
+    createdAt: new Date(START.getTime() + index * 1000)
+  }));
+  const room = createMockRoom(PLAYER_1_ID, PLAYER_2_ID, {
+    status: 'finished',
+    players: state.players,
+    finishedAt: new Date(START.getTime() + events.length * 1000)
+  });
+
+  return { room, events };
+};
+
+describe('matchExport - exportMatch', () => {
+  it('should export the dealt deck, the actions and their timestamps', () => {
+    const { room, events } = playFinishedMatch();
+
+    const match = exportMatch('ROOM01', room, events, PLAYERS);
+
+    expect(match.version).toBe(1);
+    expect(match.players).toEqual(PLAYERS);
+    expect(match.memoryDeck).toHaveLength(15);
+    expect(match.actions.map(({ action }) => action.type)).toEqual([
+      'select_card',
+      'claim_card',
+      'select_card',
+      'reject_card',
+      'opponent_claim_card'
+    ]);
+    expect(match.actions[1].playedAt).toBe(new Date(START.getTime() + 2000).toISOString());
+    expect(match.startedAt).toBe(START.toISOString());
+  });
+
+  it('should export the deal seed, so draw-phase timeouts replay the same card', () => {
+    const seed = '0123456789abcdef0123456789abcdef';
+    const { room, events } = playFinishedMatch([
+      { type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 },
+      { type: 'claim_card', userId: PLAYER_1_ID },
+      { type: 'resolve_timeout', userId: PLAYER_1_ID },
+      { type: 'claim_card', userId: PLAYER_2_ID }
+    ], seed);
+    const liveSelection = events.filter(event => event.type === 'CardSelected')[1];
+
+    const match = exportMatch('ROOM01', room, events, PLAYERS);
+    const { steps } = importMatch(JSON.stringify(match));
+
+    expect(match.seed).toBe(seed);
+    expect(steps[3].events).toContainEqual(expect.objectContaining({
+      type: 'CardSelected',
+      userId: PLAYER_2_ID,
+      cardIndex: liveSelection.type === 'CardSelected' && liveSelection.cardIndex
+    }));
+    expect(steps[4].state.used_cards[1]).toMatchObject({ playedBy: PLAYER_2_ID, autoSelected: true });
+  });
+
+  it('should reject rooms that are not finished', () => {
+    const { room, events } = playFinishedMatch();
+
+    expect(() => exportMatch('ROOM01', { ...room, status: 'playing' }, events, PLAYERS))
+      .toThrow('Solo se pueden exportar partidas terminadas.');
+  });
+});
+
+describe('matchExport - importMatch', () => {
+  it('should read back an exported match', () => {
+    const { room, events } = playFinishedMatch();
+    const match = exportMatch('ROOM01', room, events, PLAYERS);
+
+    const imported = importMatch(JSON.stringify(match));
+
+    expect(imported.match).toEqual(match);
+    expect(imported.steps).toHaveLength(match.actions.length + 1);
+  });
+
+  it('should verify a shared match file by playing it again', () => {
+    const { match, steps } = importMatch(readFixture('fatalGlitchForcedBack.match.json'));
+
+    const finalState = steps[steps.length - 1].state;
+    expect(finalState.status).toBe('finished');
+    expect(finalState.winner).toBe(match.result.winner);
+    expect(match.result.winReason).toBe('opponent_defeated');
+  });
+
+  it('should reject a file whose recorded result was changed', () => {
+    const match: MatchExport = JSON.parse(readFixture('fatalGlitchForcedBack.match.json'));
+    const tampered = { ...match, result: { ...match.result, winner: match.players[1].id } };
+
+    expect(() => importMatch(JSON.stringify(tampered)))
+      .toThrow('El resultado registrado no coincide con la simulación de la partida.');
+  });
+
+  it('should reject actions the engine does not allow', () => {
+    const match: MatchExport = JSON.parse(readFixture('fatalGlitchForcedBack.match.json'));
+    const [firstAction, ...otherActions] = match.actions;
+    const reordered = { ...match, actions: [...otherActions, firstAction] };
+
+    expect(() => importMatch(JSON.stringify(reordered))).toThrow('La jugada 1 de la partida no es válida');
+  });
+
+  it('should reject invalid files with the validation message', () => {
+    const match: MatchExport = JSON.parse(readFixture('fatalGlitchForcedBack.match.json'));
+
+    expect(() => importMatch('not json')).toThrow('El archivo no es un JSON válido.');
+    expect(() => importMatch(JSON.stringify({ ...match, version: 2 }))).toThrow('Versión de archivo no soportada');
+    expect(() => importMatch(JSON.stringify({ ...match, memoryDeck: match.memoryDeck.slice(1) })))
+      .toThrow('El mazo no coincide con el tamaño de mazo de las reglas');
+  });
+});
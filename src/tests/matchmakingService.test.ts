@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { findOpponent, isQueueEntryExpired } from '@/services/matchmakingService';
+import type { MatchmakingCandidate } from '@/types';
+
+const NOW = 1_700_000_000_000;
+
+const createCandidate = (userId: string, rating: number, joinedAt: number = NOW): MatchmakingCandidate => ({
+  userId,
+  rating,
+  joinedAt
+});
+
+describe('matchmakingService - findOpponent', () => {
+  it('should return null when nobody is waiting', () => {
+    expect(findOpponent([], 1000)).toBeNull();
+  });
+
+  it('should prefer the closest rating over the longest wait', () => {
+    const candidates = [
+      createCandidate('far', 1400, NOW - 30_000),
+      createCandidate('close', 980, NOW - 1000),
+      createCandidate('below', 900, NOW - 5000)
+    ];
+
+    expect(findOpponent(candidates, 1000)?.userId).toBe('close');
+  });
+
+  it('should pair the player who waited the longest among equal rating gaps', () => {
+    const candidates = [
+      createCandidate('newer', 1100, NOW - 1000),
+      createCandidate('older', 900, NOW - 5000)
+    ];
+
+    expect(findOpponent(candidates, 1000)?.userId).toBe('older');
+  });
+});
+
+describe('matchmakingService - isQueueEntryExpired', () => {
+  const timeoutMs = GAME_CONFIG.matchmaking.timeoutSeconds * 1000;
+
+  it('should keep entries within the timeout', () => {
+    expect(isQueueEntryExpired(NOW - timeoutMs + 1, NOW)).toBe(false);
+  });
+
+  it('should expire entries once the timeout runs out', () => {
+    expect(isQueueEntryExpired(NOW - timeoutMs, NOW)).toBe(true);
+  });
+});
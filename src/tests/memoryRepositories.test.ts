@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { createMemoryRepositories } from '@/repositories/memoryRepositories';
+import { createMockMemoryCard, createMockRoom } from './testUtils';
+import type { FirestoreDeck, FirestoreRatingChange, FirestoreRoomEvent, FirestoreSeries, FirestoreUser } from '@/types';
+
+const ROOM_CODE = 'MEM-001';
+const PLAYER_1_ID = 'player-1';
+const PLAYER_2_ID = 'player-2';
+
+const USER: FirestoreUser = { email: 'player1@test.com', name: 'Player 1', current_room: null };
+
+const createEvent = (seq: number): FirestoreRoomEvent => ({ type: 'PlayerJoined', userId: PLAYER_2_ID, seq, createdAt: null });
+
+describe('memoryRepositories - rooms', () => {
+  it('should return null for a room that does not exist', async () => {
+    const { rooms } = createMemoryRepositories();
+
+    expect(await rooms.get(ROOM_CODE)).toBeNull();
+  });
+
+  it('should deliver the current room right away and every update after it', async () => {
+    const room = createMockRoom(PLAYER_1_ID, PLAYER_2_ID);
+    const { rooms } = createMemoryRepositories({ rooms: { [ROOM_CODE]: room } });
+    const onChange = vi.fn();
+
+    const unsubscribe = rooms.subscribe(ROOM_CODE, onChange);
+    await rooms.update(ROOM_CODE, current => ({ ...current, turn: 1 }));
+    unsubscribe();
+    await rooms.update(ROOM_CODE, current => ({ ...current, turn: 0 }));
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenNthCalledWith(1, room);
+    expect(onChange.mock.calls[1][0].turn).toBe(1);
+  });
+
+  it('should leave the room untouched when the updater throws', async () => {
+    const room = createMockRoom(PLAYER_1_ID, PLAYER_2_ID);
+    const { rooms } = createMemoryRepositories({ rooms: { [ROOM_CODE]: room } });
+
+    await expect(rooms.update(ROOM_CODE, () => {
+      throw new Error('No es tu turno.');
+    })).rejects.toThrow('No es tu turno.');
+
+    expect(await rooms.get(ROOM_CODE)).toBe(room);
+  });
+
+  it('should refuse to update a room that does not exist', async () => {
+    const { rooms } = createMemoryRepositories();
+
+    await expect(rooms.update(ROOM_CODE, current => current)).rejects.toThrow(`rooms/${ROOM_CODE} not found`);
+  });
+
+  it('should notify subscribers with null once the room is deleted', () => {
+    const { rooms, store } = createMemoryRepositories({ rooms: { [ROOM_CODE]: createMockRoom(PLAYER_1_ID, PLAYER_2_ID) } });
+    const onChange = vi.fn();
+
+    rooms.subscribe(ROOM_CODE, onChange);
+    store.setRoom(ROOM_CODE, null);
+
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should keep each player\'s view to themselves', () => {
+    const { rooms, store } = createMemoryRepositories();
+    const player1View = vi.fn();
+    const player2View = vi.fn();
+
+    rooms.subscribeView(ROOM_CODE, PLAYER_1_ID, player1View);
+    rooms.subscribeView(ROOM_CODE, PLAYER_2_ID, player2View);
+    store.setView(ROOM_CODE, PLAYER_1_ID, { current_card: createMockMemoryCard('corrupted'), peeked_cards: [] });
+
+    expect(player1View).toHaveBeenLastCalledWith(expect.objectContaining({ current_card: expect.any(Object) }));
+    expect(player2View).toHaveBeenCalledTimes(1);
+    expect(player2View).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should count spectators and return events in sequence order', async () => {
+    const { rooms, store } = createMemoryRepositories({ events: { [ROOM_CODE]: [createEvent(2)] } });
+    const onCount = vi.fn();
+
+    rooms.subscribeSpectatorCount(ROOM_CODE, onCount);
+    store.setSpectators(ROOM_CODE, ['spectator-1', 'spectator-2']);
+    store.appendEvents(ROOM_CODE, [createEvent(1)]);
+
+    expect(onCount.mock.calls.map(([count]) => count)).toEqual([0, 2]);
+    expect((await rooms.getEvents(ROOM_CODE)).map(event => event.seq)).toEqual([1, 2]);
+  });
+
+  it('should register each spectator once and remove them', async () => {
+    const { rooms } = createMemoryRepositories();
+    const onCount = vi.fn();
+    const spectator = { joinedAt: Timestamp.now() };
+
+    rooms.subscribeSpectatorCount(ROOM_CODE, onCount);
+    await rooms.addSpectator(ROOM_CODE, 'spectator-1', spectator);
+    await rooms.addSpectator(ROOM_CODE, 'spectator-1', spectator);
+    await rooms.addSpectator(ROOM_CODE, 'spectator-2', spectator);
+    await rooms.removeSpectator(ROOM_CODE, 'spectator-1');
+
+    expect(onCount).toHaveBeenLastCalledWith(1);
+  });
+
+  it('should list fresh public waiting rooms, most recently updated first', () => {
+    const updatedAt = (minutesAgo: number) => Timestamp.fromMillis(Date.now() - minutesAgo * 60000);
+    const waitingRoom = (minutesAgo: number, isPublic: boolean = true) =>
+      createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting', is_public: isPublic, lastUpdate: updatedAt(minutesAgo) });
+    const { rooms, store } = createMemoryRepositories({
+      rooms: {
+        OLD: waitingRoom(2),
+        PRIVATE: waitingRoom(1, false),
+        STALE: waitingRoom(30),
+        PLAYING: createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { is_public: true, lastUpdate: updatedAt(1) })
+      }
+    });
+    const onChange = vi.fn();
+
+    rooms.subscribePublic(new Date(Date.now() - 10 * 60000), 2, onChange);
+    store.setRoom('NEW', waitingRoom(0));
+
+    expect(onChange.mock.calls.map(([publicRooms]) => publicRooms.map(({ code }: { code: string }) => code))).toEqual([
+      ['OLD'],
+      ['NEW', 'OLD']
+    ]);
+  });
+});
+
+describe('memoryRepositories - users', () => {
+  it('should create, update and follow a user', async () => {
+    const { users } = createMemoryRepositories();
+    const onChange = vi.fn();
+
+    users.subscribe(PLAYER_1_ID, onChange);
+    await users.create(PLAYER_1_ID, USER);
+    const updated = await users.update(PLAYER_1_ID, user => ({ ...user, current_room: ROOM_CODE }));
+
+    expect(updated.current_room).toBe(ROOM_CODE);
+    expect(await users.get(PLAYER_1_ID)).toEqual({ ...USER, current_room: ROOM_CODE });
+    // Missing until created, then each stored version
+    expect(onChange.mock.calls.map(([user]) => (user ? user.current_room : 'missing'))).toEqual(['missing', null, ROOM_CODE]);
+  });
+
+  it('should page rated users by rating, then rated games, then ID', async () => {
+    const ratedUser = (rating: number, ratedGames: number): FirestoreUser => ({ ...USER, rating, rated_games: ratedGames });
+    const { users } = createMemoryRepositories({
+      users: {
+        a: ratedUser(1200, 3),
+        b: ratedUser(1300, 1),
+        c: ratedUser(1200, 5),
+        d: ratedUser(1200, 3),
+        unrated: USER
+      }
+    });
+
+    const firstPage = await users.listByRating(2, null);
+    const secondPage = await users.listByRating(3, firstPage[1]);
+
+    expect(firstPage.map(player => player.id)).toEqual(['b', 'c']);
+    expect(secondPage.map(player => player.id)).toEqual(['d', 'a']);
+    expect(secondPage[0]).toEqual({ id: 'd', name: USER.name, rating: 1200, ratedGames: 3 });
+    expect(await users.countRatedAbove(1200)).toBe(1);
+  });
+
+  it('should return the latest rating changes first', async () => {
+    const change = (roomCode: string, minutesAgo: number): FirestoreRatingChange => ({
+      rating: 1216,
+      delta: 16,
+      result: 'win',
+      opponentId: PLAYER_2_ID,
+      opponentRating: 1200,
+      roomCode,
+      createdAt: Timestamp.fromMillis(Date.now() - minutesAgo * 60000)
+    });
+    const { users } = createMemoryRepositories({
+      ratingHistory: { [PLAYER_1_ID]: [change('FIRST', 30), change('THIRD', 10), change('SECOND', 20)] }
+    });
+
+    expect((await users.getRatingHistory(PLAYER_1_ID, 2)).map(({ roomCode }) => roomCode)).toEqual(['THIRD', 'SECOND']);
+    expect(await users.getRatingHistory(PLAYER_2_ID, 2)).toEqual([]);
+  });
+});
+
+describe('memoryRepositories - series and matchmaking', () => {
+  it('should follow a series as the resolver updates it', () => {
+    const series: FirestoreSeries = {
+      best_of: 3,
+      order_players: [PLAYER_1_ID, PLAYER_2_ID],
+      wins: { [PLAYER_1_ID]: 0, [PLAYER_2_ID]: 0 },
+      rooms: [ROOM_CODE],
+      status: 'in_progress',
+      winner: null,
+      createdAt: null,
+      finishedAt: null,
+      lastUpdate: null
+    };
+    const { series: seriesRepository, store } = createMemoryRepositories({ series: { 'series-1': series } });
+    const onChange = vi.fn();
+
+    seriesRepository.subscribe('series-1', onChange);
+    store.setSeries('series-1', { ...series, wins: { [PLAYER_1_ID]: 1, [PLAYER_2_ID]: 0 } });
+
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange.mock.calls[1][0].wins[PLAYER_1_ID]).toBe(1);
+  });
+
+  it('should tell a queued player the room they were paired into', () => {
+    const { matchmaking, store } = createMemoryRepositories();
+    const onChange = vi.fn();
+
+    matchmaking.subscribe(PLAYER_1_ID, onChange);
+    store.setMatchmakingEntry(PLAYER_1_ID, { rating: 1200, status: 'waiting', room_code: null, joinedAt: null });
+    store.setMatchmakingEntry(PLAYER_1_ID, { rating: 1200, status: 'matched', room_code: ROOM_CODE, joinedAt: null });
+    store.setMatchmakingEntry(PLAYER_1_ID, null);
+
+    expect(onChange.mock.calls.map(([entry]) => (entry ? entry.room_code : 'missing'))).toEqual(['missing', null, ROOM_CODE, 'missing']);
+  });
+});
+
+describe('memoryRepositories - decks', () => {
+  const createDeck = (memories: string[], version: number = 1): FirestoreDeck => ({
+    name: 'Recuerdos de prueba',
+    language: 'es',
+    theme: 'Pruebas',
+    size: memories.length,
+    author: 'Tests',
+    version,
+    memories
+  });
+
+  it('should return a seeded deck with its memories', async () => {
+    const { decks } = createMemoryRepositories({ decks: { default: createDeck(['Recuerdo 1', 'Recuerdo 2']) } });
+
+    expect((await decks.get('default')).memories).toEqual(['Recuerdo 1', 'Recuerdo 2']);
+  });
+
+  it('should list the catalog with each deck\'s metadata', async () => {
+    const { decks } = createMemoryRepositories({
+      decks: { default: createDeck(['Recuerdo 1']), retro: createDeck(['Recuerdo 2', 'Recuerdo 3'], 4) }
+    });
+
+    expect(await decks.list()).toEqual([
+      expect.objectContaining({ id: 'default', size: 1, version: 1 }),
+      expect.objectContaining({ id: 'retro', size: 2, version: 4, name: 'Recuerdos de prueba' })
+    ]);
+  });
+
+  it('should fail on a missing or empty deck', async () => {
+    const { decks } = createMemoryRepositories({ decks: { empty: createDeck([]) } });
+
+    await expect(decks.get('default')).rejects.toThrow('Deck "default" not found');
+    await expect(decks.get('empty')).rejects.toThrow('Deck is empty');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import { toGameState } from '@/services/gameEngine';
+import { getExpectedScore, getRatingChanges } from '@/services/ratingService';
+import { createMockRoom, createMockRoomSecret } from './testUtils';
+import type { GameState, WinReason } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+/**
+ * Creates a finished game state with the given result
+ */
+const createFinishedState = (winner: string | null, winReason: WinReason): GameState => ({
+  ...toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret()),
+  status: 'finished',
+  winner,
+  win_reason: winReason
+});
+
+describe('ratingService - getExpectedScore', () => {
+  it('should give even odds to equal ratings', () => {
+    expect(getExpectedScore(1200, 1200)).toBe(0.5);
+  });
+
+  it('should favour the higher rating, adding up to 1', () => {
+    const expected = getExpectedScore(1400, 1000);
+
+    expect(expected).toBeCloseTo(0.909, 3);
+    expect(expected + getExpectedScore(1000, 1400)).toBeCloseTo(1);
+  });
+});
+
+describe('ratingService - getRatingChanges', () => {
+  it('should start unrated players at the initial rating', () => {
+    const changes = getRatingChanges(createFinishedState(PLAYER_1_ID, 'reached_10_points'), {});
+    const halfK = GAME_CONFIG.rating.kFactor / 2;
+
+    expect(changes[PLAYER_1_ID]).toEqual({
+      rating: GAME_CONFIG.rating.initial + halfK,
+      delta: halfK,
+      result: 'win',
+      opponentId: PLAYER_2_ID,
+      opponentRating: GAME_CONFIG.rating.initial
+    });
+    expect(changes[PLAYER_2_ID].delta).toBe(-halfK);
+    expect(changes[PLAYER_2_ID].result).toBe('loss');
+  });
+
+  it('should move ratings towards each other on a draw', () => {
+    const changes = getRatingChanges(createFinishedState(null, 'draw'), { [PLAYER_1_ID]: 1400, [PLAYER_2_ID]: 1000 });
+
+    expect(changes[PLAYER_1_ID].result).toBe('draw');
+    expect(changes[PLAYER_1_ID].delta).toBe(-13);
+    expect(changes[PLAYER_2_ID].delta).toBe(13);
+  });
+
+  it('should count a forfeit as a full loss for the leaver', () => {
+    const changes = getRatingChanges(
+      createFinishedState(PLAYER_2_ID, 'opponent_forfeited'),
+      { [PLAYER_1_ID]: 1000, [PLAYER_2_ID]: 1000 }
+    );
+
+    expect(changes[PLAYER_1_ID].rating).toBe(984);
+    expect(changes[PLAYER_2_ID].rating).toBe(1016);
+  });
+
+  it('should keep the rating pool constant', () => {
+    const changes = getRatingChanges(createFinishedState(PLAYER_2_ID, 'timeout'), { [PLAYER_1_ID]: 1237, [PLAYER_2_ID]: 1118 });
+
+    expect(changes[PLAYER_1_ID].delta + changes[PLAYER_2_ID].delta).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { applyAction, forfeitMatch, getPhaseDeadline, isGameError, toGameState } from '@/services/gameEngine';
+import { buildReplay } from '@/services/replayService';
+import { DEFAULT_RULESET } from '@/config/gameConfig';
+import { createMockDeck, createMockItem, createMockRoom, createMockRoomSecret } from './testUtils';
+import type { ActionResult, GameAction, GameState, RoomEvent } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+const START = new Date('2025-01-01T00:00:00Z');
+
+/**
+ * Unwraps a successful engine result, failing the test on GameError
+ */
+const expectSuccess = (result: ActionResult) => {
+  if (isGameError(result)) {
+    throw new Error(`Expected success but got ${result.code}: ${result.message}`);
+  }
+  return result;
+};
+
+/**
+ * Plays a short match with the engine (claims, a forced card, an item, a timeout and a forfeit)
+ * @returns The event log the server would have stored and every state the match went through
+ */
+const playLoggedMatch = (): { events: RoomEvent[]; states: GameState[] } => {
+  const memoryDeck = createMockDeck(5, 5, 5);
+  const itemDeck = [createMockItem('shield')];
+  let state: GameState = {
+    ...toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID, { item_deck: itemDeck }), createMockRoomSecret(memoryDeck)),
+    turn_deadline: getPhaseDeadline('draw', START)
+  };
+  let time = START.getTime();
+  const states = [state];
+  const events: RoomEvent[] = [
+    { type: 'RoomCreated', userId: PLAYER_1_ID, previousRoomCode: null },
+    { type: 'PlayerJoined', userId: PLAYER_2_ID },
+    { type: 'GameStarted', userId: PLAYER_1_ID },
+    { type: 'DeckDealt', userId: PLAYER_2_ID, memoryDeck, itemDeck }
+  ];
+
+  const record = (result: ActionResult) => {
+    const { state: nextState, events: actionEvents } = expectSuccess(result);
+    state = nextState;
+    states.push(state);
+    events.push(...actionEvents);
+  };
+  const play = (action: GameAction) => record(applyAction(state, action, new Date(time += 1000)));
+
+  play({ type: 'select_card', userId: PLAYER_1_ID, cardIndex: 0 });
+  play({ type: 'claim_card', userId: PLAYER_1_ID });
+  play({ type: 'select_card', userId: PLAYER_2_ID, cardIndex: 1 });
+  play({ type: 'reject_card', userId: PLAYER_2_ID });
+  play({ type: 'opponent_reject_back', userId: PLAYER_1_ID });
+  play({ type: 'use_item', userId: PLAYER_1_ID, itemId: 'shield-1' });
+  time = state.turn_deadline! + 1;
+  play({ type: 'resolve_timeout', userId: PLAYER_2_ID });
+  play({ type: 'claim_card', userId: PLAYER_1_ID });
+  record(forfeitMatch(state, PLAYER_2_ID));
+  events.push({ type: 'PlayerLeft', userId: PLAYER_2_ID });
+
+  return { events, states };
+};
+
+describe('replayService - buildReplay', () => {
+  it('should rebuild every step of the match from its event log', () => {
+    const { events, states } = playLoggedMatch();
+
+    const steps = buildReplay(events, [PLAYER_1_ID, PLAYER_2_ID], DEFAULT_RULESET);
+
+    expect(steps).toHaveLength(states.length);
+    steps.forEach((step, index) => {
+      expect(step.state.players).toEqual(states[index].players);
+      expect(step.state.table_cards).toEqual(states[index].table_cards);
+      expect(step.state.current_card).toEqual(states[index].current_card);
+      expect(step.state.current_multiplier).toBe(states[index].current_multiplier);
+      expect(step.state.turn_state).toBe(states[index].turn_state);
+    });
+  });
+
+  it('should group the events of each action in its step', () => {
+    const { events } = playLoggedMatch();
+
+    const steps = buildReplay(events, [PLAYER_1_ID, PLAYER_2_ID], DEFAULT_RULESET);
+
+    expect(steps[0].events).toEqual([]);
+    expect(steps[2].events.map(event => event.type)).toEqual(['CardClaimed', 'ItemEarned']);
+    expect(steps[5].events.map(event => event.type)).toEqual(['CardForcedBack']);
+    expect(steps[7].events.map(event => event.type)).toEqual(['TurnTimedOut', 'CardSelected']);
+
+    const finalState = steps[steps.length - 1].state;
+    expect(finalState.status).toBe('finished');
+    expect(finalState.winner).toBe(PLAYER_1_ID);
+    expect(finalState.win_reason).toBe('opponent_forfeited');
+  });
+
+  it('should have nothing to replay when the deck was never dealt', () => {
+    const events: RoomEvent[] = [
+      { type: 'RoomCreated', userId: PLAYER_1_ID, previousRoomCode: null },
+      { type: 'PlayerJoined', userId: PLAYER_2_ID },
+      { type: 'GameStarted', userId: PLAYER_1_ID },
+      { type: 'GameFinished', winnerId: PLAYER_2_ID, reason: 'opponent_forfeited' }
+    ];
+
+    expect(buildReplay(events, [PLAYER_1_ID, PLAYER_2_ID], DEFAULT_RULESET)).toEqual([]);
+  });
+
+  it('should reject a log the engine cannot reproduce', () => {
+    const events: RoomEvent[] = [
+      { type: 'DeckDealt', userId: PLAYER_1_ID, memoryDeck: createMockDeck(5, 5, 5), itemDeck: [] },
+      { type: 'CardSelected', userId: PLAYER_2_ID, cardIndex: 0, card: createMockDeck(1, 0, 0)[0] }
+    ];
+
+    expect(() => buildReplay(events, [PLAYER_1_ID, PLAYER_2_ID], DEFAULT_RULESET))
+      .toThrow('El historial de la partida no coincide con sus jugadas.');
+  });
+});
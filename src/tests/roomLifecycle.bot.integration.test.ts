@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { addBot, playBotTurn } from '../../functions/src/botOpponent';
+import { createRoom, leaveRoom, requestRematch } from '../../functions/src/roomLifecycle';
+import {
+  createTestDeck,
+  createTestRoom,
+  createTestUser,
+  cleanupTestData
+} from './firebaseTestUtils';
+import type { FirestoreRoom, FirestoreUser } from '@/types';
+
+describe('botOpponent - Bot Integration Tests with Firebase', () => {
+  const ROOM_CODE = 'TEST-BOT-001';
+  const PLAYER_1_ID = 'test-player-1';
+  const PLAYER_2_ID = 'test-player-2';
+  const botIdOf = (roomCode: string): string => `bot-${roomCode}`;
+  const BOT_ID = botIdOf(ROOM_CODE);
+  const roomCodes: string[] = [];
+
+  const getRoom = async (roomCode: string): Promise<FirestoreRoom | undefined> =>
+    (await getDoc(doc(db, 'rooms', roomCode))).data() as FirestoreRoom | undefined;
+
+  beforeEach(async () => {
+    roomCodes.length = 0;
+    roomCodes.push(ROOM_CODE);
+    await createTestDeck();
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1');
+    await createTestUser(PLAYER_2_ID, 'player2@test.com', 'Player 2');
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(roomCodes, [PLAYER_1_ID, PLAYER_2_ID, ...roomCodes.map(botIdOf)]);
+  });
+
+  it('should fill the second seat of a waiting room with a bot', async () => {
+    const roomCode = await createRoom(PLAYER_1_ID);
+    roomCodes.push(roomCode);
+
+    await addBot(PLAYER_1_ID, roomCode, 'hard');
+
+    const botId = botIdOf(roomCode);
+    const room = await getRoom(roomCode);
+    expect(room?.order_players).toEqual([PLAYER_1_ID, botId]);
+    expect(room?.bot).toEqual({ id: botId, difficulty: 'hard' });
+    expect(room?.players[botId].integrity).toBe(0);
+
+    const botUser = (await getDoc(doc(db, 'users', botId))).data() as FirestoreUser;
+    expect(botUser).toMatchObject({ is_bot: true, current_room: roomCode, name: 'Bot (Difícil)' });
+  });
+
+  it('should give each room of the same host its own bot', async () => {
+    await createTestUser(BOT_ID, '', 'Bot (Fácil)', ROOM_CODE);
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, BOT_ID, { status: 'finished', bot: { id: BOT_ID, difficulty: 'easy' } });
+
+    const roomCode = await createRoom(PLAYER_1_ID);
+    roomCodes.push(roomCode);
+    await addBot(PLAYER_1_ID, roomCode, 'hard');
+
+    expect((await getRoom(roomCode))?.bot?.id).toBe(botIdOf(roomCode));
+    expect((await getDoc(doc(db, 'users', botIdOf(roomCode)))).data()?.current_room).toBe(roomCode);
+    expect((await getDoc(doc(db, 'users', BOT_ID))).data()?.current_room).toBe(ROOM_CODE);
+  });
+
+  it('should only let the creator add a bot to a room waiting for a second player', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' });
+
+    await expect(addBot(PLAYER_2_ID, ROOM_CODE, 'easy')).rejects.toThrow('Solo el creador de la sala puede añadir un bot.');
+    await expect(addBot(PLAYER_1_ID, ROOM_CODE, 'easy')).rejects.toThrow('La sala ya tiene dos jugadores.');
+  });
+
+  it('should delete a waiting room when only its bot is left', async () => {
+    const roomCode = await createRoom(PLAYER_1_ID);
+    roomCodes.push(roomCode);
+    await addBot(PLAYER_1_ID, roomCode, 'normal');
+
+    await leaveRoom(PLAYER_1_ID, roomCode);
+
+    expect(await getRoom(roomCode)).toBeUndefined();
+    expect((await getDoc(doc(db, 'users', botIdOf(roomCode)))).data()?.current_room).toBeNull();
+  });
+
+  it('should play the bot\'s draw turn and do nothing on the human\'s turn', async () => {
+    await createTestUser(BOT_ID, '', 'Bot (Fácil)', ROOM_CODE);
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, BOT_ID, { bot: { id: BOT_ID, difficulty: 'easy' } });
+
+    // Human's turn: nothing to do
+    await playBotTurn(PLAYER_1_ID, ROOM_CODE);
+    expect((await getRoom(ROOM_CODE))?.turn_state).toBe('draw');
+
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, BOT_ID, { turn: 1, bot: { id: BOT_ID, difficulty: 'easy' } });
+    await playBotTurn(PLAYER_1_ID, ROOM_CODE);
+
+    const room = await getRoom(ROOM_CODE);
+    expect(room?.turn_state).toBe('decide');
+    expect(room?.card_initiator).toBe(BOT_ID);
+  });
+
+  it('should reject bot turns requested by someone outside the room', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, BOT_ID, { turn: 1, bot: { id: BOT_ID, difficulty: 'easy' } });
+
+    await expect(playBotTurn(PLAYER_2_ID, ROOM_CODE)).rejects.toThrow('No eres parte de esta partida.');
+  });
+
+  it('should accept the human\'s rematch and bring the bot along', async () => {
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1', ROOM_CODE);
+    await createTestUser(BOT_ID, '', 'Bot (Normal)', ROOM_CODE);
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, BOT_ID, {
+      status: 'finished',
+      winner: PLAYER_1_ID,
+      win_reason: 'reached_10_points',
+      bot: { id: BOT_ID, difficulty: 'normal' }
+    });
+
+    await requestRematch(PLAYER_1_ID, ROOM_CODE);
+    await playBotTurn(PLAYER_1_ID, ROOM_CODE);
+
+    const rematchRoomCode = (await getRoom(ROOM_CODE))?.rematch_room;
+    expect(rematchRoomCode).toEqual(expect.any(String));
+    roomCodes.push(rematchRoomCode!);
+
+    const rematchRoom = await getRoom(rematchRoomCode!);
+    expect(rematchRoom?.order_players).toEqual([BOT_ID, PLAYER_1_ID]);
+    expect(rematchRoom?.bot).toEqual({ id: BOT_ID, difficulty: 'normal' });
+  });
+});
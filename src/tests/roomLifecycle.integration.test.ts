@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import {
+  completeIntro,
+  createRoom,
+  joinRoom,
+  leaveRoom,
+  startGame,
+  updateRoomDeck,
+  updateRoomRuleset
+} from '../../functions/src/roomLifecycle';
+import { generateGameDeck } from '../../functions/src/deckDealer';
+import { buildGameDeck } from '@/services/deckService';
+import {
+  createTestCustomDeck,
+  createTestDeck,
+  createTestRoom,
+  createTestUser,
+  cleanupTestData,
+  getTestRoomEvents,
+  getTestRoomSecret,
+  claimCard,
+  selectCard
+} from './firebaseTestUtils';
+import { DEFAULT_RULESET, RULESET_PRESETS } from '@/config/gameConfig';
+import type { FirestoreRoom } from '@/types';
+
+describe('roomLifecycle - Server-authoritative transitions with Firebase', () => {
+  const ROOM_CODE = 'TEST-LIFECYCLE-001';
+  const PLAYER_1_ID = 'test-player-1';
+  const PLAYER_2_ID = 'test-player-2';
+  const OUTSIDER_ID = 'test-outsider';
+
+  const getTestRoom = async (): Promise<FirestoreRoom> =>
+    (await getDoc(doc(db, 'rooms', ROOM_CODE))).data() as FirestoreRoom;
+
+  beforeEach(async () => {
+    await createTestDeck();
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1');
+    await createTestUser(PLAYER_2_ID, 'player2@test.com', 'Player 2');
+    await createTestUser(OUTSIDER_ID, 'outsider@test.com', 'Outsider');
+  });
+
+  afterEach(async () => {
+    await cleanupTestData([ROOM_CODE], [PLAYER_1_ID, PLAYER_2_ID, OUTSIDER_ID]);
+  });
+
+  it('should run a room from waiting to playing with the deck dealt on the server', async () => {
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+    await startGame(PLAYER_1_ID, ROOM_CODE);
+    await completeIntro(PLAYER_2_ID, ROOM_CODE);
+
+    const room = await getTestRoom();
+    expect(room.status).toBe('playing');
+    expect(room.order_players).toEqual([PLAYER_1_ID, PLAYER_2_ID]);
+    expect(room.table_cards[0]).toEqual({ memory: expect.any(String) });
+
+    const secret = await getTestRoomSecret(ROOM_CODE);
+    expect(secret.table_cards[0].authenticity).toBeDefined();
+  });
+
+  it('should log every transition and game action with increasing sequence numbers', async () => {
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+    await startGame(PLAYER_1_ID, ROOM_CODE);
+    await completeIntro(PLAYER_2_ID, ROOM_CODE);
+    await selectCard(ROOM_CODE, 0, PLAYER_1_ID);
+
+    const events = await getTestRoomEvents(ROOM_CODE);
+    expect(events.map(event => event.type)).toEqual([
+      'RoomCreated',
+      'PlayerJoined',
+      'GameStarted',
+      'DeckDealt',
+      'CardSelected'
+    ]);
+    expect(events.map(event => event.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect((await getTestRoom()).event_seq).toBe(5);
+
+    // The dealt deck is logged in full, so the match can be rebuilt from its events
+    const dealt = events[3];
+    expect(dealt.type === 'DeckDealt' && dealt.memoryDeck.length).toBe(DEFAULT_RULESET.deckSize);
+  });
+
+  it('should deal the memories of the deck the creator picked and record its version', async () => {
+    await createTestDeck(30, 'test-retro', { version: 3 });
+
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    expect((await getTestRoom()).deck).toEqual({ id: 'default', version: 1 });
+
+    await updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'test-retro');
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+    await startGame(PLAYER_1_ID, ROOM_CODE);
+    await completeIntro(PLAYER_2_ID, ROOM_CODE);
+
+    const room = await getTestRoom();
+    expect(room.deck).toEqual({ id: 'test-retro', version: 3 });
+    room.table_cards.forEach(card => expect(card.memory).toMatch(/^Test memory test-retro /));
+
+    const events = await getTestRoomEvents(ROOM_CODE);
+    expect(events.find(event => event.type === 'DeckChanged')).toMatchObject({ deck: { id: 'test-retro', version: 3 } });
+  });
+
+  it('should reject decks that are missing or too small for the rules, and changes by the guest', async () => {
+    await createTestDeck(12, 'test-small');
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+
+    await expect(updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'test-missing')).rejects.toThrow('El mazo no existe o está vacío.');
+    await expect(updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'test-small')).rejects.toThrow(`las reglas piden ${DEFAULT_RULESET.deckSize}`);
+    await expect(updateRoomDeck(PLAYER_2_ID, ROOM_CODE, 'default')).rejects.toThrow('Solo el creador de la sala puede cambiar el mazo.');
+
+    // Quick rules need fewer memories: the small deck fits them, and then the classic rules no longer fit it
+    await updateRoomRuleset(PLAYER_1_ID, ROOM_CODE, RULESET_PRESETS.quick.ruleset);
+    await updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'test-small');
+    await expect(updateRoomRuleset(PLAYER_1_ID, ROOM_CODE, DEFAULT_RULESET)).rejects.toThrow('tiene 12 recuerdos');
+  });
+
+  it('should deal from the creator\'s own deck and never from someone else\'s', async () => {
+    await createTestCustomDeck(PLAYER_1_ID, 'mine');
+    await createTestCustomDeck(PLAYER_2_ID, 'theirs');
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+
+    await expect(updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'theirs', true)).rejects.toThrow('El mazo no existe o está vacío.');
+    await expect(updateRoomDeck(PLAYER_2_ID, ROOM_CODE, 'theirs', true)).rejects.toThrow('Solo el creador de la sala puede cambiar el mazo.');
+
+    await updateRoomDeck(PLAYER_1_ID, ROOM_CODE, 'mine', true);
+    await startGame(PLAYER_1_ID, ROOM_CODE);
+    await completeIntro(PLAYER_2_ID, ROOM_CODE);
+
+    const room = await getTestRoom();
+    expect(room.deck).toEqual({ id: 'mine', version: 1, owner_id: PLAYER_1_ID });
+    room.table_cards.forEach(card => expect(card.memory).toMatch(/^Custom memory mine /));
+  });
+
+  it('should deal the same deck again from the deck version and the seed', async () => {
+    const { memoryDeck, deck, seed } = await generateGameDeck('default', DEFAULT_RULESET, { seed: 'partida-42' });
+    const { memoryDeck: otherDeck } = await generateGameDeck('default', DEFAULT_RULESET, { seed: 'partida-43' });
+
+    expect(seed).toBe('partida-42');
+    expect(deck).toEqual({ id: 'default', version: 1 });
+    expect((await generateGameDeck('default', DEFAULT_RULESET, { seed })).memoryDeck).toEqual(memoryDeck);
+    expect(otherDeck).not.toEqual(memoryDeck);
+  });
+
+  it('should keep the seed hidden while playing and publish it once the game finishes', async () => {
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    await joinRoom(PLAYER_2_ID, ROOM_CODE);
+    await startGame(PLAYER_1_ID, ROOM_CODE);
+    await completeIntro(PLAYER_2_ID, ROOM_CODE);
+
+    expect((await getTestRoom()).deck?.seed).toBeUndefined();
+    const { deck_seed: seed, memory_deck: dealtDeck } = await getTestRoomSecret(ROOM_CODE);
+    expect(seed).toEqual(expect.any(String));
+
+    await leaveRoom(PLAYER_1_ID, ROOM_CODE);
+
+    // Anyone can now regenerate the dealt deck from the finished room
+    const room = await getTestRoom();
+    expect(room.deck).toEqual({ id: 'default', version: 1, seed });
+    const memories = Array.from({ length: 45 }, (_, i) => `Test memory default ${i + 1}`);
+    expect(buildGameDeck(memories, DEFAULT_RULESET, room.deck!.seed)).toEqual(dealtDeck);
+  });
+
+  it('should create private rooms unless the creator marks them public', async () => {
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+    expect((await getTestRoom()).is_public).toBe(false);
+
+    await leaveRoom(PLAYER_1_ID, ROOM_CODE);
+    await createRoom(PLAYER_1_ID, ROOM_CODE, DEFAULT_RULESET, true);
+
+    const room = await getTestRoom();
+    expect(room.is_public).toBe(true);
+    expect(room.status).toBe('waiting');
+  });
+
+  it('should reject joining a full room', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' });
+
+    await expect(joinRoom(OUTSIDER_ID, ROOM_CODE)).rejects.toThrow('La sala está llena (máximo 2 jugadores).');
+  });
+
+  it('should reject starting the game by someone other than the creator', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' });
+
+    await expect(startGame(PLAYER_2_ID, ROOM_CODE)).rejects.toThrow('Solo el creador de la sala puede iniciar la partida.');
+    expect((await getTestRoom()).status).toBe('waiting');
+  });
+
+  it('should reject starting the game without an opponent', async () => {
+    await createRoom(PLAYER_1_ID, ROOM_CODE);
+
+    await expect(startGame(PLAYER_1_ID, ROOM_CODE)).rejects.toThrow('Se necesitan exactamente 2 jugadores para iniciar la partida.');
+  });
+
+  it('should reject completing the intro of a game that has not started', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' });
+
+    await expect(completeIntro(PLAYER_1_ID, ROOM_CODE)).rejects.toThrow('La intro no está en progreso. Status actual: waiting');
+  });
+
+  it('should reject completing the intro by someone outside the room', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'intro' });
+
+    await expect(completeIntro(OUTSIDER_ID, ROOM_CODE)).rejects.toThrow('No eres parte de esta partida.');
+  });
+
+  it('should reject game actions out of turn and leave the room untouched', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { turn_state: 'draw', turn: 0 });
+
+    await expect(selectCard(ROOM_CODE, 0, PLAYER_2_ID)).rejects.toThrow();
+    await selectCard(ROOM_CODE, 0, PLAYER_1_ID);
+    await expect(claimCard(ROOM_CODE, PLAYER_2_ID)).rejects.toThrow();
+
+    const room = await getTestRoom();
+    expect(room.turn_state).toBe('decide');
+    expect(room.players[PLAYER_2_ID].integrity).toBe(0);
+  });
+
+  it('should finish the match for the opponent when a player leaves mid-game', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'playing' });
+
+    await leaveRoom(PLAYER_1_ID, ROOM_CODE);
+
+    const room = await getTestRoom();
+    expect(room.status).toBe('finished');
+    expect(room.winner).toBe(PLAYER_2_ID);
+    expect(room.win_reason).toBe('opponent_forfeited');
+  });
+
+  it('should remove a player who leaves a waiting room', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'waiting' });
+
+    await leaveRoom(PLAYER_2_ID, ROOM_CODE);
+
+    const room = await getTestRoom();
+    expect(room.order_players).toEqual([PLAYER_1_ID]);
+    expect(room.players[PLAYER_2_ID]).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { doc, getDoc, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { joinMatchmaking, leaveMatchmaking } from '../../functions/src/matchmaking';
+import {
+  createTestDeck,
+  createTestUser,
+  cleanupTestData
+} from './firebaseTestUtils';
+import { GAME_CONFIG } from '@/config/gameConfig';
+import type { FirestoreMatchmakingEntry, FirestoreRoom } from '@/types';
+
+describe('matchmaking - Queue Integration Tests with Firebase', () => {
+  const PLAYER_1_ID = 'test-player-1';
+  const PLAYER_2_ID = 'test-player-2';
+  const PLAYER_3_ID = 'test-player-3';
+  const roomCodes: string[] = [];
+
+  const getQueueEntry = async (userId: string): Promise<FirestoreMatchmakingEntry | undefined> =>
+    (await getDoc(doc(db, 'matchmaking', userId))).data() as FirestoreMatchmakingEntry | undefined;
+
+  const createWaitingEntry = (rating: number, joinedAt: number): FirestoreMatchmakingEntry => ({
+    rating,
+    status: 'waiting',
+    room_code: null,
+    joinedAt: Timestamp.fromMillis(joinedAt)
+  });
+
+  /**
+   * Joins the queue, keeping the paired room (if any) for cleanup
+   */
+  const join = async (userId: string): Promise<string | null> => {
+    const roomCode = await joinMatchmaking(userId);
+    if (roomCode) {
+      roomCodes.push(roomCode);
+    }
+    return roomCode;
+  };
+
+  beforeEach(async () => {
+    roomCodes.length = 0;
+    await createTestDeck();
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1');
+    await createTestUser(PLAYER_2_ID, 'player2@test.com', 'Player 2');
+    await createTestUser(PLAYER_3_ID, 'player3@test.com', 'Player 3');
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(roomCodes, [PLAYER_1_ID, PLAYER_2_ID, PLAYER_3_ID]);
+  });
+
+  it('should queue the first player and pair the second one into a new room', async () => {
+    expect(await join(PLAYER_1_ID)).toBeNull();
+    expect((await getQueueEntry(PLAYER_1_ID))?.status).toBe('waiting');
+
+    const roomCode = await join(PLAYER_2_ID);
+
+    expect(roomCode).toEqual(expect.any(String));
+    const room = (await getDoc(doc(db, 'rooms', roomCode!))).data() as FirestoreRoom;
+    expect(room.status).toBe('waiting');
+    expect(room.order_players).toEqual([PLAYER_1_ID, PLAYER_2_ID]);
+
+    // The waiting player learns the room from their queue entry
+    expect(await getQueueEntry(PLAYER_1_ID)).toMatchObject({ status: 'matched', room_code: roomCode });
+    expect(await getQueueEntry(PLAYER_2_ID)).toBeUndefined();
+    expect((await getDoc(doc(db, 'users', PLAYER_1_ID))).data()?.current_room).toBe(roomCode);
+    expect((await getDoc(doc(db, 'users', PLAYER_2_ID))).data()?.current_room).toBe(roomCode);
+  });
+
+  it('should pair the waiting player with the closest rating', async () => {
+    // ARRANGE: Two players already waiting, the one with the farther rating for longer
+    await setDoc(doc(db, 'matchmaking', PLAYER_1_ID), createWaitingEntry(1400, Date.now() - 2000));
+    await setDoc(doc(db, 'matchmaking', PLAYER_2_ID), createWaitingEntry(1000, Date.now() - 1000));
+    await updateDoc(doc(db, 'users', PLAYER_3_ID), { rating: 1050 });
+
+    // ACT
+    const roomCode = await join(PLAYER_3_ID);
+
+    // ASSERT
+    const room = (await getDoc(doc(db, 'rooms', roomCode!))).data() as FirestoreRoom;
+    expect(room.order_players).toEqual([PLAYER_2_ID, PLAYER_3_ID]);
+    expect((await getQueueEntry(PLAYER_1_ID))?.status).toBe('waiting');
+  });
+
+  it('should let a waiting player cancel the search', async () => {
+    await join(PLAYER_1_ID);
+
+    await leaveMatchmaking(PLAYER_1_ID);
+
+    expect(await getQueueEntry(PLAYER_1_ID)).toBeUndefined();
+    expect(await join(PLAYER_2_ID)).toBeNull();
+  });
+
+  it('should not let a player cancel the search while their room is being set up', async () => {
+    await setDoc(doc(db, 'matchmaking', PLAYER_1_ID), {
+      ...createWaitingEntry(GAME_CONFIG.rating.initial, Date.now()),
+      status: 'matched'
+    });
+
+    await expect(leaveMatchmaking(PLAYER_1_ID)).rejects.toThrow('Ya se encontró un rival para ti.');
+    await expect(joinMatchmaking(PLAYER_1_ID)).rejects.toThrow('Ya se encontró un rival para ti.');
+  });
+
+  it('should let the waiting player search again after being paired', async () => {
+    await join(PLAYER_1_ID);
+    const firstRoomCode = await join(PLAYER_2_ID);
+
+    // The waiting player followed the pairing into the room and clears their entry
+    await leaveMatchmaking(PLAYER_1_ID);
+    expect(await getQueueEntry(PLAYER_1_ID)).toBeUndefined();
+
+    expect(await join(PLAYER_1_ID)).toBeNull();
+    expect(await getQueueEntry(PLAYER_1_ID)).toMatchObject({ status: 'waiting', room_code: null });
+    const secondRoomCode = await join(PLAYER_3_ID);
+    expect(secondRoomCode).not.toBe(firstRoomCode);
+    expect(await getQueueEntry(PLAYER_1_ID)).toMatchObject({ status: 'matched', room_code: secondRoomCode });
+  });
+
+  it('should treat a pairing left behind (closed tab) as consumed when searching again', async () => {
+    await join(PLAYER_1_ID);
+    await join(PLAYER_2_ID);
+
+    expect(await join(PLAYER_1_ID)).toBeNull();
+    expect(await getQueueEntry(PLAYER_1_ID)).toMatchObject({ status: 'waiting', room_code: null });
+  });
+
+  it('should drop players who waited past the timeout instead of pairing them', async () => {
+    const joinedAt = Date.now() - GAME_CONFIG.matchmaking.timeoutSeconds * 1000 - 1000;
+    await setDoc(doc(db, 'matchmaking', PLAYER_1_ID), createWaitingEntry(GAME_CONFIG.rating.initial, joinedAt));
+
+    expect(await join(PLAYER_2_ID)).toBeNull();
+    expect(await getQueueEntry(PLAYER_1_ID)).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase/config';
+import { requestRematch, acceptRematch } from '../../functions/src/roomLifecycle';
+import {
+  createTestDeck,
+  createTestRoom,
+  createTestUser,
+  cleanupTestData
+} from './firebaseTestUtils';
+import type { FirestoreRoom } from '@/types';
+
+describe('roomLifecycle - Rematch Integration Tests with Firebase', () => {
+  const ROOM_CODE = 'TEST-REMATCH-001';
+  const PLAYER_1_ID = 'test-player-1';
+  const PLAYER_2_ID = 'test-player-2';
+  let rematchRoomCode: string | null = null;
+
+  beforeEach(async () => {
+    rematchRoomCode = null;
+    await createTestDeck();
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1', ROOM_CODE);
+    await createTestUser(PLAYER_2_ID, 'player2@test.com', 'Player 2', ROOM_CODE);
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, {
+      status: 'finished',
+      winner: PLAYER_1_ID,
+      win_reason: 'reached_10_points'
+    });
+  });
+
+  afterEach(async () => {
+    const roomCodes = rematchRoomCode ? [ROOM_CODE, rematchRoomCode] : [ROOM_CODE];
+    await cleanupTestData(roomCodes, [PLAYER_1_ID, PLAYER_2_ID]);
+  });
+
+  it('should create a new room with swapped turn order when the rematch is accepted', async () => {
+    await requestRematch(PLAYER_1_ID, ROOM_CODE);
+
+    rematchRoomCode = await acceptRematch(PLAYER_2_ID, ROOM_CODE);
+
+    const newRoom = (await getDoc(doc(db, 'rooms', rematchRoomCode))).data() as FirestoreRoom;
+    expect(newRoom.status).toBe('intro');
+    expect(newRoom.order_players).toEqual([PLAYER_2_ID, PLAYER_1_ID]);
+    expect(newRoom.players[PLAYER_1_ID].integrity).toBe(0);
+    expect(newRoom.players[PLAYER_2_ID].integrity).toBe(0);
+    expect(newRoom.used_cards).toHaveLength(0);
+
+    const previousRoom = (await getDoc(doc(db, 'rooms', ROOM_CODE))).data() as FirestoreRoom;
+    expect(previousRoom.rematch_room).toBe(rematchRoomCode);
+
+    const player1 = (await getDoc(doc(db, 'users', PLAYER_1_ID))).data();
+    const player2 = (await getDoc(doc(db, 'users', PLAYER_2_ID))).data();
+    expect(player1?.current_room).toBe(rematchRoomCode);
+    expect(player2?.current_room).toBe(rematchRoomCode);
+  });
+
+  it('should throw error when accepting without a pending rematch', async () => {
+    await expect(
+      acceptRematch(PLAYER_2_ID, ROOM_CODE)
+    ).rejects.toThrow('No hay una revancha pendiente de tu oponente.');
+  });
+
+  it('should throw error when accepting your own rematch proposal', async () => {
+    await requestRematch(PLAYER_1_ID, ROOM_CODE);
+
+    await expect(
+      acceptRematch(PLAYER_1_ID, ROOM_CODE)
+    ).rejects.toThrow('No hay una revancha pendiente de tu oponente.');
+  });
+
+  it('should throw error when the opponent already left the room', async () => {
+    await requestRematch(PLAYER_1_ID, ROOM_CODE);
+    await createTestUser(PLAYER_1_ID, 'player1@test.com', 'Player 1', null);
+
+    await expect(
+      acceptRematch(PLAYER_2_ID, ROOM_CODE)
+    ).rejects.toThrow('Tu oponente ya salió de la sala.');
+  });
+
+  it('should throw error when requesting a rematch of an unfinished game', async () => {
+    await createTestRoom(ROOM_CODE, PLAYER_1_ID, PLAYER_2_ID, { status: 'playing' });
+
+    await expect(
+      requestRematch(PLAYER_1_ID, ROOM_CODE)
+    ).rejects.toThrow('Solo puedes pedir revancha cuando la partida ha terminado.');
+  });
+});
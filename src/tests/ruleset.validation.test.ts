@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { validateRuleset } from '@/lib/validations/ruleset';
+import { DEFAULT_RULESET, RULESET_PRESETS } from '@/config/gameConfig';
+import type { Ruleset } from '@/types';
+
+describe('Ruleset validation', () => {
+  it('should accept every preset', () => {
+    Object.values(RULESET_PRESETS).forEach(preset => {
+      expect(validateRuleset(preset.ruleset)).toEqual(preset.ruleset);
+    });
+  });
+
+  it('should reject a distribution that does not match the deck size', () => {
+    const ruleset: Ruleset = { ...DEFAULT_RULESET, deckSize: 20 };
+
+    expect(() => validateRuleset(ruleset)).toThrow('La distribución de cartas debe sumar el tamaño del mazo');
+  });
+
+  it('should reject a non negative loss threshold', () => {
+    const ruleset: Ruleset = { ...DEFAULT_RULESET, lossThreshold: 0 };
+
+    expect(() => validateRuleset(ruleset)).toThrow('El umbral de derrota debe ser negativo');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import {
+  createSeriesData,
+  forfeitSeries,
+  getSeriesScore,
+  getWinsNeeded,
+  recordSeriesGame
+} from '@/services/seriesService';
+import type { FirestoreSeries } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+/**
+ * Creates a best-of-N series with the given wins
+ */
+const createSeries = (bestOf: number, wins: [number, number] = [0, 0]): FirestoreSeries => ({
+  ...createSeriesData([PLAYER_1_ID, PLAYER_2_ID], bestOf, 'ROOM01', Timestamp.now()),
+  wins: { [PLAYER_1_ID]: wins[0], [PLAYER_2_ID]: wins[1] }
+});
+
+describe('Series Service', () => {
+  describe('getWinsNeeded', () => {
+    it('should require a majority of the series games', () => {
+      expect(getWinsNeeded(1)).toBe(1);
+      expect(getWinsNeeded(3)).toBe(2);
+      expect(getWinsNeeded(5)).toBe(3);
+    });
+  });
+
+  describe('createSeriesData', () => {
+    it('should start with no wins and the first room', () => {
+      const series = createSeriesData([PLAYER_1_ID, PLAYER_2_ID], 3, 'ROOM01', Timestamp.now());
+
+      expect(series.wins).toEqual({ [PLAYER_1_ID]: 0, [PLAYER_2_ID]: 0 });
+      expect(series.rooms).toEqual(['ROOM01']);
+      expect(series.status).toBe('in_progress');
+      expect(series.winner).toBeNull();
+    });
+  });
+
+  describe('recordSeriesGame', () => {
+    it('should add a win and keep the series going before the majority', () => {
+      const result = recordSeriesGame(createSeries(3), PLAYER_1_ID);
+
+      expect(result.wins[PLAYER_1_ID]).toBe(1);
+      expect(result.status).toBe('in_progress');
+      expect(result.winner).toBeNull();
+    });
+
+    it('should finish the series when a player reaches the majority', () => {
+      const result = recordSeriesGame(createSeries(5, [1, 2]), PLAYER_2_ID);
+
+      expect(result.wins[PLAYER_2_ID]).toBe(3);
+      expect(result.status).toBe('finished');
+      expect(result.winner).toBe(PLAYER_2_ID);
+    });
+
+    it('should not add wins on a draw', () => {
+      const series = createSeries(3, [1, 1]);
+      const result = recordSeriesGame(series, null);
+
+      expect(result.wins).toEqual(series.wins);
+      expect(result.status).toBe('in_progress');
+    });
+  });
+
+  describe('forfeitSeries', () => {
+    it('should give the series to the remaining player', () => {
+      const result = forfeitSeries(createSeries(5, [2, 0]), PLAYER_2_ID);
+
+      expect(result.wins[PLAYER_2_ID]).toBe(1);
+      expect(result.status).toBe('finished');
+      expect(result.winner).toBe(PLAYER_2_ID);
+    });
+  });
+
+  describe('getSeriesScore', () => {
+    it('should show the score from the viewing player perspective', () => {
+      const series = { ...createSeries(3, [1, 0]), rooms: ['ROOM01', 'ROOM02'] };
+
+      expect(getSeriesScore(series, PLAYER_2_ID)).toEqual({
+        bestOf: 3,
+        gameNumber: 2,
+        playerWins: 0,
+        opponentWins: 1,
+        status: 'in_progress',
+        isSeriesWinner: false
+      });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { toGameState } from '@/services/gameEngine';
+import {
+  EMPTY_PLAYER_STATS,
+  getAverageFinalIntegrity,
+  getMatchStats,
+  getRejectRate,
+  getTotalByReason
+} from '@/services/statsService';
+import { createMockMemoryCard, createMockRoom, createMockRoomSecret } from './testUtils';
+import type { GameEvent, GameState } from '@/types';
+
+const PLAYER_1_ID = 'player1';
+const PLAYER_2_ID = 'player2';
+
+const authentic = createMockMemoryCard('authentic');
+const fatalGlitch = createMockMemoryCard('fatalGlitch');
+
+/**
+ * Creates a finished game state with the given result and final integrities
+ */
+const createFinishedState = (overrides: Partial<GameState>): GameState => ({
+  ...toGameState(createMockRoom(PLAYER_1_ID, PLAYER_2_ID), createMockRoomSecret()),
+  status: 'finished',
+  ...overrides
+});
+
+describe('statsService - getMatchStats', () => {
+  const events: GameEvent[] = [
+    // Player 1 claims their own card
+    { type: 'CardSelected', userId: PLAYER_1_ID, cardIndex: 0, card: authentic },
+    { type: 'CardClaimed', userId: PLAYER_1_ID, card: authentic, multiplier: 1, points: 1 },
+    // Player 2 rejects, player 1 claims it blind
+    { type: 'CardSelected', userId: PLAYER_2_ID, cardIndex: 0, card: authentic },
+    { type: 'CardRejected', userId: PLAYER_2_ID, multiplier: 3 },
+    { type: 'CardClaimed', userId: PLAYER_1_ID, card: authentic, multiplier: 3, points: 3 },
+    // Player 1 rejects a fatal glitch and player 2 forces it back
+    { type: 'CardSelected', userId: PLAYER_1_ID, cardIndex: 1, card: fatalGlitch },
+    { type: 'CardRejected', userId: PLAYER_1_ID, multiplier: 3 },
+    { type: 'CardForcedBack', userId: PLAYER_2_ID, targetId: PLAYER_1_ID, card: fatalGlitch, multiplier: 3, points: -90 },
+    { type: 'GameFinished', winnerId: PLAYER_2_ID, reason: 'opponent_defeated' }
+  ];
+  const state = createFinishedState({
+    players: {
+      [PLAYER_1_ID]: { integrity: -86, items: [] },
+      [PLAYER_2_ID]: { integrity: 0, items: [] }
+    },
+    winner: PLAYER_2_ID,
+    win_reason: 'opponent_defeated'
+  });
+
+  it('should count the result by win reason for both players', () => {
+    const stats = getMatchStats(events, state);
+
+    expect(stats[PLAYER_2_ID].wins).toEqual({ opponent_defeated: 1 });
+    expect(stats[PLAYER_2_ID].losses).toEqual({});
+    expect(stats[PLAYER_1_ID].losses).toEqual({ opponent_defeated: 1 });
+    expect(stats[PLAYER_1_ID].gamesPlayed).toBe(1);
+    expect(stats[PLAYER_1_ID].totalFinalIntegrity).toBe(-86);
+  });
+
+  it('should count claimed memories, received fatal glitches and decisions', () => {
+    const stats = getMatchStats(events, state);
+
+    expect(stats[PLAYER_1_ID].authenticClaimed).toBe(2);
+    expect(stats[PLAYER_1_ID].fatalGlitchesTaken).toBe(1);
+    expect(stats[PLAYER_1_ID].cardsDecided).toBe(2);
+    expect(stats[PLAYER_1_ID].cardsRejected).toBe(1);
+    expect(stats[PLAYER_2_ID].cardsDecided).toBe(1);
+    expect(stats[PLAYER_2_ID].cardsRejected).toBe(1);
+  });
+
+  it('should count a draw for both players', () => {
+    const stats = getMatchStats([], createFinishedState({ winner: null, win_reason: 'draw' }));
+
+    expect(stats[PLAYER_1_ID].draws).toBe(1);
+    expect(stats[PLAYER_2_ID].draws).toBe(1);
+    expect(getTotalByReason(stats[PLAYER_1_ID].wins)).toBe(0);
+  });
+});
+
+describe('statsService - derived stats', () => {
+  it('should compute the reject rate and average final integrity', () => {
+    const stats = { ...EMPTY_PLAYER_STATS, gamesPlayed: 4, totalFinalIntegrity: 10, cardsDecided: 8, cardsRejected: 2 };
+
+    expect(getRejectRate(stats)).toBe(0.25);
+    expect(getAverageFinalIntegrity(stats)).toBe(2.5);
+  });
+
+  it('should return 0 before the first game', () => {
+    expect(getRejectRate(EMPTY_PLAYER_STATS)).toBe(0);
+    expect(getAverageFinalIntegrity(EMPTY_PLAYER_STATS)).toBe(0);
+  });
+});
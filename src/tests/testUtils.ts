@@ -1,4 +1,6 @@
-import type { MemoryCard, FirestoreRoom, Authenticity } from '@/types';
+import type { MemoryCard, FirestoreRoom, FirestoreRoomSecret, Authenticity, ItemCard, ItemEffect } from '@/types';
+import { ITEM_DEFINITIONS } from '@/config/gameConfig';
+import { toPublicCard } from '@/services/hiddenDeck';
 
 /**
  * Creates a mock MemoryCard for testing
@@ -20,6 +22,19 @@ export const createMockMemoryCard = (
   };
 };
 
+/**
+ * Creates a mock ItemCard for testing
+ */
+export const createMockItem = (
+  effect: ItemEffect = 'peek',
+  id: string = `${effect}-1`
+): ItemCard => ({
+  id,
+  name: ITEM_DEFINITIONS[effect].name,
+  description: ITEM_DEFINITIONS[effect].description,
+  effect
+});
+
 /**
  * Creates a mock memory deck with specified authenticity distribution
  */
@@ -45,8 +60,24 @@ export const createMockDeck = (
   return deck;
 };
 
+/**
+ * Creates a mock secret document (hidden deck) for testing
+ * The first 3 cards of the deck are on the table, matching createMockRoom
+ */
+export const createMockRoomSecret = (
+  memoryDeck: MemoryCard[] = createMockDeck(5, 5, 5),
+  overrides?: Partial<FirestoreRoomSecret>
+): FirestoreRoomSecret => ({
+  memory_deck: memoryDeck,
+  table_cards: memoryDeck.slice(0, 3),
+  current_card: null,
+  peeked_cards: {},
+  ...overrides
+});
+
 /**
  * Creates a mock FirestoreRoom for testing
+ * Table cards only carry their memory text (see createMockRoomSecret for the full cards)
  */
 export const createMockRoom = (
   player1Id: string = 'player1',
@@ -72,9 +103,8 @@ export const createMockRoom = (
     lastUpdate: new Date(),
     order_players: [player1Id, player2Id],
     turn: 0,
-    memory_deck: memoryDeck,
     current_card: null,
-    table_cards: memoryDeck.slice(0, 3),
+    table_cards: memoryDeck.slice(0, 3).map(toPublicCard),
     cards_drawn: 3,
     turn_state: 'draw',
     selected_card_index: null,
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { scheduleTurnTimeout } from '@/services/turnTimeoutService';
+import { GAME_CONFIG } from '@/config/gameConfig';
+
+const DEADLINE = new Date('2025-01-01T00:00:30Z').getTime();
+const { timeoutGraceMs, timeoutRetryMs } = GAME_CONFIG.turn;
+
+const notDueYet = () => Promise.reject(new Error('El tiempo del turno aún no se ha agotado.'));
+
+describe('scheduleTurnTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(DEADLINE - 10000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait a grace margin past the deadline before resolving', async () => {
+    const resolve = vi.fn(() => Promise.resolve());
+
+    scheduleTurnTimeout(DEADLINE, resolve);
+    await vi.advanceTimersByTimeAsync(10000 + timeoutGraceMs - 1);
+    expect(resolve).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    // Resolved: nothing else is scheduled
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.max * 4);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry with a growing delay when the first call is rejected as not yet due', async () => {
+    const resolve = vi.fn()
+      .mockImplementationOnce(notDueYet)
+      .mockImplementationOnce(notDueYet)
+      .mockImplementation(() => Promise.resolve());
+
+    // The client's clock runs ahead of the server's: the deadline already passed here
+    vi.setSystemTime(DEADLINE + timeoutGraceMs);
+    scheduleTurnTimeout(DEADLINE, resolve);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.initial);
+    expect(resolve).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.initial);
+    expect(resolve).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.initial);
+    expect(resolve).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.max * 4);
+    expect(resolve).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop retrying once cancelled (the room brought the next deadline)', async () => {
+    const resolve = vi.fn(notDueYet);
+
+    const cancel = scheduleTurnTimeout(DEADLINE, resolve);
+    await vi.advanceTimersByTimeAsync(10000 + timeoutGraceMs);
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    cancel();
+    await vi.advanceTimersByTimeAsync(timeoutRetryMs.max * 4);
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+});
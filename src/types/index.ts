@@ -1,3 +1,11 @@
+// A Firebase Timestamp from either SDK: the web SDK in the app, the admin SDK in Cloud Functions
+export interface FirestoreTimestamp {
+  seconds: number;
+  nanoseconds: number;
+  toDate(): Date;
+  toMillis(): number;
+}
+
 // User types
 export interface User {
   id: string;
@@ -6,6 +14,87 @@ export interface User {
   currentRoom: string | null;
 }
 
+// User document as stored in Firestore (users/{uid})
+export interface FirestoreUser {
+  email: string;
+  name: string;
+  current_room: string | null;
+  stats?: PlayerStats; // Written only by the trusted resolver, missing until the first finished game
+  rating?: number; // Skill rating, written only by the trusted resolver (see ratingService)
+  rated_games?: number; // Finished games counted in the rating
+  is_bot?: boolean; // Bot opponent created by the trusted resolver (see functions/src/botOpponent.ts)
+}
+
+// How carefully a bot weighs claiming against rejecting (see botPlayer)
+export type BotDifficulty = 'easy' | 'normal' | 'hard';
+
+// Bot occupying the second seat of a room; its moves are computed and applied by the trusted resolver
+export interface RoomBot {
+  id: string;
+  difficulty: BotDifficulty;
+}
+
+// Outcome of a rated game for one player
+export type RatingResult = 'win' | 'loss' | 'draw';
+
+// Rating change of a player after a finished game (users/{uid}/rating_history/{roomCode})
+export interface RatingChange {
+  rating: number; // Rating after the game
+  delta: number;
+  result: RatingResult;
+  opponentId: string;
+  opponentRating: number; // Opponent's rating before the game
+}
+
+export interface FirestoreRatingChange extends RatingChange {
+  roomCode: string;
+  createdAt: any; // Firebase Timestamp
+}
+
+// Matchmaking queue entry (matchmaking/{uid}), written only by the trusted resolver
+// The waiting player listens to it to learn the room they were paired into
+export type MatchmakingStatus = 'waiting' | 'matched';
+
+export interface FirestoreMatchmakingEntry {
+  rating: number; // Rating when the player joined the queue (used to pair close ratings)
+  status: MatchmakingStatus;
+  room_code: string | null; // Room of the pairing, once it is created
+  joinedAt: any; // Firebase Timestamp
+}
+
+// A waiting player considered for a pairing
+export interface MatchmakingCandidate {
+  userId: string;
+  rating: number;
+  joinedAt: number; // Milliseconds
+}
+
+// A leaderboard row
+export interface RankedPlayer {
+  id: string;
+  name: string;
+  rating: number;
+  ratedGames: number;
+}
+
+// Wins or losses of a player, counted by how each game was decided
+export type StatsByReason = {
+  [reason in Exclude<WinReason, 'draw'>]?: number;
+};
+
+// Per-player statistics, accumulated when each room finishes (see statsService)
+export interface PlayerStats {
+  gamesPlayed: number;
+  wins: StatsByReason;
+  losses: StatsByReason;
+  draws: number;
+  fatalGlitchesTaken: number; // Fatal glitches the player received (claimed or forced back)
+  authenticClaimed: number; // Authentic memories the player claimed
+  cardsDecided: number; // Own selected cards the player claimed or rejected
+  cardsRejected: number; // Reject rate = cardsRejected / cardsDecided
+  totalFinalIntegrity: number; // Average final integrity = totalFinalIntegrity / gamesPlayed
+}
+
 // Card types
 export type Authenticity = 'authentic' | 'corrupted' | 'fatalGlitch';
 
@@ -15,19 +104,54 @@ export interface MemoryCard {
   value: number; // Points (+1, -1, -10 based on authenticity)
 }
 
+// Card as stored in the client-readable room: authenticity stays hidden until the card is played
+export interface PublicMemoryCard {
+  memory: string;
+}
+
 export interface PlayedCard {
   card: MemoryCard;
   playedBy: string;      // userId of the player who claimed the card
   playedAt: any;         // Firebase Timestamp
   multiplier: number;    // 1 or 3
   wasForced: boolean;    // true if card was forced back via opponentRejectBack
+  timedOut?: boolean;    // true if card was auto-claimed because the turn deadline passed
+  autoSelected?: boolean; // true if card was auto-selected from the table because the draw phase timed out
 }
 
+export type ItemEffect = 'peek' | 'shield' | 'swap' | 'cancel_multiplier';
+
 export interface ItemCard {
-  id: string;
+  id: string; // Unique within the room's item deck (e.g. 'peek-1')
   name: string;
   description: string;
-  effect: string;
+  effect: ItemEffect;
+}
+
+// Target of an item that acts on a table card (peek, swap)
+export interface ItemTarget {
+  cardIndex: number;
+}
+
+// Ruleset types (snapshotted onto each room at creation)
+export type RulesetPresetId = 'classic' | 'quick' | 'marathon';
+
+export interface Ruleset {
+  targetIntegrity: number; // A player reaching this integrity wins
+  lossThreshold: number; // A player at or below this integrity loses
+  rejectMultiplier: number; // Points multiplier applied when a card is rejected
+  deckSize: number; // Total memory cards in the game deck
+  distribution: {
+    authentic: number;
+    corrupted: number;
+    fatalGlitch: number;
+  };
+  pointValues: {
+    authentic: number;
+    corrupted: number;
+    fatalGlitch: number;
+  };
+  tableSize: number; // Cards visible on the table
 }
 
 // Deck types
@@ -56,6 +180,15 @@ export type RoomStatus = 'waiting' | 'intro' | 'playing' | 'finished';
 // Turn state types
 export type TurnState = 'draw' | 'decide' | 'opponent_decide' | 'reveal';
 
+// How a finished game was decided ('draw' means no winner)
+export type WinReason =
+  | 'reached_10_points'
+  | 'opponent_defeated'
+  | 'deck_exhausted'
+  | 'timeout'
+  | 'opponent_forfeited'
+  | 'draw';
+
 export interface Room {
   id: string;
   players: Player[];
@@ -65,10 +198,9 @@ export interface Room {
   lastUpdate: Date;
   orderPlayers: string[];
   turn: number;
-  memoryDeck: MemoryCard[];
-  currentCard: MemoryCard | null;
-  tableCards: MemoryCard[]; // 3 cards visible on the table
-  cardsDrawn: number; // Number of cards drawn from memory_deck
+  currentCard: PublicMemoryCard | null;
+  tableCards: PublicMemoryCard[]; // Cards visible on the table
+  cardsDrawn: number; // Number of cards drawn from the hidden memory deck
   turnState: TurnState; // Current turn state (draw, decide, opponent_decide, reveal)
   selectedCardIndex: number | null; // Index of the card selected from table_cards
   currentMultiplier: number; // Points multiplier (1 or 3)
@@ -79,6 +211,13 @@ export interface Room {
 export interface FirestorePlayer {
   integrity: number;
   items: ItemCard[];
+  shielded?: boolean; // Next negative points applied to this player are blocked
+  timeouts?: number; // Turn deadlines this player let pass (forfeits at GAME_CONFIG.turn.maxTimeouts)
+}
+
+// Player state inside the game engine (peeked cards are kept in the room's secret document)
+export interface GamePlayer extends FirestorePlayer {
+  peeked_cards?: MemoryCard[]; // Table cards whose authenticity this player revealed with a peek item
 }
 
 export interface FirestoreRoom {
@@ -91,18 +230,371 @@ export interface FirestoreRoom {
   lastUpdate: any; // Firebase Timestamp
   order_players: string[];
   turn: number;
-  memory_deck: MemoryCard[];
-  current_card: MemoryCard | null;
-  table_cards: MemoryCard[]; // 3 cards visible on the table
-  cards_drawn: number; // Number of cards drawn from memory_deck
+  current_card: PublicMemoryCard | null; // Card being decided (authenticity only in the initiator's view)
+  table_cards: PublicMemoryCard[]; // Cards visible on the table (empty until the deck is dealt)
+  cards_drawn: number; // Number of cards drawn from the hidden memory deck
   turn_state: TurnState; // Current turn state (draw, decide, opponent_decide, reveal)
   selected_card_index: number | null; // Index of the card selected from table_cards
   current_multiplier: number; // Points multiplier (1 or 3)
   card_initiator: string | null; // UserId of the player who originally selected the card
+  auto_selected?: boolean; // current_card was picked by a draw-phase timeout (missing on older rooms: false)
+  turn_deadline?: number | null; // Epoch ms when the current phase times out (null when not playing)
   used_cards: PlayedCard[]; // Complete history of all cards played in the game
+  item_deck?: ItemCard[]; // Items not yet earned (missing on rooms created before items)
   revealed_real_memories?: string[]; // Track authentic memories that have been claimed
-  winner?: string | null; // UserId of the winner when game is finished
-  win_reason?: string; // Reason for victory ('reached_10_points' | 'opponent_defeated')
+  winner?: string | null; // UserId of the winner when game is finished (null on a draw)
+  win_reason?: WinReason | null; // Reason the game finished
+  ruleset?: Ruleset; // Rules chosen for this room (missing on rooms created before rulesets)
+  rematch_requested_by?: string | null; // Player who proposed a rematch after the game finished
+  rematch_room?: string | null; // Room code both players move to (accepted rematch or next series game)
+  best_of?: number; // Series length chosen in the lobby (1 = single game)
+  series_id?: string | null; // Parent series document when the room is part of a best-of-N series
+  is_public?: boolean; // Listed in the lobby browser while it waits for a second player
+  bot?: RoomBot | null; // Bot playing the second seat (practice game: no stats or rating)
+  deck?: RoomDeck; // Deck the memories are drawn from (missing on rooms created before the deck catalog: the default deck)
+  event_seq?: number; // Sequence number of the last event in rooms/{code}/events (0 = none yet)
+}
+
+// Catalog information of a deck of memories
+export interface DeckMetadata {
+  name: string;
+  language: string; // Language of the memories (ISO 639-1, e.g. 'es')
+  theme: string;
+  size: number; // Number of memories
+  author: string;
+  version: number; // Bumped whenever the memories change
+}
+
+// Deck of memories in decks/{deckId} (catalog, readable by any signed-in user)
+// or users/{uid}/decks/{deckId} (private deck written in the deck editor, only its owner reads it)
+export interface FirestoreDeck extends DeckMetadata {
+  memories: string[];
+}
+
+// Deck as listed in the catalog
+export interface DeckSummary extends DeckMetadata {
+  id: string;
+}
+
+// Deck a room draws from; the version is the one dealt once the game begins
+export interface RoomDeck {
+  id: string;
+  version: number;
+  owner_id?: string; // Private deck of the room creator (users/{owner_id}/decks/{id}), missing for catalog decks
+  seed?: string; // Seed the deck was dealt with, set once the game finishes (while playing it would reveal the cards)
+}
+
+// Hidden part of a room, stored in rooms/{code}/secret/deck
+// Only the trusted resolver (Cloud Functions) can read or write it
+export interface FirestoreRoomSecret {
+  memory_deck: MemoryCard[];
+  table_cards: MemoryCard[];
+  current_card: MemoryCard | null;
+  peeked_cards: {
+    [userId: string]: MemoryCard[];
+  };
+  deck_seed?: string; // Seed the memory deck was dealt with (moved to the room's deck when the game finishes)
+}
+
+// What one player may see of the hidden deck, stored in rooms/{code}/views/{userId}
+// Written by the trusted resolver, readable only by that player
+export interface FirestorePlayerView {
+  current_card: MemoryCard | null; // Set while this player is the card initiator
+  peeked_cards: MemoryCard[];
+}
+
+// Someone watching a room without playing, stored in rooms/{code}/spectators/{userId}
+// Spectators only read the public room document (never a player view or the secret deck)
+export interface FirestoreSpectator {
+  joinedAt: any; // Firebase Timestamp
+}
+
+// Series types (best-of-N matches, one room per game)
+export type SeriesStatus = 'in_progress' | 'finished';
+
+export interface FirestoreSeries {
+  best_of: number; // 3 or 5
+  order_players: string[];
+  wins: {
+    [userId: string]: number;
+  };
+  rooms: string[]; // Room codes of the series games, in play order
+  status: SeriesStatus;
+  winner: string | null; // UserId of the series winner once a majority is reached
+  createdAt: any; // Firebase Timestamp
+  finishedAt: any | null; // Firebase Timestamp
+  lastUpdate: any; // Firebase Timestamp
+}
+
+// Series score from one player's point of view (for UI display)
+export interface SeriesScore {
+  bestOf: number;
+  gameNumber: number;
+  playerWins: number;
+  opponentWins: number;
+  status: SeriesStatus;
+  isSeriesWinner: boolean;
+}
+
+// Game engine types (plain state, no Firestore metadata)
+export interface GameState {
+  players: {
+    [userId: string]: GamePlayer;
+  };
+  status: RoomStatus;
+  order_players: string[];
+  turn: number;
+  memory_deck: MemoryCard[];
+  current_card: MemoryCard | null;
+  table_cards: MemoryCard[];
+  cards_drawn: number;
+  turn_state: TurnState;
+  selected_card_index: number | null;
+  current_multiplier: number;
+  card_initiator: string | null;
+  auto_selected: boolean;
+  deck_seed: string | null; // Seed of the deal (hidden like the deck, null if dealt without one); drives the timeout picks
+  turn_deadline: number | null;
+  used_cards: PlayedCard[];
+  item_deck: ItemCard[];
+  winner: string | null;
+  win_reason: WinReason | null;
+  ruleset: Ruleset;
+}
+
+export type GameAction =
+  | { type: 'select_card'; userId: string; cardIndex: number }
+  | { type: 'claim_card'; userId: string }
+  | { type: 'reject_card'; userId: string }
+  | { type: 'opponent_claim_card'; userId: string }
+  | { type: 'opponent_reject_back'; userId: string }
+  | { type: 'use_item'; userId: string; itemId: string; target?: ItemTarget }
+  | { type: 'resolve_timeout'; userId: string };
+
+export type GameEvent =
+  | { type: 'CardSelected'; userId: string; cardIndex: number; card: MemoryCard }
+  | { type: 'CardRejected'; userId: string; multiplier: number }
+  | { type: 'CardClaimed'; userId: string; card: MemoryCard; multiplier: number; points: number }
+  | { type: 'CardForcedBack'; userId: string; targetId: string; card: MemoryCard; multiplier: number; points: number }
+  | { type: 'ItemEarned'; userId: string; item: ItemCard }
+  | { type: 'ItemUsed'; userId: string; item: ItemCard; target?: ItemTarget }
+  | { type: 'ShieldBlocked'; userId: string; points: number }
+  | { type: 'TurnTimedOut'; userId: string; turnState: TurnState; timeouts: number }
+  | { type: 'GameFinished'; winnerId: string | null; reason: WinReason };
+
+// Room lifecycle events (lobby, start, rematch), logged next to the game events
+export type LobbyEvent =
+  | { type: 'RoomCreated'; userId: string; previousRoomCode: string | null }
+  | { type: 'PlayerJoined'; userId: string }
+  | { type: 'PlayerLeft'; userId: string }
+  | { type: 'RulesetChanged'; userId: string; ruleset: Ruleset }
+  | { type: 'SeriesLengthChanged'; userId: string; bestOf: number }
+  | { type: 'DeckChanged'; userId: string; deck: RoomDeck }
+  | { type: 'GameStarted'; userId: string }
+  | { type: 'DeckDealt'; userId: string; memoryDeck: MemoryCard[]; itemDeck: ItemCard[]; seed?: string }
+  | { type: 'RematchRequested'; userId: string }
+  | { type: 'RematchAccepted'; userId: string; roomCode: string }
+  | { type: 'NextSeriesGameStarted'; userId: string; roomCode: string };
+
+export type RoomEvent = GameEvent | LobbyEvent;
+
+// Append-only match log entry, stored in rooms/{code}/events/{seq}
+// Written by the trusted resolver in the same transaction as the action; readable once the room is finished
+export type FirestoreRoomEvent = RoomEvent & {
+  seq: number; // Monotonically increasing per room, starting at 1
+  createdAt: any; // Firebase Timestamp
+};
+
+// Action of a recorded match: an engine action, or a player leaving (see forfeitMatch)
+export type MatchAction = GameAction | { type: 'forfeit'; userId: string };
+
+// One step of a finished match rebuilt from its event log (see replayService)
+export interface ReplayStep {
+  action: MatchAction | null; // Action that led to this state (null for the dealt table)
+  events: GameEvent[]; // Events of the action that led to this state (empty for the dealt table)
+  state: GameState;
+}
+
+// Portable JSON document of a finished match (see matchExport), read back by importMatch
+export interface MatchExport {
+  version: number; // MATCH_EXPORT_VERSION of the app that wrote it
+  roomCode: string;
+  ruleset: Ruleset;
+  players: { id: string; name: string }[]; // In turn order
+  memoryDeck: MemoryCard[]; // Full deck as dealt, with authenticity
+  itemDeck: ItemCard[];
+  seed?: string; // Seed of the deal, which also picks the cards of draw-phase timeouts (missing on older exports)
+  actions: { action: MatchAction; playedAt: string }[]; // In play order, ISO timestamps
+  startedAt: string; // When the deck was dealt (ISO)
+  finishedAt: string | null;
+  result: {
+    winner: string | null;
+    winReason: WinReason | null;
+    integrity: { [userId: string]: number };
+  };
+}
+
+export type GameErrorCode =
+  | 'not_playing'
+  | 'invalid_turn_state'
+  | 'not_your_turn'
+  | 'invalid_card_index'
+  | 'invalid_target'
+  | 'not_initiator'
+  | 'is_initiator'
+  | 'not_in_game'
+  | 'no_current_card'
+  | 'no_initiator'
+  | 'item_not_owned'
+  | 'item_not_usable'
+  | 'deck_empty'
+  | 'deadline_not_reached'
+  | 'not_in_progress'
+  | 'unknown_action';
+
+export interface GameError {
+  code: GameErrorCode;
+  message: string;
+}
+
+export type ActionResult = { state: GameState; events: GameEvent[] } | GameError;
+
+// Trusted resolver (Cloud Functions) payloads
+// The caller's identity comes from Firebase Auth, never from the payload
+export interface RoomRequest {
+  roomCode: string;
+}
+
+export interface GameActionRequest extends RoomRequest {
+  action: GameAction;
+}
+
+export interface GameActionResponse {
+  events: GameEvent[];
+}
+
+export interface CreateRoomRequest {
+  ruleset?: Ruleset;
+  deckId?: string; // Deck from the catalog (the default deck when omitted)
+  isCustomDeck?: boolean; // deckId is one of the caller's private decks
+  isPublic?: boolean; // List the room in the lobby browser (private by default)
+}
+
+export interface AddBotRequest extends RoomRequest {
+  difficulty: BotDifficulty;
+}
+
+export interface UpdateRulesetRequest extends RoomRequest {
+  ruleset: Ruleset;
+}
+
+export interface UpdateSeriesLengthRequest extends RoomRequest {
+  bestOf: number;
+}
+
+export interface UpdateDeckRequest extends RoomRequest {
+  deckId: string;
+  isCustomDeck?: boolean; // One of the caller's private decks instead of a catalog deck
+}
+
+// Room code of a room created by the server (new room, rematch, next series game)
+export interface RoomCodeResponse {
+  roomCode: string;
+}
+
+// Result of joining the matchmaking queue: the room when paired right away, null while waiting
+export interface MatchmakingResponse {
+  roomCode: string | null;
+}
+
+// Repository layer (see src/repositories): rooms, users, decks, series and the matchmaking queue
+// behind storage-agnostic interfaces
+// Firestore in the app, in memory for offline play, unit tests and simulations
+export type Unsubscribe = () => void;
+
+// Transactional read-modify-write: receives the stored document and returns the one to store
+// Throwing aborts the update and leaves the document untouched
+export type DocumentUpdater<T> = (current: T) => T;
+
+export interface RoomRepository {
+  get(roomCode: string): Promise<FirestoreRoom | null>;
+  // Calls onChange with the current room right away and on every change (null once deleted)
+  subscribe(roomCode: string, onChange: (room: FirestoreRoom | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  // The cards revealed to one player (rooms/{code}/views/{userId})
+  subscribeView(
+    roomCode: string,
+    userId: string,
+    onChange: (view: FirestorePlayerView | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  subscribeSpectatorCount(roomCode: string, onChange: (count: number) => void, onError?: (error: Error) => void): Unsubscribe;
+  // Spectators register themselves (players of the room can't, see firestore.rules)
+  addSpectator(roomCode: string, userId: string, spectator: FirestoreSpectator): Promise<void>;
+  removeSpectator(roomCode: string, userId: string): Promise<void>;
+  // Public waiting rooms updated after the given time, most recently updated first (lobby browser)
+  subscribePublic(
+    updatedAfter: Date,
+    maxRooms: number,
+    onChange: (rooms: PublicRoom[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Event log in sequence order
+  getEvents(roomCode: string): Promise<FirestoreRoomEvent[]>;
+  // Throws if the room doesn't exist (clients can't write rooms in Firestore, see firestore.rules)
+  update(roomCode: string, updater: DocumentUpdater<FirestoreRoom>): Promise<FirestoreRoom>;
+}
+
+export interface PublicRoom {
+  code: string;
+  room: FirestoreRoom;
+}
+
+export interface UserRepository {
+  get(userId: string): Promise<FirestoreUser | null>;
+  subscribe(userId: string, onChange: (user: FirestoreUser | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  create(userId: string, user: FirestoreUser): Promise<void>;
+  // Throws if the user doesn't exist
+  update(userId: string, updater: DocumentUpdater<FirestoreUser>): Promise<FirestoreUser>;
+  // Rated users, best rating first (then most rated games), starting after the given player
+  listByRating(maxPlayers: number, after: RankedPlayer | null): Promise<RankedPlayer[]>;
+  // How many users have a rating strictly above the given one
+  countRatedAbove(rating: number): Promise<number>;
+  // Latest rating changes first (users/{uid}/rating_history)
+  getRatingHistory(userId: string, maxChanges: number): Promise<FirestoreRatingChange[]>;
+}
+
+// Series and queue entries are written only by the trusted resolver: clients just follow them
+export interface SeriesRepository {
+  subscribe(seriesId: string, onChange: (series: FirestoreSeries | null) => void, onError?: (error: Error) => void): Unsubscribe;
+}
+
+export interface MatchmakingRepository {
+  // The player's own queue entry (matchmaking/{uid}), null while not queued
+  subscribe(
+    userId: string,
+    onChange: (entry: FirestoreMatchmakingEntry | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+// Catalog decks, or a user's private decks when an ownerId is given
+export interface DeckRepository {
+  // Every deck, without their memories
+  list(ownerId?: string): Promise<DeckSummary[]>;
+  // A deck with its memories; throws if the deck doesn't exist or is empty
+  get(deckId: string, ownerId?: string): Promise<FirestoreDeck>;
+  // Private decks only (catalog decks are seeded by scripts)
+  create(ownerId: string, deck: FirestoreDeck): Promise<string>;
+  update(ownerId: string, deckId: string, updater: DocumentUpdater<FirestoreDeck>): Promise<FirestoreDeck>;
+  delete(ownerId: string, deckId: string): Promise<void>;
+}
+
+export interface Repositories {
+  rooms: RoomRepository;
+  users: UserRepository;
+  decks: DeckRepository;
+  series: SeriesRepository;
+  matchmaking: MatchmakingRepository;
 }
 
 // Form types
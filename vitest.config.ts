@@ -6,6 +6,10 @@ export default defineConfig({
     globals: true,
     environment: 'node',
     setupFiles: ['./src/tests/setup.ts'],
+    // The trusted resolver (functions/src) uses the Admin SDK against the same emulator
+    env: {
+      FIRESTORE_EMULATOR_HOST: 'localhost:8080'
+    },
     include: ['src/tests/**/*.test.ts'],
     coverage: {
       provider: 'v8',